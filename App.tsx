@@ -1,158 +1,370 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useChatStorage } from './hooks/useChatStorage';
+import { toStorageError } from './services/storage/db';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import type { ChatSession, ChatMessage } from './types';
-import { getLegalAdvice } from './services/geminiService';
+import { useIdleTimeout } from './hooks/useIdleTimeout';
+import { useSpeechRecognition } from './hooks/useSpeechRecognition';
+import { useSpeechSynthesis } from './hooks/useSpeechSynthesis';
+import type { ChatSession, ChatMessage, MessageArtifact, RedactionSettings, UserProfile, VoiceSettings } from './types';
+import { configureAnswerCache, streamLegalAdvice } from './services/apiClient';
+import { classifyError } from './services/errors';
+import type { AiErrorKind } from './services/errors';
 import { RECOMMENDED_TOPICS, FOOTER_LINKS } from './constants';
-import { LogoIcon, MicrophoneIcon, StopCircleIcon } from './components/Icons';
+import { LogoIcon, MicrophoneIcon, StopCircleIcon, HeadphonesIcon } from './components/Icons';
 import ChatBubble from './components/ChatBubble';
+import ChatSidebar from './components/ChatSidebar';
+import CaseReport from './components/CaseReport';
+import CalculatorPanel from './components/CalculatorPanel';
+import ContractChecker from './components/ContractChecker';
+import LawViewer from './components/LawViewer';
+import VoiceControls from './components/VoiceControls';
+import QuickReplies from './components/QuickReplies';
+import LetterWorkspace from './components/LetterWorkspace';
+import ProfilePanel from './components/ProfilePanel';
+import PrivacyPanel from './components/PrivacyPanel';
+import SecurityPanel from './components/SecurityPanel';
+import LockScreen from './components/LockScreen';
+import { makeChatTitle } from './utils/chatHistory';
+import { addArtifact, createArtifact } from './utils/artifacts';
+import { getActivePath, getPathTo, getSiblings, selectBranch } from './utils/conversationTree';
+import { guessLanguage } from './utils/language';
+import { getVoiceLanguage, isBargeIn } from './utils/speech';
+import { isProfileEmpty } from './utils/profile';
+import { DEFAULT_REDACTION_SETTINGS, createRedactor, findPersonalData } from './utils/redaction';
+import { parseViewerHash } from './utils/lawCitations';
+import type { LawRef } from './utils/lawCitations';
+import { createTranslator, getErrorMessage, getLocaleTag, resolveLocale, translate } from './i18n';
+import type { Locale, MessageKey } from './i18n';
+import { I18nProvider } from './i18n/I18nContext';
+import { ChatImportError, downloadFile, exportChatsToJson, exportChatsToMarkdown, mergeChats, parseChatExport, toFileName } from './utils/chatExport';
+import type { ExportFormat } from './utils/chatExport';
 import LoadingSpinner from './components/LoadingSpinner';
 
-// Fix: Add type definitions for Web Speech API to resolve 'Cannot find name 'SpeechRecognition'' error.
-interface SpeechRecognitionAlternative {
-  readonly transcript: string;
-  readonly confidence: number;
+interface UndoAction {
+  label: MessageKey;
+  /** The chat as it was before the action. */
+  chat: ChatSession;
+  index: number;
 }
 
-interface SpeechRecognitionResult {
-  readonly isFinal: boolean;
-  readonly length: number;
-  item(index: number): SpeechRecognitionAlternative;
-  [index: number]: SpeechRecognitionAlternative;
+/** What the letter workspace was opened with; the ids are set when it was opened from an answer. */
+interface LetterContext {
+  situation: string;
+  language: string;
+  chatId?: string;
+  messageId?: string;
 }
 
-interface SpeechRecognitionResultList {
-  readonly length: number;
-  item(index: number): SpeechRecognitionResult;
-  [index: number]: SpeechRecognitionResult;
+/** An answer that could not be fetched. Shown with a retry button, never saved. */
+interface FailedTurn {
+  chatId: string;
+  history: ChatMessage[];
+  kind: AiErrorKind;
+  language: string;
 }
 
-interface SpeechRecognitionEvent extends Event {
-  readonly resultIndex: number;
-  readonly results: SpeechRecognitionResultList;
-}
+const UNDO_TIMEOUT_MS = 6000;
+const NOTICE_TIMEOUT_MS = 5000;
+/** How long a pause in a voice conversation has to be before the question is sent. */
+const VOICE_SILENCE_MS = 1500;
 
-interface SpeechRecognitionErrorEvent extends Event {
-  readonly error: string;
-  readonly message: string;
-}
+/** Minutes without activity before encrypted chats lock themselves. */
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
 
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  abort(): void;
-  onstart: () => void;
-  onresult: (event: SpeechRecognitionEvent) => void;
-  onerror: (event: SpeechRecognitionErrorEvent) => void;
-  onend: () => void;
-}
-
-declare global {
-  interface Window {
-    SpeechRecognition?: new () => SpeechRecognition;
-    webkitSpeechRecognition?: new () => SpeechRecognition;
-  }
-}
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = { recognitionLanguage: 'auto', voices: {}, rate: 1 };
 
 const App: React.FC = () => {
-  const [chats, setChats] = useLocalStorage<ChatSession[]>('chatHistory', []);
+  const {
+    chats, setChats, storageError, dismissStorageError,
+    encryption, unlock, lock, enableEncryption, changePassphrase, disableEncryption, wipeAll,
+  } = useChatStorage();
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [userInput, setUserInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [isListening, setIsListening] = useState(false);
-  const [speechError, setSpeechError] = useState<string | null>(null);
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [failedTurn, setFailedTurn] = useState<FailedTurn | null>(null);
+  const [reportChats, setReportChats] = useState<ChatSession[] | null>(null);
+  const [showCalculators, setShowCalculators] = useState(false);
+  const [showContractChecker, setShowContractChecker] = useState(false);
+  const [letterContext, setLetterContext] = useState<LetterContext | null>(null);
+  const [profile, setProfile] = useLocalStorage<UserProfile>('ai-union-helper-profile', {});
+  const [showProfile, setShowProfile] = useState(false);
+  // Opt-in for the next new chat; existing chats keep their own setting.
+  const [newChatUsesProfile, setNewChatUsesProfile] = useState(false);
+  const [redactionSettings, setRedactionSettings] = useLocalStorage<RedactionSettings>('ai-union-helper-privacy', DEFAULT_REDACTION_SETTINGS);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useLocalStorage('ai-union-helper-autolock', DEFAULT_AUTO_LOCK_MINUTES);
+  const [lawRef, setLawRef] = useState<LawRef | null>(() => parseViewerHash(window.location.hash));
+  const [localeSetting, setLocaleSetting] = useLocalStorage<Locale | 'auto'>('ai-union-helper-locale', 'auto');
+  const [lastAnswerLanguage, setLastAnswerLanguage] = useState<string | null>(null);
+  const [voiceSettings, setVoiceSettings] = useLocalStorage<VoiceSettings>('ai-union-helper-voice', DEFAULT_VOICE_SETTINGS);
+  const [voiceMode, setVoiceMode] = useState(false);
+  // Read by speech callbacks, which can fire before a re-render.
+  const voiceModeRef = useRef(false);
+  const voiceTranscriptRef = useRef('');
+  const silenceTimerRef = useRef<number | undefined>(undefined);
+  const submitVoiceQuestionRef = useRef<() => void>(() => {});
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const messagesRef = useRef<HTMLDivElement>(null);
 
   const activeChat = chats.find(c => c.id === activeChatId);
+  const activePath = activeChat ? getActivePath(activeChat) : [];
+  // Only show the failure while the question it belongs to is the last message on screen.
+  const showFailedTurn = !!failedTurn && failedTurn.chatId === activeChatId
+    && activePath[activePath.length - 1]?.id === failedTurn.history[failedTurn.history.length - 1].id;
+
+  const usesProfile = activeChat ? !!activeChat.useProfile : newChatUsesProfile;
+  const hiddenInInput = useMemo(
+    () => redactionSettings.enabled ? findPersonalData(userInput, redactionSettings).length : 0,
+    [userInput, redactionSettings],
+  );
+  const lastMessage = activePath[activePath.length - 1];
+  const latestAnswer = lastMessage?.role === 'model' ? lastMessage.aiResponseData : undefined;
+
+  // Unless the user picked a language, the UI follows the language the model answers in.
+  const chatLanguage = [...activePath].reverse().find(m => m.aiResponseData)?.aiResponseData?.language;
+  const locale = localeSetting === 'auto' ? resolveLocale(chatLanguage ?? lastAnswerLanguage ?? navigator.language) : localeSetting;
+  const localeTag = getLocaleTag(locale);
+  const t = useMemo(() => createTranslator(locale), [locale]);
 
   useEffect(() => {
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      const recognition = new SpeechRecognition();
-      recognition.continuous = false;
-      recognition.interimResults = true;
-
-      recognition.onstart = () => {
-        setIsListening(true);
-        setSpeechError(null);
-      };
+    document.documentElement.lang = localeTag;
+  }, [localeTag]);
 
-      recognition.onresult = (event: SpeechRecognitionEvent) => {
-        const transcript = Array.from(event.results)
-          .map(result => result[0])
-          .map(result => result.transcript)
-          .join('');
+  const synthesis = useSpeechSynthesis();
+  const recognitionLanguage = voiceSettings.recognitionLanguage === 'auto' ? localeTag : voiceSettings.recognitionLanguage;
+  const recognition = useSpeechRecognition({
+    onTranscript: (transcript) => {
+      if (!voiceModeRef.current) {
         setUserInput(transcript);
-      };
-
-      recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-        // Ensure listening state is reset on any error for a robust UI.
-        setIsListening(false);
-        
-        let errorMessage = "An unknown speech recognition error occurred.";
-        switch (event.error) {
-            case 'network':
-                errorMessage = "Speech recognition failed due to a network error. Please check your connection.";
-                break;
-            case 'not-allowed':
-            case 'service-not-allowed':
-                errorMessage = "Microphone access was denied. Please allow it in your browser settings.";
-                break;
-            case 'no-speech':
-                // Don't show an error for this, as it's common.
-                return; 
-        }
-        console.error('Speech recognition error:', event.error, event.message);
-        setSpeechError(errorMessage);
-      };
+        return;
+      }
+      if (synthesis.playback) {
+        // The microphone also hears the answer being read; only real interruptions stop it.
+        if (!isBargeIn(transcript, synthesis.playback.sentences.join(' '))) return;
+        synthesis.stop();
+        recognition.resetTranscript();
+      }
+      voiceTranscriptRef.current = transcript;
+      setUserInput(transcript);
+      clearTimeout(silenceTimerRef.current);
+      silenceTimerRef.current = window.setTimeout(() => submitVoiceQuestionRef.current(), VOICE_SILENCE_MS);
+    },
+    onError: () => {
+      if (voiceModeRef.current) endVoiceMode();
+    },
+    onEnd: () => {
+      // Browsers end recognition after a while even when continuous; keep the conversation going,
+      // except while an answer is on its way.
+      if (voiceModeRef.current && !abortControllerRef.current) startVoiceListening();
+    },
+  });
 
-      recognition.onend = () => {
-        setIsListening(false);
-      };
-      
-      recognitionRef.current = recognition;
-    } else {
-        console.warn("Speech Recognition API is not supported in this browser.");
+  useEffect(() => {
+    if (notice) {
+      const timer = setTimeout(() => setNotice(null), NOTICE_TIMEOUT_MS);
+      return () => clearTimeout(timer);
     }
-    
-    return () => {
-        recognitionRef.current?.abort();
-    };
-  }, []);
+  }, [notice]);
 
   useEffect(() => {
-    if (speechError) {
-      const timer = setTimeout(() => setSpeechError(null), 5000);
+    if (undoAction) {
+      const timer = setTimeout(() => setUndoAction(null), UNDO_TIMEOUT_MS);
       return () => clearTimeout(timer);
     }
-  }, [speechError]);
+  }, [undoAction]);
 
+  // Law citations are plain #law/... links; the viewer follows the hash.
+  useEffect(() => {
+    const handleHashChange = () => setLawRef(parseViewerHash(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
 
   useEffect(() => {
+    // Don't jump away from highlighted search matches when opening a chat.
+    if (searchQuery.trim()) return;
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [activeChat?.messages]);
+  }, [activeChat?.messages, streamingMessage]);
+
+  useEffect(() => {
+    if (searchQuery.trim()) {
+      messagesRef.current?.querySelector('mark')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [activeChatId]);
+
+  useEffect(() => {
+    synthesis.stop();
+  }, [activeChatId]);
 
   const handleToggleListening = () => {
-    if (!recognitionRef.current) {
-      setSpeechError("Speech recognition is not available in your browser.");
+    if (recognition.isListening) {
+      recognition.stop();
+    } else {
+      setUserInput('');
+      recognition.start(recognitionLanguage, false);
+    }
+  };
+
+  const startVoiceListening = () => {
+    voiceTranscriptRef.current = '';
+    recognition.start(recognitionLanguage, true);
+  };
+
+  const startVoiceMode = () => {
+    voiceModeRef.current = true;
+    setVoiceMode(true);
+    setUserInput('');
+    synthesis.stop();
+    if (recognition.isListening) recognition.abort();
+    else if (!isLoading) startVoiceListening();
+  };
+
+  const endVoiceMode = () => {
+    voiceModeRef.current = false;
+    setVoiceMode(false);
+    clearTimeout(silenceTimerRef.current);
+    recognition.abort();
+    synthesis.stop();
+  };
+
+  /** Reads a model answer aloud with the voice and rate from the voice settings. */
+  const speakAnswer = (message: ChatMessage, onEnd?: () => void) => {
+    const data = message.aiResponseData;
+    if (!data) return;
+    synthesis.speak(message.id, data.answer, {
+      languageTag: data.language,
+      voiceURI: voiceSettings.voices[getVoiceLanguage(data.language)],
+      rate: voiceSettings.rate,
+      onEnd,
+    });
+  };
+
+  const handleToggleSpeech = (message: ChatMessage) => {
+    if (synthesis.playback?.messageId === message.id) {
+      synthesis.stop();
+    } else {
+      speakAnswer(message);
+    }
+  };
+
+  const appendMessage = (chatId: string, message: ChatMessage, changes: Partial<ChatSession> = {}) => {
+    setChats(prev => prev.map(c => c.id === chatId
+      ? { ...c, ...changes, messages: [...c.messages, message], activeLeafId: message.id, updatedAt: Date.now() }
+      : c));
+  };
+
+  /** Tokens are kept per chat, so a detail keeps its token for the whole conversation. */
+  const getRedactor = (chat?: ChatSession) =>
+    redactionSettings.enabled ? createRedactor(redactionSettings, chat?.redactions) : undefined;
+
+  const updateChat = (chatId: string, changes: Partial<ChatSession>) => {
+    const index = chats.findIndex(c => c.id === chatId);
+    if (index === -1) return;
+    const previous = chats[index];
+    setChats(prev => prev.map(c => c.id === chatId ? { ...c, ...changes } : c));
+    return { previous, index };
+  };
+
+  const handleRenameChat = (chatId: string, title: string) => {
+    const result = updateChat(chatId, { title, updatedAt: Date.now() });
+    if (result) setUndoAction({ label: 'chat.renamed', chat: result.previous, index: result.index });
+  };
+
+  const handleTogglePin = (chatId: string) => {
+    const chat = chats.find(c => c.id === chatId);
+    if (chat) updateChat(chatId, { pinned: !chat.pinned });
+  };
+
+  const handleToggleUseProfile = () => {
+    if (activeChat) {
+      updateChat(activeChat.id, { useProfile: !activeChat.useProfile });
+    } else {
+      setNewChatUsesProfile(value => !value);
+    }
+  };
+
+  const handleDeleteChat = (chatId: string) => {
+    const index = chats.findIndex(c => c.id === chatId);
+    if (index === -1) return;
+    setUndoAction({ label: 'chat.deleted', chat: chats[index], index });
+    setChats(prev => prev.filter(c => c.id !== chatId));
+    if (activeChatId === chatId) setActiveChatId(null);
+  };
+
+  const handleUndo = () => {
+    if (!undoAction) return;
+    const { chat, index } = undoAction;
+    setChats(prev => {
+      // Renamed chats are replaced in place; deleted chats are put back where they were.
+      if (prev.some(c => c.id === chat.id)) return prev.map(c => c.id === chat.id ? chat : c);
+      const restored = [...prev];
+      restored.splice(Math.min(index, restored.length), 0, chat);
+      return restored;
+    });
+    setUndoAction(null);
+  };
+
+  const handleExport = (targetChats: ChatSession[], format: ExportFormat) => {
+    if (format === 'report') {
+      setReportChats(targetChats);
       return;
     }
-    
-    if (isListening) {
-      recognitionRef.current.stop();
+    const baseName = targetChats.length === 1
+      ? toFileName(targetChats[0].title)
+      : `ai-union-helper-${new Date().toISOString().substring(0, 10)}`;
+    if (format === 'json') {
+      downloadFile(`${baseName}.json`, exportChatsToJson(targetChats), 'application/json');
     } else {
-      setUserInput(''); 
+      downloadFile(`${baseName}.md`, exportChatsToMarkdown(targetChats, t), 'text/markdown');
+    }
+  };
+
+  const handleImport = async (files: FileList) => {
+    const imported: ChatSession[] = [];
+    for (const file of Array.from(files)) {
       try {
-        recognitionRef.current.start();
-      } catch (e) {
-        console.error("Could not start speech recognition:", e);
-        setSpeechError("Could not start listening. Please try again.");
+        imported.push(...parseChatExport(await file.text()));
+      } catch (error) {
+        const kind = error instanceof ChatImportError ? error.kind : 'unreadable';
+        setNotice(t('chat.importFailed', { file: file.name, error: t(`chat.importError.${kind}`) }));
+        return;
       }
     }
+    const { addedChats, addedMessages } = mergeChats(chats, imported);
+    setChats(prev => mergeChats(prev, imported).chats);
+    setNotice(t('chat.imported', {
+      chats: t('chat.importedChats', { count: addedChats }),
+      messages: t('chat.importedMessages', { count: addedMessages }),
+    }));
+  };
+
+  const handleAddArtifact = (chatId: string, messageId: string, artifact: MessageArtifact) => {
+    setChats(prev => prev.map(c => c.id === chatId
+      ? { ...c, messages: c.messages.map(m => m.id === messageId ? addArtifact(m, artifact) : m) }
+      : c));
+  };
+
+  const handleDraftLetter = (chatId: string, message: ChatMessage, question: ChatMessage | null) => {
+    const data = message.aiResponseData;
+    if (!data) return;
+    setLetterContext({
+      situation: question ? `Question: ${question.text}\nAnswer: ${data.answer}` : data.answer,
+      language: data.language,
+      chatId,
+      messageId: message.id,
+    });
+  };
+
+  const handleSelectChat = (chatId: string) => {
+    setActiveChatId(chatId);
   };
 
   const handleNewChat = () => {
@@ -164,171 +376,495 @@ const App: React.FC = () => {
     setUserInput(topic);
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!userInput.trim() || isLoading) return;
+  const handleCloseLawViewer = () => {
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    setLawRef(null);
+  };
 
-    if(isListening) {
-      recognitionRef.current?.abort();
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /** Locks the encrypted chats and drops everything from them that is still on screen. */
+  const handleLock = () => {
+    abortControllerRef.current?.abort();
+    if (voiceModeRef.current) endVoiceMode();
+    synthesis.stop();
+    setActiveChatId(null);
+    setUserInput('');
+    setStreamingMessage(null);
+    setFailedTurn(null);
+    setUndoAction(null);
+    setReportChats(null);
+    setLetterContext(null);
+    setShowSecurity(false);
+    lock();
+  };
+
+  useIdleTimeout(encryption === 'unlocked' && autoLockMinutes > 0 ? autoLockMinutes * 60_000 : null, handleLock);
+
+  const handleWipe = async () => {
+    handleLock();
+    try {
+      await wipeAll();
+      window.location.reload();
+    } catch (error) {
+      window.alert(t(`storage.${toStorageError(error).kind}`));
     }
+  };
+
+  // Cached answers contain the question, so they only outlive the tab while the history is not encrypted.
+  useEffect(() => {
+    configureAnswerCache({ persist: encryption === 'off' });
+  }, [encryption]);
 
+  /**
+   * Streams an answer to the last message of `history` and adds it to the chat as its reply.
+   * `refresh` asks the model again instead of reusing a cached answer.
+   */
+  const requestAnswer = async (chatId: string, history: ChatMessage[], { refresh = false }: { refresh?: boolean } = {}) => {
     setIsLoading(true);
-    const userMessage: ChatMessage = { id: Date.now().toString(), role: 'user', text: userInput.trim() };
+    setFailedTurn(null);
+    const parentId = history[history.length - 1].id;
+    const previousLanguage = [...history].reverse().find(m => m.aiResponseData)?.aiResponseData?.language;
+    const aiMessageId = (Date.now() + 1).toString();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // A chat created for this question is not in `chats` yet; it was created with the new-chat setting.
+    const chat = chats.find(c => c.id === chatId);
+    const shareProfile = (chat ? chat.useProfile : newChatUsesProfile) && !isProfileEmpty(profile);
+    const redactor = getRedactor(chat);
+
+    try {
+      const { data: aiResponseData, interrupted } = await streamLegalAdvice(history, {
+        signal: abortController.signal,
+        fallbackLanguage: previousLanguage || localeTag,
+        profile: shareProfile ? profile : undefined,
+        redactor,
+        refresh,
+        onAnswer: (answer) => setStreamingMessage({
+          id: aiMessageId,
+          role: 'model',
+          text: answer,
+          parentId,
+          aiResponseData: { answer, relatedTopics: [], sourceLinks: [], language: previousLanguage || localeTag },
+        }),
+      });
+      // Stopped before any text arrived: there is nothing worth keeping.
+      if (interrupted && !aiResponseData.answer.trim()) return;
+      const aiMessage: ChatMessage = {
+        id: aiMessageId,
+        role: 'model',
+        text: aiResponseData.answer,
+        aiResponseData,
+        createdAt: Date.now(),
+        parentId,
+        ...(interrupted ? { interrupted } : {}),
+      };
+      appendMessage(chatId, aiMessage, redactor ? { redactions: { ...redactor.replacements } } : {});
+      setLastAnswerLanguage(aiResponseData.language);
+      // Anything heard while the answer was read is echo, unless it interrupted the answer.
+      if (voiceModeRef.current) speakAnswer(aiMessage, () => recognition.resetTranscript());
+    } catch (error) {
+      // Failed turns are kept out of the chat history; they can be retried instead.
+      const question = history[history.length - 1].text;
+      setFailedTurn({
+        chatId,
+        history,
+        kind: classifyError(error).kind,
+        language: previousLanguage || guessLanguage(question, localeTag),
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingMessage(null);
+      setIsLoading(false);
+      // Listen during playback too, so the user can talk over the answer.
+      if (voiceModeRef.current) startVoiceListening();
+    }
+  };
 
-    let currentChatId = activeChatId;
+  /** Adds a question to the active chat, or to a new chat, and asks for the answer. */
+  const sendQuestion = async (question: string, { newChat = false }: { newChat?: boolean } = {}) => {
+    const targetChat = newChat ? undefined : activeChat;
+    const path = targetChat ? getActivePath(targetChat) : [];
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: question,
+      createdAt: Date.now(),
+      parentId: path.length > 0 ? path[path.length - 1].id : null,
+    };
+
+    let currentChatId = targetChat?.id ?? null;
     if (!currentChatId) {
+      const now = Date.now();
       const newChat: ChatSession = {
-        id: Date.now().toString(),
-        title: userInput.trim().substring(0, 30) + (userInput.length > 30 ? '...' : ''),
+        id: now.toString(),
+        title: makeChatTitle(question),
         messages: [userMessage],
+        createdAt: now,
+        updatedAt: now,
+        activeLeafId: userMessage.id,
+        ...(newChatUsesProfile ? { useProfile: true } : {}),
       };
       setChats(prev => [newChat, ...prev]);
       setActiveChatId(newChat.id);
       currentChatId = newChat.id;
     } else {
-      setChats(prev => prev.map(c => c.id === currentChatId ? { ...c, messages: [...c.messages, userMessage] } : c));
+      appendMessage(currentChatId, userMessage);
     }
 
-    setUserInput('');
+    await requestAnswer(currentChatId, [...path, userMessage]);
+  };
 
-    try {
-      const aiResponseData = await getLegalAdvice(userMessage.text);
-      const aiMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: aiResponseData.answer,
-        aiResponseData,
-      };
-      setChats(prev => prev.map(c => c.id === currentChatId ? { ...c, messages: [...c.messages, aiMessage] } : c));
-    } catch (error) {
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: "I'm sorry, but I encountered an error. Please try again.",
-        aiResponseData: { 
-            answer: "Error: Could not connect to AI service.", 
-            relatedTopics: [], 
-            sourceLinks: [],
-            language: 'en-US'
-        }
-      };
-      setChats(prev => prev.map(c => c.id === currentChatId ? { ...c, messages: [...c.messages, errorMessage] } : c));
-    } finally {
-      setIsLoading(false);
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userInput.trim() || isLoading) return;
+
+    if (recognition.isListening) {
+      recognition.abort();
     }
+    clearTimeout(silenceTimerRef.current);
+
+    const question = userInput.trim();
+    setUserInput('');
+    await sendQuestion(question);
+  };
+
+  submitVoiceQuestionRef.current = () => {
+    const question = voiceTranscriptRef.current.trim();
+    if (!question || isLoading) return;
+    voiceTranscriptRef.current = '';
+    setUserInput('');
+    recognition.abort();
+    sendQuestion(question);
+  };
+
+  /** Asks a suggested question or related topic as a follow-up in the active chat. */
+  const handleAskFollowUp = async (question: string) => {
+    if (isLoading) return;
+    await sendQuestion(question);
+  };
+
+  const handleAnswerClarifying = (question: string) => {
+    setUserInput(`${question} `);
+    requestAnimationFrame(() => {
+      const input = inputRef.current;
+      if (!input) return;
+      input.focus();
+      input.setSelectionRange(input.value.length, input.value.length);
+    });
+  };
+
+  const handleDiscussContract = async (question: string) => {
+    setShowContractChecker(false);
+    if (isLoading) return;
+    await sendQuestion(question, { newChat: true });
+  };
+
+  const handleRetryFailedTurn = async () => {
+    if (!failedTurn || isLoading) return;
+    await requestAnswer(failedTurn.chatId, failedTurn.history);
+  };
+
+  /** Asks the model again for the question a model message answered; the new answer becomes a sibling. */
+  const handleRegenerate = async (modelMessage: ChatMessage) => {
+    if (!activeChat || isLoading || !modelMessage.parentId) return;
+    await requestAnswer(activeChat.id, getPathTo(activeChat, modelMessage.parentId), { refresh: true });
+  };
+
+  /** Sends an edited copy of a question as a sibling of the original, keeping the original branch. */
+  const handleEditAndResend = async (userMessage: ChatMessage, text: string) => {
+    if (!activeChat || isLoading || !text.trim()) return;
+    const parentPath = userMessage.parentId ? getPathTo(activeChat, userMessage.parentId) : [];
+    const editedMessage: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: text.trim(),
+      createdAt: Date.now(),
+      parentId: userMessage.parentId ?? null,
+    };
+    appendMessage(activeChat.id, editedMessage);
+    await requestAnswer(activeChat.id, [...parentPath, editedMessage]);
+  };
+
+  const handleSelectBranch = (messageId: string) => {
+    if (!activeChat) return;
+    setChats(prev => prev.map(c => c.id === activeChat.id ? selectBranch(c, messageId) : c));
   };
 
+  if (encryption === 'locked') {
+    return (
+      <I18nProvider locale={locale}>
+        <LockScreen onUnlock={unlock} onWipe={handleWipe} />
+      </I18nProvider>
+    );
+  }
+
+  if (reportChats) {
+    return (
+      <I18nProvider locale={locale}>
+        <CaseReport chats={reportChats} onClose={() => setReportChats(null)} />
+      </I18nProvider>
+    );
+  }
+
   return (
-    <div className="flex h-screen font-sans bg-slate-900 text-slate-200">
-      {/* Sidebar for Chat History */}
-      <aside className="w-1/4 bg-slate-950 flex flex-col p-4 border-r border-slate-800">
-        <header className="flex items-center gap-2 p-2 mb-4">
-          <LogoIcon className="w-8 h-8 text-blue-400" />
-          <h1 className="text-xl font-bold">AI Union Helper</h1>
-        </header>
-        <button 
-          onClick={handleNewChat}
-          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors mb-4"
-        >
-          + New Chat
-        </button>
-        <div className="flex-1 overflow-y-auto">
-          <h2 className="text-sm font-semibold text-slate-400 mb-2 px-2">Your previous chats</h2>
-          <nav>
-            {chats.map(chat => (
-              <a
-                key={chat.id}
-                href="#"
-                onClick={(e) => { e.preventDefault(); setActiveChatId(chat.id); }}
-                className={`block p-2 rounded-lg truncate ${activeChatId === chat.id ? 'bg-slate-800' : 'hover:bg-slate-800/50'}`}
-              >
-                {chat.title}
-              </a>
-            ))}
-          </nav>
-        </div>
-      </aside>
-
-      {/* Main Chat Area */}
-      <main className="flex-1 flex flex-col">
-        <div className="flex-1 overflow-y-auto p-4 md:p-8">
-          {activeChat ? (
-            <div className="space-y-4">
-              {activeChat.messages.map((msg, index) => (
-                <ChatBubble 
-                  key={msg.id} 
-                  message={msg} 
-                  userQuestionMessage={
-                    msg.role === 'model' && index > 0 && activeChat.messages[index - 1].role === 'user' 
-                      ? activeChat.messages[index - 1] 
-                      : null
-                  } 
-                />
-              ))}
-              <div ref={chatEndRef} />
+    <I18nProvider locale={locale}>
+      <div className="flex h-screen font-sans bg-slate-900 text-slate-200">
+        {/* Sidebar for Chat History */}
+        <ChatSidebar
+          chats={chats}
+          activeChatId={activeChatId}
+          searchQuery={searchQuery}
+          onSearchChange={setSearchQuery}
+          onSelectChat={handleSelectChat}
+          onNewChat={handleNewChat}
+          onRenameChat={handleRenameChat}
+          onDeleteChat={handleDeleteChat}
+          onTogglePin={handleTogglePin}
+          onExportAll={(format) => handleExport(chats, format)}
+          onImport={handleImport}
+          onOpenCalculators={() => setShowCalculators(true)}
+          onOpenContractChecker={() => setShowContractChecker(true)}
+          onOpenLetters={() => setLetterContext({ situation: '', language: localeTag })}
+          onOpenProfile={() => setShowProfile(true)}
+          onOpenSecurity={() => setShowSecurity(true)}
+          localeSetting={localeSetting}
+          onLocaleSettingChange={setLocaleSetting}
+        />
+        {showCalculators && <CalculatorPanel onClose={() => setShowCalculators(false)} />}
+        {lawRef && <LawViewer lawRef={lawRef} onClose={handleCloseLawViewer} />}
+        {showProfile && <ProfilePanel profile={profile} onChange={setProfile} onClose={() => setShowProfile(false)} />}
+        {showPrivacy && (
+          <PrivacyPanel
+            settings={redactionSettings}
+            onChange={setRedactionSettings}
+            text={userInput}
+            replacements={activeChat?.redactions}
+            onClose={() => setShowPrivacy(false)}
+          />
+        )}
+        {showSecurity && (
+          <SecurityPanel
+            encryption={encryption}
+            autoLockMinutes={autoLockMinutes}
+            onAutoLockMinutesChange={setAutoLockMinutes}
+            onEnable={enableEncryption}
+            onChangePassphrase={changePassphrase}
+            onDisable={disableEncryption}
+            onLock={handleLock}
+            onWipe={handleWipe}
+            onClose={() => setShowSecurity(false)}
+          />
+        )}
+        {letterContext && (
+          <LetterWorkspace
+            initialSituation={letterContext.situation}
+            initialLanguage={letterContext.language}
+            onClose={() => setLetterContext(null)}
+            onSave={letterContext.chatId && letterContext.messageId
+              ? (text) => handleAddArtifact(letterContext.chatId!, letterContext.messageId!, createArtifact('emailDraft', text))
+              : undefined}
+            redactor={getRedactor()}
+          />
+        )}
+        {showContractChecker && (
+          <ContractChecker onClose={() => setShowContractChecker(false)} onDiscuss={handleDiscussContract} redactor={getRedactor()} />
+        )}
+
+        {/* Main Chat Area */}
+        <main className="flex-1 flex flex-col">
+          {activeChat && (
+            <div className="flex items-center gap-2 px-4 md:px-8 py-2 border-b border-slate-800 text-xs text-slate-400">
+              <h2 className="flex-1 truncate text-sm font-semibold text-slate-200">{activeChat.title}</h2>
+              <button onClick={() => handleExport([activeChat], 'json')} className="px-2 py-1 rounded-md hover:bg-slate-800">{t('chat.exportJson')}</button>
+              <button onClick={() => handleExport([activeChat], 'markdown')} className="px-2 py-1 rounded-md hover:bg-slate-800">{t('chat.exportMarkdown')}</button>
+              <button onClick={() => handleExport([activeChat], 'report')} className="px-2 py-1 rounded-md hover:bg-slate-800">{t('chat.caseReport')}</button>
             </div>
-          ) : (
-            <div className="text-center mt-20">
-              <LogoIcon className="w-16 h-16 text-blue-500 mx-auto mb-4" />
-              <h2 className="text-3xl font-bold mb-4">How can I help you today?</h2>
-              <p className="text-slate-400 mb-8">Ask me anything about Norwegian labor law.</p>
-
-              <div className="max-w-2xl mx-auto">
-                  <h3 className="text-lg font-semibold mb-4">Recommended legal topics</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {RECOMMENDED_TOPICS.map(topic => (
-                        <button key={topic} onClick={() => handleTopicSelect(topic)} className="p-4 bg-slate-800 hover:bg-slate-700 rounded-lg text-left shadow-md transition-all">
-                            {topic}
-                        </button>
-                    ))}
-                  </div>
-              </div>
+          )}
+          {storageError && (
+            <div className="flex items-center gap-4 px-4 md:px-8 py-2 bg-red-900/60 text-red-100 text-sm" role="alert">
+              <p className="flex-1">{t(`storage.${storageError}`)}</p>
+              <button onClick={dismissStorageError} className="font-semibold hover:underline">{t('common.dismiss')}</button>
             </div>
           )}
-        </div>
-
-        {/* Input Form */}
-        <div className="p-4 md:p-8 border-t border-slate-800 bg-slate-900/50 backdrop-blur-sm">
-          <form onSubmit={handleSubmit} className="max-w-4xl mx-auto bg-slate-800 rounded-lg p-2 flex items-center gap-2 shadow-lg">
-            <button
-                type="button"
-                onClick={handleToggleListening}
-                disabled={!recognitionRef.current}
-                className={`p-2 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isListening ? 'bg-red-500 text-white animate-pulse' : 'hover:bg-slate-700'}`}
-                aria-label={isListening ? 'Stop listening' : 'Start listening'}
+          <div className="flex-1 overflow-y-auto p-4 md:p-8">
+            {activeChat ? (
+              <div ref={messagesRef} className="space-y-4">
+                {activePath.map((msg, index) => (
+                  <ChatBubble 
+                    key={msg.id} 
+                    message={msg} 
+                    userQuestionMessage={
+                      msg.role === 'model' && index > 0 && activePath[index - 1].role === 'user' 
+                        ? activePath[index - 1] 
+                        : null
+                    } 
+                    highlight={searchQuery.trim() || undefined}
+                    onAddArtifact={(messageId, artifact) => handleAddArtifact(activeChat.id, messageId, artifact)}
+                    siblings={getSiblings(activeChat, msg)}
+                    onSelectBranch={handleSelectBranch}
+                    onRegenerate={msg.role === 'model' ? () => handleRegenerate(msg) : undefined}
+                    onEditAndResend={msg.role === 'user' ? (text) => handleEditAndResend(msg, text) : undefined}
+                    actionsDisabled={isLoading}
+                    playback={synthesis.playback?.messageId === msg.id ? synthesis.playback : null}
+                    onToggleSpeech={msg.role === 'model' && synthesis.isSupported ? () => handleToggleSpeech(msg) : undefined}
+                    onAskFollowUp={msg.role === 'model' ? handleAskFollowUp : undefined}
+                    onDraftLetter={msg.role === 'model' ? () => handleDraftLetter(activeChat.id, msg, index > 0 ? activePath[index - 1] : null) : undefined}
+                    redactor={getRedactor(activeChat)}
+                  />
+                ))}
+                {streamingMessage && (
+                  <ChatBubble message={streamingMessage} userQuestionMessage={null} isStreaming />
+                )}
+                {showFailedTurn && failedTurn && (
+                  <div className="flex items-center gap-4 p-4 rounded-lg border border-red-900 bg-red-950/40 text-sm text-red-200" role="alert" lang={failedTurn.language}>
+                    <p className="flex-1">{getErrorMessage(failedTurn.kind, failedTurn.language)}</p>
+                    <button onClick={handleRetryFailedTurn} disabled={isLoading} className="px-3 py-1 rounded-md bg-red-800 hover:bg-red-700 text-white font-semibold disabled:opacity-50">
+                      {translate(resolveLocale(failedTurn.language), 'common.retry')}
+                    </button>
+                  </div>
+                )}
+                <div ref={chatEndRef} />
+              </div>
+            ) : (
+              <div className="text-center mt-20">
+                <LogoIcon className="w-16 h-16 text-blue-500 mx-auto mb-4" />
+                <h2 className="text-3xl font-bold mb-4">{t('welcome.title')}</h2>
+                <p className="text-slate-400 mb-8">{t('welcome.subtitle')}</p>
+
+                <div className="max-w-2xl mx-auto">
+                    <h3 className="text-lg font-semibold mb-4">{t('welcome.topics')}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {RECOMMENDED_TOPICS[locale].map(topic => (
+                          <button key={topic} onClick={() => handleTopicSelect(topic)} className="p-4 bg-slate-800 hover:bg-slate-700 rounded-lg text-left shadow-md transition-all">
+                              {topic}
+                          </button>
+                      ))}
+                    </div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Input Form */}
+          <div className="p-4 md:p-8 border-t border-slate-800 bg-slate-900/50 backdrop-blur-sm">
+            {voiceMode && (
+              <VoiceControls
+                status={isLoading ? 'thinking' : synthesis.playback ? 'speaking' : recognition.isListening ? 'listening' : 'idle'}
+                settings={voiceSettings}
+                onSettingsChange={setVoiceSettings}
+                voices={synthesis.voices}
+                answerLanguage={chatLanguage ?? lastAnswerLanguage ?? localeTag}
+                onInterrupt={() => {
+                  synthesis.stop();
+                  recognition.resetTranscript();
+                }}
+                onEnd={endVoiceMode}
+              />
+            )}
+            {latestAnswer && !isLoading && (
+              <QuickReplies
+                followUpQuestions={latestAnswer.followUpQuestions ?? []}
+                clarifyingQuestions={latestAnswer.clarifyingQuestions ?? []}
+                onAsk={handleAskFollowUp}
+                onAnswer={handleAnswerClarifying}
+              />
+            )}
+            <div className="max-w-4xl mx-auto mb-2 flex items-center gap-2 text-xs text-slate-400">
+              {isProfileEmpty(profile) ? (
+                <button onClick={() => setShowProfile(true)} className="hover:text-slate-200 hover:underline">{t('profile.setUp')}</button>
+              ) : (
+                <>
+                  <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input type="checkbox" checked={usesProfile} onChange={handleToggleUseProfile} className="accent-blue-500" />
+                    {t('profile.use')}
+                  </label>
+                  <button onClick={() => setShowProfile(true)} className="hover:text-slate-200 hover:underline">{t('profile.edit')}</button>
+                </>
+              )}
+              <button
+                onClick={() => setShowPrivacy(true)}
+                className={`ml-auto hover:underline ${hiddenInInput > 0 ? 'text-amber-300' : 'hover:text-slate-200'}`}
               >
-                {isListening ? <StopCircleIcon className="w-5 h-5" /> : <MicrophoneIcon className="w-5 h-5" />}
-            </button>
-            <textarea
-              value={userInput}
-              onChange={(e) => setUserInput(e.target.value)}
-              onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmit(e); } }}
-              placeholder={isListening ? "Listening..." : "Describe your situation..."}
-              className="w-full bg-transparent p-2 resize-none focus:outline-none text-slate-200"
-              rows={1}
-            />
-            <button
-              type="submit"
-              disabled={isLoading || !userInput.trim()}
-              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed flex items-center justify-center h-10 w-40"
-            >
-              {isLoading ? <LoadingSpinner size={20} /> : "Ask AI Lawyer"}
-            </button>
-          </form>
-           {speechError && (
-            <p className="text-center text-xs text-red-400 mt-2 animate-pulse">{speechError}</p>
-          )}
-          <footer className="text-center text-xs text-slate-500 mt-4">
-            {FOOTER_LINKS.map(link => (
-              <a key={link.name} href={link.url} target="_blank" rel="noopener noreferrer" className="mx-2 hover:text-slate-300">
-                {link.name}
-              </a>
-            ))}
-            <p className="mt-1">AI can make mistakes. Consider checking important information.</p>
-          </footer>
-        </div>
-      </main>
-    </div>
+                🛡 {!redactionSettings.enabled ? t('privacy.off') : hiddenInInput > 0 ? t('privacy.hiddenCount', { count: hiddenInInput }) : t('privacy.on')}
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="max-w-4xl mx-auto bg-slate-800 rounded-lg p-2 flex items-center gap-2 shadow-lg">
+              <button
+                  type="button"
+                  onClick={handleToggleListening}
+                  disabled={!recognition.isSupported || voiceMode}
+                  className={`p-2 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${recognition.isListening && !voiceMode ? 'bg-red-500 text-white animate-pulse' : 'hover:bg-slate-700'}`}
+                  aria-label={recognition.isListening ? t('input.stopListening') : t('input.startListening')}
+                >
+                  {recognition.isListening && !voiceMode ? <StopCircleIcon className="w-5 h-5" /> : <MicrophoneIcon className="w-5 h-5" />}
+              </button>
+              <button
+                  type="button"
+                  onClick={voiceMode ? endVoiceMode : startVoiceMode}
+                  disabled={!recognition.isSupported}
+                  className={`p-2 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${voiceMode ? 'bg-blue-600 text-white' : 'hover:bg-slate-700'}`}
+                  aria-label={voiceMode ? t('voice.end') : t('voice.start')}
+                  aria-pressed={voiceMode}
+                  title={voiceMode ? t('voice.end') : t('voice.start')}
+                >
+                  <HeadphonesIcon className="w-5 h-5" />
+              </button>
+              <textarea
+                ref={inputRef}
+                value={userInput}
+                onChange={(e) => setUserInput(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmit(e); } }}
+                placeholder={recognition.isListening ? t('input.listening') : t('input.placeholder')}
+                className="w-full bg-transparent p-2 resize-none focus:outline-none text-slate-200"
+                rows={1}
+              />
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  className="bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-md transition-colors flex items-center justify-center gap-2 h-10 w-40"
+                  aria-label={t('input.stopGenerating')}
+                >
+                  {streamingMessage ? <StopCircleIcon className="w-4 h-4" /> : <LoadingSpinner size={16} />}
+                  {t('common.stop')}
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!userInput.trim()}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed flex items-center justify-center h-10 w-40"
+                >
+                  {t('input.submit')}
+                </button>
+              )}
+            </form>
+             {notice && (
+              <p className="text-center text-sm text-slate-300 mt-2" role="status">{notice}</p>
+            )}
+             {undoAction && (
+              <div className="max-w-4xl mx-auto mt-2 flex items-center justify-center gap-3 text-sm text-slate-300" role="status">
+                <span>{t(undoAction.label)}</span>
+                <button onClick={handleUndo} className="font-semibold text-blue-400 hover:underline">{t('common.undo')}</button>
+              </div>
+            )}
+             {recognition.error && (
+              <p className="text-center text-xs text-red-400 mt-2 animate-pulse">{t(recognition.error)}</p>
+            )}
+            <footer className="text-center text-xs text-slate-500 mt-4">
+              {FOOTER_LINKS.map(link => (
+                <a key={link.label} href={locale === 'nb' || locale === 'nn' ? link.url : link.englishUrl} target="_blank" rel="noopener noreferrer" className="mx-2 hover:text-slate-300">
+                  {t(link.label)}
+                </a>
+              ))}
+              <p className="mt-1">{t('footer.disclaimer')}</p>
+            </footer>
+          </div>
+        </main>
+      </div>
+    </I18nProvider>
   );
 };
 
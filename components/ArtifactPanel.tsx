@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import type { MessageArtifact } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import { formatTimestamp } from '../utils/chatExport';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ArtifactPanelProps {
+  title: string;
+  versions: MessageArtifact[];
+  isGenerating: boolean;
+  error?: string | null;
+  onRegenerate: () => void;
+  renderContent: (content: string) => React.ReactNode;
+}
+
+/** Shows a stored artifact with a switcher between its versions. */
+const ArtifactPanel: React.FC<ArtifactPanelProps> = ({ title, versions, isGenerating, error, onRegenerate, renderContent }) => {
+  const { t } = useI18n();
+  const [selectedIndex, setSelectedIndex] = useState(versions.length - 1);
+
+  // Jump to the newest version whenever one is added.
+  useEffect(() => {
+    setSelectedIndex(versions.length - 1);
+  }, [versions.length]);
+
+  const selected = versions[selectedIndex];
+  if (!selected) return null;
+
+  return (
+    <div className="mt-4 p-4 border border-slate-700 rounded-lg bg-slate-900">
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className="flex-1 font-bold text-sm text-blue-400">{title}</h4>
+        {versions.length > 1 && (
+          <div className="flex items-center gap-1 text-xs text-slate-400">
+            <button onClick={() => setSelectedIndex(i => Math.max(0, i - 1))} disabled={selectedIndex === 0} className="px-1 rounded hover:bg-slate-700 disabled:opacity-40" aria-label={t('common.previousVersion')}>‹</button>
+            <span>{selectedIndex + 1}/{versions.length}</span>
+            <button onClick={() => setSelectedIndex(i => Math.min(versions.length - 1, i + 1))} disabled={selectedIndex === versions.length - 1} className="px-1 rounded hover:bg-slate-700 disabled:opacity-40" aria-label={t('common.nextVersion')}>›</button>
+          </div>
+        )}
+        <button onClick={onRegenerate} disabled={isGenerating} className="flex items-center gap-1 px-2 py-0.5 text-xs text-slate-400 hover:bg-slate-700 rounded-md disabled:opacity-50">
+          {isGenerating && <LoadingSpinner size={10} />}
+          {t('common.regenerate')}
+        </button>
+      </div>
+      {renderContent(selected.content)}
+      <p className="mt-2 text-xs text-slate-500">{formatTimestamp(selected.createdAt)}</p>
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ArtifactPanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { ToolResult } from '../types';
+import type { NoticeResult } from '../utils/noticePeriod';
+import { formatKroner } from '../utils/payCalculators';
+import type { BenefitRule } from '../utils/navBenefits';
+import NoticeTimeline from './NoticeTimeline';
+import RuleLinks from './RuleLinks';
+import { useI18n } from '../i18n/I18nContext';
+import { localize } from '../i18n';
+import type { LocalizedText } from '../i18n';
+
+interface CalculationResultsProps {
+  toolResults: ToolResult[];
+}
+
+const isPayCalculation = (result: unknown): result is { total: number; steps: LocalizedText[]; rules?: BenefitRule[] } =>
+  typeof result === 'object' && result !== null
+  && typeof (result as { total?: unknown }).total === 'number'
+  && Array.isArray((result as { steps?: unknown }).steps);
+
+/** Shows the calculators the model ran for an answer, so the numbers can be checked. */
+const CalculationResults: React.FC<CalculationResultsProps> = ({ toolResults }) => {
+  const { t } = useI18n();
+  const successful = toolResults.filter(toolResult =>
+    !toolResult.error && (toolResult.name === 'calculate_notice_deadlines' || isPayCalculation(toolResult.result)));
+  if (successful.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-3">
+      {successful.map((toolResult, index) => (
+        <div key={`${toolResult.name}-${index}`} className="p-4 border border-slate-700 rounded-lg bg-slate-900">
+          {toolResult.name === 'calculate_notice_deadlines' ? (
+            <>
+              <h4 className="font-bold text-sm text-blue-400 mb-2">{t('calculators.deadlines')}</h4>
+              <NoticeTimeline result={toolResult.result as NoticeResult} />
+            </>
+          ) : isPayCalculation(toolResult.result) && (
+            <>
+              <h4 className="font-bold text-sm text-blue-400 mb-1">{t('calculators.calculation')}</h4>
+              <p className="text-lg font-bold text-slate-200">{formatKroner(toolResult.result.total)}</p>
+              <ul className="mt-1 space-y-0.5 text-sm text-slate-400">
+                {toolResult.result.steps.map((step, index) => <li key={index}>{localize(t, step)}</li>)}
+              </ul>
+              {Array.isArray(toolResult.result.rules) && <RuleLinks rules={toolResult.result.rules} />}
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CalculationResults;
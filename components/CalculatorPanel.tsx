@@ -0,0 +1,349 @@
+import React, { useState, useMemo } from 'react';
+import {
+  HOLIDAY_PAY_RATES,
+  MIN_OVERTIME_SUPPLEMENT,
+  calculateFinalHolidayPay,
+  calculateHolidayPay,
+  calculateOvertimePay,
+  formatKroner,
+} from '../utils/payCalculators';
+import type { HolidayPayRate } from '../utils/payCalculators';
+import { calculateNoticeDeadlines, toIsoDate } from '../utils/noticePeriod';
+import type { NoticeGivenBy } from '../utils/noticePeriod';
+import { calculateLayoffPay, calculateSickPay, calculateUnemploymentBenefit } from '../utils/navBenefits';
+import type { BenefitRule } from '../utils/navBenefits';
+import { CalculationError } from '../utils/calculationError';
+import NoticeTimeline from './NoticeTimeline';
+import RuleLinks from './RuleLinks';
+import { useI18n } from '../i18n/I18nContext';
+import { localize } from '../i18n';
+import type { LocalizedText, MessageKey } from '../i18n';
+
+interface CalculatorPanelProps {
+  onClose: () => void;
+}
+
+type CalculatorTab = 'holiday' | 'overtime' | 'final' | 'notice' | 'benefits';
+
+type Benefit = 'sickPay' | 'unemployment' | 'layoff';
+
+const TABS: { key: CalculatorTab; label: MessageKey }[] = [
+  { key: 'holiday', label: 'calculators.holiday' },
+  { key: 'overtime', label: 'calculators.overtime' },
+  { key: 'final', label: 'calculators.final' },
+  { key: 'notice', label: 'calculators.notice' },
+  { key: 'benefits', label: 'calculators.benefits' },
+];
+
+const BENEFITS: { key: Benefit; label: MessageKey }[] = [
+  { key: 'sickPay', label: 'calculators.sickPay' },
+  { key: 'unemployment', label: 'calculators.unemployment' },
+  { key: 'layoff', label: 'calculators.layoff' },
+];
+
+/** Short weekday names from Monday, e.g. "Mon" or "man.". 1 January 2024 was a Monday. */
+const getWeekdays = (localeTag: string): string[] => {
+  const format = new Intl.DateTimeFormat(localeTag, { weekday: 'short', timeZone: 'UTC' });
+  return Array.from({ length: 7 }, (_, day) => format.format(new Date(Date.UTC(2024, 0, 1 + day))));
+};
+
+/** Accepts Norwegian formatting such as "45 000,50". Empty fields parse as NaN. */
+const parseNumber = (value: string): number =>
+  value.trim() === '' ? NaN : Number(value.replace(/\s/g, '').replace(',', '.'));
+
+interface Calculation {
+  total: number;
+  steps: LocalizedText[];
+  rules?: BenefitRule[];
+}
+
+/** Runs a calculator, turning its errors into a message for the form. */
+const tryCalculate = <T,>(calculate: () => T): { calculation?: T; error?: LocalizedText } => {
+  try {
+    return { calculation: calculate() };
+  } catch (error) {
+    if (error instanceof CalculationError) return { error: error.detail };
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const NumberField: React.FC<{ label: string; value: string; onChange: (value: string) => void; suffix?: string }> = ({ label, value, onChange, suffix }) => (
+  <label className="block text-sm">
+    <span className="text-slate-400">{label}</span>
+    <div className="mt-1 flex items-center gap-2">
+      <input
+        inputMode="decimal"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-slate-800 rounded-md p-2 text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+      {suffix && <span className="text-slate-500">{suffix}</span>}
+    </div>
+  </label>
+);
+
+const DateField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="block text-sm">
+    <span className="text-slate-400">{label}</span>
+    <input type="date" value={value} onChange={(e) => onChange(e.target.value)} className="mt-1 w-full bg-slate-800 rounded-md p-2 text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500" />
+  </label>
+);
+
+const RateFields: React.FC<{ rate: HolidayPayRate; onRateChange: (rate: HolidayPayRate) => void; over60: boolean; onOver60Change: (over60: boolean) => void }> = ({ rate, onRateChange, over60, onOver60Change }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm">
+      {HOLIDAY_PAY_RATES.map(option => (
+        <label key={option} className="flex items-center gap-1">
+          <input type="radio" checked={rate === option} onChange={() => onRateChange(option)} />
+          {option} %
+        </label>
+      ))}
+      <label className="flex items-center gap-1">
+        <input type="checkbox" checked={over60} onChange={(e) => onOver60Change(e.target.checked)} />
+        {t('calculators.over60')}
+      </label>
+    </div>
+  );
+};
+
+/**
+ * Standalone calculators. They use the same functions the model calls as
+ * tools, so the numbers here match the ones quoted in answers.
+ */
+const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ onClose }) => {
+  const { t, tag } = useI18n();
+  const weekdays = useMemo(() => getWeekdays(tag), [tag]);
+  const [tab, setTab] = useState<CalculatorTab>('holiday');
+  const [rate, setRate] = useState<HolidayPayRate>(10.2);
+  const [over60, setOver60] = useState(false);
+  const [basis, setBasis] = useState('');
+  const [hourlyWage, setHourlyWage] = useState('');
+  const [dailyHours, setDailyHours] = useState<string[]>(['7.5', '7.5', '7.5', '7.5', '7.5', '', '']);
+  const [supplement, setSupplement] = useState(String(MIN_OVERTIME_SUPPLEMENT));
+  const [monthlySalary, setMonthlySalary] = useState('');
+  const [monthsWorked, setMonthsWorked] = useState('');
+  const [otherEarnings, setOtherEarnings] = useState('');
+  const [unpaidFromLastYear, setUnpaidFromLastYear] = useState('');
+  const [employmentStart, setEmploymentStart] = useState('');
+  const [age, setAge] = useState('');
+  const [noticeReceived, setNoticeReceived] = useState(() => toIsoDate(new Date()));
+  const [givenBy, setGivenBy] = useState<NoticeGivenBy>('employer');
+  const [probation, setProbation] = useState(false);
+  const [benefit, setBenefit] = useState<Benefit>('sickPay');
+  const [annualIncome, setAnnualIncome] = useState('');
+  const [firstSickDay, setFirstSickDay] = useState(() => toIsoDate(new Date()));
+  const [sickLeavePercent, setSickLeavePercent] = useState('100');
+  const [incomeLast12Months, setIncomeLast12Months] = useState('');
+  const [incomeLast36Months, setIncomeLast36Months] = useState('');
+  const [claimDate, setClaimDate] = useState(() => toIsoDate(new Date()));
+  const [layoffStart, setLayoffStart] = useState(() => toIsoDate(new Date()));
+  const [layoffPercent, setLayoffPercent] = useState('100');
+  const [layoffNotice, setLayoffNotice] = useState('');
+
+  const outcome = useMemo((): { calculation?: Calculation; error?: LocalizedText } | null => {
+    switch (tab) {
+      case 'holiday':
+        if (!basis.trim()) return null;
+        return tryCalculate(() => calculateHolidayPay({ basis: parseNumber(basis), rate, over60 }));
+      case 'overtime':
+        if (!hourlyWage.trim()) return null;
+        return tryCalculate(() => calculateOvertimePay({
+          hourlyWage: parseNumber(hourlyWage),
+          // Empty days count as days off.
+          dailyHours: dailyHours.map(hours => hours.trim() ? parseNumber(hours) : 0),
+          supplementPercent: parseNumber(supplement),
+        }));
+      case 'final':
+        if (!monthlySalary.trim() || !monthsWorked.trim()) return null;
+        return tryCalculate(() => calculateFinalHolidayPay({
+          monthlySalary: parseNumber(monthlySalary),
+          monthsWorked: parseNumber(monthsWorked),
+          otherEarnings: otherEarnings.trim() ? parseNumber(otherEarnings) : 0,
+          unpaidFromLastYear: unpaidFromLastYear.trim() ? parseNumber(unpaidFromLastYear) : 0,
+          rate,
+          over60,
+        }));
+      case 'benefits':
+        if (benefit === 'sickPay') {
+          if (!annualIncome.trim() || !firstSickDay) return null;
+          return tryCalculate(() => calculateSickPay({ annualIncome: parseNumber(annualIncome), firstSickDay, sickLeavePercent: parseNumber(sickLeavePercent) }));
+        }
+        if (benefit === 'unemployment') {
+          if (!incomeLast12Months.trim() || !claimDate) return null;
+          return tryCalculate(() => calculateUnemploymentBenefit({
+            incomeLast12Months: parseNumber(incomeLast12Months),
+            incomeLast36Months: incomeLast36Months.trim() ? parseNumber(incomeLast36Months) : undefined,
+            claimDate,
+          }));
+        }
+        if (!monthlySalary.trim() || !layoffStart) return null;
+        return tryCalculate(() => calculateLayoffPay({
+          monthlySalary: parseNumber(monthlySalary),
+          layoffStart,
+          layoffPercent: parseNumber(layoffPercent),
+          noticeReceived: layoffNotice || undefined,
+        }));
+      default:
+        return null;
+    }
+  }, [
+    tab, rate, over60, basis, hourlyWage, dailyHours, supplement, monthlySalary, monthsWorked, otherEarnings, unpaidFromLastYear,
+    benefit, annualIncome, firstSickDay, sickLeavePercent, incomeLast12Months, incomeLast36Months, claimDate, layoffStart, layoffPercent, layoffNotice,
+  ]);
+
+  const noticeOutcome = useMemo(() => {
+    if (tab !== 'notice' || !employmentStart || !age.trim() || !noticeReceived) return null;
+    return tryCalculate(() => calculateNoticeDeadlines({ employmentStart, age: parseNumber(age), noticeReceived, givenBy, probation }));
+  }, [tab, employmentStart, age, noticeReceived, givenBy, probation]);
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="calculator-title">
+      <div className="w-full max-w-lg max-h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-6">
+        <div className="flex items-center mb-4">
+          <h2 id="calculator-title" className="flex-1 text-lg font-bold">{t('calculators.title')}</h2>
+          <button onClick={onClose} className="px-2 py-1 rounded-md text-slate-400 hover:bg-slate-800" aria-label={t('common.close')}>✕</button>
+        </div>
+
+        <div className="flex flex-wrap gap-1 mb-4 border-b border-slate-800" role="tablist">
+          {TABS.map(({ key, label }) => (
+            <button
+              key={key}
+              role="tab"
+              aria-selected={tab === key}
+              onClick={() => setTab(key)}
+              className={`px-3 py-2 text-sm -mb-px border-b-2 ${tab === key ? 'border-blue-500 text-blue-400' : 'border-transparent text-slate-400 hover:text-slate-200'}`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {tab === 'holiday' && (
+            <>
+              <NumberField label={t('calculators.basis')} value={basis} onChange={setBasis} suffix="kr" />
+              <RateFields rate={rate} onRateChange={setRate} over60={over60} onOver60Change={setOver60} />
+            </>
+          )}
+
+          {tab === 'overtime' && (
+            <>
+              <NumberField label={t('calculators.hourlyWage')} value={hourlyWage} onChange={setHourlyWage} suffix="kr" />
+              <div className="grid grid-cols-7 gap-1">
+                {weekdays.map((day, index) => (
+                  <label key={day} className="text-xs text-slate-400 text-center">
+                    {day}
+                    <input
+                      inputMode="decimal"
+                      value={dailyHours[index]}
+                      onChange={(e) => setDailyHours(hours => hours.map((h, i) => i === index ? e.target.value : h))}
+                      className="mt-1 w-full bg-slate-800 rounded-md p-1 text-center text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      aria-label={t('calculators.hoursOn', { day })}
+                    />
+                  </label>
+                ))}
+              </div>
+              <NumberField label={t('calculators.supplement')} value={supplement} onChange={setSupplement} suffix="%" />
+              <p className="text-xs text-slate-500">{t('calculators.overtimeHint')}</p>
+            </>
+          )}
+
+          {tab === 'final' && (
+            <>
+              <NumberField label={t('calculators.monthlySalary')} value={monthlySalary} onChange={setMonthlySalary} suffix="kr" />
+              <NumberField label={t('calculators.monthsWorked')} value={monthsWorked} onChange={setMonthsWorked} />
+              <NumberField label={t('calculators.otherEarnings')} value={otherEarnings} onChange={setOtherEarnings} suffix="kr" />
+              <NumberField label={t('calculators.unpaidLastYear')} value={unpaidFromLastYear} onChange={setUnpaidFromLastYear} suffix="kr" />
+              <RateFields rate={rate} onRateChange={setRate} over60={over60} onOver60Change={setOver60} />
+            </>
+          )}
+
+          {tab === 'notice' && (
+            <>
+              <DateField label={t('calculators.employmentStart')} value={employmentStart} onChange={setEmploymentStart} />
+              <DateField label={t('calculators.noticeReceived')} value={noticeReceived} onChange={setNoticeReceived} />
+              <NumberField label={t('calculators.age')} value={age} onChange={setAge} />
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={givenBy === 'employer'} onChange={() => setGivenBy('employer')} />
+                  {t('calculators.dismissed')}
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={givenBy === 'employee'} onChange={() => setGivenBy('employee')} />
+                  {t('calculators.resigned')}
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={probation} onChange={(e) => setProbation(e.target.checked)} />
+                  {t('calculators.probation')}
+                </label>
+              </div>
+            </>
+          )}
+
+          {tab === 'benefits' && (
+            <>
+              <div className="flex gap-1 text-sm" role="radiogroup" aria-label={t('calculators.benefits')}>
+                {BENEFITS.map(({ key, label }) => (
+                  <button
+                    key={key}
+                    role="radio"
+                    aria-checked={benefit === key}
+                    onClick={() => setBenefit(key)}
+                    className={`flex-1 py-2 rounded-md ${benefit === key ? 'bg-blue-600 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+                  >
+                    {t(label)}
+                  </button>
+                ))}
+              </div>
+              {benefit === 'sickPay' && (
+                <>
+                  <NumberField label={t('calculators.annualIncome')} value={annualIncome} onChange={setAnnualIncome} suffix="kr" />
+                  <DateField label={t('calculators.firstSickDay')} value={firstSickDay} onChange={setFirstSickDay} />
+                  <NumberField label={t('calculators.sickLeavePercent')} value={sickLeavePercent} onChange={setSickLeavePercent} suffix="%" />
+                </>
+              )}
+              {benefit === 'unemployment' && (
+                <>
+                  <NumberField label={t('calculators.incomeLast12Months')} value={incomeLast12Months} onChange={setIncomeLast12Months} suffix="kr" />
+                  <NumberField label={t('calculators.incomeLast36Months')} value={incomeLast36Months} onChange={setIncomeLast36Months} suffix="kr" />
+                  <DateField label={t('calculators.claimDate')} value={claimDate} onChange={setClaimDate} />
+                </>
+              )}
+              {benefit === 'layoff' && (
+                <>
+                  <NumberField label={t('calculators.monthlySalary')} value={monthlySalary} onChange={setMonthlySalary} suffix="kr" />
+                  <DateField label={t('calculators.layoffStart')} value={layoffStart} onChange={setLayoffStart} />
+                  <NumberField label={t('calculators.layoffPercent')} value={layoffPercent} onChange={setLayoffPercent} suffix="%" />
+                  <DateField label={t('calculators.layoffNotice')} value={layoffNotice} onChange={setLayoffNotice} />
+                </>
+              )}
+              <p className="text-xs text-slate-500">{t('calculators.benefitsHint')}</p>
+            </>
+          )}
+        </div>
+
+        {noticeOutcome?.error && <p className="mt-4 text-sm text-red-400" role="alert">{localize(t, noticeOutcome.error)}</p>}
+        {noticeOutcome?.calculation && (
+          <div className="mt-4 p-4 rounded-lg bg-slate-800" aria-live="polite">
+            <NoticeTimeline result={noticeOutcome.calculation} />
+          </div>
+        )}
+
+        {outcome?.error && <p className="mt-4 text-sm text-red-400" role="alert">{localize(t, outcome.error)}</p>}
+        {outcome?.calculation && (
+          <div className="mt-4 p-4 rounded-lg bg-slate-800" aria-live="polite">
+            <p className="text-2xl font-bold text-blue-400">{formatKroner(outcome.calculation.total)}</p>
+            <ul className="mt-2 space-y-1 text-sm text-slate-300">
+              {outcome.calculation.steps.map((step, index) => <li key={index}>{localize(t, step)}</li>)}
+            </ul>
+            {outcome.calculation.rules && <RuleLinks rules={outcome.calculation.rules} />}
+          </div>
+        )}
+        <p className="mt-4 text-xs text-slate-500">{t('calculators.disclaimer')}</p>
+      </div>
+    </div>
+  );
+};
+
+export default CalculatorPanel;
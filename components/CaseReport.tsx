@@ -0,0 +1,77 @@
+import React from 'react';
+import type { ChatSession } from '../types';
+import Markdown from './Markdown';
+import { formatTimestamp, getMessageTimestamp } from '../utils/chatExport';
+import { getActivePath } from '../utils/conversationTree';
+import { useI18n } from '../i18n/I18nContext';
+
+interface CaseReportProps {
+  chats: ChatSession[];
+  onClose: () => void;
+}
+
+/**
+ * Print-friendly view of one or more chats, meant to be handed to a union
+ * representative (tillitsvalgt) or a lawyer. Rendered instead of the app so the
+ * browser prints only the report.
+ */
+const CaseReport: React.FC<CaseReportProps> = ({ chats, onClose }) => {
+  const { t } = useI18n();
+  return (
+    <div className="min-h-screen bg-white text-slate-900 font-sans">
+      <div className="print:hidden sticky top-0 flex items-center justify-end gap-2 p-4 bg-slate-100 border-b border-slate-300">
+        <button onClick={() => window.print()} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+          {t('report.print')}
+        </button>
+        <button onClick={onClose} className="py-2 px-4 rounded-lg hover:bg-slate-200 transition-colors">
+          {t('common.close')}
+        </button>
+      </div>
+
+      <article className="max-w-3xl mx-auto p-8 print:p-0">
+        <header className="mb-8 border-b border-slate-300 pb-4">
+          <h1 className="text-2xl font-bold">{t('report.title')}</h1>
+          <p className="text-sm text-slate-600">{t('report.generated', { date: formatTimestamp(Date.now()) })}</p>
+          <p className="text-sm text-slate-600 mt-2">{t('report.disclaimer')}</p>
+        </header>
+
+        {chats.map(chat => (
+          <section key={chat.id} className="mb-10 break-inside-avoid-page">
+            <h2 className="text-xl font-bold mb-1">{chat.title}</h2>
+            {chat.createdAt && <p className="text-xs text-slate-500 mb-4">{t('report.started', { date: formatTimestamp(chat.createdAt) })}</p>}
+
+            {getActivePath(chat).map(message => (
+              <div key={message.id} className="mb-6 break-inside-avoid">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {message.role === 'user' ? t('report.question') : t('report.answer')} · {formatTimestamp(getMessageTimestamp(message))}
+                </p>
+                {message.role === 'user' ? (
+                  <p className="mt-1 whitespace-pre-wrap font-medium">{message.text}</p>
+                ) : (
+                  <div className="mt-1">
+                    <Markdown text={message.aiResponseData?.answer ?? message.text} />
+                    {message.aiResponseData && message.aiResponseData.relatedTopics.length > 0 && (
+                      <p className="mt-2 text-sm"><strong>{t('report.relatedTopics')}</strong> {message.aiResponseData.relatedTopics.join(', ')}</p>
+                    )}
+                    {message.aiResponseData && message.aiResponseData.sourceLinks.length > 0 && (
+                      <div className="mt-2 text-sm">
+                        <strong>{t('report.sources')}</strong>
+                        <ul className="list-disc pl-6">
+                          {message.aiResponseData.sourceLinks.map(link => (
+                            <li key={link.url}>{link.title} – <span className="break-all">{link.url}</span></li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+        ))}
+      </article>
+    </div>
+  );
+};
+
+export default CaseReport;
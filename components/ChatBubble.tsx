@@ -1,40 +1,84 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import type { ChatMessage } from '../types';
-import { UserIcon, BotIcon, CopyIcon, WandIcon, MailIcon, Volume2Icon, StopCircleIcon } from './Icons';
+import React, { useState } from 'react';
+import type { ArtifactKind, ChatMessage, MessageArtifact } from '../types';
+import { UserIcon, BotIcon, CopyIcon, WandIcon, MailIcon, Volume2Icon, StopCircleIcon, PencilIcon, RefreshIcon } from './Icons';
 import LoadingSpinner from './LoadingSpinner';
-import { simplifyAnswer, generateEmailTemplate } from '../services/geminiService';
+import Markdown, { renderHighlighted } from './Markdown';
+import ArtifactPanel from './ArtifactPanel';
+import CalculationResults from './CalculationResults';
+import { simplifyAnswer } from '../services/apiClient';
+import { createArtifact, getArtifactVersions } from '../utils/artifacts';
+import { classifyError } from '../services/errors';
+import { useI18n } from '../i18n/I18nContext';
+import { resolveLocale, translate } from '../i18n';
+import { describeLawRef, extractLawCitations, toViewerHash } from '../utils/lawCitations';
+import type { SpeechPlayback } from '../hooks/useSpeechSynthesis';
+import type { Redactor } from '../utils/redaction';
 
 interface ChatBubbleProps {
   message: ChatMessage;
   userQuestionMessage: ChatMessage | null;
+  isStreaming?: boolean;
+  /** Search text to highlight, set when the chat was opened from a search. */
+  highlight?: string;
+  /** Saves a newly generated artifact on this message. */
+  onAddArtifact?: (messageId: string, artifact: MessageArtifact) => void;
+  /** This message and its alternatives (including itself), oldest first. */
+  siblings?: ChatMessage[];
+  onSelectBranch?: (messageId: string) => void;
+  onRegenerate?: () => void;
+  onEditAndResend?: (text: string) => void;
+  /** Disables regenerate and resend, e.g. while another answer is loading. */
+  actionsDisabled?: boolean;
+  /** Opens the letter workspace with this answer as the situation. */
+  onDraftLetter?: () => void;
+  /** Sends a question in this chat; makes the related topics clickable. */
+  onAskFollowUp?: (question: string) => void;
+  /** Set while this answer is being read aloud. */
+  playback?: SpeechPlayback | null;
+  /** Starts or stops reading the answer aloud; omitted when speech synthesis is unavailable. */
+  onToggleSpeech?: () => void;
+  /** Hides personal data from the model when an artifact is generated. */
+  redactor?: Redactor;
 }
 
-const ChatBubble: React.FC<ChatBubbleProps> = ({ message, userQuestionMessage }) => {
+// Letter drafts are written in the LetterWorkspace and saved here by the user.
+// `refresh` skips the answer cache, so regenerating gives a new version.
+const ARTIFACT_GENERATORS: Partial<Record<ArtifactKind, (answer: string, question: string, redactor?: Redactor, refresh?: boolean) => Promise<string>>> = {
+  simplification: (answer, question, redactor, refresh) => simplifyAnswer(answer, question, redactor, { refresh }),
+};
+
+
+const ChatBubble: React.FC<ChatBubbleProps> = ({
+  message,
+  userQuestionMessage,
+  isStreaming = false,
+  highlight,
+  onAddArtifact,
+  siblings = [],
+  onSelectBranch,
+  onRegenerate,
+  onEditAndResend,
+  actionsDisabled = false,
+  playback = null,
+  onToggleSpeech,
+  onAskFollowUp,
+  onDraftLetter,
+  redactor,
+}) => {
+  const { t, tag } = useI18n();
   const isUser = message.role === 'user';
+  const lawCitations = !isUser && !isStreaming && message.aiResponseData ? extractLawCitations(message.aiResponseData.answer) : [];
   const [copied, setCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(message.text);
+  const siblingIndex = siblings.findIndex(sibling => sibling.id === message.id);
   
-  const [simplifiedAnswer, setSimplifiedAnswer] = useState<string | null>(null);
-  const [isSimplifying, setIsSimplifying] = useState(false);
-  
-  const [emailTemplate, setEmailTemplate] = useState<string | null>(null);
-  const [isGeneratingEmail, setIsGeneratingEmail] = useState(false);
+  const [generatingArtifact, setGeneratingArtifact] = useState<ArtifactKind | null>(null);
+  const [artifactErrors, setArtifactErrors] = useState<Partial<Record<ArtifactKind, string>>>({});
+  const simplifications = getArtifactVersions(message, 'simplification');
+  const emailDrafts = getArtifactVersions(message, 'emailDraft');
   
-  const [isPlaying, setIsPlaying] = useState(false);
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
-
-  // Effect to clean up speech synthesis on unmount
-  useEffect(() => {
-    return () => {
-      // If an utterance from this component is speaking, cancel it
-      if (utteranceRef.current && window.speechSynthesis.speaking) {
-         // A simple cancel is the most we can do, as there's no way to check
-         // if the speaking utterance is exactly ours.
-         window.speechSynthesis.cancel();
-      }
-    };
-  }, []);
-
   const handleCopy = () => {
     const textToCopy = message.aiResponseData?.answer || message.text;
     navigator.clipboard.writeText(textToCopy);
@@ -42,160 +86,212 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, userQuestionMessage })
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleSimplify = async () => {
-    if (!message.aiResponseData?.answer || isSimplifying || !userQuestionMessage) return;
-    setIsSimplifying(true);
-    try {
-      const result = await simplifyAnswer(message.aiResponseData.answer, userQuestionMessage.text);
-      setSimplifiedAnswer(result);
-    } catch (error) {
-      console.error("Failed to simplify answer:", error);
-      setSimplifiedAnswer("Sorry, I couldn't simplify this answer right now.");
-    } finally {
-      setIsSimplifying(false);
-    }
+  const handleStartEdit = () => {
+    setEditText(message.text);
+    setIsEditing(true);
   };
 
-  const handleGenerateEmail = async () => {
-    if (!message.aiResponseData?.answer || isGeneratingEmail || !userQuestionMessage) return;
-    setIsGeneratingEmail(true);
+  const handleSubmitEdit = () => {
+    if (!editText.trim() || !onEditAndResend) return;
+    setIsEditing(false);
+    onEditAndResend(editText);
+  };
+
+  const handleGenerateArtifact = async (kind: ArtifactKind, refresh = false) => {
+    const generate = ARTIFACT_GENERATORS[kind];
+    if (!generate || !message.aiResponseData?.answer || generatingArtifact || !userQuestionMessage || !onAddArtifact) return;
+    setGeneratingArtifact(kind);
+    setArtifactErrors(prev => ({ ...prev, [kind]: undefined }));
     try {
-      const context = `Question: ${userQuestionMessage.text}\nAnswer: ${message.aiResponseData.answer}`;
-      const result = await generateEmailTemplate(context, userQuestionMessage.text);
-      setEmailTemplate(result);
+      const content = await generate(message.aiResponseData.answer, userQuestionMessage.text, redactor, refresh);
+      onAddArtifact(message.id, createArtifact(kind, content));
     } catch (error) {
-      console.error("Failed to generate email template:", error);
-      setEmailTemplate("Sorry, I couldn't generate an email template right now.");
+      console.error(`Failed to generate ${kind}:`, error);
+      setArtifactErrors(prev => ({ ...prev, [kind]: t(`errors.${classifyError(error).kind}`) }));
     } finally {
-      setIsGeneratingEmail(false);
+      setGeneratingArtifact(null);
     }
   };
   
-  const handleToggleAudio = () => {
-      if (isPlaying) {
-          window.speechSynthesis.cancel();
-          setIsPlaying(false);
-      } else {
-          const answerText = message.aiResponseData?.answer;
-          const language = message.aiResponseData?.language || 'en-US';
-
-          if (!answerText || !('speechSynthesis' in window)) {
-              console.error("Speech Synthesis not supported or no text to speak.");
-              return;
-          }
-          
-          // Cancel any other speaking utterance before starting a new one.
-          window.speechSynthesis.cancel();
-
-          const utterance = new SpeechSynthesisUtterance(answerText);
-          utterance.lang = language;
-          utteranceRef.current = utterance; // Keep a reference to our utterance
-          
-          utterance.onend = () => {
-              // Only update state if this is the utterance we're tracking
-              if (utteranceRef.current === utterance) {
-                setIsPlaying(false);
-              }
-          };
-          
-          utterance.onerror = (e: SpeechSynthesisErrorEvent) => {
-              // Only handle errors for the utterance we're tracking
-              if (utteranceRef.current === utterance) {
-                if (e.error !== 'interrupted' && e.error !== 'canceled') {
-                  console.error("Speech synthesis error:", e.error);
-                }
-                setIsPlaying(false);
-              }
-          };
-          
-          setIsPlaying(true);
-          window.speechSynthesis.speak(utterance);
-      }
-  };
-
-  const renderMarkdown = (text: string) => {
-    // A simple approach for **bold** and *italic*
-    let html = text.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-    html = html.replace(/\*(.*?)\*/g, '<em>$1</em>');
-    
-    // Handle newlines
-    const lines = html.split('\n');
-
-    return lines.map((line, index) => (
-        <React.Fragment key={index}>
-            <span dangerouslySetInnerHTML={{ __html: line }} />
-            {index < lines.length - 1 && <br />}
-        </React.Fragment>
-    ));
-  };
-
-
   return (
     <div className={`flex items-start gap-4 p-4 ${isUser ? '' : 'bg-slate-800/50 rounded-lg'}`}>
       <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${isUser ? 'bg-blue-500' : 'bg-slate-700'}`}>
         {isUser ? <UserIcon className="w-5 h-5" /> : <BotIcon className="w-5 h-5" />}
       </div>
       <div className="flex-1">
-        <p className="font-bold">{isUser ? 'You' : 'AI Union Helper'}</p>
-        <div className="prose prose-invert max-w-none text-slate-300 space-y-4">
-           {isUser ? message.text : renderMarkdown(message.aiResponseData?.answer || "")}
+        <div className="flex items-center gap-2">
+          <p className="font-bold">{isUser ? t('message.you') : 'AI Union Helper'}</p>
+          {siblings.length > 1 && siblingIndex !== -1 && onSelectBranch && (
+            <div className="flex items-center gap-1 text-xs text-slate-400">
+              <button onClick={() => onSelectBranch(siblings[siblingIndex - 1].id)} disabled={siblingIndex === 0 || actionsDisabled} className="px-1 rounded hover:bg-slate-700 disabled:opacity-40" aria-label={t('common.previousVersion')}>‹</button>
+              <span>{siblingIndex + 1}/{siblings.length}</span>
+              <button onClick={() => onSelectBranch(siblings[siblingIndex + 1].id)} disabled={siblingIndex === siblings.length - 1 || actionsDisabled} className="px-1 rounded hover:bg-slate-700 disabled:opacity-40" aria-label={t('common.nextVersion')}>›</button>
+            </div>
+          )}
+          {isUser && onEditAndResend && !isEditing && (
+            <button onClick={handleStartEdit} disabled={actionsDisabled} className="ml-auto flex items-center gap-1.5 px-2 py-1 text-xs text-slate-400 hover:bg-slate-700 rounded-md transition-colors disabled:opacity-50">
+              <PencilIcon className="w-3 h-3" />
+              {t('message.editAndResend')}
+            </button>
+          )}
         </div>
+        {isEditing ? (
+          <div className="mt-2">
+            <textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmitEdit(); } }}
+              className="w-full bg-slate-800 rounded-lg p-2 text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              rows={3}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2 mt-2 text-sm">
+              <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded-md hover:bg-slate-700">{t('common.cancel')}</button>
+              <button onClick={handleSubmitEdit} disabled={actionsDisabled || !editText.trim()} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:bg-slate-600">{t('common.send')}</button>
+            </div>
+          </div>
+        ) : (
+          <div className="prose prose-invert max-w-none text-slate-300 space-y-4">
+             {isUser
+               ? <p className="whitespace-pre-wrap">{renderHighlighted(message.text, highlight)}</p>
+               : playback
+                 // While reading aloud, show the spoken text so the current sentence can be highlighted.
+                 ? <p>{playback.sentences.map((sentence, index) => (
+                     <span key={index} className={index === playback.index ? 'bg-blue-900/60 text-slate-100 rounded' : ''}>{sentence} </span>
+                   ))}</p>
+                 : <Markdown text={message.aiResponseData?.answer || ""} highlight={highlight} />}
+             {isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-slate-400 animate-pulse" />}
+          </div>
+        )}
+        {message.interrupted && (
+          <p className="mt-2 text-xs italic text-slate-500">{t('message.interrupted')}</p>
+        )}
+        {!isStreaming && message.aiResponseData?.cachedAt && (
+          <div className="flex items-center gap-2 mt-2 text-xs text-slate-500">
+            <span className="px-2 py-0.5 rounded-full bg-slate-700/60">
+              {t('message.cachedFrom', { date: new Date(message.aiResponseData.cachedAt).toLocaleDateString(tag) })}
+            </span>
+            {onRegenerate && (
+              <button onClick={onRegenerate} disabled={actionsDisabled} className="text-blue-400 hover:underline disabled:opacity-50">
+                {t('message.refreshCached')}
+              </button>
+            )}
+          </div>
+        )}
+        {message.aiResponseData?.toolResults && (
+          <CalculationResults toolResults={message.aiResponseData.toolResults} />
+        )}
 
-        {!isUser && message.aiResponseData && (
+        {!isUser && !isStreaming && message.aiResponseData && (
           <div className="mt-4">
-            {simplifiedAnswer && (
-                <div className="mt-4 p-4 border border-slate-700 rounded-lg bg-slate-900">
-                    <h4 className="font-bold text-sm text-blue-400 mb-2">Simplified Answer</h4>
-                    <p className="text-slate-300 whitespace-pre-wrap">{simplifiedAnswer}</p>
-                </div>
-            )}
-            {emailTemplate && (
-                <div className="mt-4 p-4 border border-slate-700 rounded-lg bg-slate-900">
-                    <h4 className="font-bold text-sm text-blue-400 mb-2">Email Template</h4>
-                    <pre className="text-slate-300 whitespace-pre-wrap font-sans">{emailTemplate}</pre>
-                </div>
-            )}
+            <ArtifactPanel
+              title={t('message.simplified')}
+              versions={simplifications}
+              isGenerating={generatingArtifact === 'simplification'}
+              error={artifactErrors.simplification}
+              onRegenerate={() => handleGenerateArtifact('simplification', true)}
+              renderContent={(content) => <Markdown text={content} className="text-slate-300" />}
+            />
+            <ArtifactPanel
+              title={t('message.emailTemplate')}
+              versions={emailDrafts}
+              isGenerating={false}
+              onRegenerate={() => onDraftLetter?.()}
+              renderContent={(content) => <pre className="text-slate-300 whitespace-pre-wrap font-sans">{content}</pre>}
+            />
 
             <div className="flex items-center gap-2 mt-4 text-slate-400">
-              <button onClick={handleToggleAudio} className="flex items-center gap-1.5 px-2 py-1 text-xs hover:bg-slate-700 rounded-md transition-colors">
-                  {isPlaying ? <StopCircleIcon className="w-3 h-3" /> : <Volume2Icon className="w-3 h-3" />}
-                  {isPlaying ? 'Stop' : 'Listen'}
-              </button>
+              {onToggleSpeech && (
+                <button onClick={onToggleSpeech} className="flex items-center gap-1.5 px-2 py-1 text-xs hover:bg-slate-700 rounded-md transition-colors">
+                    {playback ? <StopCircleIcon className="w-3 h-3" /> : <Volume2Icon className="w-3 h-3" />}
+                    {playback ? t('common.stop') : t('message.listen')}
+                </button>
+              )}
               <button onClick={handleCopy} className="flex items-center gap-1.5 px-2 py-1 text-xs hover:bg-slate-700 rounded-md transition-colors">
                 <CopyIcon className="w-3 h-3" />
-                {copied ? 'Copied!' : 'Copy'}
-              </button>
-              <button onClick={handleSimplify} disabled={isSimplifying} className="flex items-center gap-1.5 px-2 py-1 text-xs hover:bg-slate-700 rounded-md transition-colors disabled:opacity-50">
-                {isSimplifying ? <LoadingSpinner size={12} /> : <WandIcon className="w-3 h-3" />}
-                Explain in simple words
-              </button>
-              <button onClick={handleGenerateEmail} disabled={isGeneratingEmail} className="flex items-center gap-1.5 px-2 py-1 text-xs hover:bg-slate-700 rounded-md transition-colors disabled:opacity-50">
-                 {isGeneratingEmail ? <LoadingSpinner size={12} /> : <MailIcon className="w-3 h-3" />}
-                 Generate email template
+                {copied ? t('message.copied') : t('message.copy')}
               </button>
+              {onRegenerate && (
+                <button onClick={onRegenerate} disabled={actionsDisabled} className="flex items-center gap-1.5 px-2 py-1 text-xs hover:bg-slate-700 rounded-md transition-colors disabled:opacity-50">
+                  <RefreshIcon className="w-3 h-3" />
+                  {t('common.regenerate')}
+                </button>
+              )}
+              {/* Once an artifact exists it is regenerated from its panel, not from here. */}
+              {simplifications.length === 0 && (
+                <button onClick={() => handleGenerateArtifact('simplification')} disabled={generatingArtifact !== null} className="flex items-center gap-1.5 px-2 py-1 text-xs hover:bg-slate-700 rounded-md transition-colors disabled:opacity-50">
+                  {generatingArtifact === 'simplification' ? <LoadingSpinner size={12} /> : <WandIcon className="w-3 h-3" />}
+                  {t('message.simplify')}
+                </button>
+              )}
+              {onDraftLetter && (
+                <button onClick={onDraftLetter} className="flex items-center gap-1.5 px-2 py-1 text-xs hover:bg-slate-700 rounded-md transition-colors">
+                   <MailIcon className="w-3 h-3" />
+                   {t('message.draftLetter')}
+                </button>
+              )}
             </div>
+            {simplifications.length === 0 && artifactErrors.simplification && (
+              <p className="mt-2 text-xs text-red-400">{artifactErrors.simplification}</p>
+            )}
             
-            <div className="mt-4 pt-4 border-t border-slate-700">
-              <h4 className="font-bold text-sm text-slate-400 mb-2">✅ Related Topics</h4>
-              <div className="flex flex-wrap gap-2">
-                {message.aiResponseData.relatedTopics.map(topic => (
-                  <span key={topic} className="px-2 py-1 text-xs bg-slate-700 rounded-full">{topic}</span>
-                ))}
+            {!!message.aiResponseData.assumptions?.length && (
+              <div className="mt-4 p-3 rounded-lg border border-slate-700 text-sm">
+                <h4 className="font-bold text-slate-400 mb-1">👤 {t('message.assumptions')}</h4>
+                <ul className="list-disc list-inside text-slate-300">
+                  {message.aiResponseData.assumptions.map(assumption => <li key={assumption}>{assumption}</li>)}
+                </ul>
               </div>
-            </div>
+            )}
 
-            <div className="mt-4">
-              <h4 className="font-bold text-sm text-slate-400 mb-2">✅ Sources</h4>
-              <ul className="list-disc list-inside text-sm">
-                {message.aiResponseData.sourceLinks.map(link => (
-                  <li key={link.url}>
-                    <a href={link.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
-                      {link.title}
+            {message.aiResponseData.relatedTopics.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-slate-700">
+                <h4 className="font-bold text-sm text-slate-400 mb-2">✅ {t('message.relatedTopics')}</h4>
+                <div className="flex flex-wrap gap-2">
+                  {message.aiResponseData.relatedTopics.map(topic => onAskFollowUp ? (
+                    <button
+                      key={topic}
+                      // Asked in the answer's language, which may differ from the interface language.
+                      onClick={() => onAskFollowUp(translate(resolveLocale(message.aiResponseData!.language), 'message.topicQuestion', { topic }))}
+                      disabled={actionsDisabled}
+                      className="px-2 py-1 text-xs bg-slate-700 rounded-full hover:bg-slate-600 disabled:opacity-50"
+                    >
+                      {topic}
+                    </button>
+                  ) : (
+                    <span key={topic} className="px-2 py-1 text-xs bg-slate-700 rounded-full">{topic}</span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {lawCitations.length > 0 && (
+              <div className="mt-4">
+                <h4 className="font-bold text-sm text-slate-400 mb-2">⚖️ {t('message.citedLaw')}</h4>
+                <div className="flex flex-wrap gap-2">
+                  {lawCitations.map(ref => (
+                    <a key={toViewerHash(ref)} href={toViewerHash(ref)} className="px-2 py-1 text-xs bg-blue-950 text-blue-300 rounded-full hover:bg-blue-900">
+                      {describeLawRef(ref)}
                     </a>
-                  </li>
-                ))}
-              </ul>
-            </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {message.aiResponseData.sourceLinks.length > 0 && (
+              <div className="mt-4">
+                <h4 className="font-bold text-sm text-slate-400 mb-2">✅ {t('message.sources')}</h4>
+                <ul className="list-disc list-inside text-sm">
+                  {message.aiResponseData.sourceLinks.map(link => (
+                    <li key={link.url}>
+                      <a href={link.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+                        {link.title}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,250 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { ChatSession } from '../types';
+import { LogoIcon, SearchIcon, PinIcon, PencilIcon, TrashIcon, CalculatorIcon, FileTextIcon, ScaleIcon, MailIcon, UserIcon, LockIcon } from './Icons';
+import { groupChatsByDate, searchChats } from '../utils/chatHistory';
+import type { ChatGroupKey } from '../utils/chatHistory';
+import type { ExportFormat } from '../utils/chatExport';
+import { renderHighlighted } from './Markdown';
+import { LAWS } from '../data/law';
+import { toViewerHash } from '../utils/lawCitations';
+import { LOCALES } from '../i18n';
+import type { Locale, MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ChatSidebarProps {
+  chats: ChatSession[];
+  activeChatId: string | null;
+  searchQuery: string;
+  onSearchChange: (query: string) => void;
+  onSelectChat: (chatId: string) => void;
+  onNewChat: () => void;
+  onRenameChat: (chatId: string, title: string) => void;
+  onDeleteChat: (chatId: string) => void;
+  onTogglePin: (chatId: string) => void;
+  onExportAll: (format: ExportFormat) => void;
+  onImport: (files: FileList) => void;
+  onOpenCalculators: () => void;
+  onOpenContractChecker: () => void;
+  onOpenLetters: () => void;
+  onOpenProfile: () => void;
+  onOpenSecurity: () => void;
+  /** The chosen UI language, or 'auto' to follow the language of the answers. */
+  localeSetting: Locale | 'auto';
+  onLocaleSettingChange: (setting: Locale | 'auto') => void;
+}
+
+const GROUP_LABELS: Record<ChatGroupKey, MessageKey> = {
+  pinned: 'sidebar.pinned',
+  today: 'sidebar.today',
+  lastWeek: 'sidebar.lastWeek',
+  older: 'sidebar.older',
+};
+
+const ChatSidebar: React.FC<ChatSidebarProps> = ({
+  chats,
+  activeChatId,
+  searchQuery,
+  onSearchChange,
+  onSelectChat,
+  onNewChat,
+  onRenameChat,
+  onDeleteChat,
+  onTogglePin,
+  onExportAll,
+  onImport,
+  onOpenCalculators,
+  onOpenContractChecker,
+  onOpenLetters,
+  onOpenProfile,
+  onOpenSecurity,
+  localeSetting,
+  onLocaleSettingChange,
+}) => {
+  const { t } = useI18n();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editingChatId, setEditingChatId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const groups = useMemo(() => groupChatsByDate(chats), [chats]);
+  const searchResults = useMemo(() => searchChats(chats, searchQuery), [chats, searchQuery]);
+  const isSearching = searchQuery.trim() !== '';
+
+  const startRename = (chat: ChatSession) => {
+    setEditingChatId(chat.id);
+    setEditingTitle(chat.title);
+  };
+
+  const commitRename = () => {
+    if (editingChatId && editingTitle.trim()) {
+      onRenameChat(editingChatId, editingTitle.trim());
+    }
+    setEditingChatId(null);
+  };
+
+  const renderChat = (chat: ChatSession, snippet?: string) => {
+    const isActive = activeChatId === chat.id;
+    if (editingChatId === chat.id) {
+      return (
+        <input
+          key={chat.id}
+          autoFocus
+          value={editingTitle}
+          onChange={(e) => setEditingTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setEditingChatId(null);
+          }}
+          className="w-full p-2 rounded-lg bg-slate-800 text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label={t('sidebar.chatTitle')}
+        />
+      );
+    }
+
+    return (
+      <div key={chat.id} className={`group flex items-start gap-1 rounded-lg ${isActive ? 'bg-slate-800' : 'hover:bg-slate-800/50'}`}>
+        <a
+          href="#"
+          onClick={(e) => { e.preventDefault(); onSelectChat(chat.id); }}
+          className="flex-1 min-w-0 p-2"
+        >
+          <span className="block truncate">{renderHighlighted(chat.title, searchQuery)}</span>
+          {snippet && <span className="block text-xs text-slate-500 line-clamp-2">{renderHighlighted(snippet, searchQuery)}</span>}
+        </a>
+        <div className={`flex items-center gap-0.5 p-1 text-slate-400 ${chat.pinned ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+          <button onClick={() => onTogglePin(chat.id)} className={`p-1 rounded hover:bg-slate-700 ${chat.pinned ? 'text-blue-400' : ''}`} aria-label={chat.pinned ? t('sidebar.unpin') : t('sidebar.pin')}>
+            <PinIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => startRename(chat)} className="p-1 rounded hover:bg-slate-700" aria-label={t('sidebar.rename')}>
+            <PencilIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => onDeleteChat(chat.id)} className="p-1 rounded hover:bg-slate-700 hover:text-red-400" aria-label={t('sidebar.delete')}>
+            <TrashIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <aside className="w-1/4 bg-slate-950 flex flex-col p-4 border-r border-slate-800">
+      <header className="flex items-center gap-2 p-2 mb-4">
+        <LogoIcon className="w-8 h-8 text-blue-400" />
+        <h1 className="text-xl font-bold">AI Union Helper</h1>
+      </header>
+      <button
+        onClick={onNewChat}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors mb-4"
+      >
+        {t('sidebar.newChat')}
+      </button>
+      <button
+        onClick={onOpenCalculators}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg text-sm text-slate-300 hover:bg-slate-800 transition-colors mb-1"
+      >
+        <CalculatorIcon className="w-4 h-4" />
+        {t('sidebar.calculators')}
+      </button>
+      <button
+        onClick={onOpenContractChecker}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg text-sm text-slate-300 hover:bg-slate-800 transition-colors mb-1"
+      >
+        <FileTextIcon className="w-4 h-4" />
+        {t('sidebar.contractChecker')}
+      </button>
+      <button
+        onClick={onOpenLetters}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg text-sm text-slate-300 hover:bg-slate-800 transition-colors mb-1"
+      >
+        <MailIcon className="w-4 h-4" />
+        {t('sidebar.letters')}
+      </button>
+      <button
+        onClick={onOpenProfile}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg text-sm text-slate-300 hover:bg-slate-800 transition-colors mb-1"
+      >
+        <UserIcon className="w-4 h-4" />
+        {t('sidebar.profile')}
+      </button>
+      <button
+        onClick={onOpenSecurity}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg text-sm text-slate-300 hover:bg-slate-800 transition-colors mb-1"
+      >
+        <LockIcon className="w-4 h-4" />
+        {t('sidebar.security')}
+      </button>
+      <a
+        href={toViewerHash({ lawId: LAWS[0].id })}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg text-sm text-slate-300 hover:bg-slate-800 transition-colors mb-4"
+      >
+        <ScaleIcon className="w-4 h-4" />
+        {t('sidebar.lawLibrary')}
+      </a>
+      <div className="relative mb-4">
+        <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => onSearchChange(e.target.value)}
+          placeholder={t('sidebar.search')}
+          className="w-full bg-slate-800 rounded-lg py-2 pl-9 pr-3 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {isSearching ? (
+          <>
+            <h2 className="text-sm font-semibold text-slate-400 mb-2 px-2">
+              {searchResults.length === 0 ? t('sidebar.noMatches') : t('sidebar.matches', { count: searchResults.length })}
+            </h2>
+            <nav>
+              {searchResults.map(result => renderChat(result.chat, result.snippet))}
+            </nav>
+          </>
+        ) : (
+          <>
+            <h2 className="text-sm font-semibold text-slate-400 mb-2 px-2">{t('sidebar.previousChats')}</h2>
+            {groups.map(group => (
+              <nav key={group.key} className="mb-3">
+                <h3 className="text-xs uppercase tracking-wide text-slate-500 mb-1 px-2">{t(GROUP_LABELS[group.key])}</h3>
+                {group.chats.map(chat => renderChat(chat))}
+              </nav>
+            ))}
+          </>
+        )}
+      </div>
+      <div className="pt-4 mt-2 border-t border-slate-800 text-xs text-slate-400">
+        <p className="px-2 mb-1 font-semibold">{t('sidebar.allChats')}</p>
+        <div className="flex flex-wrap gap-1">
+          <button onClick={() => onExportAll('json')} disabled={chats.length === 0} className="px-2 py-1 rounded-md hover:bg-slate-800 disabled:opacity-50">{t('sidebar.exportJson')}</button>
+          <button onClick={() => onExportAll('markdown')} disabled={chats.length === 0} className="px-2 py-1 rounded-md hover:bg-slate-800 disabled:opacity-50">{t('sidebar.exportMarkdown')}</button>
+          <button onClick={() => onExportAll('report')} disabled={chats.length === 0} className="px-2 py-1 rounded-md hover:bg-slate-800 disabled:opacity-50">{t('chat.caseReport')}</button>
+          <button onClick={() => importInputRef.current?.click()} className="px-2 py-1 rounded-md hover:bg-slate-800">{t('sidebar.import')}</button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.length) onImport(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <label className="flex items-center gap-2 px-2 mt-3">
+          <span className="font-semibold">{t('language.label')}</span>
+          <select
+            value={localeSetting}
+            onChange={(e) => onLocaleSettingChange(e.target.value as Locale | 'auto')}
+            className="flex-1 bg-slate-800 rounded-md py-1 px-2 text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="auto">{t('language.auto')}</option>
+            {LOCALES.map(locale => <option key={locale.code} value={locale.code} lang={locale.tag}>{locale.name}</option>)}
+          </select>
+        </label>
+      </div>
+    </aside>
+  );
+};
+
+export default ChatSidebar;
@@ -0,0 +1,168 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { extractDocumentText, DocumentError } from '../services/documentText';
+import { CONTRACT_STATUS_LABELS, contractReportToPrompt } from '../utils/contractChecklist';
+import { checkContract } from '../services/apiClient';
+import type { ContractItemStatus, ContractReport } from '../utils/contractChecklist';
+import { classifyError, isAbortError } from '../services/errors';
+import { formatTimestamp } from '../utils/chatExport';
+import type { Redactor } from '../utils/redaction';
+import LoadingSpinner from './LoadingSpinner';
+import { useI18n } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n';
+
+interface ContractCheckerProps {
+  onClose: () => void;
+  /** Starts a new chat with the given question. */
+  onDiscuss: (question: string) => void;
+  /** Hides personal data in the contract from the model. */
+  redactor?: Redactor;
+}
+
+const STATUS_STYLES: Record<ContractItemStatus, string> = {
+  present: 'bg-green-900/60 text-green-300',
+  missing: 'bg-red-900/60 text-red-300',
+  ambiguous: 'bg-amber-900/60 text-amber-300',
+  notApplicable: 'bg-slate-800 text-slate-400',
+};
+
+/**
+ * Checks an uploaded or pasted employment contract against the minimum content
+ * in arbeidsmiljøloven §14-6. Files are read in the browser; only the text is
+ * sent to the model, and only when the user asks for the check.
+ */
+const ContractChecker: React.FC<ContractCheckerProps> = ({ onClose, onDiscuss, redactor }) => {
+  const { t, tag } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ContractReport | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      setText(await extractDocumentText(file));
+      setFileName(file.name);
+      setReport(null);
+    } catch (e) {
+      setError(t(`document.${e instanceof DocumentError ? e.kind : 'readFailed'}`));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!text.trim() || isChecking) return;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsChecking(true);
+    setError(null);
+    try {
+      setReport(await checkContract(text, tag, abortController.signal, redactor));
+    } catch (e) {
+      if (!isAbortError(e)) setError(t(`errors.${classifyError(e).kind}`));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const counts = report?.items.reduce<Partial<Record<ContractItemStatus, number>>>(
+    (acc, item) => ({ ...acc, [item.status]: (acc[item.status] ?? 0) + 1 }), {});
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="contract-checker-title">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-6">
+        <div className="flex items-center mb-4">
+          <h2 id="contract-checker-title" className="flex-1 text-lg font-bold">{t('contract.title')}</h2>
+          <button onClick={onClose} className="px-2 py-1 rounded-md text-slate-400 hover:bg-slate-800" aria-label={t('common.close')}>✕</button>
+        </div>
+
+        {!report ? (
+          <>
+            <p className="text-sm text-slate-400 mb-3">{t('contract.intro')}</p>
+            <div className="flex items-center gap-2 mb-3">
+              <button onClick={() => fileInputRef.current?.click()} disabled={isReading} className="flex items-center gap-2 px-3 py-2 text-sm rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-50">
+                {isReading && <LoadingSpinner size={14} />}
+                {t('contract.upload')}
+              </button>
+              {fileName && <span className="text-xs text-slate-500 truncate">{fileName}</span>}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.pdf,.docx,text/plain,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => { setText(e.target.value); setFileName(null); }}
+              placeholder={t('contract.paste')}
+              rows={10}
+              className="w-full bg-slate-800 rounded-md p-2 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              aria-label={t('contract.text')}
+            />
+            {error && <p className="mt-2 text-sm text-red-400" role="alert">{error}</p>}
+            <div className="flex justify-end mt-3">
+              <button onClick={handleCheck} disabled={!text.trim() || isChecking} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md disabled:bg-slate-600 disabled:cursor-not-allowed">
+                {isChecking && <LoadingSpinner size={16} />}
+                {t('contract.check')}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="mb-4">
+              <p className="text-sm text-slate-300">{report.summary}</p>
+              <p className="mt-2 text-xs text-slate-500">
+                {(['present', 'missing', 'ambiguous', 'notApplicable'] as ContractItemStatus[])
+                  .filter(status => counts?.[status])
+                  .map(status => `${counts![status]} ${t(CONTRACT_STATUS_LABELS[status])}`)
+                  .join(' · ')}
+                {' · '}{t('contract.checked', { date: formatTimestamp(report.checkedAt) })}
+              </p>
+              {report.truncated && (
+                <p className="mt-2 text-xs text-amber-400">{t('contract.truncated')}</p>
+              )}
+            </div>
+
+            <ul className="space-y-3">
+              {report.items.map(item => (
+                <li key={item.id} className="p-3 rounded-lg border border-slate-800">
+                  <div className="flex items-center gap-2">
+                    <h3 className="flex-1 font-semibold text-sm">{t(`contract.item.${item.id}` as MessageKey)} <span className="font-normal text-slate-500">{item.legalBasis}</span></h3>
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[item.status]}`}>{t(CONTRACT_STATUS_LABELS[item.status])}</span>
+                  </div>
+                  {item.note && <p className="mt-1 text-sm text-slate-400">{item.note}</p>}
+                  {item.quote && (
+                    <blockquote className="mt-2 pl-3 border-l-2 border-slate-600 text-sm italic text-slate-300">{item.quote}</blockquote>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <p className="mt-4 text-xs text-slate-500">{t('contract.disclaimer')}</p>
+            <div className="flex justify-end gap-2 mt-3">
+              <button onClick={() => setReport(null)} className="py-2 px-4 rounded-md text-sm hover:bg-slate-800">{t('contract.checkAnother')}</button>
+              <button onClick={() => onDiscuss(contractReportToPrompt(report, t))} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md">
+                {t('contract.discuss')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContractChecker;
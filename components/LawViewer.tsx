@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { LAWS, getLaw, getSectionSourceUrl } from '../data/law';
+import { searchLaw } from '../services/lawRetrieval';
+import type { LawRef } from '../utils/lawCitations';
+import { toViewerHash } from '../utils/lawCitations';
+import { SearchIcon } from './Icons';
+import { useI18n } from '../i18n/I18nContext';
+
+interface LawViewerProps {
+  lawRef: LawRef;
+  onClose: () => void;
+}
+
+/**
+ * Reader for the local law corpus. Sections are addressed by URL hash
+ * (#law/aml/15-3), so citations in answers are ordinary links.
+ */
+const LawViewer: React.FC<LawViewerProps> = ({ lawRef, onClose }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const sectionRefs = useRef<Record<string, HTMLElement | null>>({});
+  const law = getLaw(lawRef.lawId) ?? LAWS[0];
+  const results = useMemo(() => (query.trim() ? searchLaw(query, 10) : []), [query]);
+
+  useEffect(() => {
+    if (lawRef.sectionId) sectionRefs.current[lawRef.sectionId]?.scrollIntoView({ block: 'start' });
+  }, [lawRef.lawId, lawRef.sectionId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="law-viewer-title">
+      <div className="w-full max-w-4xl h-full max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-lg shadow-xl">
+        <div className="flex items-center gap-2 p-4 border-b border-slate-800">
+          <h2 id="law-viewer-title" className="flex-1 text-lg font-bold">{t('law.title')}</h2>
+          <div className="relative">
+            <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('law.search')}
+              className="w-64 bg-slate-800 rounded-lg py-1.5 pl-9 pr-3 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <button onClick={onClose} className="px-2 py-1 rounded-md text-slate-400 hover:bg-slate-800" aria-label={t('common.close')}>✕</button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <nav className="w-56 shrink-0 overflow-y-auto border-r border-slate-800 p-2 text-sm">
+            {LAWS.map(item => (
+              <div key={item.id} className="mb-2">
+                <a href={toViewerHash({ lawId: item.id })} className={`block px-2 py-1 rounded font-semibold ${item.id === law.id ? 'bg-slate-800 text-blue-400' : 'hover:bg-slate-800'}`}>
+                  {item.shortTitle}
+                </a>
+                {item.id === law.id && item.sections.map(section => (
+                  <a
+                    key={section.id}
+                    href={toViewerHash({ lawId: item.id, sectionId: section.id })}
+                    className={`block px-2 py-0.5 ml-2 rounded truncate text-xs ${section.id === lawRef.sectionId ? 'text-blue-400' : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                    {section.label} {section.title}
+                  </a>
+                ))}
+              </div>
+            ))}
+          </nav>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            {query.trim() ? (
+              <>
+                <h3 className="text-sm font-semibold text-slate-400 mb-3">{results.length === 0 ? t('law.noMatches') : t('law.matches')}</h3>
+                {results.map(({ law: resultLaw, section }) => (
+                  <a
+                    key={`${resultLaw.id}/${section.id}`}
+                    href={toViewerHash({ lawId: resultLaw.id, sectionId: section.id })}
+                    onClick={() => setQuery('')}
+                    className="block mb-3 p-3 rounded-lg bg-slate-800 hover:bg-slate-700"
+                  >
+                    <p className="text-sm font-semibold">{resultLaw.shortTitle} {section.label} {section.title}</p>
+                    <p className="text-xs text-slate-400 line-clamp-2">{section.text}</p>
+                  </a>
+                ))}
+              </>
+            ) : (
+              <>
+                <header className="mb-6">
+                  <h3 className="text-xl font-bold">{law.shortTitle}</h3>
+                  <p className="text-sm text-slate-400">{law.title}</p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('law.textAsOf', { date: law.version })}
+                    {law.sourceUrl && (
+                      <> · <a href={law.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">Lovdata</a></>
+                    )}
+                  </p>
+                  {law.note && <p className="text-xs text-amber-400/80 mt-2">{law.note}</p>}
+                </header>
+                {law.sections.map(section => {
+                  const sourceUrl = getSectionSourceUrl(law, section);
+                  return (
+                    <section
+                      key={section.id}
+                      ref={(element) => { sectionRefs.current[section.id] = element; }}
+                      className={`mb-6 p-3 rounded-lg scroll-mt-4 ${section.id === lawRef.sectionId ? 'bg-blue-950/50 ring-1 ring-blue-800' : ''}`}
+                    >
+                      <h4 className="font-semibold">{section.label} {section.title}</h4>
+                      <p className="mt-1 text-sm text-slate-300 leading-relaxed">{section.text}</p>
+                      {sourceUrl && sourceUrl !== law.sourceUrl && (
+                        <a href={sourceUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-400 hover:underline">{t('law.readOnLovdata')}</a>
+                      )}
+                    </section>
+                  );
+                })}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LawViewer;
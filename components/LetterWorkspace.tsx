@@ -0,0 +1,216 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { LETTER_TYPES } from '../utils/letterTypes';
+import { draftLetter } from '../services/apiClient';
+import type { LetterTone, LetterType } from '../utils/letterTypes';
+import { classifyError, isAbortError } from '../services/errors';
+import { buildEml, fillPlaceholders, findPlaceholders, printLetter, segmentLetter, toMailtoUrl } from '../utils/letters';
+import { downloadFile, toFileName } from '../utils/chatExport';
+import type { Redactor } from '../utils/redaction';
+import LoadingSpinner from './LoadingSpinner';
+import { useI18n } from '../i18n/I18nContext';
+import { LOCALES, getLocaleTag, resolveLocale } from '../i18n';
+import type { MessageKey } from '../i18n';
+
+interface LetterWorkspaceProps {
+  /** Prefills the situation, e.g. with the question and answer the letter is drafted from. */
+  initialSituation?: string;
+  /** BCP-47 code of the language to suggest for the letter. */
+  initialLanguage: string;
+  onClose: () => void;
+  /** Saves the finished letter to the chat the workspace was opened from. */
+  onSave?: (text: string) => void;
+  /** Hides personal data in the situation from the model. */
+  redactor?: Redactor;
+}
+
+const TYPE_LABELS: Record<LetterType, MessageKey> = {
+  complaint: 'letter.type.complaint',
+  consultationRequest: 'letter.type.consultationRequest',
+  navAppeal: 'letter.type.navAppeal',
+  dismissalObjection: 'letter.type.dismissalObjection',
+  contractRequest: 'letter.type.contractRequest',
+};
+
+const TONE_LABELS: Record<LetterTone, MessageKey> = {
+  formal: 'letter.tone.formal',
+  friendly: 'letter.tone.friendly',
+  firm: 'letter.tone.firm',
+};
+
+const inputClassName = 'w-full bg-slate-800 rounded-md p-2 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Drafts letters and emails to an employer or NAV. The model writes a draft with
+ * [[placeholders]]; the user fills them in as form fields, edits the text and
+ * exports it. Placeholder values are kept when a new draft is written.
+ */
+const LetterWorkspace: React.FC<LetterWorkspaceProps> = ({ initialSituation = '', initialLanguage, onClose, onSave, redactor }) => {
+  const { t } = useI18n();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [type, setType] = useState<LetterType>('complaint');
+  const [tone, setTone] = useState<LetterTone>('formal');
+  const [language, setLanguage] = useState(() => getLocaleTag(resolveLocale(initialLanguage)));
+  const [situation, setSituation] = useState(initialSituation);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [recipient, setRecipient] = useState('');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // A saved letter that is edited afterwards can be saved again as a new version.
+  useEffect(() => setSaved(false), [subject, body, values]);
+
+  const handleDraft = async () => {
+    if (isDrafting) return;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsDrafting(true);
+    setError(null);
+    try {
+      const draft = await draftLetter({ type, tone, situation, language }, abortController.signal, redactor);
+      setSubject(draft.subject);
+      setBody(draft.body);
+    } catch (e) {
+      if (!isAbortError(e)) setError(t(`errors.${classifyError(e).kind}`));
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const placeholders = body ? findPlaceholders(`${subject}\n${body}`) : [];
+  const missingCount = placeholders.filter(label => !values[label]?.trim()).length;
+  const letter = { to: recipient, subject: fillPlaceholders(subject, values), body: fillPlaceholders(body ?? '', values) };
+  const baseName = toFileName(letter.subject || t(TYPE_LABELS[type]));
+
+  const handleSave = () => {
+    onSave?.(`${letter.subject}\n\n${letter.body}`);
+    setSaved(true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="letter-workspace-title">
+      <div className="w-full max-w-5xl max-h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-6">
+        <div className="flex items-center mb-4">
+          <h2 id="letter-workspace-title" className="flex-1 text-lg font-bold">{t('letter.title')}</h2>
+          <button onClick={onClose} className="px-2 py-1 rounded-md text-slate-400 hover:bg-slate-800" aria-label={t('common.close')}>✕</button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3 text-sm">
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">{t('letter.type')}</span>
+            <select value={type} onChange={(e) => setType(e.target.value as LetterType)} className={inputClassName}>
+              {(Object.keys(LETTER_TYPES) as LetterType[]).map(key => <option key={key} value={key}>{t(TYPE_LABELS[key])}</option>)}
+            </select>
+            <span className="block text-xs text-slate-500 mt-1">{LETTER_TYPES[type].legalBasis}</span>
+          </label>
+          <div>
+            <span className="block text-xs text-slate-400 mb-1">{t('letter.tone')}</span>
+            <div className="flex gap-1" role="radiogroup" aria-label={t('letter.tone')}>
+              {(Object.keys(TONE_LABELS) as LetterTone[]).map(key => (
+                <button
+                  key={key}
+                  role="radio"
+                  aria-checked={tone === key}
+                  onClick={() => setTone(key)}
+                  className={`flex-1 py-2 rounded-md ${tone === key ? 'bg-blue-600 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+                >
+                  {t(TONE_LABELS[key])}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">{t('letter.language')}</span>
+            <select value={language} onChange={(e) => setLanguage(e.target.value)} className={inputClassName}>
+              {LOCALES.map(locale => <option key={locale.tag} value={locale.tag} lang={locale.tag}>{locale.name}</option>)}
+            </select>
+          </label>
+        </div>
+        <label className="block mb-3">
+          <span className="block text-xs text-slate-400 mb-1">{t('letter.situation')}</span>
+          <textarea
+            value={situation}
+            onChange={(e) => setSituation(e.target.value)}
+            placeholder={t('letter.situationPlaceholder')}
+            rows={4}
+            className={inputClassName}
+          />
+        </label>
+        {error && <p className="mb-3 text-sm text-red-400" role="alert">{error}</p>}
+        <div className="flex justify-end mb-4">
+          <button onClick={handleDraft} disabled={isDrafting} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md disabled:bg-slate-600 disabled:cursor-not-allowed">
+            {isDrafting && <LoadingSpinner size={16} />}
+            {body === null ? t('letter.generate') : t('letter.regenerate')}
+          </button>
+        </div>
+
+        {body !== null && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t border-slate-800">
+            <div className="space-y-3 text-sm">
+              <h3 className="font-semibold">{t('letter.fields')}</h3>
+              {placeholders.length === 0 && <p className="text-slate-500">{t('letter.noFields')}</p>}
+              {placeholders.map(label => (
+                <label key={label} className="block">
+                  <span className="block text-xs text-slate-400 mb-1">{label}</span>
+                  <input
+                    value={values[label] ?? ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [label]: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+              <label className="block">
+                <span className="block text-xs text-slate-400 mb-1">{t('letter.recipient')}</span>
+                <input type="email" value={recipient} onChange={(e) => setRecipient(e.target.value)} className={inputClassName} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-slate-400 mb-1">{t('letter.subject')}</span>
+                <input value={subject} onChange={(e) => setSubject(e.target.value)} className={inputClassName} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-slate-400 mb-1">{t('letter.template')}</span>
+                <textarea value={body} onChange={(e) => setBody(e.target.value)} rows={10} className={`${inputClassName} font-mono text-xs`} />
+              </label>
+            </div>
+
+            <div className="flex flex-col">
+              <h3 className="font-semibold text-sm mb-2">{t('letter.preview')}</h3>
+              <div className="flex-1 p-4 rounded-md bg-white text-slate-900 text-sm font-serif" lang={language}>
+                <p className="font-bold mb-3">
+                  {segmentLetter(subject, values).map((segment, index) => (
+                    <span key={index} className={segment.placeholder && !segment.filled ? 'bg-amber-200' : ''}>{segment.text}</span>
+                  ))}
+                </p>
+                <p className="whitespace-pre-wrap">
+                  {segmentLetter(body, values).map((segment, index) => (
+                    <span key={index} className={segment.placeholder && !segment.filled ? 'bg-amber-200' : ''}>{segment.text}</span>
+                  ))}
+                </p>
+              </div>
+              <p className={`mt-2 text-xs ${missingCount > 0 ? 'text-amber-400' : 'text-slate-500'}`}>
+                {missingCount > 0 ? t('letter.missing', { count: missingCount }) : t('letter.disclaimer')}
+              </p>
+              <div className="flex flex-wrap justify-end gap-2 mt-3 text-sm">
+                <a href={toMailtoUrl(letter)} className="py-2 px-3 rounded-md bg-slate-800 hover:bg-slate-700">{t('letter.email')}</a>
+                <button onClick={() => downloadFile(`${baseName}.eml`, buildEml(letter), 'message/rfc822')} className="py-2 px-3 rounded-md bg-slate-800 hover:bg-slate-700">.eml</button>
+                <button onClick={() => downloadFile(`${baseName}.txt`, `${letter.subject}\n\n${letter.body}\n`, 'text/plain')} className="py-2 px-3 rounded-md bg-slate-800 hover:bg-slate-700">.txt</button>
+                <button onClick={() => printLetter(letter, language)} className="py-2 px-3 rounded-md bg-slate-800 hover:bg-slate-700">{t('letter.print')}</button>
+                {onSave && (
+                  <button onClick={handleSave} disabled={saved} className="py-2 px-3 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-semibold disabled:bg-slate-600">
+                    {saved ? t('letter.saved') : t('letter.saveToChat')}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LetterWorkspace;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { LogoIcon } from './Icons';
+import LoadingSpinner from './LoadingSpinner';
+import { toStorageError } from '../services/storage/db';
+import { useI18n } from '../i18n/I18nContext';
+
+interface LockScreenProps {
+  /** Resolves to false when the passphrase is wrong. */
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onWipe: () => void;
+}
+
+const inputClassName = 'w-full bg-slate-800 rounded-md p-2 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/** Shown instead of the app while the encrypted chats are locked. */
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock, onWipe }) => {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (!(await onUnlock(passphrase))) setError(t('security.wrongPassphrase'));
+    } catch (err) {
+      setError(t(`storage.${toStorageError(err).kind}`));
+    } finally {
+      setIsUnlocking(false);
+      setPassphrase('');
+    }
+  };
+
+  const handleWipe = () => {
+    if (window.confirm(t('security.wipeConfirm'))) onWipe();
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center p-4 font-sans bg-slate-900 text-slate-200">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-6">
+        <LogoIcon className="w-10 h-10 mx-auto mb-3" />
+        <h1 className="text-lg font-bold text-center mb-1">{t('security.lockedTitle')}</h1>
+        <p className="text-sm text-slate-400 text-center mb-4">{t('security.lockedIntro')}</p>
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">{t('security.passphrase')}</span>
+          <input
+            type="password"
+            autoFocus
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        {error && <p className="mt-2 text-sm text-red-400" role="alert">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full flex items-center justify-center gap-2 mt-4 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md disabled:bg-slate-600 disabled:cursor-not-allowed"
+        >
+          {isUnlocking && <LoadingSpinner size={16} />}
+          {t('security.unlock')}
+        </button>
+        <button type="button" onClick={handleWipe} className="w-full mt-4 text-xs text-slate-500 hover:text-red-400 hover:underline">
+          {t('security.forgotten')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
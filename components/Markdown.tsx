@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, sanitizeUrl } from '../utils/markdown';
+import { splitByQuery } from '../utils/chatHistory';
+import { parseLawHref, toViewerHash } from '../utils/lawCitations';
+import type { BlockNode, InlineNode, ListBlock } from '../utils/markdown';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+  /** Search text to highlight in the rendered output. */
+  highlight?: string;
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-xl font-bold',
+  2: 'text-lg font-bold',
+  3: 'text-base font-bold',
+  4: 'text-base font-semibold',
+  5: 'text-sm font-semibold',
+  6: 'text-sm font-semibold text-slate-400',
+};
+
+export const renderHighlighted = (text: string, highlight?: string): React.ReactNode => {
+  if (!highlight) return text;
+  return splitByQuery(text, highlight).map((part, index) => part.match
+    ? <mark key={index} className="bg-yellow-400/80 text-slate-900 rounded-sm">{part.text}</mark>
+    : <React.Fragment key={index}>{part.text}</React.Fragment>);
+};
+
+const renderInline = (nodes: InlineNode[], highlight?: string): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={index}>{renderHighlighted(node.text, highlight)}</React.Fragment>;
+    case 'strong':
+      return <strong key={index}>{renderInline(node.children, highlight)}</strong>;
+    case 'em':
+      return <em key={index}>{renderInline(node.children, highlight)}</em>;
+    case 'del':
+      return <del key={index}>{renderInline(node.children, highlight)}</del>;
+    case 'code':
+      return <code key={index} className="px-1 py-0.5 rounded bg-slate-900 text-sm">{renderHighlighted(node.text, highlight)}</code>;
+    case 'break':
+      return <br key={index} />;
+    case 'link': {
+      // Citations of the law corpus open the built-in law viewer.
+      const lawRef = parseLawHref(node.href);
+      if (lawRef) {
+        return (
+          <a key={index} href={toViewerHash(lawRef)} className="text-blue-400 underline decoration-dotted hover:decoration-solid">
+            {renderInline(node.children, highlight)}
+          </a>
+        );
+      }
+      const href = sanitizeUrl(node.href);
+      // Unsafe or malformed links are rendered as their text only.
+      if (!href) return <React.Fragment key={index}>{renderInline(node.children, highlight)}</React.Fragment>;
+      return (
+        <a key={index} href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+          {renderInline(node.children, highlight)}
+        </a>
+      );
+    }
+  }
+});
+
+const renderList = (list: ListBlock, key: React.Key, highlight?: string): React.ReactNode => {
+  const Tag = list.ordered ? 'ol' : 'ul';
+  return (
+    <Tag
+      key={key}
+      start={list.ordered && list.start !== 1 ? list.start : undefined}
+      className={`${list.ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1`}
+    >
+      {list.items.map((item, index) => (
+        <li key={index}>
+          {renderInline(item.children, highlight)}
+          {item.sublist && renderList(item.sublist, 'sublist', highlight)}
+        </li>
+      ))}
+    </Tag>
+  );
+};
+
+const renderBlocks = (blocks: BlockNode[], highlight?: string): React.ReactNode[] => blocks.map((block, index) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return <Tag key={index} className={HEADING_CLASSES[block.level]}>{renderInline(block.children, highlight)}</Tag>;
+    }
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.children, highlight)}</p>;
+    case 'list':
+      return renderList(block, index, highlight);
+    case 'blockquote':
+      return (
+        <blockquote key={index} className="border-l-4 border-slate-600 pl-4 italic text-slate-400 space-y-2">
+          {renderBlocks(block.children, highlight)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre key={index} className="p-3 rounded-lg bg-slate-900 overflow-x-auto text-sm">
+          <code>{renderHighlighted(block.text, highlight)}</code>
+        </pre>
+      );
+    case 'table':
+      return (
+        <div key={index} className="overflow-x-auto">
+          <table className="min-w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th key={column} style={{ textAlign: block.align[column] ?? undefined }} className="border border-slate-700 px-3 py-1.5 bg-slate-800 font-semibold">
+                    {renderInline(cell, highlight)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} style={{ textAlign: block.align[column] ?? undefined }} className="border border-slate-700 px-3 py-1.5">
+                      {renderInline(cell, highlight)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'hr':
+      return <hr key={index} className="border-slate-700" />;
+  }
+});
+
+/**
+ * Renders Markdown as React elements. No HTML from the text is ever injected,
+ * and links are limited to safe protocols and open in a new tab. `law:` links
+ * to the law corpus open the law viewer instead.
+ */
+const Markdown: React.FC<MarkdownProps> = ({ text, className = '', highlight }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`space-y-3 ${className}`}>{renderBlocks(blocks, highlight)}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { DeadlineKind, NoticeResult } from '../utils/noticePeriod';
+import { buildIcsCalendar } from '../utils/icsExport';
+import { downloadFile } from '../utils/chatExport';
+import { useI18n } from '../i18n/I18nContext';
+import { localize } from '../i18n';
+import type { MessageKey } from '../i18n';
+
+interface NoticeTimelineProps {
+  result: NoticeResult;
+}
+
+const DEADLINE_TITLES: Record<DeadlineKind, MessageKey> = {
+  noticeStart: 'notice.noticeStart',
+  lastWorkingDay: 'notice.lastWorkingDay',
+  negotiationDemand: 'notice.negotiationDemand',
+  lawsuit: 'notice.lawsuit',
+  lawsuitDamagesOnly: 'notice.lawsuitDamagesOnly',
+};
+
+const formatDate = (isoDate: string, localeTag: string) =>
+  new Date(`${isoDate}T00:00:00`).toLocaleDateString(localeTag, { weekday: 'short', day: 'numeric', month: 'long', year: 'numeric' });
+
+const isPast = (isoDate: string) => isoDate < new Date().toISOString().substring(0, 10);
+
+/** The dates that follow from a notice, earliest first, with an .ics download. */
+const NoticeTimeline: React.FC<NoticeTimelineProps> = ({ result }) => {
+  const { t, tag } = useI18n();
+  const { noticePeriod, deadlines } = result;
+
+  const handleExport = () => {
+    const events = deadlines.map(deadline => ({
+      date: deadline.date,
+      title: t(DEADLINE_TITLES[deadline.kind]),
+      description: `${localize(t, deadline.description)}\n${localize(t, deadline.legalBasis)}`,
+    }));
+    downloadFile('notice-deadlines.ics', buildIcsCalendar(events, t('notice.calendarName')), 'text/calendar');
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <p className="flex-1 text-sm text-slate-300">
+          {t('notice.period')} <strong>{noticePeriod.days ? t('notice.days', { count: noticePeriod.days }) : t('notice.months', { count: noticePeriod.months })}</strong>
+          <span className="text-slate-500"> · {localize(t, noticePeriod.legalBasis)}</span>
+        </p>
+        <button onClick={handleExport} className="px-2 py-1 text-xs text-slate-300 rounded-md hover:bg-slate-700">
+          {t('notice.addToCalendar')}
+        </button>
+      </div>
+      <ol className="relative border-l border-slate-700 ml-2">
+        {deadlines.map(deadline => (
+          <li key={deadline.kind} className="mb-4 ml-4">
+            <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-slate-900 ${isPast(deadline.date) ? 'bg-slate-600' : 'bg-blue-500'}`} />
+            <time className="text-xs text-slate-400" dateTime={deadline.date}>{formatDate(deadline.date, tag)}</time>
+            <p className="font-semibold text-sm text-slate-200">{t(DEADLINE_TITLES[deadline.kind])}</p>
+            <p className="text-sm text-slate-400">{localize(t, deadline.description)}</p>
+            {deadline.movedFrom && (
+              <p className="text-xs text-slate-500">{t('notice.movedFrom', { date: formatDate(deadline.movedFrom, tag) })}</p>
+            )}
+            <p className="text-xs text-blue-400">{localize(t, deadline.legalBasis)}</p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default NoticeTimeline;
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import type { RedactionSettings } from '../types';
+import { createRedactor } from '../utils/redaction';
+import { useI18n } from '../i18n/I18nContext';
+
+interface PrivacyPanelProps {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+  /** The question being written, previewed as it will be sent. */
+  text: string;
+  /** Tokens already used in the current chat, so the preview shows the same ones. */
+  replacements?: Record<string, string>;
+  onClose: () => void;
+}
+
+const TOKEN_SPLIT = /(\[[A-Z]+_\d+\])/;
+
+/** Settings for hiding personal data, with a preview of what the model will receive. */
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, onChange, text, replacements, onClose }) => {
+  const { t } = useI18n();
+
+  const preview = useMemo(() => {
+    if (!settings.enabled || !text.trim()) return null;
+    const redactor = createRedactor(settings, replacements);
+    const redacted = redactor.redact(text);
+    const hidden = Object.entries(redactor.replacements).filter(([token]) => redacted.includes(token));
+    return { redacted, hidden };
+  }, [settings, text, replacements]);
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="privacy-panel-title">
+      <div className="w-full max-w-lg max-h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-6">
+        <div className="flex items-center mb-4">
+          <h2 id="privacy-panel-title" className="flex-1 text-lg font-bold">{t('privacy.title')}</h2>
+          <button onClick={onClose} className="px-2 py-1 rounded-md text-slate-400 hover:bg-slate-800" aria-label={t('common.close')}>✕</button>
+        </div>
+        <p className="text-sm text-slate-400 mb-4">{t('privacy.intro')}</p>
+
+        <div className="space-y-3 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} />
+            {t('privacy.enabled')}
+          </label>
+          <label className={`flex items-center gap-2 ${settings.enabled ? '' : 'opacity-50'}`}>
+            <input type="checkbox" checked={settings.detectNames} disabled={!settings.enabled} onChange={(e) => onChange({ ...settings, detectNames: e.target.checked })} />
+            {t('privacy.detectNames')}
+          </label>
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">{t('privacy.customTerms')}</span>
+            <textarea
+              value={settings.customTerms.join('\n')}
+              onChange={(e) => onChange({ ...settings, customTerms: e.target.value.split('\n') })}
+              disabled={!settings.enabled}
+              rows={3}
+              className="w-full bg-slate-800 rounded-md p-2 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+            />
+          </label>
+        </div>
+
+        {settings.enabled && (
+          <div className="mt-4">
+            <h3 className="font-semibold text-sm mb-2">{t('privacy.preview')}</h3>
+            {preview ? (
+              <>
+                <p className="p-3 rounded-md bg-slate-800 text-sm text-slate-300 whitespace-pre-wrap break-words">
+                  {preview.redacted.split(TOKEN_SPLIT).map((part, index) =>
+                    index % 2 === 1 ? <mark key={index} className="bg-amber-900/60 text-amber-200 rounded px-0.5">{part}</mark> : part)}
+                </p>
+                {preview.hidden.length > 0 && (
+                  <ul className="mt-2 space-y-0.5 text-xs text-slate-400">
+                    {preview.hidden.map(([token, value]) => <li key={token}>{value} → {token}</li>)}
+                  </ul>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-slate-500">{t('privacy.previewEmpty')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrivacyPanel;
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { UserProfile } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n';
+
+interface ProfilePanelProps {
+  profile: UserProfile;
+  onChange: (profile: UserProfile) => void;
+  onClose: () => void;
+}
+
+type ChoiceField = Exclude<keyof UserProfile, 'municipality'>;
+
+const YES_NO_UNKNOWN = ['yes', 'no', 'unknown'];
+
+const CHOICES: { field: ChoiceField; options: string[] }[] = [
+  { field: 'sector', options: ['private', 'municipal', 'state'] },
+  { field: 'employmentType', options: ['permanent', 'temporary', 'hired', 'onCall'] },
+  { field: 'tenure', options: ['under1', '1to5', '5to10', '10plus'] },
+  { field: 'ageBand', options: ['under18', '18to49', '50to54', '55to59', '60to66', '67plus'] },
+  { field: 'unionMember', options: YES_NO_UNKNOWN },
+  { field: 'tariffAgreement', options: YES_NO_UNKNOWN },
+  { field: 'workPermit', options: YES_NO_UNKNOWN },
+];
+
+const optionLabel = (field: ChoiceField, option: string) =>
+  (YES_NO_UNKNOWN.includes(option) ? `profile.${option}` : `profile.${field}.${option}`) as MessageKey;
+
+const inputClassName = 'w-full bg-slate-800 rounded-md p-2 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Edits the situation profile. It is kept in localStorage and only sent with
+ * questions in chats where the user turned it on.
+ */
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ profile, onChange, onClose }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="profile-panel-title">
+      <div className="w-full max-w-lg max-h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-6">
+        <div className="flex items-center mb-4">
+          <h2 id="profile-panel-title" className="flex-1 text-lg font-bold">{t('profile.title')}</h2>
+          <button onClick={onClose} className="px-2 py-1 rounded-md text-slate-400 hover:bg-slate-800" aria-label={t('common.close')}>✕</button>
+        </div>
+        <p className="text-sm text-slate-400 mb-4">{t('profile.intro')}</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+          {CHOICES.map(({ field, options }) => (
+            <label key={field} className="block">
+              <span className="block text-xs text-slate-400 mb-1">{t(`profile.${field}` as MessageKey)}</span>
+              <select
+                value={profile[field] ?? ''}
+                onChange={(e) => onChange({ ...profile, [field]: e.target.value || undefined })}
+                className={inputClassName}
+              >
+                <option value="">{t('profile.notSpecified')}</option>
+                {options.map(option => <option key={option} value={option}>{t(optionLabel(field, option))}</option>)}
+              </select>
+            </label>
+          ))}
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">{t('profile.municipality')}</span>
+            <input
+              value={profile.municipality ?? ''}
+              onChange={(e) => onChange({ ...profile, municipality: e.target.value || undefined })}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button onClick={() => onChange({})} className="py-2 px-4 rounded-md text-sm hover:bg-slate-800">{t('profile.clear')}</button>
+          <button onClick={onClose} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md">{t('profile.done')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePanel;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nContext';
+
+interface QuickRepliesProps {
+  followUpQuestions: string[];
+  clarifyingQuestions: string[];
+  /** Sends a suggested follow-up question. */
+  onAsk: (question: string) => void;
+  /** Puts a clarifying question in the input so the user can answer it. */
+  onAnswer: (question: string) => void;
+  disabled?: boolean;
+}
+
+/** Suggested replies to the latest answer, shown above the input. */
+const QuickReplies: React.FC<QuickRepliesProps> = ({ followUpQuestions, clarifyingQuestions, onAsk, onAnswer, disabled = false }) => {
+  const { t } = useI18n();
+  if (followUpQuestions.length === 0 && clarifyingQuestions.length === 0) return null;
+
+  return (
+    <div className="max-w-4xl mx-auto mb-2 space-y-2 text-sm">
+      {clarifyingQuestions.length > 0 && (
+        <div>
+          <p className="text-xs text-slate-400 mb-1">{t('quickReplies.clarifying')}</p>
+          <div className="flex flex-wrap gap-2">
+            {clarifyingQuestions.map(question => (
+              <button
+                key={question}
+                onClick={() => onAnswer(question)}
+                disabled={disabled}
+                title={t('quickReplies.answerHint')}
+                className="px-3 py-1 rounded-full border border-amber-700 text-amber-200 hover:bg-amber-900/40 text-left disabled:opacity-50"
+              >
+                {question}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {followUpQuestions.length > 0 && (
+        <div>
+          <p className="text-xs text-slate-400 mb-1">{t('quickReplies.followUps')}</p>
+          <div className="flex flex-wrap gap-2">
+            {followUpQuestions.map(question => (
+              <button
+                key={question}
+                onClick={() => onAsk(question)}
+                disabled={disabled}
+                className="px-3 py-1 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-200 text-left disabled:opacity-50"
+              >
+                {question}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickReplies;
@@ -0,0 +1,36 @@
+import React from 'react';
+import type { BenefitRule } from '../utils/navBenefits';
+import { getLawSection } from '../data/law';
+import { toViewerHash } from '../utils/lawCitations';
+import { useI18n } from '../i18n/I18nContext';
+
+interface RuleLinksProps {
+  rules: BenefitRule[];
+}
+
+/** Links to the rules a calculation used: the law viewer when the section is in the library, otherwise Lovdata. */
+const RuleLinks: React.FC<RuleLinksProps> = ({ rules }) => {
+  const { t } = useI18n();
+  if (rules.length === 0) return null;
+
+  return (
+    <p className="mt-2 text-xs text-slate-400">
+      {t('calculators.rules')}{' '}
+      {rules.map((rule, index) => {
+        const inLibrary = rule.lawRef && getLawSection(rule.lawRef.lawId, rule.lawRef.sectionId);
+        return (
+          <React.Fragment key={rule.label}>
+            {index > 0 && ', '}
+            {inLibrary ? (
+              <a href={toViewerHash(rule.lawRef)} className="text-blue-400 underline decoration-dotted hover:decoration-solid">{rule.label}</a>
+            ) : rule.url ? (
+              <a href={rule.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{rule.label}</a>
+            ) : rule.label}
+          </React.Fragment>
+        );
+      })}
+    </p>
+  );
+};
+
+export default RuleLinks;
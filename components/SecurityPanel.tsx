@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import type { EncryptionState } from '../hooks/useChatStorage';
+import { toStorageError } from '../services/storage/db';
+import { MIN_PASSPHRASE_LENGTH } from '../services/storage/encryption';
+import LoadingSpinner from './LoadingSpinner';
+import { useI18n } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n';
+
+interface SecurityPanelProps {
+  encryption: EncryptionState;
+  /** Minutes without activity before the chats lock; 0 turns auto-lock off. */
+  autoLockMinutes: number;
+  onAutoLockMinutesChange: (minutes: number) => void;
+  onEnable: (passphrase: string) => Promise<void>;
+  /** Resolves to false when the current passphrase is wrong. */
+  onChangePassphrase: (current: string, next: string) => Promise<boolean>;
+  onDisable: () => Promise<void>;
+  onLock: () => void;
+  onWipe: () => void;
+  onClose: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+
+const inputClassName = 'w-full bg-slate-800 rounded-md p-2 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/** Checks a new passphrase and its repetition; returns the problem, if any. */
+const validatePassphrase = (passphrase: string, repeated: string): MessageKey | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return 'security.tooShort';
+  if (passphrase !== repeated) return 'security.mismatch';
+  return null;
+};
+
+/**
+ * Turns encryption of the chat history on or off, changes the passphrase and
+ * the auto-lock delay, and deletes all data.
+ */
+const SecurityPanel: React.FC<SecurityPanelProps> = ({
+  encryption,
+  autoLockMinutes,
+  onAutoLockMinutesChange,
+  onEnable,
+  onChangePassphrase,
+  onDisable,
+  onLock,
+  onWipe,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [repeated, setRepeated] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const run = async (operation: () => Promise<MessageKey | null>) => {
+    setIsBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const problem = await operation();
+      if (problem) {
+        setError(t(problem));
+      } else {
+        setCurrent('');
+        setPassphrase('');
+        setRepeated('');
+      }
+    } catch (err) {
+      setError(t(`storage.${toStorageError(err).kind}`));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const problem = validatePassphrase(passphrase, repeated);
+      if (problem) return problem;
+      await onEnable(passphrase);
+      setStatus(t('security.enabledNotice'));
+      return null;
+    });
+  };
+
+  const handleChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const problem = validatePassphrase(passphrase, repeated);
+      if (problem) return problem;
+      if (!(await onChangePassphrase(current, passphrase))) return 'security.wrongPassphrase';
+      setStatus(t('security.changedNotice'));
+      return null;
+    });
+  };
+
+  const handleDisable = () => {
+    if (!window.confirm(t('security.disableConfirm'))) return;
+    run(async () => {
+      await onDisable();
+      setStatus(t('security.disabledNotice'));
+      return null;
+    });
+  };
+
+  const handleWipe = () => {
+    if (window.confirm(t('security.wipeConfirm'))) onWipe();
+  };
+
+  const newPassphraseFields = (
+    <>
+      <label className="block">
+        <span className="block text-xs text-slate-400 mb-1">{t('security.newPassphrase')}</span>
+        <input type="password" autoComplete="new-password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={inputClassName} />
+      </label>
+      <label className="block">
+        <span className="block text-xs text-slate-400 mb-1">{t('security.repeatPassphrase')}</span>
+        <input type="password" autoComplete="new-password" value={repeated} onChange={(e) => setRepeated(e.target.value)} className={inputClassName} />
+      </label>
+      <p className="text-xs text-slate-500">{t('security.passphraseHint', { min: MIN_PASSPHRASE_LENGTH })}</p>
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="security-panel-title">
+      <div className="w-full max-w-lg max-h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-6">
+        <div className="flex items-center mb-4">
+          <h2 id="security-panel-title" className="flex-1 text-lg font-bold">{t('security.title')}</h2>
+          <button onClick={onClose} className="px-2 py-1 rounded-md text-slate-400 hover:bg-slate-800" aria-label={t('common.close')}>✕</button>
+        </div>
+
+        {encryption === 'off' ? (
+          <form onSubmit={handleEnable} className="space-y-3 text-sm">
+            <p className="text-slate-400">{t('security.intro')}</p>
+            <p className="p-3 rounded-md bg-amber-900/40 text-amber-200 text-xs">{t('security.warning')}</p>
+            {newPassphraseFields}
+            <button type="submit" disabled={isBusy} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md disabled:bg-slate-600 disabled:cursor-not-allowed">
+              {isBusy && <LoadingSpinner size={16} />}
+              {t('security.enable')}
+            </button>
+          </form>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="flex items-center gap-3">
+              <p className="flex-1 text-slate-300">{t('security.enabled')}</p>
+              <button onClick={onLock} className="py-2 px-3 rounded-md bg-slate-800 hover:bg-slate-700">{t('security.lockNow')}</button>
+            </div>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">{t('security.autoLock')}</span>
+              <select value={autoLockMinutes} onChange={(e) => onAutoLockMinutesChange(Number(e.target.value))} className={inputClassName}>
+                {AUTO_LOCK_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>
+                    {minutes === 0 ? t('security.autoLockNever') : t('security.autoLockMinutes', { count: minutes })}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <form onSubmit={handleChange} className="space-y-3 pt-4 border-t border-slate-800">
+              <h3 className="font-semibold">{t('security.changePassphrase')}</h3>
+              <label className="block">
+                <span className="block text-xs text-slate-400 mb-1">{t('security.currentPassphrase')}</span>
+                <input type="password" autoComplete="current-password" value={current} onChange={(e) => setCurrent(e.target.value)} className={inputClassName} />
+              </label>
+              {newPassphraseFields}
+              <div className="flex flex-wrap gap-2">
+                <button type="submit" disabled={isBusy} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md disabled:bg-slate-600 disabled:cursor-not-allowed">
+                  {isBusy && <LoadingSpinner size={16} />}
+                  {t('security.change')}
+                </button>
+                <button type="button" onClick={handleDisable} disabled={isBusy} className="py-2 px-4 rounded-md hover:bg-slate-800 disabled:opacity-50">
+                  {t('security.disable')}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {error && <p className="mt-3 text-sm text-red-400" role="alert">{error}</p>}
+        {status && <p className="mt-3 text-sm text-green-400" role="status">{status}</p>}
+
+        <div className="mt-6 pt-4 border-t border-slate-800 text-sm">
+          <h3 className="font-semibold text-red-400">{t('security.wipeTitle')}</h3>
+          <p className="text-xs text-slate-400 mt-1 mb-3">{t('security.wipeIntro')}</p>
+          <button onClick={handleWipe} className="py-2 px-4 rounded-md bg-red-700 hover:bg-red-600 text-white font-semibold">{t('security.wipe')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SecurityPanel;
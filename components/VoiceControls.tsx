@@ -0,0 +1,83 @@
+import React from 'react';
+import type { VoiceSettings } from '../types';
+import { LOCALES } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { getVoiceLanguage, getVoicesFor } from '../utils/speech';
+
+type VoiceStatus = 'idle' | 'listening' | 'thinking' | 'speaking';
+
+interface VoiceControlsProps {
+  status: VoiceStatus;
+  settings: VoiceSettings;
+  onSettingsChange: (settings: VoiceSettings) => void;
+  voices: SpeechSynthesisVoice[];
+  /** Language of the answers being read, which decides the voices on offer. */
+  answerLanguage: string;
+  onInterrupt: () => void;
+  onEnd: () => void;
+}
+
+const STATUS_LABELS: Record<VoiceStatus, MessageKey> = {
+  idle: 'voice.title',
+  listening: 'input.listening',
+  thinking: 'voice.thinking',
+  speaking: 'voice.speaking',
+};
+
+/** The bar shown above the input during a voice conversation. */
+const VoiceControls: React.FC<VoiceControlsProps> = ({ status, settings, onSettingsChange, voices, answerLanguage, onInterrupt, onEnd }) => {
+  const { t } = useI18n();
+  const voiceLanguage = getVoiceLanguage(answerLanguage);
+  const availableVoices = getVoicesFor(voices, answerLanguage);
+  const selectClassName = 'bg-slate-800 rounded-md py-1 px-2 text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="max-w-4xl mx-auto mb-2 flex flex-wrap items-center gap-3 text-xs text-slate-400">
+      <p className={`flex-1 min-w-max font-semibold ${status === 'listening' ? 'text-red-400 animate-pulse' : 'text-slate-300'}`} role="status">
+        {t(STATUS_LABELS[status])}
+      </p>
+      <label className="flex items-center gap-1">
+        {t('voice.recognitionLanguage')}
+        <select
+          value={settings.recognitionLanguage}
+          onChange={(e) => onSettingsChange({ ...settings, recognitionLanguage: e.target.value })}
+          className={selectClassName}
+        >
+          <option value="auto">{t('voice.sameAsInterface')}</option>
+          {LOCALES.map(locale => <option key={locale.tag} value={locale.tag} lang={locale.tag}>{locale.name}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        {t('voice.voice')}
+        <select
+          value={settings.voices[voiceLanguage] ?? ''}
+          onChange={(e) => onSettingsChange({ ...settings, voices: { ...settings.voices, [voiceLanguage]: e.target.value } })}
+          className={`${selectClassName} max-w-40`}
+        >
+          <option value="">{t('voice.defaultVoice')}</option>
+          {availableVoices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        {t('voice.rate')}
+        <input
+          type="range"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={settings.rate}
+          onChange={(e) => onSettingsChange({ ...settings, rate: Number(e.target.value) })}
+          className="w-20 accent-blue-500"
+        />
+        <span className="w-8 tabular-nums">{settings.rate.toFixed(1)}×</span>
+      </label>
+      {status === 'speaking' && (
+        <button onClick={onInterrupt} className="px-2 py-1 rounded-md hover:bg-slate-800 text-slate-300">{t('voice.interrupt')}</button>
+      )}
+      <button onClick={onEnd} className="px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold">{t('voice.end')}</button>
+    </div>
+  );
+};
+
+export default VoiceControls;
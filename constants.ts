@@ -1,15 +1,59 @@
+import type { Locale, MessageKey } from './i18n';
 
-export const RECOMMENDED_TOPICS: string[] = [
-  "Termination of employment (Oppsigelse)",
-  "Temporary layoff (Permittering)",
-  "Rights during illness (Sykepenger)",
-  "Work contract requirements (Arbeidskontrakt)",
-  "Overtime pay rules (Overtidsbetaling)",
-  "Holiday pay (Feriepenger)",
-];
+export const RECOMMENDED_TOPICS: Record<Locale, string[]> = {
+  nb: [
+    "Oppsigelse",
+    "Permittering",
+    "Rettigheter ved sykdom (sykepenger)",
+    "Krav til arbeidskontrakten",
+    "Regler for overtidsbetaling",
+    "Feriepenger",
+  ],
+  nn: [
+    "Oppseiing",
+    "Permittering",
+    "Rettar ved sjukdom (sjukepengar)",
+    "Krav til arbeidskontrakten",
+    "Reglar for overtidsbetaling",
+    "Feriepengar",
+  ],
+  en: [
+    "Termination of employment (Oppsigelse)",
+    "Temporary layoff (Permittering)",
+    "Rights during illness (Sykepenger)",
+    "Work contract requirements (Arbeidskontrakt)",
+    "Overtime pay rules (Overtidsbetaling)",
+    "Holiday pay (Feriepenger)",
+  ],
+  pl: [
+    "Wypowiedzenie umowy o pracę (Oppsigelse)",
+    "Czasowe zwolnienie (Permittering)",
+    "Prawa w czasie choroby (Sykepenger)",
+    "Wymogi dotyczące umowy o pracę (Arbeidskontrakt)",
+    "Zasady płatności za nadgodziny (Overtidsbetaling)",
+    "Wynagrodzenie urlopowe (Feriepenger)",
+  ],
+  lt: [
+    "Darbo sutarties nutraukimas (Oppsigelse)",
+    "Laikinas atleidimas (Permittering)",
+    "Teisės ligos metu (Sykepenger)",
+    "Darbo sutarties reikalavimai (Arbeidskontrakt)",
+    "Viršvalandžių apmokėjimo taisyklės (Overtidsbetaling)",
+    "Atostoginiai (Feriepenger)",
+  ],
+  uk: [
+    "Звільнення з роботи (Oppsigelse)",
+    "Тимчасове відсторонення від роботи (Permittering)",
+    "Права під час хвороби (Sykepenger)",
+    "Вимоги до трудового договору (Arbeidskontrakt)",
+    "Правила оплати понаднормової роботи (Overtidsbetaling)",
+    "Відпускні (Feriepenger)",
+  ],
+};
 
-export const FOOTER_LINKS: { name: string; url: string }[] = [
-  { name: "NAV", url: "https://www.nav.no" },
-  { name: "Arbeidstilsynet", url: "https://www.arbeidstilsynet.no" },
-  { name: "Skatteetaten", url: "https://www.skatteetaten.no" },
+/** `englishUrl` is used for every locale except Norwegian. */
+export const FOOTER_LINKS: { label: MessageKey; url: string; englishUrl: string }[] = [
+  { label: 'footer.nav', url: "https://www.nav.no", englishUrl: "https://www.nav.no/en/home" },
+  { label: 'footer.arbeidstilsynet', url: "https://www.arbeidstilsynet.no", englishUrl: "https://www.arbeidstilsynet.no/en/" },
+  { label: 'footer.skatteetaten', url: "https://www.skatteetaten.no", englishUrl: "https://www.skatteetaten.no/en/" },
 ];
@@ -0,0 +1,48 @@
+import arbeidsmiljoloven from './arbeidsmiljoloven.json';
+import ferieloven from './ferieloven.json';
+import folketrygdlovenKap8 from './folketrygdloven-kap8.json';
+import hovedavtalen from './hovedavtalen.json';
+
+// The law corpus: one JSON file per statute or agreement. `version` is the date
+// the text reflects; bump it together with CORPUS_VERSION when a file changes.
+
+export interface LawSection {
+  /** Stable id used in citations, e.g. "15-3". */
+  id: string;
+  /** How the section is referred to, e.g. "§ 15-3". */
+  label: string;
+  title: string;
+  text: string;
+  /** Extra search terms, mainly English, so questions in other languages find the section. */
+  keywords?: string[];
+}
+
+export interface LawDocument {
+  id: string;
+  title: string;
+  shortTitle: string;
+  version: string;
+  /** Lovdata address of the statute; section links append "/§<id>". */
+  sourceUrl?: string;
+  note?: string;
+  sections: LawSection[];
+}
+
+export const CORPUS_VERSION = '2025-01-01';
+
+export const LAWS: LawDocument[] = [arbeidsmiljoloven, ferieloven, folketrygdlovenKap8, hovedavtalen];
+
+export const getLaw = (lawId: string): LawDocument | undefined => LAWS.find(law => law.id === lawId);
+
+export const getLawSection = (lawId: string, sectionId: string): { law: LawDocument; section: LawSection } | null => {
+  const law = getLaw(lawId);
+  const section = law?.sections.find(s => s.id === sectionId);
+  return law && section ? { law, section } : null;
+};
+
+/** "Arbeidsmiljøloven § 15-3" */
+export const formatSectionRef = (law: LawDocument, section: LawSection): string => `${law.shortTitle} ${section.label}`;
+
+/** Link to the authoritative text, when the source has one. */
+export const getSectionSourceUrl = (law: LawDocument, section: LawSection): string | undefined =>
+  law.sourceUrl && section.label.startsWith('§') ? `${law.sourceUrl}/§${section.id}` : law.sourceUrl;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ChatSession } from '../types';
+import {
+  applyChanges, decryptChats, diffChats, encryptChats, getEncryptionConfig, hasChanges, importLegacyLocalStorage, loadChats,
+} from '../services/storage/chatRepository';
+import { deleteDatabase, toStorageError } from '../services/storage/db';
+import type { StorageErrorKind } from '../services/storage/db';
+import { unlockKey } from '../services/storage/encryption';
+
+/** Whether chats are encrypted at rest, and if so whether the key is in memory. */
+export type EncryptionState = 'off' | 'locked' | 'unlocked';
+
+export interface ChatStorage {
+  chats: ChatSession[];
+  setChats: React.Dispatch<React.SetStateAction<ChatSession[]>>;
+  isLoaded: boolean;
+  /** What went wrong when loading or saving failed. */
+  storageError: StorageErrorKind | null;
+  dismissStorageError: () => void;
+  encryption: EncryptionState;
+  /** Resolves to false when the passphrase is wrong. */
+  unlock: (passphrase: string) => Promise<boolean>;
+  /** Forgets the key and clears the chats from memory. */
+  lock: () => void;
+  enableEncryption: (passphrase: string) => Promise<void>;
+  /** Re-encrypts everything with a new passphrase. Resolves to false when the current one is wrong. */
+  changePassphrase: (current: string, next: string) => Promise<boolean>;
+  disableEncryption: () => Promise<void>;
+  /** Deletes the database and everything the app keeps in browser storage. */
+  wipeAll: () => Promise<void>;
+}
+
+/**
+ * Keeps the chat list in React state and persists it to IndexedDB. Only the
+ * sessions and messages that changed since the last save are written. When
+ * encryption is on, the key is derived from the passphrase on unlock and only
+ * kept in memory; nothing is loaded until then.
+ */
+export function useChatStorage(): ChatStorage {
+  const [chats, setChats] = useState<ChatSession[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<StorageErrorKind | null>(null);
+  const [encryption, setEncryption] = useState<EncryptionState>('off');
+  const persistedRef = useRef<ChatSession[]>([]);
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // The key the database is sealed with at the current point of the write queue.
+  // It is only changed by queued operations, so each write uses the right key.
+  const keyRef = useRef<CryptoKey | null>(null);
+
+  const showLoaded = (loaded: ChatSession[]) => {
+    persistedRef.current = loaded;
+    setChats(loaded);
+    setIsLoaded(true);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        await importLegacyLocalStorage();
+        if (await getEncryptionConfig()) {
+          if (!cancelled) setEncryption('locked');
+          return;
+        }
+        const loaded = await loadChats();
+        if (!cancelled) showLoaded(loaded);
+      } catch (error) {
+        console.error('Failed to load chats:', error);
+        if (!cancelled) {
+          setStorageError(toStorageError(error).kind);
+          setIsLoaded(true);
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const changes = diffChats(persistedRef.current, chats);
+    if (!hasChanges(changes)) return;
+    const previous = persistedRef.current;
+    persistedRef.current = chats;
+
+    // Writes are chained so they reach the database in the order they were made.
+    writeQueueRef.current = writeQueueRef.current
+      .then(() => applyChanges(changes, keyRef.current))
+      .catch(error => {
+        console.error('Failed to save chats:', error);
+        // Diff against the last good snapshot next time, so the change is retried.
+        if (persistedRef.current === chats) persistedRef.current = previous;
+        setStorageError(toStorageError(error).kind);
+      });
+  }, [chats, isLoaded]);
+
+  /** Runs an operation on the whole database after the pending writes. */
+  const afterWrites = <T,>(operation: () => Promise<T>): Promise<T> => {
+    const result = writeQueueRef.current.then(operation);
+    writeQueueRef.current = result.then(() => undefined, () => undefined);
+    return result;
+  };
+
+  const unlock = async (passphrase: string) => {
+    const config = await getEncryptionConfig();
+    if (!config) return true;
+    const key = await unlockKey(passphrase, config);
+    if (!key) return false;
+    const loaded = await loadChats(key);
+    await afterWrites(async () => { keyRef.current = key; });
+    setEncryption('unlocked');
+    showLoaded(loaded);
+    return true;
+  };
+
+  const lock = () => {
+    if (encryption !== 'unlocked') return;
+    // Writes made just before locking still use the key.
+    afterWrites(async () => { keyRef.current = null; });
+    persistedRef.current = [];
+    // Not loaded any more, so clearing the list is not saved as deleting every chat.
+    setIsLoaded(false);
+    setChats([]);
+    setEncryption('locked');
+  };
+
+  const enableEncryption = async (passphrase: string) => {
+    await afterWrites(async () => { keyRef.current = await encryptChats(passphrase); });
+    setEncryption('unlocked');
+  };
+
+  const changePassphrase = async (current: string, next: string) => {
+    const config = await getEncryptionConfig();
+    if (!config || !(await unlockKey(current, config))) return false;
+    await afterWrites(async () => { keyRef.current = await encryptChats(next, keyRef.current); });
+    return true;
+  };
+
+  const disableEncryption = async () => {
+    if (encryption !== 'unlocked') return;
+    await afterWrites(async () => {
+      if (keyRef.current) await decryptChats(keyRef.current);
+      keyRef.current = null;
+    });
+    setEncryption('off');
+  };
+
+  const wipeAll = async () => {
+    setIsLoaded(false);
+    await afterWrites(async () => {
+      keyRef.current = null;
+      await deleteDatabase();
+    });
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+  };
+
+  return {
+    chats,
+    setChats,
+    isLoaded,
+    storageError,
+    dismissStorageError: () => setStorageError(null),
+    encryption,
+    unlock,
+    lock,
+    enableEncryption,
+    changePassphrase,
+    disableEncryption,
+    wipeAll,
+  };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 10_000;
+
+/**
+ * Calls `onIdle` once the user has not touched the page for `timeoutMs`.
+ * Pass null to turn it off. Time is measured from the last activity rather
+ * than with one long timer, so a computer that slept still times out on wake.
+ */
+export function useIdleTimeout(timeoutMs: number | null, onIdle: () => void): void {
+  const lastActivityRef = useRef(Date.now());
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (timeoutMs === null) return;
+    lastActivityRef.current = Date.now();
+
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    const check = () => {
+      if (Date.now() - lastActivityRef.current >= timeoutMs) {
+        lastActivityRef.current = Date.now();
+        onIdleRef.current();
+      }
+    };
+    const handleVisibility = () => { if (document.visibilityState === 'visible') check(); };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      clearInterval(interval);
+    };
+  }, [timeoutMs]);
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect, useRef } from 'react';
+import type { MessageKey } from '../i18n';
+
+// Fix: Add type definitions for Web Speech API to resolve 'Cannot find name 'SpeechRecognition'' error.
+interface SpeechRecognitionAlternative {
+  readonly transcript: string;
+  readonly confidence: number;
+}
+
+interface SpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly length: number;
+  item(index: number): SpeechRecognitionAlternative;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionResultList {
+  readonly length: number;
+  item(index: number): SpeechRecognitionResult;
+  [index: number]: SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+  readonly message: string;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onstart: () => void;
+  onresult: (event: SpeechRecognitionEvent) => void;
+  onerror: (event: SpeechRecognitionErrorEvent) => void;
+  onend: () => void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => SpeechRecognition;
+    webkitSpeechRecognition?: new () => SpeechRecognition;
+  }
+}
+
+export interface SpeechRecognitionHandlers {
+  /** Called with everything heard since the last start or `resetTranscript`, each time it changes. */
+  onTranscript: (transcript: string) => void;
+  onError?: (error: MessageKey) => void;
+  onEnd?: () => void;
+}
+
+export interface SpeechRecognitionControls {
+  isSupported: boolean;
+  isListening: boolean;
+  /** A message key for the last error, cleared after a few seconds. */
+  error: MessageKey | null;
+  /**
+   * Does nothing if recognition is already running. `continuous` keeps
+   * listening through pauses instead of stopping after the first phrase.
+   */
+  start: (languageTag: string, continuous: boolean) => void;
+  stop: () => void;
+  abort: () => void;
+  /** Leaves out what has been heard so far from later transcripts. */
+  resetTranscript: () => void;
+}
+
+const ERROR_TIMEOUT_MS = 5000;
+
+/** Wraps the browser's speech recognition. Handlers may change on every render. */
+export function useSpeechRecognition(handlers: SpeechRecognitionHandlers): SpeechRecognitionControls {
+  const [isSupported] = useState(() => !!(window.SpeechRecognition || window.webkitSpeechRecognition));
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  // Results before this index belong to an earlier utterance; see resetTranscript.
+  const transcriptStartRef = useRef(0);
+  const finalCountRef = useRef(0);
+  // Set from start() until onend, ahead of isListening, to avoid starting twice.
+  const activeRef = useRef(false);
+
+  useEffect(() => {
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    if (SpeechRecognition) {
+      const recognition = new SpeechRecognition();
+      recognition.interimResults = true;
+
+      recognition.onstart = () => {
+        setIsListening(true);
+        setError(null);
+      };
+
+      recognition.onresult = (event: SpeechRecognitionEvent) => {
+        const results = Array.from(event.results);
+        finalCountRef.current = results.filter(result => result.isFinal).length;
+        const transcript = results
+          .slice(transcriptStartRef.current)
+          .map(result => result[0])
+          .map(result => result.transcript)
+          .join('');
+        handlersRef.current.onTranscript(transcript);
+      };
+
+      recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+        // Ensure listening state is reset on any error for a robust UI.
+        setIsListening(false);
+
+        let errorMessage: MessageKey = 'speech.unknown';
+        switch (event.error) {
+            case 'network':
+                errorMessage = 'speech.network';
+                break;
+            case 'not-allowed':
+            case 'service-not-allowed':
+                errorMessage = 'speech.notAllowed';
+                break;
+            case 'no-speech':
+            case 'aborted':
+                // Don't show an error for these, as they're common.
+                return;
+        }
+        console.error('Speech recognition error:', event.error, event.message);
+        setError(errorMessage);
+        handlersRef.current.onError?.(errorMessage);
+      };
+
+      recognition.onend = () => {
+        activeRef.current = false;
+        setIsListening(false);
+        handlersRef.current.onEnd?.();
+      };
+
+      recognitionRef.current = recognition;
+    } else {
+        console.warn("Speech Recognition API is not supported in this browser.");
+    }
+
+    return () => {
+        const recognition = recognitionRef.current;
+        if (recognition) {
+          recognition.onend = () => {};
+          recognition.abort();
+        }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (error) {
+      const timer = setTimeout(() => setError(null), ERROR_TIMEOUT_MS);
+      return () => clearTimeout(timer);
+    }
+  }, [error]);
+
+  const start = (languageTag: string, continuous: boolean) => {
+    const recognition = recognitionRef.current;
+    if (!recognition) {
+      setError('speech.unsupported');
+      return;
+    }
+    if (activeRef.current) return;
+    recognition.lang = languageTag;
+    recognition.continuous = continuous;
+    transcriptStartRef.current = 0;
+    finalCountRef.current = 0;
+    try {
+      recognition.start();
+      activeRef.current = true;
+    } catch (e) {
+      console.error("Could not start speech recognition:", e);
+      setError('speech.startFailed');
+    }
+  };
+
+  return {
+    isSupported,
+    isListening,
+    error,
+    start,
+    stop: () => recognitionRef.current?.stop(),
+    abort: () => recognitionRef.current?.abort(),
+    resetTranscript: () => { transcriptStartRef.current = finalCountRef.current; },
+  };
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react';
+import { markdownToSpeech, pickVoice, splitSentences } from '../utils/speech';
+
+/** The answer being read aloud and the sentence currently spoken. */
+export interface SpeechPlayback {
+  messageId: string;
+  sentences: string[];
+  index: number;
+}
+
+export interface SpeakOptions {
+  languageTag: string;
+  /** A voice chosen by the user; ignored if it cannot read `languageTag`. */
+  voiceURI?: string;
+  rate: number;
+  /** Called when the whole answer has been read, but not when playback is stopped. */
+  onEnd?: () => void;
+}
+
+export interface SpeechSynthesisControls {
+  isSupported: boolean;
+  /** Installed voices; browsers load these asynchronously. */
+  voices: SpeechSynthesisVoice[];
+  playback: SpeechPlayback | null;
+  speak: (messageId: string, markdown: string, options: SpeakOptions) => void;
+  stop: () => void;
+}
+
+/** Reads answers aloud one sentence at a time so the current sentence can be highlighted. */
+export function useSpeechSynthesis(): SpeechSynthesisControls {
+  const [isSupported] = useState(() => 'speechSynthesis' in window);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => isSupported ? window.speechSynthesis.getVoices() : []);
+  const [playback, setPlayback] = useState<SpeechPlayback | null>(null);
+  // Bumped on every speak and stop, so events from cancelled utterances are ignored.
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    if (!isSupported) return;
+    const handleVoicesChanged = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+    return () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+      window.speechSynthesis.cancel();
+    };
+  }, [isSupported]);
+
+  const stop = () => {
+    generationRef.current++;
+    if (isSupported) window.speechSynthesis.cancel();
+    setPlayback(null);
+  };
+
+  const speak = (messageId: string, markdown: string, { languageTag, voiceURI, rate, onEnd }: SpeakOptions) => {
+    if (!isSupported) {
+      console.error("Speech Synthesis not supported.");
+      return;
+    }
+    stop();
+    const generation = generationRef.current;
+    const sentences = splitSentences(markdownToSpeech(markdown), languageTag);
+    if (sentences.length === 0) return;
+    const voice = pickVoice(voices, languageTag, voiceURI);
+
+    const finish = () => {
+      if (generationRef.current !== generation) return;
+      generationRef.current++;
+      setPlayback(null);
+      onEnd?.();
+    };
+
+    sentences.forEach((sentence, index) => {
+      const utterance = new SpeechSynthesisUtterance(sentence);
+      utterance.lang = voice?.lang ?? languageTag;
+      utterance.voice = voice;
+      utterance.rate = rate;
+      utterance.onstart = () => {
+        if (generationRef.current === generation) setPlayback({ messageId, sentences, index });
+      };
+      if (index === sentences.length - 1) utterance.onend = finish;
+      utterance.onerror = (e: SpeechSynthesisErrorEvent) => {
+        if (generationRef.current !== generation) return;
+        if (e.error !== 'interrupted' && e.error !== 'canceled') {
+          console.error("Speech synthesis error:", e.error);
+        }
+        window.speechSynthesis.cancel();
+        finish();
+      };
+      window.speechSynthesis.speak(utterance);
+    });
+    setPlayback({ messageId, sentences, index: 0 });
+  };
+
+  return { isSupported, voices, playback, speak, stop };
+}
@@ -0,0 +1,19 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { createTranslator, getLocaleTag } from './index';
+import type { Locale, Translate } from './index';
+
+interface I18nContextValue {
+  locale: Locale;
+  /** BCP-47 tag of the locale, e.g. for `lang` attributes and date formatting. */
+  tag: string;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue>({ locale: 'en', tag: getLocaleTag('en'), t: createTranslator('en') });
+
+export const I18nProvider: React.FC<{ locale: Locale; children: React.ReactNode }> = ({ locale, children }) => {
+  const value = useMemo(() => ({ locale, tag: getLocaleTag(locale), t: createTranslator(locale) }), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => useContext(I18nContext);
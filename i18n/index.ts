@@ -0,0 +1,79 @@
+import type { AiErrorKind } from '../services/errors';
+import type { LocalizedMessage, LocalizedText, Message, MessageCatalog, MessageKey, MessageParams } from './types';
+import en from './locales/en';
+import nb from './locales/nb';
+import nn from './locales/nn';
+import pl from './locales/pl';
+import lt from './locales/lt';
+import uk from './locales/uk';
+
+export type { LocalizedMessage, LocalizedText, MessageKey, MessageParams } from './types';
+
+export type Locale = 'nb' | 'nn' | 'en' | 'pl' | 'lt' | 'uk';
+
+export interface LocaleInfo {
+  code: Locale;
+  /** BCP-47 tag used for Intl formatting, speech and the language of model output. */
+  tag: string;
+  /** The language's name in that language, for the language switcher. */
+  name: string;
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: 'nb', tag: 'nb-NO', name: 'Norsk bokmål' },
+  { code: 'nn', tag: 'nn-NO', name: 'Norsk nynorsk' },
+  { code: 'en', tag: 'en-US', name: 'English' },
+  { code: 'pl', tag: 'pl-PL', name: 'Polski' },
+  { code: 'lt', tag: 'lt-LT', name: 'Lietuvių' },
+  { code: 'uk', tag: 'uk-UA', name: 'Українська' },
+];
+
+const CATALOGS: Record<Locale, MessageCatalog> = { nb, nn, en, pl, lt, uk };
+
+/** The UI locale for a BCP-47 language code, falling back to English. "no" is treated as bokmål. */
+export const resolveLocale = (language: string | null | undefined): Locale => {
+  const base = (language ?? '').toLowerCase().split('-')[0];
+  const code = base === 'no' ? 'nb' : base;
+  return LOCALES.some(locale => locale.code === code) ? code as Locale : 'en';
+};
+
+export const getLocaleTag = (locale: Locale): string => LOCALES.find(info => info.code === locale)!.tag;
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const selectMessage = (locale: Locale, message: Message, count: unknown): string => {
+  if (typeof message === 'string') return message;
+  if (typeof count !== 'number') return message.other;
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(getLocaleTag(locale)));
+  return message[pluralRules.get(locale)!.select(count)] ?? message.other;
+};
+
+/**
+ * Looks up `key` and fills in `{name}` placeholders. Plural messages are chosen
+ * by `params.count`. Unknown keys, e.g. from an imported chat, are returned as they are.
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message = selectMessage(locale, CATALOGS[locale][key] ?? en[key] ?? key, params?.count);
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (whole, name: string) => {
+    const value = params[name];
+    if (value === undefined) return whole;
+    return typeof value === 'object' ? translate(locale, value.key, value.params) : String(value);
+  });
+};
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const createTranslator = (locale: Locale): Translate => (key, params) => translate(locale, key, params);
+
+/** Whether `value` is a message with a known key, e.g. a step in a tool result. */
+export const isLocalizedMessage = (value: unknown): value is LocalizedMessage =>
+  typeof value === 'object' && value !== null && Object.hasOwn(en, (value as { key?: unknown }).key as PropertyKey);
+
+/** The text of a step or note, translated unless it is plain text, e.g. saved by an older version. */
+export const localize = (t: Translate, text: LocalizedText): string =>
+  typeof text === 'string' ? text : t(text.key, text.params);
+
+/** User-facing error text for `kind` in the given BCP-47 language. */
+export const getErrorMessage = (kind: AiErrorKind, language: string): string =>
+  translate(resolveLocale(language), `errors.${kind}`);
@@ -0,0 +1,426 @@
+import type { Message } from '../types';
+
+// The reference catalog: its keys define MessageKey, and every other locale has
+// to translate all of them.
+const en = {
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.send': 'Send',
+  'common.stop': 'Stop',
+  'common.undo': 'Undo',
+  'common.dismiss': 'Dismiss',
+  'common.retry': 'Try again',
+  'common.regenerate': 'Regenerate',
+  'common.previousVersion': 'Previous version',
+  'common.nextVersion': 'Next version',
+
+  'errors.network': 'Could not reach the AI service. Check your internet connection and try again.',
+  'errors.rate_limit': 'The AI service is busy right now. Please wait a moment and try again.',
+  'errors.safety': 'The AI service could not answer this question. Try rephrasing it.',
+  'errors.invalid_response': 'The AI returned an answer in an unexpected format. Please try again.',
+  'errors.missing_api_key': 'The AI service is not configured: no valid API key was found.',
+  'errors.too_large': 'Your question or document is too long. Shorten it and try again.',
+  'errors.unknown': 'Something went wrong while getting an answer. Please try again.',
+
+  'language.label': 'Language',
+  'language.auto': 'Automatic',
+
+  'welcome.title': 'How can I help you today?',
+  'welcome.subtitle': 'Ask me anything about Norwegian labor law.',
+  'welcome.topics': 'Recommended legal topics',
+
+  'input.placeholder': 'Describe your situation...',
+  'input.listening': 'Listening...',
+  'input.submit': 'Ask AI Lawyer',
+  'input.startListening': 'Start listening',
+  'input.stopListening': 'Stop listening',
+  'input.stopGenerating': 'Stop generating',
+
+  'speech.network': 'Speech recognition failed due to a network error. Please check your connection.',
+  'speech.notAllowed': 'Microphone access was denied. Please allow it in your browser settings.',
+  'speech.unknown': 'An unknown speech recognition error occurred.',
+  'speech.unsupported': 'Speech recognition is not available in your browser.',
+  'speech.startFailed': 'Could not start listening. Please try again.',
+
+  'voice.start': 'Start voice conversation',
+  'voice.end': 'End voice conversation',
+  'voice.title': 'Voice conversation',
+  'voice.thinking': 'Thinking...',
+  'voice.speaking': 'Reading the answer. Speak to interrupt.',
+  'voice.recognitionLanguage': 'I speak',
+  'voice.sameAsInterface': 'Same as interface',
+  'voice.voice': 'Voice',
+  'voice.defaultVoice': 'Default voice',
+  'voice.rate': 'Speed',
+  'voice.interrupt': 'Stop reading',
+
+  'chat.exportJson': 'Export JSON',
+  'chat.exportMarkdown': 'Markdown',
+  'chat.caseReport': 'Case report',
+  'chat.renamed': 'Chat renamed',
+  'chat.deleted': 'Chat deleted',
+  'chat.importFailed': 'Could not import {file}: {error}',
+  'chat.imported': 'Imported {chats} and {messages}.',
+  'chat.importedChats': { one: '{count} new chat', other: '{count} new chats' },
+  'chat.importedMessages': { one: '{count} message', other: '{count} messages' },
+  'chat.importError.invalidJson': 'The file is not valid JSON.',
+  'chat.importError.notExport': 'The file is not an AI Union Helper chat export.',
+  'chat.importError.newerVersion': 'The file was exported by a newer version of the app.',
+  'chat.importError.invalidChats': 'The file contains chats in an unexpected format.',
+  'chat.importError.unreadable': 'The file could not be read.',
+
+  'export.question': 'Question',
+  'export.answer': 'Answer',
+  'export.assumptions': 'Assumptions from the profile',
+  'export.relatedTopics': 'Related topics',
+  'export.openQuestions': 'Open questions',
+  'export.sources': 'Sources',
+
+  'footer.nav': 'NAV (benefits)',
+  'footer.arbeidstilsynet': 'Labour Inspection Authority',
+  'footer.skatteetaten': 'Tax Administration',
+  'footer.disclaimer': 'AI can make mistakes. Consider checking important information.',
+
+  'sidebar.newChat': '+ New Chat',
+  'sidebar.calculators': 'Calculators',
+  'sidebar.contractChecker': 'Check a contract',
+  'sidebar.lawLibrary': 'Law library',
+  'sidebar.letters': 'Write a letter',
+  'sidebar.profile': 'My situation',
+  'sidebar.security': 'Security',
+  'sidebar.search': 'Search chats...',
+  'sidebar.noMatches': 'No matching chats',
+  'sidebar.matches': { one: '{count} matching chat', other: '{count} matching chats' },
+  'sidebar.previousChats': 'Your previous chats',
+  'sidebar.pinned': 'Pinned',
+  'sidebar.today': 'Today',
+  'sidebar.lastWeek': 'Previous 7 days',
+  'sidebar.older': 'Older',
+  'sidebar.chatTitle': 'Chat title',
+  'sidebar.pin': 'Pin chat',
+  'sidebar.unpin': 'Unpin chat',
+  'sidebar.rename': 'Rename chat',
+  'sidebar.delete': 'Delete chat',
+  'sidebar.allChats': 'All chats',
+  'sidebar.exportJson': 'Export JSON',
+  'sidebar.exportMarkdown': 'Export Markdown',
+  'sidebar.import': 'Import',
+
+  'message.you': 'You',
+  'message.editAndResend': 'Edit & resend',
+  'message.interrupted': 'Stopped before the answer was complete.',
+  'message.cachedFrom': 'Cached answer from {date}',
+  'message.refreshCached': 'Refresh',
+  'message.simplified': 'Simplified Answer',
+  'message.emailTemplate': 'Saved letters',
+  'message.listen': 'Listen',
+  'message.copy': 'Copy',
+  'message.copied': 'Copied!',
+  'message.simplify': 'Explain in simple words',
+  'message.draftLetter': 'Draft a letter',
+  'message.relatedTopics': 'Related Topics',
+  'message.assumptions': 'Based on your profile',
+  'message.citedLaw': 'Cited Law',
+  'message.sources': 'Sources',
+  'message.topicQuestion': 'Tell me more about {topic}.',
+
+  'quickReplies.followUps': 'Ask next',
+  'quickReplies.clarifying': 'To give firmer advice, it would help to know:',
+  'quickReplies.answerHint': 'Answer this in the message field',
+
+  'report.print': 'Print / Save as PDF',
+  'report.title': 'Case report – AI Union Helper',
+  'report.generated': 'Generated {date}',
+  'report.disclaimer': 'The answers below were generated by AI and may contain mistakes. They are not legal advice.',
+  'report.started': 'Started {date}',
+  'report.question': 'Question',
+  'report.answer': 'Answer',
+  'report.relatedTopics': 'Related topics:',
+  'report.sources': 'Sources:',
+
+  'calculators.title': 'Calculators',
+  'calculators.holiday': 'Holiday pay',
+  'calculators.overtime': 'Overtime',
+  'calculators.final': 'Leaving a job',
+  'calculators.notice': 'Notice period',
+  'calculators.basis': 'Pay earned in the earning year (feriepengegrunnlag)',
+  'calculators.over60': 'Turns 60 by 1 September of the holiday year',
+  'calculators.hourlyWage': 'Hourly wage',
+  'calculators.hoursOn': 'Hours worked on {day}',
+  'calculators.supplement': 'Overtime supplement',
+  'calculators.overtimeHint': 'Overtime is work beyond 9 hours a day or 40 hours a week, whichever gives more hours.',
+  'calculators.monthlySalary': 'Monthly salary',
+  'calculators.monthsWorked': 'Months worked this year',
+  'calculators.otherEarnings': 'Other pay this year, e.g. overtime',
+  'calculators.unpaidLastYear': 'Holiday pay from last year not yet paid',
+  'calculators.employmentStart': 'First day of employment',
+  'calculators.noticeReceived': 'Day the written notice was received',
+  'calculators.age': 'Your age when you received the notice',
+  'calculators.dismissed': 'I was dismissed',
+  'calculators.resigned': 'I resigned',
+  'calculators.probation': 'During probation',
+  'calculators.disclaimer': 'Estimates based on ferieloven and arbeidsmiljøloven. Your collective agreement may give you more.',
+  'calculators.calculation': 'Calculation',
+  'calculators.deadlines': 'Your deadlines',
+  'calculators.benefits': 'NAV benefits',
+  'calculators.sickPay': 'Sick pay',
+  'calculators.unemployment': 'Unemployment',
+  'calculators.layoff': 'Layoff',
+  'calculators.annualIncome': 'Yearly income before the sick leave',
+  'calculators.firstSickDay': 'First day of sick leave',
+  'calculators.sickLeavePercent': 'Sick leave percentage',
+  'calculators.incomeLast12Months': 'Income in the last 12 months',
+  'calculators.incomeLast36Months': 'Income in the last 36 months (optional)',
+  'calculators.claimDate': 'Day you claim dagpenger from',
+  'calculators.layoffStart': 'First day of the layoff',
+  'calculators.layoffPercent': 'Share of your working time laid off',
+  'calculators.layoffNotice': 'Day you received the notice of layoff (optional)',
+  'calculators.benefitsHint': 'Estimates before tax, using the G (grunnbeløp) that applies on the date. NAV decides the actual amount.',
+  'calculators.rules': 'Rules used:',
+  'calculators.field.birthDate': 'Date of birth',
+  'calculators.field.dailyLimit': 'Hours per day before overtime',
+  'calculators.field.weeklyLimit': 'Hours per week before overtime',
+  'calculators.field.dayHours': 'Hours on day {day}',
+  'calculators.error.amount': '{field}: enter a number of zero or more.',
+  'calculators.error.percent': '{field}: enter a percentage between {min} and 100.',
+  'calculators.error.date': '{field}: enter a date in the format YYYY-MM-DD.',
+  'calculators.error.rate': 'The holiday pay rate must be {low} % or {high} %.',
+  'calculators.error.earningYear': 'The earning year must be a whole year.',
+  'calculators.error.days': 'Enter the hours for one to seven days.',
+  'calculators.error.dayHours': 'The hours on day {day} cannot exceed 24.',
+  'calculators.error.minSupplement': 'The overtime supplement must be at least {min} %.',
+  'calculators.error.monthsWorked': 'The months worked this year cannot exceed 12.',
+  'calculators.error.noticeBeforeStart': 'The notice cannot be received before the employment started.',
+  'calculators.error.age': 'The age must be a number between 13 and 100.',
+  'calculators.error.agreedMonths': 'The agreed notice period must be a whole number of months between 0 and 12.',
+  'calculators.error.income36': 'The income in the last 36 months cannot be lower than in the last 12 months.',
+  'calculators.step.holidayPay': '{basis} × {rate} % = {amount}',
+  'calculators.step.senior': '{basis} × {rate} % = {amount} extra for workers who turn 60 by 1 September {year}',
+  'calculators.step.seniorCapped': '{basis} (capped at 6 G = {cap}) × {rate} % = {amount} extra for workers who turn 60 by 1 September {year}',
+  'calculators.step.total': 'Total: {amount}',
+  'calculators.step.overtimeHours': 'Hours above {dailyLimit} per day: {daily}; hours above {weeklyLimit} per week: {weekly}. Overtime: {hours} hours.',
+  'calculators.step.ordinaryPay': '{hours} ordinary hours × {wage} = {amount}',
+  'calculators.step.overtimePay': '{hours} overtime hours × {wage} ({baseWage} + {supplement} %) = {amount}',
+  'calculators.step.earned': '{salary} × {months} months = {basis} earned this year',
+  'calculators.step.earnedWithOther': '{salary} × {months} months + {other} = {basis} earned this year',
+  'calculators.step.unpaidLastYear': '+ {amount} not yet paid from last year',
+  'calculators.step.paidOut': 'Paid out on the last pay day: {amount}',
+  'calculators.step.grunnbelop': 'G on {date}: {amount} (from {from})',
+  'calculators.step.perMonth': 'About {amount} per month before tax',
+  'calculators.step.capped': '{amount} is capped at 6 G = {cap}',
+  'calculators.step.sickPayBelowMinimum': '{income} is below 0.5 G = {minimum}, so there is no right to sick pay.',
+  'calculators.step.sickPayCapped': '{income} is capped at 6 G = {cap}. Many employers pay the rest; check your contract or agreement.',
+  'calculators.step.sickPayBasis': 'Sykepengegrunnlag: {basis}',
+  'calculators.step.sickPayDailyRate': '{basis} / {days} = {rate} per working day',
+  'calculators.step.sickPayDailyRateGraded': '{basis} / {days} × {percent} % = {rate} per working day',
+  'calculators.step.sickPayPeriods': 'The employer pays days 1 to {employerDays} (until {employerPeriodEnds}); NAV pays from {navPaysFrom}, for at most {maxDays} days.',
+  'calculators.step.unemploymentBelowMinimum': 'The income is below 1.5 G = {minimum12} in the last 12 months and 3 G = {minimum36} in the last 36, so there is no right to dagpenger.',
+  'calculators.step.unemploymentBasis': 'Basis: {income} earned in the last 12 months',
+  'calculators.step.unemploymentBasisAverage': 'Basis: the higher of {income} (last 12 months) and {average} (average of the last 36)',
+  'calculators.step.unemploymentDailyRate': '{basis} × {rate} % / {days} = {dailyRate} per working day',
+  'calculators.step.unemploymentWeeks': 'Paid for up to {weeks} weeks (income of at least 2 G), after {waitingDays} waiting days.',
+  'calculators.step.unemploymentWeeksLowIncome': 'Paid for up to {weeks} weeks (income below 2 G), after {waitingDays} waiting days.',
+  'calculators.step.layoffShortNotice': 'The notice was shorter than {days} days; the layoff should not start before {date} unless it is caused by something unforeseen.',
+  'calculators.step.layoffNotice': 'The notice of {days} days was given.',
+  'calculators.step.layoffEmployerPeriod': 'The employer pays full wages for the first {days} working days of the layoff, until {date}.',
+  'calculators.step.layoffEmployerPay': '{salary} × 12 / {workingDays} = {dailyWage} per day × {days} days = {amount}',
+  'calculators.step.layoffEmployerPayPartial': '{salary} × 12 / {workingDays} = {dailyWage} per day × {days} days × {percent} % laid off = {amount}',
+  'calculators.step.layoffBelowMinimum': 'A layoff below {percent} % does not give a right to dagpenger.',
+  'calculators.step.layoffDagpenger': 'From {date}, NAV pays dagpenger of about {amount} per month before tax, assuming the same salary for the last 12 months, after {waitingDays} waiting days.',
+  'calculators.step.layoffDagpengerPartial': 'From {date}, NAV pays dagpenger of about {amount} per month before tax ({percent} % of the full rate), assuming the same salary for the last 12 months, after {waitingDays} waiting days.',
+  'calculators.step.layoffMaxLength': 'A layoff can last at most {weeks} weeks within 18 months; this one ends by {date} at the latest.',
+
+  'notice.period': 'Notice period:',
+  'notice.days': { one: '{count} day', other: '{count} days' },
+  'notice.months': { one: '{count} month', other: '{count} months' },
+  'notice.fullYears': { one: '{count} full year', other: '{count} full years' },
+  'notice.addToCalendar': 'Add to calendar (.ics)',
+  'notice.calendarName': 'Notice deadlines',
+  'notice.movedFrom': 'Moved from {date}, which is not a working day.',
+  'notice.noticeStart': 'Notice period starts',
+  'notice.lastWorkingDay': 'Last day of employment',
+  'notice.negotiationDemand': 'Deadline to demand negotiations',
+  'notice.lawsuit': 'Deadline to sue to have the dismissal declared invalid',
+  'notice.lawsuitDamagesOnly': 'Deadline to sue for compensation only',
+  'notice.agreedBasis': 'Employment contract or collective agreement',
+  'notice.description.probation': 'The notice period during probation is {days} days from the day the notice was received.',
+  'notice.description.noticeStart': 'The notice period starts on the first day of the month after the notice was received.',
+  'notice.description.lastWorkingDay': 'A notice period of {period} after {tenure} of employment.',
+  'notice.description.lastWorkingDayAtAge': 'A notice period of {period} after {tenure} of employment at age {age}.',
+  'notice.description.negotiationDemand': 'Tell the employer in writing that you want negotiations about the dismissal. The employer must then hold a meeting within two weeks.',
+  'notice.description.lawsuit': 'If negotiations are held, the eight weeks run from the day they end instead.',
+  'notice.description.lawsuitDamagesOnly': 'Applies when you only claim compensation, not to keep the job.',
+
+  'document.tooLarge': 'The file is larger than 10 MB.',
+  'document.unsupportedType': 'Only .txt, .pdf and .docx files are supported.',
+  'document.invalidDocx': 'The file is not a valid DOCX document.',
+  'document.docxCompression': 'The DOCX document uses an unsupported compression method.',
+  'document.invalidPdf': 'The file is not a valid PDF document.',
+  'document.pdfPassword': 'The PDF is protected with a password.',
+  'document.unreadableFont': 'The text in this PDF uses a font that cannot be read. Paste the text instead.',
+  'document.noText': 'No text could be found in the file. If it is a scanned document, paste the text instead.',
+  'document.readFailed': 'The file could not be read.',
+
+  'contract.title': 'Check your employment contract',
+  'contract.intro': 'Upload the contract (.txt, .pdf or .docx) or paste its text. The file is read on your device; the text is only sent to the AI when you start the check.',
+  'contract.upload': 'Upload file',
+  'contract.paste': '...or paste the contract text here',
+  'contract.text': 'Contract text',
+  'contract.check': 'Check contract',
+  'contract.checked': 'Checked {date}',
+  'contract.truncated': 'The contract was too long to check in full; the end was not checked.',
+  'contract.disclaimer': 'This check is done by AI and can miss things. It is not legal advice.',
+  'contract.checkAnother': 'Check another contract',
+  'contract.discuss': 'Discuss in chat',
+  'contract.status.present': 'present',
+  'contract.status.missing': 'missing',
+  'contract.status.ambiguous': 'unclear',
+  'contract.status.notApplicable': 'not applicable',
+  'contract.item.parties': 'Parties',
+  'contract.item.workplace': 'Workplace',
+  'contract.item.jobDescription': 'Job description',
+  'contract.item.startDate': 'Start date',
+  'contract.item.temporary': 'Temporary employment',
+  'contract.item.probation': 'Probation period',
+  'contract.item.holidays': 'Holidays and holiday pay',
+  'contract.item.notice': 'Notice periods',
+  'contract.item.pay': 'Pay',
+  'contract.item.workingHours': 'Working hours',
+  'contract.item.breaks': 'Breaks',
+  'contract.item.tariff': 'Collective agreements',
+  'contract.item.training': 'Training',
+  'contract.item.pension': 'Pension and insurance',
+  'contract.prompt.complete': 'I had my employment contract checked against arbeidsmiljøloven §14-6 and it seems to cover all the required items. {summary}\n\nIs there anything else I should look out for in my contract?',
+  'contract.prompt.issues': 'I had my employment contract checked against arbeidsmiljøloven §14-6. These items are missing or unclear:\n{items}\n\nWhat does this mean for me, and how should I ask my employer to fix it?',
+  'contract.prompt.item': '- {item} ({legalBasis}): {status}. {note}',
+  'contract.prompt.quote': 'The contract says: "{quote}"',
+
+  'law.title': 'Law library',
+  'law.search': 'Search the law...',
+  'law.noMatches': 'No matching sections',
+  'law.matches': 'Matching sections',
+  'law.textAsOf': 'Text as of {date}',
+  'law.readOnLovdata': 'Read on Lovdata',
+
+  'letter.title': 'Letters and emails',
+  'letter.type': 'Letter type',
+  'letter.type.complaint': 'Complaint to the employer',
+  'letter.type.consultationRequest': 'Request for a consultation meeting (drøftelsesmøte)',
+  'letter.type.navAppeal': 'Appeal to NAV',
+  'letter.type.dismissalObjection': 'Objection to a dismissal',
+  'letter.type.contractRequest': 'Request for a written contract',
+  'letter.tone': 'Tone',
+  'letter.tone.formal': 'Formal',
+  'letter.tone.friendly': 'Friendly',
+  'letter.tone.firm': 'Firm',
+  'letter.language': 'Language of the letter',
+  'letter.situation': 'Your situation',
+  'letter.situationPlaceholder': 'What happened, and what do you want to achieve? Names and dates can be filled in later.',
+  'letter.generate': 'Write draft',
+  'letter.regenerate': 'Write a new draft',
+  'letter.fields': 'Fill in the details',
+  'letter.noFields': 'The draft has no fields to fill in.',
+  'letter.recipient': 'Recipient\'s email address',
+  'letter.subject': 'Subject',
+  'letter.template': 'Draft text (fields in [[brackets]] are filled in from above)',
+  'letter.preview': 'Preview',
+  'letter.missing': { one: '{count} field is not filled in yet.', other: '{count} fields are not filled in yet.' },
+  'letter.disclaimer': 'Read the letter carefully before you send it. It is not legal advice.',
+  'letter.email': 'Open in email program',
+  'letter.print': 'Print',
+  'letter.saveToChat': 'Save to chat',
+  'letter.saved': 'Saved',
+
+  'profile.title': 'My situation',
+  'profile.intro': 'Saved only in this browser. It is sent with your questions only in chats where you turn on “Use my profile”, so answers can fit your situation.',
+  'profile.notSpecified': 'Not specified',
+  'profile.sector': 'Sector',
+  'profile.sector.private': 'Private',
+  'profile.sector.municipal': 'Municipality or county',
+  'profile.sector.state': 'State',
+  'profile.employmentType': 'Employment',
+  'profile.employmentType.permanent': 'Permanent',
+  'profile.employmentType.temporary': 'Temporary',
+  'profile.employmentType.hired': 'Hired through an agency',
+  'profile.employmentType.onCall': 'On call',
+  'profile.tenure': 'Time with current employer',
+  'profile.tenure.under1': 'Less than 1 year',
+  'profile.tenure.1to5': '1–5 years',
+  'profile.tenure.5to10': '5–10 years',
+  'profile.tenure.10plus': '10 years or more',
+  'profile.ageBand': 'Age',
+  'profile.ageBand.under18': 'Under 18',
+  'profile.ageBand.18to49': '18–49',
+  'profile.ageBand.50to54': '50–54',
+  'profile.ageBand.55to59': '55–59',
+  'profile.ageBand.60to66': '60–66',
+  'profile.ageBand.67plus': '67 or older',
+  'profile.unionMember': 'Union member',
+  'profile.tariffAgreement': 'Covered by a collective agreement (tariffavtale)',
+  'profile.workPermit': 'Residence permit tied to the job',
+  'profile.yes': 'Yes',
+  'profile.no': 'No',
+  'profile.unknown': 'Don’t know',
+  'profile.municipality': 'Municipality',
+  'profile.clear': 'Clear profile',
+  'profile.done': 'Done',
+  'profile.use': 'Use my profile',
+  'profile.edit': 'Edit profile',
+  'profile.setUp': 'Add your situation for more precise answers',
+
+  'privacy.title': 'Privacy',
+  'privacy.intro': 'Before anything is sent to the AI, personal data such as national ID numbers, phone numbers, email addresses, account numbers and addresses is replaced with placeholders like [PHONE_1]. The real details are put back into the answer on this device.',
+  'privacy.enabled': 'Hide personal data before sending',
+  'privacy.detectNames': 'Also hide names (they are guessed, so some may be missed)',
+  'privacy.customTerms': 'Always hide these words, one per line, e.g. your employer’s name',
+  'privacy.preview': 'What will be sent',
+  'privacy.previewEmpty': 'Type a question to see what will be sent.',
+  'privacy.on': 'Personal data is hidden',
+  'privacy.off': 'Personal data is sent as written',
+  'privacy.hiddenCount': { one: '{count} detail will be hidden', other: '{count} details will be hidden' },
+
+  'storage.unsupported': 'This browser does not support IndexedDB, so chats cannot be saved.',
+  'storage.openFailed': 'Could not open the chat database.',
+  'storage.blocked': 'The chat database is in use by an older version of the app in another tab. Close other tabs and reload.',
+  'storage.deleteFailed': 'The chat database could not be deleted.',
+  'storage.full': 'Your browser storage is full, so the latest changes were not saved. Export and delete old chats to free space.',
+  'storage.saveFailed': 'Your chats could not be saved to browser storage.',
+  'storage.locked': 'Your chats are encrypted. Unlock them with your passphrase first.',
+  'storage.damaged': 'A saved chat could not be decrypted. It may be damaged.',
+  'storage.insecure': 'Encryption needs a secure (https) connection and a browser with WebCrypto.',
+
+  'security.title': 'Security',
+  'security.intro': 'Encrypt your chat history on this device with a passphrase. Without it, anyone who can use this browser can read your chats.',
+  'security.warning': 'If you forget the passphrase, your chats cannot be recovered. Nobody can reset it for you.',
+  'security.passphrase': 'Passphrase',
+  'security.newPassphrase': 'New passphrase',
+  'security.repeatPassphrase': 'Repeat the passphrase',
+  'security.currentPassphrase': 'Current passphrase',
+  'security.passphraseHint': 'Use at least {min} characters. A few random words are easy to remember and hard to guess.',
+  'security.tooShort': 'The passphrase is too short.',
+  'security.mismatch': 'The passphrases do not match.',
+  'security.wrongPassphrase': 'Wrong passphrase.',
+  'security.enable': 'Encrypt my chats',
+  'security.enabled': 'Your chats are encrypted on this device.',
+  'security.enabledNotice': 'Your chats are now encrypted.',
+  'security.lockNow': 'Lock now',
+  'security.autoLock': 'Lock automatically when I am away',
+  'security.autoLockNever': 'Never',
+  'security.autoLockMinutes': { one: 'After {count} minute', other: 'After {count} minutes' },
+  'security.changePassphrase': 'Change passphrase',
+  'security.change': 'Change',
+  'security.changedNotice': 'The passphrase has been changed.',
+  'security.disable': 'Turn off encryption',
+  'security.disableConfirm': 'Your chats will be stored unencrypted on this device. Continue?',
+  'security.disabledNotice': 'Encryption is off.',
+  'security.wipeTitle': 'Delete everything',
+  'security.wipeIntro': 'Deletes all chats, your profile and settings from this browser at once. This cannot be undone.',
+  'security.wipe': 'Delete everything now',
+  'security.wipeConfirm': 'Delete all chats, your profile and settings from this browser? This cannot be undone.',
+  'security.lockedTitle': 'Your chats are locked',
+  'security.lockedIntro': 'Enter your passphrase to open your chats.',
+  'security.unlock': 'Unlock',
+  'security.forgotten': 'Forgot your passphrase? Delete everything and start over',
+} satisfies Record<string, Message>;
+
+export default en;
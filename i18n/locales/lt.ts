@@ -0,0 +1,424 @@
+import type { MessageCatalog } from '../types';
+
+const lt: MessageCatalog = {
+  'common.close': 'Uždaryti',
+  'common.cancel': 'Atšaukti',
+  'common.send': 'Siųsti',
+  'common.stop': 'Sustabdyti',
+  'common.undo': 'Anuliuoti',
+  'common.dismiss': 'Uždaryti',
+  'common.retry': 'Bandyti dar kartą',
+  'common.regenerate': 'Sukurti iš naujo',
+  'common.previousVersion': 'Ankstesnė versija',
+  'common.nextVersion': 'Kita versija',
+
+  'errors.network': 'Nepavyko prisijungti prie DI paslaugos. Patikrinkite interneto ryšį ir bandykite dar kartą.',
+  'errors.rate_limit': 'DI paslauga šiuo metu užimta. Palaukite ir bandykite dar kartą.',
+  'errors.safety': 'DI paslauga negalėjo atsakyti į šį klausimą. Pabandykite jį performuluoti.',
+  'errors.invalid_response': 'DI grąžino netikėto formato atsakymą. Bandykite dar kartą.',
+  'errors.missing_api_key': 'DI paslauga nesukonfigūruota: nerastas galiojantis API raktas.',
+  'errors.too_large': 'Klausimas arba dokumentas per ilgas. Sutrumpinkite jį ir bandykite dar kartą.',
+  'errors.unknown': 'Gaunant atsakymą įvyko klaida. Bandykite dar kartą.',
+
+  'language.label': 'Kalba',
+  'language.auto': 'Automatiškai',
+
+  'welcome.title': 'Kuo galiu padėti šiandien?',
+  'welcome.subtitle': 'Klauskite manęs bet ko apie Norvegijos darbo teisę.',
+  'welcome.topics': 'Rekomenduojamos teisinės temos',
+
+  'input.placeholder': 'Aprašykite savo situaciją...',
+  'input.listening': 'Klausausi...',
+  'input.submit': 'Klausti DI teisininko',
+  'input.startListening': 'Pradėti klausytis',
+  'input.stopListening': 'Baigti klausytis',
+  'input.stopGenerating': 'Sustabdyti atsakymą',
+
+  'speech.network': 'Kalbos atpažinimas nepavyko dėl tinklo klaidos. Patikrinkite ryšį.',
+  'speech.notAllowed': 'Prieiga prie mikrofono uždrausta. Leiskite ją naršyklės nustatymuose.',
+  'speech.unknown': 'Įvyko nežinoma kalbos atpažinimo klaida.',
+  'speech.unsupported': 'Jūsų naršyklėje kalbos atpažinimas nepasiekiamas.',
+  'speech.startFailed': 'Nepavyko pradėti klausytis. Bandykite dar kartą.',
+
+  'voice.start': 'Pradėti pokalbį balsu',
+  'voice.end': 'Baigti pokalbį balsu',
+  'voice.title': 'Pokalbis balsu',
+  'voice.thinking': 'Galvoju...',
+  'voice.speaking': 'Skaitomas atsakymas. Prabilkite, kad pertrauktumėte.',
+  'voice.recognitionLanguage': 'Kalbu',
+  'voice.sameAsInterface': 'Kaip sąsajos',
+  'voice.voice': 'Balsas',
+  'voice.defaultVoice': 'Numatytasis balsas',
+  'voice.rate': 'Greitis',
+  'voice.interrupt': 'Nutraukti skaitymą',
+
+  'chat.exportJson': 'Eksportuoti JSON',
+  'chat.exportMarkdown': 'Markdown',
+  'chat.caseReport': 'Bylos ataskaita',
+  'chat.renamed': 'Pokalbis pervadintas',
+  'chat.deleted': 'Pokalbis ištrintas',
+  'chat.importFailed': 'Nepavyko importuoti {file}: {error}',
+  'chat.imported': 'Importuota: {chats} ir {messages}.',
+  'chat.importedChats': { one: '{count} naujas pokalbis', few: '{count} nauji pokalbiai', many: '{count} naujo pokalbio', other: '{count} naujų pokalbių' },
+  'chat.importedMessages': { one: '{count} žinutė', few: '{count} žinutės', many: '{count} žinutės', other: '{count} žinučių' },
+  'chat.importError.invalidJson': 'Failas nėra tinkamas JSON.',
+  'chat.importError.notExport': 'Failas nėra AI Union Helper pokalbių eksportas.',
+  'chat.importError.newerVersion': 'Failas eksportuotas naujesne programėlės versija.',
+  'chat.importError.invalidChats': 'Faile yra netikėto formato pokalbių.',
+  'chat.importError.unreadable': 'Nepavyko nuskaityti failo.',
+
+  'export.question': 'Klausimas',
+  'export.answer': 'Atsakymas',
+  'export.assumptions': 'Prielaidos iš profilio',
+  'export.relatedTopics': 'Susijusios temos',
+  'export.openQuestions': 'Neatsakyti klausimai',
+  'export.sources': 'Šaltiniai',
+
+  'footer.nav': 'NAV (išmokos)',
+  'footer.arbeidstilsynet': 'Darbo inspekcija (Arbeidstilsynet)',
+  'footer.skatteetaten': 'Mokesčių administracija (Skatteetaten)',
+  'footer.disclaimer': 'DI gali klysti. Pasitikrinkite svarbią informaciją.',
+
+  'sidebar.newChat': '+ Naujas pokalbis',
+  'sidebar.calculators': 'Skaičiuoklės',
+  'sidebar.contractChecker': 'Patikrinti sutartį',
+  'sidebar.lawLibrary': 'Teisės biblioteka',
+  'sidebar.letters': 'Parašyti laišką',
+  'sidebar.profile': 'Mano situacija',
+  'sidebar.security': 'Saugumas',
+  'sidebar.search': 'Ieškoti pokalbiuose...',
+  'sidebar.noMatches': 'Atitinkančių pokalbių nėra',
+  'sidebar.matches': { one: '{count} atitinkantis pokalbis', few: '{count} atitinkantys pokalbiai', many: '{count} atitinkančio pokalbio', other: '{count} atitinkančių pokalbių' },
+  'sidebar.previousChats': 'Ankstesni jūsų pokalbiai',
+  'sidebar.pinned': 'Prisegti',
+  'sidebar.today': 'Šiandien',
+  'sidebar.lastWeek': 'Paskutinės 7 dienos',
+  'sidebar.older': 'Senesni',
+  'sidebar.chatTitle': 'Pokalbio pavadinimas',
+  'sidebar.pin': 'Prisegti pokalbį',
+  'sidebar.unpin': 'Atsegti pokalbį',
+  'sidebar.rename': 'Pervadinti pokalbį',
+  'sidebar.delete': 'Ištrinti pokalbį',
+  'sidebar.allChats': 'Visi pokalbiai',
+  'sidebar.exportJson': 'Eksportuoti JSON',
+  'sidebar.exportMarkdown': 'Eksportuoti Markdown',
+  'sidebar.import': 'Importuoti',
+
+  'message.you': 'Jūs',
+  'message.editAndResend': 'Redaguoti ir siųsti iš naujo',
+  'message.interrupted': 'Sustabdyta, kol atsakymas dar nebuvo baigtas.',
+  'message.cachedFrom': 'Išsaugotas atsakymas iš {date}',
+  'message.refreshCached': 'Atnaujinti',
+  'message.simplified': 'Supaprastintas atsakymas',
+  'message.emailTemplate': 'Išsaugoti laiškai',
+  'message.listen': 'Klausytis',
+  'message.copy': 'Kopijuoti',
+  'message.copied': 'Nukopijuota!',
+  'message.simplify': 'Paaiškinti paprastais žodžiais',
+  'message.draftLetter': 'Parašyti laišką',
+  'message.relatedTopics': 'Susijusios temos',
+  'message.assumptions': 'Remiantis jūsų profiliu',
+  'message.citedLaw': 'Cituojami teisės aktai',
+  'message.sources': 'Šaltiniai',
+  'message.topicQuestion': 'Papasakokite daugiau apie: {topic}.',
+
+  'quickReplies.followUps': 'Klauskite toliau',
+  'quickReplies.clarifying': 'Kad atsakymas būtų tikslesnis, reikėtų žinoti:',
+  'quickReplies.answerHint': 'Atsakykite į tai žinutės lauke',
+
+  'report.print': 'Spausdinti / išsaugoti PDF',
+  'report.title': 'Bylos ataskaita – AI Union Helper',
+  'report.generated': 'Sukurta {date}',
+  'report.disclaimer': 'Toliau pateiktus atsakymus sukūrė DI, juose gali būti klaidų. Tai nėra teisinė konsultacija.',
+  'report.started': 'Pradėta {date}',
+  'report.question': 'Klausimas',
+  'report.answer': 'Atsakymas',
+  'report.relatedTopics': 'Susijusios temos:',
+  'report.sources': 'Šaltiniai:',
+
+  'calculators.title': 'Skaičiuoklės',
+  'calculators.holiday': 'Atostoginiai',
+  'calculators.overtime': 'Viršvalandžiai',
+  'calculators.final': 'Išėjimas iš darbo',
+  'calculators.notice': 'Įspėjimo terminas',
+  'calculators.basis': 'Uždarbis atostoginių kaupimo metais (feriepengegrunnlag)',
+  'calculators.over60': 'Iki atostogų metų rugsėjo 1 d. sukanka 60 metų',
+  'calculators.hourlyWage': 'Valandinis atlygis',
+  'calculators.hoursOn': 'Dirbtos valandos: {day}',
+  'calculators.supplement': 'Priedas už viršvalandžius',
+  'calculators.overtimeHint': 'Viršvalandžiai – darbas virš 9 valandų per dieną arba 40 valandų per savaitę, skaičiuojant tą, kas duoda daugiau valandų.',
+  'calculators.monthlySalary': 'Mėnesinis atlyginimas',
+  'calculators.monthsWorked': 'Šiais metais dirbti mėnesiai',
+  'calculators.otherEarnings': 'Kitas šių metų uždarbis, pvz., viršvalandžiai',
+  'calculators.unpaidLastYear': 'Neišmokėti praėjusių metų atostoginiai',
+  'calculators.employmentStart': 'Pirmoji darbo diena',
+  'calculators.noticeReceived': 'Diena, kai gavote rašytinį įspėjimą',
+  'calculators.age': 'Jūsų amžius gavus įspėjimą',
+  'calculators.dismissed': 'Mane atleido',
+  'calculators.resigned': 'Išėjau savo noru',
+  'calculators.probation': 'Bandomuoju laikotarpiu',
+  'calculators.disclaimer': 'Apytikriai skaičiavimai pagal ferieloven ir arbeidsmiljøloven. Jūsų kolektyvinė sutartis gali suteikti daugiau.',
+  'calculators.calculation': 'Skaičiavimas',
+  'calculators.deadlines': 'Jūsų terminai',
+  'calculators.benefits': 'NAV išmokos',
+  'calculators.sickPay': 'Ligos pašalpa',
+  'calculators.unemployment': 'Nedarbo išmoka',
+  'calculators.layoff': 'Permittering',
+  'calculators.annualIncome': 'Metinės pajamos prieš nedarbingumą',
+  'calculators.firstSickDay': 'Pirmoji nedarbingumo diena',
+  'calculators.sickLeavePercent': 'Nedarbingumo procentas',
+  'calculators.incomeLast12Months': 'Pajamos per paskutinius 12 mėnesių',
+  'calculators.incomeLast36Months': 'Pajamos per paskutinius 36 mėnesius (neprivaloma)',
+  'calculators.claimDate': 'Diena, nuo kurios prašote dagpenger',
+  'calculators.layoffStart': 'Pirmoji permittering diena',
+  'calculators.layoffPercent': 'Kokia darbo laiko dalis sustabdyta',
+  'calculators.layoffNotice': 'Diena, kai gavote pranešimą apie permittering (neprivaloma)',
+  'calculators.benefitsHint': 'Apytikslės sumos prieš mokesčius, pagal tą dieną galiojantį G (grunnbeløp). Tikslią sumą nustato NAV.',
+  'calculators.rules': 'Taikytos taisyklės:',
+  'calculators.field.birthDate': 'Gimimo data',
+  'calculators.field.dailyLimit': 'Valandos per dieną iki viršvalandžių',
+  'calculators.field.weeklyLimit': 'Valandos per savaitę iki viršvalandžių',
+  'calculators.field.dayHours': 'Valandos {day} dieną',
+  'calculators.error.amount': '{field}: įveskite nulį arba didesnį skaičių.',
+  'calculators.error.percent': '{field}: įveskite procentus nuo {min} iki 100.',
+  'calculators.error.date': '{field}: įveskite datą formatu MMMM-MM-DD.',
+  'calculators.error.rate': 'Atostoginių tarifas turi būti {low} % arba {high} %.',
+  'calculators.error.earningYear': 'Kaupimo metai turi būti sveikas metų skaičius.',
+  'calculators.error.days': 'Įveskite valandas nuo vienos iki septynių dienų.',
+  'calculators.error.dayHours': 'Valandų {day} dieną negali būti daugiau nei 24.',
+  'calculators.error.minSupplement': 'Priedas už viršvalandžius turi būti ne mažesnis nei {min} %.',
+  'calculators.error.monthsWorked': 'Šiais metais išdirbtų mėnesių negali būti daugiau nei 12.',
+  'calculators.error.noticeBeforeStart': 'Įspėjimas negali būti gautas anksčiau nei prasidėjo darbo santykiai.',
+  'calculators.error.age': 'Amžius turi būti skaičius nuo 13 iki 100.',
+  'calculators.error.agreedMonths': 'Sutartas įspėjimo terminas turi būti sveikas mėnesių skaičius nuo 0 iki 12.',
+  'calculators.error.income36': 'Pajamos per paskutinius 36 mėnesius negali būti mažesnės nei per paskutinius 12 mėnesių.',
+  'calculators.step.holidayPay': '{basis} × {rate} % = {amount}',
+  'calculators.step.senior': '{basis} × {rate} % = {amount} papildomai darbuotojams, kuriems iki {year} m. rugsėjo 1 d. sukanka 60 metų',
+  'calculators.step.seniorCapped': '{basis} (ribojama iki 6 G = {cap}) × {rate} % = {amount} papildomai darbuotojams, kuriems iki {year} m. rugsėjo 1 d. sukanka 60 metų',
+  'calculators.step.total': 'Iš viso: {amount}',
+  'calculators.step.overtimeHours': 'Valandos virš {dailyLimit} per dieną: {daily}; valandos virš {weeklyLimit} per savaitę: {weekly}. Viršvalandžiai: {hours} val.',
+  'calculators.step.ordinaryPay': '{hours} įprastos val. × {wage} = {amount}',
+  'calculators.step.overtimePay': '{hours} viršvalandžių val. × {wage} ({baseWage} + {supplement} %) = {amount}',
+  'calculators.step.earned': '{salary} × {months} mėn. = {basis} uždirbta šiais metais',
+  'calculators.step.earnedWithOther': '{salary} × {months} mėn. + {other} = {basis} uždirbta šiais metais',
+  'calculators.step.unpaidLastYear': '+ {amount} dar neišmokėta už praėjusius metus',
+  'calculators.step.paidOut': 'Išmokama paskutinę darbo užmokesčio dieną: {amount}',
+  'calculators.step.grunnbelop': 'G {date}: {amount} (nuo {from})',
+  'calculators.step.perMonth': 'Apie {amount} per mėnesį prieš mokesčius',
+  'calculators.step.capped': '{amount} ribojama iki 6 G = {cap}',
+  'calculators.step.sickPayBelowMinimum': '{income} yra mažiau nei 0,5 G = {minimum}, todėl teisės į ligos pašalpą nėra.',
+  'calculators.step.sickPayCapped': '{income} ribojama iki 6 G = {cap}. Daug darbdavių sumoka likutį; patikrinkite darbo ar kolektyvinę sutartį.',
+  'calculators.step.sickPayBasis': 'Pašalpos bazė (sykepengegrunnlag): {basis}',
+  'calculators.step.sickPayDailyRate': '{basis} / {days} = {rate} už darbo dieną',
+  'calculators.step.sickPayDailyRateGraded': '{basis} / {days} × {percent} % = {rate} už darbo dieną',
+  'calculators.step.sickPayPeriods': 'Darbdavys moka už 1–{employerDays} dienas (iki {employerPeriodEnds}); NAV moka nuo {navPaysFrom}, ne ilgiau kaip {maxDays} dienų.',
+  'calculators.step.unemploymentBelowMinimum': 'Pajamos per paskutinius 12 mėnesių mažesnės nei 1,5 G = {minimum12}, o per paskutinius 36 – nei 3 G = {minimum36}, todėl teisės į dagpenger nėra.',
+  'calculators.step.unemploymentBasis': 'Bazė: {income} uždirbta per paskutinius 12 mėnesių',
+  'calculators.step.unemploymentBasisAverage': 'Bazė: didesnė iš {income} (paskutiniai 12 mėnesių) ir {average} (paskutinių 36 vidurkis)',
+  'calculators.step.unemploymentDailyRate': '{basis} × {rate} % / {days} = {dailyRate} už darbo dieną',
+  'calculators.step.unemploymentWeeks': 'Mokama iki {weeks} savaičių (pajamos ne mažesnės nei 2 G), po {waitingDays} laukimo dienų.',
+  'calculators.step.unemploymentWeeksLowIncome': 'Mokama iki {weeks} savaičių (pajamos mažesnės nei 2 G), po {waitingDays} laukimo dienų.',
+  'calculators.step.layoffShortNotice': 'Įspėta mažiau nei prieš {days} dienas; sustabdymas neturėtų prasidėti anksčiau nei {date}, nebent jį lėmė nenumatytos aplinkybės.',
+  'calculators.step.layoffNotice': 'Buvo įspėta prieš {days} dienas.',
+  'calculators.step.layoffEmployerPeriod': 'Darbdavys moka visą atlyginimą už pirmąsias {days} sustabdymo darbo dienų, iki {date}.',
+  'calculators.step.layoffEmployerPay': '{salary} × 12 / {workingDays} = {dailyWage} per dieną × {days} d. = {amount}',
+  'calculators.step.layoffEmployerPayPartial': '{salary} × 12 / {workingDays} = {dailyWage} per dieną × {days} d. × {percent} % sustabdyta = {amount}',
+  'calculators.step.layoffBelowMinimum': 'Sustabdymas, mažesnis nei {percent} %, nesuteikia teisės į dagpenger.',
+  'calculators.step.layoffDagpenger': 'Nuo {date} NAV moka apie {amount} dagpenger per mėnesį prieš mokesčius, jei paskutinius 12 mėnesių atlyginimas buvo toks pat, po {waitingDays} laukimo dienų.',
+  'calculators.step.layoffDagpengerPartial': 'Nuo {date} NAV moka apie {amount} dagpenger per mėnesį prieš mokesčius ({percent} % viso tarifo), jei paskutinius 12 mėnesių atlyginimas buvo toks pat, po {waitingDays} laukimo dienų.',
+  'calculators.step.layoffMaxLength': 'Sustabdymas gali trukti ne ilgiau kaip {weeks} savaites per 18 mėnesių; šis baigiasi ne vėliau kaip {date}.',
+
+  'notice.period': 'Įspėjimo terminas:',
+  'notice.days': { one: '{count} diena', few: '{count} dienos', many: '{count} dienos', other: '{count} dienų' },
+  'notice.months': { one: '{count} mėnuo', few: '{count} mėnesiai', many: '{count} mėnesio', other: '{count} mėnesių' },
+  'notice.fullYears': { one: '{count} pilnų metų', few: '{count} pilnų metų', many: '{count} pilnų metų', other: '{count} pilnų metų' },
+  'notice.addToCalendar': 'Įtraukti į kalendorių (.ics)',
+  'notice.calendarName': 'Terminai po atleidimo',
+  'notice.movedFrom': 'Perkelta nuo {date}, nes tai ne darbo diena.',
+  'notice.noticeStart': 'Prasideda įspėjimo terminas',
+  'notice.lastWorkingDay': 'Paskutinė darbo diena',
+  'notice.negotiationDemand': 'Terminas reikalauti derybų',
+  'notice.lawsuit': 'Terminas pateikti ieškinį dėl atleidimo pripažinimo negaliojančiu',
+  'notice.lawsuitDamagesOnly': 'Terminas pateikti ieškinį tik dėl kompensacijos',
+  'notice.agreedBasis': 'Darbo sutartis arba kolektyvinė sutartis',
+  'notice.description.probation': 'Įspėjimo terminas bandomuoju laikotarpiu yra {days} dienos nuo įspėjimo gavimo dienos.',
+  'notice.description.noticeStart': 'Įspėjimo terminas prasideda pirmąją mėnesio, einančio po įspėjimo gavimo, dieną.',
+  'notice.description.lastWorkingDay': '{period} įspėjimo terminas po {tenure} darbo.',
+  'notice.description.lastWorkingDayAtAge': '{period} įspėjimo terminas po {tenure} darbo, sulaukus {age} metų.',
+  'notice.description.negotiationDemand': 'Raštu praneškite darbdaviui, kad reikalaujate derybų dėl atleidimo. Darbdavys tuomet turi surengti susitikimą per dvi savaites.',
+  'notice.description.lawsuit': 'Jei vyksta derybos, aštuonios savaitės skaičiuojamos nuo jų pabaigos dienos.',
+  'notice.description.lawsuitDamagesOnly': 'Taikoma, kai reikalaujate tik kompensacijos, o ne grąžinti į darbą.',
+
+  'document.tooLarge': 'Failas didesnis nei 10 MB.',
+  'document.unsupportedType': 'Palaikomi tik .txt, .pdf ir .docx failai.',
+  'document.invalidDocx': 'Failas nėra tinkamas DOCX dokumentas.',
+  'document.docxCompression': 'DOCX dokumente naudojamas nepalaikomas glaudinimo būdas.',
+  'document.invalidPdf': 'Failas nėra tinkamas PDF dokumentas.',
+  'document.pdfPassword': 'PDF failas apsaugotas slaptažodžiu.',
+  'document.unreadableFont': 'Šiame PDF tekstas parašytas šriftu, kurio nepavyksta nuskaityti. Vietoj to įklijuokite tekstą.',
+  'document.noText': 'Faile nerasta teksto. Jei tai nuskenuotas dokumentas, vietoj to įklijuokite tekstą.',
+  'document.readFailed': 'Nepavyko nuskaityti failo.',
+
+  'contract.title': 'Patikrinkite savo darbo sutartį',
+  'contract.intro': 'Įkelkite sutartį (.txt, .pdf arba .docx) arba įklijuokite jos tekstą. Failas nuskaitomas jūsų įrenginyje; tekstas siunčiamas DI tik pradėjus tikrinimą.',
+  'contract.upload': 'Įkelti failą',
+  'contract.paste': '...arba įklijuokite sutarties tekstą čia',
+  'contract.text': 'Sutarties tekstas',
+  'contract.check': 'Tikrinti sutartį',
+  'contract.checked': 'Patikrinta {date}',
+  'contract.truncated': 'Sutartis per ilga, kad būtų patikrinta visa; jos pabaiga nepatikrinta.',
+  'contract.disclaimer': 'Tikrinimą atlieka DI, todėl kažkas gali būti praleista. Tai nėra teisinė konsultacija.',
+  'contract.checkAnother': 'Tikrinti kitą sutartį',
+  'contract.discuss': 'Aptarti pokalbyje',
+  'contract.status.present': 'yra',
+  'contract.status.missing': 'trūksta',
+  'contract.status.ambiguous': 'neaišku',
+  'contract.status.notApplicable': 'netaikoma',
+  'contract.item.parties': 'Šalys',
+  'contract.item.workplace': 'Darbo vieta',
+  'contract.item.jobDescription': 'Darbo aprašymas',
+  'contract.item.startDate': 'Pradžios data',
+  'contract.item.temporary': 'Terminuotas darbas',
+  'contract.item.probation': 'Bandomasis laikotarpis',
+  'contract.item.holidays': 'Atostogos ir atostoginiai',
+  'contract.item.notice': 'Įspėjimo terminai',
+  'contract.item.pay': 'Darbo užmokestis',
+  'contract.item.workingHours': 'Darbo laikas',
+  'contract.item.breaks': 'Pertraukos',
+  'contract.item.tariff': 'Kolektyvinės sutartys',
+  'contract.item.training': 'Mokymai',
+  'contract.item.pension': 'Pensija ir draudimas',
+  'contract.prompt.complete': 'Mano darbo sutartis buvo patikrinta pagal arbeidsmiljøloven §14-6, ir atrodo, kad joje yra visi privalomi punktai. {summary}\n\nĮ ką dar turėčiau atkreipti dėmesį savo sutartyje?',
+  'contract.prompt.issues': 'Mano darbo sutartis buvo patikrinta pagal arbeidsmiljøloven §14-6. Šių punktų trūksta arba jie neaiškūs:\n{items}\n\nKą tai man reiškia ir kaip paprašyti darbdavio tai ištaisyti?',
+  'contract.prompt.item': '- {item} ({legalBasis}): {status}. {note}',
+  'contract.prompt.quote': 'Sutartyje parašyta: „{quote}“',
+
+  'law.title': 'Teisės biblioteka',
+  'law.search': 'Ieškoti teisės aktuose...',
+  'law.noMatches': 'Atitinkančių straipsnių nėra',
+  'law.matches': 'Atitinkantys straipsniai',
+  'law.textAsOf': 'Tekstas galioja nuo {date}',
+  'law.readOnLovdata': 'Skaityti Lovdata',
+
+  'letter.title': 'Laiškai ir el. laiškai',
+  'letter.type': 'Laiško tipas',
+  'letter.type.complaint': 'Skundas darbdaviui',
+  'letter.type.consultationRequest': 'Prašymas surengti konsultacinį susitikimą (drøftelsesmøte)',
+  'letter.type.navAppeal': 'Skundas NAV',
+  'letter.type.dismissalObjection': 'Prieštaravimas dėl atleidimo',
+  'letter.type.contractRequest': 'Prašymas pateikti rašytinę darbo sutartį',
+  'letter.tone': 'Tonas',
+  'letter.tone.formal': 'Oficialus',
+  'letter.tone.friendly': 'Draugiškas',
+  'letter.tone.firm': 'Tvirtas',
+  'letter.language': 'Laiško kalba',
+  'letter.situation': 'Jūsų situacija',
+  'letter.situationPlaceholder': 'Kas nutiko ir ko norite pasiekti? Vardus ir datas galima įrašyti vėliau.',
+  'letter.generate': 'Rašyti juodraštį',
+  'letter.regenerate': 'Rašyti naują juodraštį',
+  'letter.fields': 'Užpildykite duomenis',
+  'letter.noFields': 'Juodraštyje nėra laukų, kuriuos reikėtų užpildyti.',
+  'letter.recipient': 'Gavėjo el. pašto adresas',
+  'letter.subject': 'Tema',
+  'letter.template': 'Juodraščio tekstas (laukai [[skliaustuose]] užpildomi iš formos aukščiau)',
+  'letter.preview': 'Peržiūra',
+  'letter.missing': { one: '{count} laukas dar neužpildytas.', few: '{count} laukai dar neužpildyti.', many: '{count} lauko dar neužpildyta.', other: '{count} laukų dar neužpildyta.' },
+  'letter.disclaimer': 'Atidžiai perskaitykite laišką prieš siųsdami. Tai nėra teisinė konsultacija.',
+  'letter.email': 'Atidaryti el. pašto programoje',
+  'letter.print': 'Spausdinti',
+  'letter.saveToChat': 'Išsaugoti pokalbyje',
+  'letter.saved': 'Išsaugota',
+
+  'profile.title': 'Mano situacija',
+  'profile.intro': 'Saugoma tik šioje naršyklėje. Profilis siunčiamas su klausimais tik tuose pokalbiuose, kuriuose įjungiate „Naudoti mano profilį“, kad atsakymai atitiktų jūsų situaciją.',
+  'profile.notSpecified': 'Nenurodyta',
+  'profile.sector': 'Sektorius',
+  'profile.sector.private': 'Privatus',
+  'profile.sector.municipal': 'Savivaldybė ar apskritis',
+  'profile.sector.state': 'Valstybinis',
+  'profile.employmentType': 'Įdarbinimas',
+  'profile.employmentType.permanent': 'Nuolatinis',
+  'profile.employmentType.temporary': 'Laikinas',
+  'profile.employmentType.hired': 'Per įdarbinimo agentūrą',
+  'profile.employmentType.onCall': 'Iškviečiamas pagal poreikį',
+  'profile.tenure': 'Darbo stažas pas dabartinį darbdavį',
+  'profile.tenure.under1': 'Mažiau nei 1 metai',
+  'profile.tenure.1to5': '1–5 metai',
+  'profile.tenure.5to10': '5–10 metų',
+  'profile.tenure.10plus': '10 metų ar daugiau',
+  'profile.ageBand': 'Amžius',
+  'profile.ageBand.under18': 'Iki 18',
+  'profile.ageBand.18to49': '18–49',
+  'profile.ageBand.50to54': '50–54',
+  'profile.ageBand.55to59': '55–59',
+  'profile.ageBand.60to66': '60–66',
+  'profile.ageBand.67plus': '67 ar daugiau',
+  'profile.unionMember': 'Profesinės sąjungos narys',
+  'profile.tariffAgreement': 'Taikoma kolektyvinė sutartis (tariffavtale)',
+  'profile.workPermit': 'Leidimas gyventi susijęs su darbu',
+  'profile.yes': 'Taip',
+  'profile.no': 'Ne',
+  'profile.unknown': 'Nežinau',
+  'profile.municipality': 'Savivaldybė',
+  'profile.clear': 'Išvalyti profilį',
+  'profile.done': 'Baigta',
+  'profile.use': 'Naudoti mano profilį',
+  'profile.edit': 'Redaguoti profilį',
+  'profile.setUp': 'Nurodykite savo situaciją, kad gautumėte tikslesnius atsakymus',
+
+  'privacy.title': 'Privatumas',
+  'privacy.intro': 'Prieš siunčiant ką nors dirbtiniam intelektui, asmens duomenys, pvz., asmens kodas (fødselsnummer), telefono numeriai, el. pašto adresai, sąskaitų numeriai ir adresai, pakeičiami žymėmis, pvz., [PHONE_1]. Tikri duomenys atsakyme atkuriami šiame įrenginyje.',
+  'privacy.enabled': 'Slėpti asmens duomenis prieš siunčiant',
+  'privacy.detectNames': 'Slėpti ir vardus (jie spėjami, todėl kai kurie gali būti praleisti)',
+  'privacy.customTerms': 'Visada slėpti šiuos žodžius, po vieną eilutėje, pvz., darbdavio pavadinimą',
+  'privacy.preview': 'Kas bus išsiųsta',
+  'privacy.previewEmpty': 'Įrašykite klausimą, kad pamatytumėte, kas bus išsiųsta.',
+  'privacy.on': 'Asmens duomenys slepiami',
+  'privacy.off': 'Asmens duomenys siunčiami taip, kaip parašyti',
+  'privacy.hiddenCount': { one: 'Bus paslėptas {count} duomuo', few: 'Bus paslėpti {count} duomenys', many: 'Bus paslėpta {count} duomenų', other: 'Bus paslėpta {count} duomenų' },
+
+  'storage.unsupported': 'Ši naršyklė nepalaiko IndexedDB, todėl pokalbių išsaugoti negalima.',
+  'storage.openFailed': 'Nepavyko atidaryti pokalbių duomenų bazės.',
+  'storage.blocked': 'Pokalbių duomenų bazę naudoja senesnė programėlės versija kitoje kortelėje. Uždarykite kitas korteles ir įkelkite puslapį iš naujo.',
+  'storage.deleteFailed': 'Nepavyko ištrinti pokalbių duomenų bazės.',
+  'storage.full': 'Naršyklės saugykla pilna, todėl paskutiniai pakeitimai neišsaugoti. Eksportuokite ir ištrinkite senus pokalbius, kad atlaisvintumėte vietos.',
+  'storage.saveFailed': 'Nepavyko išsaugoti pokalbių naršyklės saugykloje.',
+  'storage.locked': 'Jūsų pokalbiai užšifruoti. Pirmiausia atrakinkite juos slaptafraze.',
+  'storage.damaged': 'Nepavyko iššifruoti išsaugoto pokalbio. Jis gali būti sugadintas.',
+  'storage.insecure': 'Šifravimui reikia saugaus (https) ryšio ir naršyklės su WebCrypto.',
+
+  'security.title': 'Saugumas',
+  'security.intro': 'Užšifruokite pokalbių istoriją šiame įrenginyje slaptafraze. Be jos kiekvienas, kas naudojasi šia naršykle, gali perskaityti jūsų pokalbius.',
+  'security.warning': 'Jei pamiršite slaptafrazę, pokalbių atkurti nepavyks. Niekas negali jos atkurti už jus.',
+  'security.passphrase': 'Slaptafrazė',
+  'security.newPassphrase': 'Nauja slaptafrazė',
+  'security.repeatPassphrase': 'Pakartokite slaptafrazę',
+  'security.currentPassphrase': 'Dabartinė slaptafrazė',
+  'security.passphraseHint': 'Naudokite bent {min} simbolių. Keletą atsitiktinių žodžių lengva įsiminti ir sunku atspėti.',
+  'security.tooShort': 'Slaptafrazė per trumpa.',
+  'security.mismatch': 'Slaptafrazės nesutampa.',
+  'security.wrongPassphrase': 'Neteisinga slaptafrazė.',
+  'security.enable': 'Užšifruoti mano pokalbius',
+  'security.enabled': 'Jūsų pokalbiai šiame įrenginyje užšifruoti.',
+  'security.enabledNotice': 'Jūsų pokalbiai dabar užšifruoti.',
+  'security.lockNow': 'Užrakinti dabar',
+  'security.autoLock': 'Automatiškai užrakinti, kai manęs nėra',
+  'security.autoLockNever': 'Niekada',
+  'security.autoLockMinutes': { one: 'Po {count} minutės', few: 'Po {count} minučių', many: 'Po {count} minutės', other: 'Po {count} minučių' },
+  'security.changePassphrase': 'Keisti slaptafrazę',
+  'security.change': 'Keisti',
+  'security.changedNotice': 'Slaptafrazė pakeista.',
+  'security.disable': 'Išjungti šifravimą',
+  'security.disableConfirm': 'Pokalbiai šiame įrenginyje bus saugomi neužšifruoti. Tęsti?',
+  'security.disabledNotice': 'Šifravimas išjungtas.',
+  'security.wipeTitle': 'Ištrinti viską',
+  'security.wipeIntro': 'Iš karto ištrina iš šios naršyklės visus pokalbius, jūsų profilį ir nustatymus. To negalima atšaukti.',
+  'security.wipe': 'Ištrinti viską dabar',
+  'security.wipeConfirm': 'Ištrinti iš šios naršyklės visus pokalbius, profilį ir nustatymus? To negalima atšaukti.',
+  'security.lockedTitle': 'Jūsų pokalbiai užrakinti',
+  'security.lockedIntro': 'Įveskite slaptafrazę, kad atvertumėte pokalbius.',
+  'security.unlock': 'Atrakinti',
+  'security.forgotten': 'Pamiršote slaptafrazę? Ištrinkite viską ir pradėkite iš naujo',
+};
+
+export default lt;
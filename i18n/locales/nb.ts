@@ -0,0 +1,424 @@
+import type { MessageCatalog } from '../types';
+
+const nb: MessageCatalog = {
+  'common.close': 'Lukk',
+  'common.cancel': 'Avbryt',
+  'common.send': 'Send',
+  'common.stop': 'Stopp',
+  'common.undo': 'Angre',
+  'common.dismiss': 'Lukk',
+  'common.retry': 'Prøv igjen',
+  'common.regenerate': 'Lag på nytt',
+  'common.previousVersion': 'Forrige versjon',
+  'common.nextVersion': 'Neste versjon',
+
+  'errors.network': 'Fikk ikke kontakt med AI-tjenesten. Sjekk internettforbindelsen og prøv igjen.',
+  'errors.rate_limit': 'AI-tjenesten er opptatt akkurat nå. Vent litt og prøv igjen.',
+  'errors.safety': 'AI-tjenesten kunne ikke svare på dette spørsmålet. Prøv å formulere det annerledes.',
+  'errors.invalid_response': 'AI-en svarte i et uventet format. Prøv igjen.',
+  'errors.missing_api_key': 'AI-tjenesten er ikke satt opp: fant ingen gyldig API-nøkkel.',
+  'errors.too_large': 'Spørsmålet eller dokumentet er for langt. Gjør det kortere og prøv igjen.',
+  'errors.unknown': 'Noe gikk galt da vi hentet svaret. Prøv igjen.',
+
+  'language.label': 'Språk',
+  'language.auto': 'Automatisk',
+
+  'welcome.title': 'Hva kan jeg hjelpe deg med i dag?',
+  'welcome.subtitle': 'Spør meg om hva som helst innen norsk arbeidsrett.',
+  'welcome.topics': 'Anbefalte temaer',
+
+  'input.placeholder': 'Beskriv situasjonen din...',
+  'input.listening': 'Lytter...',
+  'input.submit': 'Spør AI-juristen',
+  'input.startListening': 'Start lytting',
+  'input.stopListening': 'Stopp lytting',
+  'input.stopGenerating': 'Stopp svaret',
+
+  'speech.network': 'Talegjenkjenningen feilet på grunn av en nettverksfeil. Sjekk internettforbindelsen.',
+  'speech.notAllowed': 'Tilgang til mikrofonen ble avvist. Tillat den i nettleserinnstillingene.',
+  'speech.unknown': 'Det oppstod en ukjent feil i talegjenkjenningen.',
+  'speech.unsupported': 'Talegjenkjenning er ikke tilgjengelig i nettleseren din.',
+  'speech.startFailed': 'Kunne ikke starte lyttingen. Prøv igjen.',
+
+  'voice.start': 'Start samtale med stemme',
+  'voice.end': 'Avslutt stemmesamtale',
+  'voice.title': 'Stemmesamtale',
+  'voice.thinking': 'Tenker...',
+  'voice.speaking': 'Leser opp svaret. Snakk for å avbryte.',
+  'voice.recognitionLanguage': 'Jeg snakker',
+  'voice.sameAsInterface': 'Samme som grensesnittet',
+  'voice.voice': 'Stemme',
+  'voice.defaultVoice': 'Standardstemme',
+  'voice.rate': 'Hastighet',
+  'voice.interrupt': 'Stopp opplesningen',
+
+  'chat.exportJson': 'Eksporter JSON',
+  'chat.exportMarkdown': 'Markdown',
+  'chat.caseReport': 'Saksrapport',
+  'chat.renamed': 'Samtalen fikk nytt navn',
+  'chat.deleted': 'Samtalen ble slettet',
+  'chat.importFailed': 'Kunne ikke importere {file}: {error}',
+  'chat.imported': 'Importerte {chats} og {messages}.',
+  'chat.importedChats': { one: '{count} ny samtale', other: '{count} nye samtaler' },
+  'chat.importedMessages': { one: '{count} melding', other: '{count} meldinger' },
+  'chat.importError.invalidJson': 'Filen er ikke gyldig JSON.',
+  'chat.importError.notExport': 'Filen er ikke en samtaleeksport fra AI Union Helper.',
+  'chat.importError.newerVersion': 'Filen ble eksportert fra en nyere versjon av appen.',
+  'chat.importError.invalidChats': 'Filen inneholder samtaler i et uventet format.',
+  'chat.importError.unreadable': 'Filen kunne ikke leses.',
+
+  'export.question': 'Spørsmål',
+  'export.answer': 'Svar',
+  'export.assumptions': 'Antakelser fra profilen',
+  'export.relatedTopics': 'Relaterte temaer',
+  'export.openQuestions': 'Åpne spørsmål',
+  'export.sources': 'Kilder',
+
+  'footer.nav': 'NAV',
+  'footer.arbeidstilsynet': 'Arbeidstilsynet',
+  'footer.skatteetaten': 'Skatteetaten',
+  'footer.disclaimer': 'AI kan ta feil. Sjekk viktig informasjon.',
+
+  'sidebar.newChat': '+ Ny samtale',
+  'sidebar.calculators': 'Kalkulatorer',
+  'sidebar.contractChecker': 'Sjekk en kontrakt',
+  'sidebar.lawLibrary': 'Lovbibliotek',
+  'sidebar.letters': 'Skriv et brev',
+  'sidebar.profile': 'Min situasjon',
+  'sidebar.security': 'Sikkerhet',
+  'sidebar.search': 'Søk i samtaler...',
+  'sidebar.noMatches': 'Ingen samtaler passer',
+  'sidebar.matches': { one: '{count} samtale passer', other: '{count} samtaler passer' },
+  'sidebar.previousChats': 'Dine tidligere samtaler',
+  'sidebar.pinned': 'Festet',
+  'sidebar.today': 'I dag',
+  'sidebar.lastWeek': 'Siste 7 dager',
+  'sidebar.older': 'Eldre',
+  'sidebar.chatTitle': 'Tittel på samtalen',
+  'sidebar.pin': 'Fest samtalen',
+  'sidebar.unpin': 'Løsne samtalen',
+  'sidebar.rename': 'Gi samtalen nytt navn',
+  'sidebar.delete': 'Slett samtalen',
+  'sidebar.allChats': 'Alle samtaler',
+  'sidebar.exportJson': 'Eksporter JSON',
+  'sidebar.exportMarkdown': 'Eksporter Markdown',
+  'sidebar.import': 'Importer',
+
+  'message.you': 'Du',
+  'message.editAndResend': 'Rediger og send på nytt',
+  'message.interrupted': 'Stoppet før svaret var ferdig.',
+  'message.cachedFrom': 'Lagret svar fra {date}',
+  'message.refreshCached': 'Oppdater',
+  'message.simplified': 'Forenklet svar',
+  'message.emailTemplate': 'Lagrede brev',
+  'message.listen': 'Lytt',
+  'message.copy': 'Kopier',
+  'message.copied': 'Kopiert!',
+  'message.simplify': 'Forklar med enkle ord',
+  'message.draftLetter': 'Skriv et brev',
+  'message.relatedTopics': 'Relaterte temaer',
+  'message.assumptions': 'Basert på profilen din',
+  'message.citedLaw': 'Lovhenvisninger',
+  'message.sources': 'Kilder',
+  'message.topicQuestion': 'Fortell mer om {topic}.',
+
+  'quickReplies.followUps': 'Spør videre',
+  'quickReplies.clarifying': 'For å gi et sikrere svar trenger jeg å vite:',
+  'quickReplies.answerHint': 'Svar på dette i meldingsfeltet',
+
+  'report.print': 'Skriv ut / lagre som PDF',
+  'report.title': 'Saksrapport – AI Union Helper',
+  'report.generated': 'Laget {date}',
+  'report.disclaimer': 'Svarene nedenfor er laget av AI og kan inneholde feil. De er ikke juridisk rådgivning.',
+  'report.started': 'Startet {date}',
+  'report.question': 'Spørsmål',
+  'report.answer': 'Svar',
+  'report.relatedTopics': 'Relaterte temaer:',
+  'report.sources': 'Kilder:',
+
+  'calculators.title': 'Kalkulatorer',
+  'calculators.holiday': 'Feriepenger',
+  'calculators.overtime': 'Overtid',
+  'calculators.final': 'Slutte i jobben',
+  'calculators.notice': 'Oppsigelsestid',
+  'calculators.basis': 'Lønn opptjent i opptjeningsåret (feriepengegrunnlag)',
+  'calculators.over60': 'Fyller 60 år innen 1. september i ferieåret',
+  'calculators.hourlyWage': 'Timelønn',
+  'calculators.hoursOn': 'Timer arbeidet {day}',
+  'calculators.supplement': 'Overtidstillegg',
+  'calculators.overtimeHint': 'Overtid er arbeid ut over 9 timer per dag eller 40 timer per uke, det som gir flest timer.',
+  'calculators.monthlySalary': 'Månedslønn',
+  'calculators.monthsWorked': 'Måneder arbeidet i år',
+  'calculators.otherEarnings': 'Annen lønn i år, f.eks. overtid',
+  'calculators.unpaidLastYear': 'Feriepenger fra i fjor som ikke er utbetalt',
+  'calculators.employmentStart': 'Første arbeidsdag',
+  'calculators.noticeReceived': 'Dagen du mottok den skriftlige oppsigelsen',
+  'calculators.age': 'Alderen din da du mottok oppsigelsen',
+  'calculators.dismissed': 'Jeg ble sagt opp',
+  'calculators.resigned': 'Jeg sa opp selv',
+  'calculators.probation': 'I prøvetiden',
+  'calculators.disclaimer': 'Anslag basert på ferieloven og arbeidsmiljøloven. Tariffavtalen din kan gi deg mer.',
+  'calculators.calculation': 'Utregning',
+  'calculators.deadlines': 'Fristene dine',
+  'calculators.benefits': 'NAV-ytelser',
+  'calculators.sickPay': 'Sykepenger',
+  'calculators.unemployment': 'Dagpenger',
+  'calculators.layoff': 'Permittering',
+  'calculators.annualIncome': 'Årsinntekt før sykmeldingen',
+  'calculators.firstSickDay': 'Første sykedag',
+  'calculators.sickLeavePercent': 'Sykmeldingsgrad',
+  'calculators.incomeLast12Months': 'Inntekt siste 12 måneder',
+  'calculators.incomeLast36Months': 'Inntekt siste 36 måneder (valgfritt)',
+  'calculators.claimDate': 'Dagen du søker dagpenger fra',
+  'calculators.layoffStart': 'Første dag av permitteringen',
+  'calculators.layoffPercent': 'Hvor stor del av arbeidstiden du er permittert',
+  'calculators.layoffNotice': 'Dagen du fikk permitteringsvarselet (valgfritt)',
+  'calculators.benefitsHint': 'Anslag før skatt, med G (grunnbeløpet) som gjelder på datoen. NAV avgjør det faktiske beløpet.',
+  'calculators.rules': 'Regler som er brukt:',
+  'calculators.field.birthDate': 'Fødselsdato',
+  'calculators.field.dailyLimit': 'Timer per dag før overtid',
+  'calculators.field.weeklyLimit': 'Timer per uke før overtid',
+  'calculators.field.dayHours': 'Timer på dag {day}',
+  'calculators.error.amount': '{field}: skriv inn et tall som er null eller mer.',
+  'calculators.error.percent': '{field}: skriv inn en prosent mellom {min} og 100.',
+  'calculators.error.date': '{field}: skriv inn en dato på formen ÅÅÅÅ-MM-DD.',
+  'calculators.error.rate': 'Feriepengesatsen må være {low} % eller {high} %.',
+  'calculators.error.earningYear': 'Opptjeningsåret må være et helt årstall.',
+  'calculators.error.days': 'Skriv inn timene for én til sju dager.',
+  'calculators.error.dayHours': 'Timene på dag {day} kan ikke være flere enn 24.',
+  'calculators.error.minSupplement': 'Overtidstillegget må være minst {min} %.',
+  'calculators.error.monthsWorked': 'Månedene du har jobbet i år kan ikke være flere enn 12.',
+  'calculators.error.noticeBeforeStart': 'Oppsigelsen kan ikke være mottatt før arbeidsforholdet startet.',
+  'calculators.error.age': 'Alderen må være et tall mellom 13 og 100.',
+  'calculators.error.agreedMonths': 'Den avtalte oppsigelsestiden må være et helt antall måneder mellom 0 og 12.',
+  'calculators.error.income36': 'Inntekten de siste 36 månedene kan ikke være lavere enn de siste 12 månedene.',
+  'calculators.step.holidayPay': '{basis} × {rate} % = {amount}',
+  'calculators.step.senior': '{basis} × {rate} % = {amount} ekstra for arbeidstakere som fyller 60 år innen 1. september {year}',
+  'calculators.step.seniorCapped': '{basis} (begrenset til 6 G = {cap}) × {rate} % = {amount} ekstra for arbeidstakere som fyller 60 år innen 1. september {year}',
+  'calculators.step.total': 'Totalt: {amount}',
+  'calculators.step.overtimeHours': 'Timer over {dailyLimit} per dag: {daily}; timer over {weeklyLimit} per uke: {weekly}. Overtid: {hours} timer.',
+  'calculators.step.ordinaryPay': '{hours} ordinære timer × {wage} = {amount}',
+  'calculators.step.overtimePay': '{hours} overtidstimer × {wage} ({baseWage} + {supplement} %) = {amount}',
+  'calculators.step.earned': '{salary} × {months} måneder = {basis} opptjent i år',
+  'calculators.step.earnedWithOther': '{salary} × {months} måneder + {other} = {basis} opptjent i år',
+  'calculators.step.unpaidLastYear': '+ {amount} som ikke er utbetalt fra i fjor',
+  'calculators.step.paidOut': 'Utbetales på siste lønningsdag: {amount}',
+  'calculators.step.grunnbelop': 'G på {date}: {amount} (fra {from})',
+  'calculators.step.perMonth': 'Omtrent {amount} per måned før skatt',
+  'calculators.step.capped': '{amount} begrenses til 6 G = {cap}',
+  'calculators.step.sickPayBelowMinimum': '{income} er under 0,5 G = {minimum}, så du har ikke rett til sykepenger.',
+  'calculators.step.sickPayCapped': '{income} begrenses til 6 G = {cap}. Mange arbeidsgivere betaler resten; sjekk arbeidsavtalen eller tariffavtalen.',
+  'calculators.step.sickPayBasis': 'Sykepengegrunnlag: {basis}',
+  'calculators.step.sickPayDailyRate': '{basis} / {days} = {rate} per arbeidsdag',
+  'calculators.step.sickPayDailyRateGraded': '{basis} / {days} × {percent} % = {rate} per arbeidsdag',
+  'calculators.step.sickPayPeriods': 'Arbeidsgiveren betaler dag 1 til {employerDays} (til og med {employerPeriodEnds}); NAV betaler fra {navPaysFrom}, i høyst {maxDays} dager.',
+  'calculators.step.unemploymentBelowMinimum': 'Inntekten er under 1,5 G = {minimum12} de siste 12 månedene og 3 G = {minimum36} de siste 36, så du har ikke rett til dagpenger.',
+  'calculators.step.unemploymentBasis': 'Grunnlag: {income} tjent de siste 12 månedene',
+  'calculators.step.unemploymentBasisAverage': 'Grunnlag: det høyeste av {income} (siste 12 måneder) og {average} (snittet av de siste 36)',
+  'calculators.step.unemploymentDailyRate': '{basis} × {rate} % / {days} = {dailyRate} per arbeidsdag',
+  'calculators.step.unemploymentWeeks': 'Utbetales i opptil {weeks} uker (inntekt på minst 2 G), etter {waitingDays} ventedager.',
+  'calculators.step.unemploymentWeeksLowIncome': 'Utbetales i opptil {weeks} uker (inntekt under 2 G), etter {waitingDays} ventedager.',
+  'calculators.step.layoffShortNotice': 'Varselet var kortere enn {days} dager; permitteringen bør ikke starte før {date} med mindre den skyldes noe uforutsett.',
+  'calculators.step.layoffNotice': 'Varselet på {days} dager ble gitt.',
+  'calculators.step.layoffEmployerPeriod': 'Arbeidsgiveren betaler full lønn de første {days} arbeidsdagene av permitteringen, til og med {date}.',
+  'calculators.step.layoffEmployerPay': '{salary} × 12 / {workingDays} = {dailyWage} per dag × {days} dager = {amount}',
+  'calculators.step.layoffEmployerPayPartial': '{salary} × 12 / {workingDays} = {dailyWage} per dag × {days} dager × {percent} % permittert = {amount}',
+  'calculators.step.layoffBelowMinimum': 'En permittering under {percent} % gir ikke rett til dagpenger.',
+  'calculators.step.layoffDagpenger': 'Fra {date} betaler NAV dagpenger på omtrent {amount} per måned før skatt, om du har hatt samme lønn de siste 12 månedene, etter {waitingDays} ventedager.',
+  'calculators.step.layoffDagpengerPartial': 'Fra {date} betaler NAV dagpenger på omtrent {amount} per måned før skatt ({percent} % av full sats), om du har hatt samme lønn de siste 12 månedene, etter {waitingDays} ventedager.',
+  'calculators.step.layoffMaxLength': 'En permittering kan vare i høyst {weeks} uker i løpet av 18 måneder; denne slutter senest {date}.',
+
+  'notice.period': 'Oppsigelsestid:',
+  'notice.days': { one: '{count} dag', other: '{count} dager' },
+  'notice.months': { one: '{count} måned', other: '{count} måneder' },
+  'notice.fullYears': { one: '{count} helt år', other: '{count} hele år' },
+  'notice.addToCalendar': 'Legg til i kalenderen (.ics)',
+  'notice.calendarName': 'Frister etter oppsigelse',
+  'notice.movedFrom': 'Flyttet fra {date}, som ikke er en arbeidsdag.',
+  'notice.noticeStart': 'Oppsigelsestiden begynner',
+  'notice.lastWorkingDay': 'Siste dag i jobben',
+  'notice.negotiationDemand': 'Frist for å kreve forhandlinger',
+  'notice.lawsuit': 'Frist for søksmål om at oppsigelsen er ugyldig',
+  'notice.lawsuitDamagesOnly': 'Frist for søksmål bare om erstatning',
+  'notice.agreedBasis': 'Arbeidsavtale eller tariffavtale',
+  'notice.description.probation': 'Oppsigelsestiden i prøvetiden er {days} dager fra dagen oppsigelsen ble mottatt.',
+  'notice.description.noticeStart': 'Oppsigelsestiden begynner den første dagen i måneden etter at oppsigelsen ble mottatt.',
+  'notice.description.lastWorkingDay': 'En oppsigelsestid på {period} etter {tenure} i arbeidsforholdet.',
+  'notice.description.lastWorkingDayAtAge': 'En oppsigelsestid på {period} etter {tenure} i arbeidsforholdet, ved {age} års alder.',
+  'notice.description.negotiationDemand': 'Gi arbeidsgiveren skriftlig beskjed om at du krever forhandlinger om oppsigelsen. Arbeidsgiveren må da holde møte innen to uker.',
+  'notice.description.lawsuit': 'Hvis det holdes forhandlinger, løper de åtte ukene i stedet fra dagen forhandlingene avsluttes.',
+  'notice.description.lawsuitDamagesOnly': 'Gjelder når du bare krever erstatning, ikke å få beholde jobben.',
+
+  'document.tooLarge': 'Filen er større enn 10 MB.',
+  'document.unsupportedType': 'Bare .txt-, .pdf- og .docx-filer støttes.',
+  'document.invalidDocx': 'Filen er ikke et gyldig DOCX-dokument.',
+  'document.docxCompression': 'DOCX-dokumentet bruker en komprimeringsmetode som ikke støttes.',
+  'document.invalidPdf': 'Filen er ikke et gyldig PDF-dokument.',
+  'document.pdfPassword': 'PDF-filen er beskyttet med passord.',
+  'document.unreadableFont': 'Teksten i denne PDF-filen bruker en skrift som ikke kan leses. Lim inn teksten i stedet.',
+  'document.noText': 'Fant ingen tekst i filen. Hvis det er et skannet dokument, lim inn teksten i stedet.',
+  'document.readFailed': 'Filen kunne ikke leses.',
+
+  'contract.title': 'Sjekk arbeidsavtalen din',
+  'contract.intro': 'Last opp avtalen (.txt, .pdf eller .docx) eller lim inn teksten. Filen leses på enheten din; teksten sendes bare til AI-en når du starter sjekken.',
+  'contract.upload': 'Last opp fil',
+  'contract.paste': '...eller lim inn teksten i avtalen her',
+  'contract.text': 'Teksten i avtalen',
+  'contract.check': 'Sjekk avtalen',
+  'contract.checked': 'Sjekket {date}',
+  'contract.truncated': 'Avtalen var for lang til å sjekkes i sin helhet; slutten ble ikke sjekket.',
+  'contract.disclaimer': 'Sjekken gjøres av AI og kan overse ting. Den er ikke juridisk rådgivning.',
+  'contract.checkAnother': 'Sjekk en annen avtale',
+  'contract.discuss': 'Diskuter i samtalen',
+  'contract.status.present': 'med',
+  'contract.status.missing': 'mangler',
+  'contract.status.ambiguous': 'uklart',
+  'contract.status.notApplicable': 'ikke relevant',
+  'contract.item.parties': 'Partene',
+  'contract.item.workplace': 'Arbeidssted',
+  'contract.item.jobDescription': 'Arbeidsoppgaver',
+  'contract.item.startDate': 'Tiltredelse',
+  'contract.item.temporary': 'Midlertidig ansettelse',
+  'contract.item.probation': 'Prøvetid',
+  'contract.item.holidays': 'Ferie og feriepenger',
+  'contract.item.notice': 'Oppsigelsesfrister',
+  'contract.item.pay': 'Lønn',
+  'contract.item.workingHours': 'Arbeidstid',
+  'contract.item.breaks': 'Pauser',
+  'contract.item.tariff': 'Tariffavtaler',
+  'contract.item.training': 'Opplæring',
+  'contract.item.pension': 'Pensjon og forsikring',
+  'contract.prompt.complete': 'Jeg har fått arbeidsavtalen min sjekket mot arbeidsmiljøloven §14-6, og den ser ut til å dekke alle punktene som kreves. {summary}\n\nEr det noe annet jeg bør se etter i avtalen?',
+  'contract.prompt.issues': 'Jeg har fått arbeidsavtalen min sjekket mot arbeidsmiljøloven §14-6. Disse punktene mangler eller er uklare:\n{items}\n\nHva betyr dette for meg, og hvordan bør jeg be arbeidsgiveren om å rette det?',
+  'contract.prompt.item': '- {item} ({legalBasis}): {status}. {note}',
+  'contract.prompt.quote': 'I avtalen står det: «{quote}»',
+
+  'law.title': 'Lovbibliotek',
+  'law.search': 'Søk i loven...',
+  'law.noMatches': 'Ingen paragrafer passer',
+  'law.matches': 'Paragrafer som passer',
+  'law.textAsOf': 'Tekst per {date}',
+  'law.readOnLovdata': 'Les på Lovdata',
+
+  'letter.title': 'Brev og e-post',
+  'letter.type': 'Type brev',
+  'letter.type.complaint': 'Klage til arbeidsgiver',
+  'letter.type.consultationRequest': 'Krav om drøftelsesmøte',
+  'letter.type.navAppeal': 'Klage til NAV',
+  'letter.type.dismissalObjection': 'Protest mot oppsigelse',
+  'letter.type.contractRequest': 'Krav om skriftlig arbeidsavtale',
+  'letter.tone': 'Tone',
+  'letter.tone.formal': 'Formell',
+  'letter.tone.friendly': 'Vennlig',
+  'letter.tone.firm': 'Bestemt',
+  'letter.language': 'Språk i brevet',
+  'letter.situation': 'Situasjonen din',
+  'letter.situationPlaceholder': 'Hva har skjedd, og hva vil du oppnå? Navn og datoer kan fylles inn senere.',
+  'letter.generate': 'Skriv utkast',
+  'letter.regenerate': 'Skriv nytt utkast',
+  'letter.fields': 'Fyll inn detaljene',
+  'letter.noFields': 'Utkastet har ingen felt å fylle inn.',
+  'letter.recipient': 'Mottakers e-postadresse',
+  'letter.subject': 'Emne',
+  'letter.template': 'Utkast (felt i [[klammer]] fylles inn ovenfra)',
+  'letter.preview': 'Forhåndsvisning',
+  'letter.missing': { one: '{count} felt er ikke fylt inn ennå.', other: '{count} felt er ikke fylt inn ennå.' },
+  'letter.disclaimer': 'Les brevet nøye før du sender det. Det er ikke juridisk rådgivning.',
+  'letter.email': 'Åpne i e-postprogram',
+  'letter.print': 'Skriv ut',
+  'letter.saveToChat': 'Lagre i samtalen',
+  'letter.saved': 'Lagret',
+
+  'profile.title': 'Min situasjon',
+  'profile.intro': 'Lagres bare i denne nettleseren. Den sendes med spørsmålene dine bare i samtaler der du slår på «Bruk profilen min», slik at svarene passer situasjonen din.',
+  'profile.notSpecified': 'Ikke oppgitt',
+  'profile.sector': 'Sektor',
+  'profile.sector.private': 'Privat',
+  'profile.sector.municipal': 'Kommune eller fylkeskommune',
+  'profile.sector.state': 'Stat',
+  'profile.employmentType': 'Ansettelse',
+  'profile.employmentType.permanent': 'Fast',
+  'profile.employmentType.temporary': 'Midlertidig',
+  'profile.employmentType.hired': 'Innleid fra bemanningsbyrå',
+  'profile.employmentType.onCall': 'Tilkallingsvikar',
+  'profile.tenure': 'Tid hos nåværende arbeidsgiver',
+  'profile.tenure.under1': 'Under 1 år',
+  'profile.tenure.1to5': '1–5 år',
+  'profile.tenure.5to10': '5–10 år',
+  'profile.tenure.10plus': '10 år eller mer',
+  'profile.ageBand': 'Alder',
+  'profile.ageBand.under18': 'Under 18',
+  'profile.ageBand.18to49': '18–49',
+  'profile.ageBand.50to54': '50–54',
+  'profile.ageBand.55to59': '55–59',
+  'profile.ageBand.60to66': '60–66',
+  'profile.ageBand.67plus': '67 eller eldre',
+  'profile.unionMember': 'Fagorganisert',
+  'profile.tariffAgreement': 'Omfattet av tariffavtale',
+  'profile.workPermit': 'Oppholdstillatelse knyttet til jobben',
+  'profile.yes': 'Ja',
+  'profile.no': 'Nei',
+  'profile.unknown': 'Vet ikke',
+  'profile.municipality': 'Kommune',
+  'profile.clear': 'Tøm profilen',
+  'profile.done': 'Ferdig',
+  'profile.use': 'Bruk profilen min',
+  'profile.edit': 'Rediger profil',
+  'profile.setUp': 'Legg inn situasjonen din for mer presise svar',
+
+  'privacy.title': 'Personvern',
+  'privacy.intro': 'Før noe sendes til KI-en, byttes personopplysninger som fødselsnummer, telefonnumre, e-postadresser, kontonumre og adresser ut med plassholdere som [PHONE_1]. De ekte opplysningene settes inn igjen i svaret på denne enheten.',
+  'privacy.enabled': 'Skjul personopplysninger før sending',
+  'privacy.detectNames': 'Skjul også navn (de gjettes, så noen kan bli oversett)',
+  'privacy.customTerms': 'Skjul alltid disse ordene, ett per linje, f.eks. navnet på arbeidsgiveren din',
+  'privacy.preview': 'Dette blir sendt',
+  'privacy.previewEmpty': 'Skriv et spørsmål for å se hva som blir sendt.',
+  'privacy.on': 'Personopplysninger skjules',
+  'privacy.off': 'Personopplysninger sendes slik de er skrevet',
+  'privacy.hiddenCount': { one: '{count} opplysning blir skjult', other: '{count} opplysninger blir skjult' },
+
+  'storage.unsupported': 'Denne nettleseren støtter ikke IndexedDB, så samtalene kan ikke lagres.',
+  'storage.openFailed': 'Kunne ikke åpne samtaledatabasen.',
+  'storage.blocked': 'Samtaledatabasen brukes av en eldre versjon av appen i en annen fane. Lukk de andre fanene og last inn siden på nytt.',
+  'storage.deleteFailed': 'Samtaledatabasen kunne ikke slettes.',
+  'storage.full': 'Lagringsplassen i nettleseren er full, så de siste endringene ble ikke lagret. Eksporter og slett gamle samtaler for å frigjøre plass.',
+  'storage.saveFailed': 'Samtalene kunne ikke lagres i nettleseren.',
+  'storage.locked': 'Samtalene dine er kryptert. Lås dem opp med passordfrasen først.',
+  'storage.damaged': 'En lagret samtale kunne ikke dekrypteres. Den kan være skadet.',
+  'storage.insecure': 'Kryptering krever en sikker (https) tilkobling og en nettleser med WebCrypto.',
+
+  'security.title': 'Sikkerhet',
+  'security.intro': 'Krypter chatloggen på denne enheten med en passordfrase. Uten den kan alle som bruker denne nettleseren, lese samtalene dine.',
+  'security.warning': 'Hvis du glemmer passordfrasen, kan samtalene ikke gjenopprettes. Ingen kan tilbakestille den for deg.',
+  'security.passphrase': 'Passordfrase',
+  'security.newPassphrase': 'Ny passordfrase',
+  'security.repeatPassphrase': 'Gjenta passordfrasen',
+  'security.currentPassphrase': 'Nåværende passordfrase',
+  'security.passphraseHint': 'Bruk minst {min} tegn. Noen tilfeldige ord er lette å huske og vanskelige å gjette.',
+  'security.tooShort': 'Passordfrasen er for kort.',
+  'security.mismatch': 'Passordfrasene er ikke like.',
+  'security.wrongPassphrase': 'Feil passordfrase.',
+  'security.enable': 'Krypter samtalene mine',
+  'security.enabled': 'Samtalene dine er kryptert på denne enheten.',
+  'security.enabledNotice': 'Samtalene dine er nå kryptert.',
+  'security.lockNow': 'Lås nå',
+  'security.autoLock': 'Lås automatisk når jeg er borte',
+  'security.autoLockNever': 'Aldri',
+  'security.autoLockMinutes': { one: 'Etter {count} minutt', other: 'Etter {count} minutter' },
+  'security.changePassphrase': 'Bytt passordfrase',
+  'security.change': 'Bytt',
+  'security.changedNotice': 'Passordfrasen er byttet.',
+  'security.disable': 'Slå av kryptering',
+  'security.disableConfirm': 'Samtalene blir lagret ukryptert på denne enheten. Vil du fortsette?',
+  'security.disabledNotice': 'Kryptering er slått av.',
+  'security.wipeTitle': 'Slett alt',
+  'security.wipeIntro': 'Sletter alle samtaler, profilen og innstillingene dine fra denne nettleseren på én gang. Dette kan ikke angres.',
+  'security.wipe': 'Slett alt nå',
+  'security.wipeConfirm': 'Slette alle samtaler, profilen og innstillingene fra denne nettleseren? Dette kan ikke angres.',
+  'security.lockedTitle': 'Samtalene dine er låst',
+  'security.lockedIntro': 'Skriv inn passordfrasen for å åpne samtalene.',
+  'security.unlock': 'Lås opp',
+  'security.forgotten': 'Glemt passordfrasen? Slett alt og begynn på nytt',
+};
+
+export default nb;
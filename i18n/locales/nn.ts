@@ -0,0 +1,424 @@
+import type { MessageCatalog } from '../types';
+
+const nn: MessageCatalog = {
+  'common.close': 'Lukk',
+  'common.cancel': 'Avbryt',
+  'common.send': 'Send',
+  'common.stop': 'Stopp',
+  'common.undo': 'Angre',
+  'common.dismiss': 'Lukk',
+  'common.retry': 'Prøv igjen',
+  'common.regenerate': 'Lag på nytt',
+  'common.previousVersion': 'Førre versjon',
+  'common.nextVersion': 'Neste versjon',
+
+  'errors.network': 'Fekk ikkje kontakt med KI-tenesta. Sjekk internettsambandet og prøv igjen.',
+  'errors.rate_limit': 'KI-tenesta er oppteken akkurat no. Vent litt og prøv igjen.',
+  'errors.safety': 'KI-tenesta kunne ikkje svare på dette spørsmålet. Prøv å formulere det annleis.',
+  'errors.invalid_response': 'KI-en svarte i eit uventa format. Prøv igjen.',
+  'errors.missing_api_key': 'KI-tenesta er ikkje sett opp: fann ingen gyldig API-nøkkel.',
+  'errors.too_large': 'Spørsmålet eller dokumentet er for langt. Gjer det kortare og prøv igjen.',
+  'errors.unknown': 'Noko gjekk gale då vi henta svaret. Prøv igjen.',
+
+  'language.label': 'Språk',
+  'language.auto': 'Automatisk',
+
+  'welcome.title': 'Kva kan eg hjelpe deg med i dag?',
+  'welcome.subtitle': 'Spør meg om kva som helst innan norsk arbeidsrett.',
+  'welcome.topics': 'Tilrådde tema',
+
+  'input.placeholder': 'Skildre situasjonen din...',
+  'input.listening': 'Lyttar...',
+  'input.submit': 'Spør KI-juristen',
+  'input.startListening': 'Start lytting',
+  'input.stopListening': 'Stopp lytting',
+  'input.stopGenerating': 'Stopp svaret',
+
+  'speech.network': 'Talegjenkjenninga feila på grunn av ein nettverksfeil. Sjekk internettsambandet.',
+  'speech.notAllowed': 'Tilgang til mikrofonen vart avvist. Tillat han i nettlesarinnstillingane.',
+  'speech.unknown': 'Det oppstod ein ukjend feil i talegjenkjenninga.',
+  'speech.unsupported': 'Talegjenkjenning er ikkje tilgjengeleg i nettlesaren din.',
+  'speech.startFailed': 'Kunne ikkje starte lyttinga. Prøv igjen.',
+
+  'voice.start': 'Start samtale med stemme',
+  'voice.end': 'Avslutt stemmesamtale',
+  'voice.title': 'Stemmesamtale',
+  'voice.thinking': 'Tenkjer...',
+  'voice.speaking': 'Les opp svaret. Snakk for å avbryte.',
+  'voice.recognitionLanguage': 'Eg snakkar',
+  'voice.sameAsInterface': 'Same som grensesnittet',
+  'voice.voice': 'Stemme',
+  'voice.defaultVoice': 'Standardstemme',
+  'voice.rate': 'Fart',
+  'voice.interrupt': 'Stopp opplesinga',
+
+  'chat.exportJson': 'Eksporter JSON',
+  'chat.exportMarkdown': 'Markdown',
+  'chat.caseReport': 'Saksrapport',
+  'chat.renamed': 'Samtalen fekk nytt namn',
+  'chat.deleted': 'Samtalen vart sletta',
+  'chat.importFailed': 'Kunne ikkje importere {file}: {error}',
+  'chat.imported': 'Importerte {chats} og {messages}.',
+  'chat.importedChats': { one: '{count} ny samtale', other: '{count} nye samtalar' },
+  'chat.importedMessages': { one: '{count} melding', other: '{count} meldingar' },
+  'chat.importError.invalidJson': 'Fila er ikkje gyldig JSON.',
+  'chat.importError.notExport': 'Fila er ikkje ein samtaleeksport frå AI Union Helper.',
+  'chat.importError.newerVersion': 'Fila vart eksportert frå ein nyare versjon av appen.',
+  'chat.importError.invalidChats': 'Fila inneheld samtalar i eit uventa format.',
+  'chat.importError.unreadable': 'Fila kunne ikkje lesast.',
+
+  'export.question': 'Spørsmål',
+  'export.answer': 'Svar',
+  'export.assumptions': 'Føresetnader frå profilen',
+  'export.relatedTopics': 'Relaterte tema',
+  'export.openQuestions': 'Opne spørsmål',
+  'export.sources': 'Kjelder',
+
+  'footer.nav': 'NAV',
+  'footer.arbeidstilsynet': 'Arbeidstilsynet',
+  'footer.skatteetaten': 'Skatteetaten',
+  'footer.disclaimer': 'KI kan ta feil. Sjekk viktig informasjon.',
+
+  'sidebar.newChat': '+ Ny samtale',
+  'sidebar.calculators': 'Kalkulatorar',
+  'sidebar.contractChecker': 'Sjekk ein kontrakt',
+  'sidebar.lawLibrary': 'Lovbibliotek',
+  'sidebar.letters': 'Skriv eit brev',
+  'sidebar.profile': 'Min situasjon',
+  'sidebar.security': 'Tryggleik',
+  'sidebar.search': 'Søk i samtalar...',
+  'sidebar.noMatches': 'Ingen samtalar passar',
+  'sidebar.matches': { one: '{count} samtale passar', other: '{count} samtalar passar' },
+  'sidebar.previousChats': 'Dei tidlegare samtalane dine',
+  'sidebar.pinned': 'Festa',
+  'sidebar.today': 'I dag',
+  'sidebar.lastWeek': 'Siste 7 dagar',
+  'sidebar.older': 'Eldre',
+  'sidebar.chatTitle': 'Tittel på samtalen',
+  'sidebar.pin': 'Fest samtalen',
+  'sidebar.unpin': 'Lausne samtalen',
+  'sidebar.rename': 'Gi samtalen nytt namn',
+  'sidebar.delete': 'Slett samtalen',
+  'sidebar.allChats': 'Alle samtalar',
+  'sidebar.exportJson': 'Eksporter JSON',
+  'sidebar.exportMarkdown': 'Eksporter Markdown',
+  'sidebar.import': 'Importer',
+
+  'message.you': 'Du',
+  'message.editAndResend': 'Rediger og send på nytt',
+  'message.interrupted': 'Stoppa før svaret var ferdig.',
+  'message.cachedFrom': 'Lagra svar frå {date}',
+  'message.refreshCached': 'Oppdater',
+  'message.simplified': 'Forenkla svar',
+  'message.emailTemplate': 'Lagra brev',
+  'message.listen': 'Lytt',
+  'message.copy': 'Kopier',
+  'message.copied': 'Kopiert!',
+  'message.simplify': 'Forklar med enkle ord',
+  'message.draftLetter': 'Skriv eit brev',
+  'message.relatedTopics': 'Relaterte tema',
+  'message.assumptions': 'Basert på profilen din',
+  'message.citedLaw': 'Lovtilvisingar',
+  'message.sources': 'Kjelder',
+  'message.topicQuestion': 'Fortel meir om {topic}.',
+
+  'quickReplies.followUps': 'Spør vidare',
+  'quickReplies.clarifying': 'For å gje eit sikrare svar treng eg å vite:',
+  'quickReplies.answerHint': 'Svar på dette i meldingsfeltet',
+
+  'report.print': 'Skriv ut / lagre som PDF',
+  'report.title': 'Saksrapport – AI Union Helper',
+  'report.generated': 'Laga {date}',
+  'report.disclaimer': 'Svara nedanfor er laga av KI og kan innehalde feil. Dei er ikkje juridisk rådgiving.',
+  'report.started': 'Starta {date}',
+  'report.question': 'Spørsmål',
+  'report.answer': 'Svar',
+  'report.relatedTopics': 'Relaterte tema:',
+  'report.sources': 'Kjelder:',
+
+  'calculators.title': 'Kalkulatorar',
+  'calculators.holiday': 'Feriepengar',
+  'calculators.overtime': 'Overtid',
+  'calculators.final': 'Slutte i jobben',
+  'calculators.notice': 'Oppseiingstid',
+  'calculators.basis': 'Løn opptent i oppteningsåret (feriepengegrunnlag)',
+  'calculators.over60': 'Fyller 60 år innan 1. september i ferieåret',
+  'calculators.hourlyWage': 'Timeløn',
+  'calculators.hoursOn': 'Timar arbeidd {day}',
+  'calculators.supplement': 'Overtidstillegg',
+  'calculators.overtimeHint': 'Overtid er arbeid ut over 9 timar per dag eller 40 timar per veke, det som gir flest timar.',
+  'calculators.monthlySalary': 'Månadsløn',
+  'calculators.monthsWorked': 'Månader arbeidd i år',
+  'calculators.otherEarnings': 'Anna løn i år, t.d. overtid',
+  'calculators.unpaidLastYear': 'Feriepengar frå i fjor som ikkje er utbetalte',
+  'calculators.employmentStart': 'Første arbeidsdag',
+  'calculators.noticeReceived': 'Dagen du fekk den skriftlege oppseiinga',
+  'calculators.age': 'Alderen din då du fekk oppseiinga',
+  'calculators.dismissed': 'Eg vart sagd opp',
+  'calculators.resigned': 'Eg sa opp sjølv',
+  'calculators.probation': 'I prøvetida',
+  'calculators.disclaimer': 'Overslag basert på ferielova og arbeidsmiljølova. Tariffavtalen din kan gi deg meir.',
+  'calculators.calculation': 'Utrekning',
+  'calculators.deadlines': 'Fristane dine',
+  'calculators.benefits': 'NAV-ytingar',
+  'calculators.sickPay': 'Sjukepengar',
+  'calculators.unemployment': 'Dagpengar',
+  'calculators.layoff': 'Permittering',
+  'calculators.annualIncome': 'Årsinntekt før sjukmeldinga',
+  'calculators.firstSickDay': 'Første sjukedag',
+  'calculators.sickLeavePercent': 'Sjukmeldingsgrad',
+  'calculators.incomeLast12Months': 'Inntekt siste 12 månader',
+  'calculators.incomeLast36Months': 'Inntekt siste 36 månader (valfritt)',
+  'calculators.claimDate': 'Dagen du søkjer dagpengar frå',
+  'calculators.layoffStart': 'Første dag av permitteringa',
+  'calculators.layoffPercent': 'Kor stor del av arbeidstida du er permittert',
+  'calculators.layoffNotice': 'Dagen du fekk permitteringsvarselet (valfritt)',
+  'calculators.benefitsHint': 'Overslag før skatt, med G (grunnbeløpet) som gjeld på datoen. NAV avgjer det faktiske beløpet.',
+  'calculators.rules': 'Reglar som er brukte:',
+  'calculators.field.birthDate': 'Fødselsdato',
+  'calculators.field.dailyLimit': 'Timar per dag før overtid',
+  'calculators.field.weeklyLimit': 'Timar per veke før overtid',
+  'calculators.field.dayHours': 'Timar på dag {day}',
+  'calculators.error.amount': '{field}: skriv inn eit tal som er null eller meir.',
+  'calculators.error.percent': '{field}: skriv inn ein prosent mellom {min} og 100.',
+  'calculators.error.date': '{field}: skriv inn ein dato på forma ÅÅÅÅ-MM-DD.',
+  'calculators.error.rate': 'Feriepengesatsen må vere {low} % eller {high} %.',
+  'calculators.error.earningYear': 'Oppteningsåret må vere eit heilt årstal.',
+  'calculators.error.days': 'Skriv inn timane for éin til sju dagar.',
+  'calculators.error.dayHours': 'Timane på dag {day} kan ikkje vere fleire enn 24.',
+  'calculators.error.minSupplement': 'Overtidstillegget må vere minst {min} %.',
+  'calculators.error.monthsWorked': 'Månadene du har jobba i år kan ikkje vere fleire enn 12.',
+  'calculators.error.noticeBeforeStart': 'Oppseiinga kan ikkje vere motteken før arbeidsforholdet starta.',
+  'calculators.error.age': 'Alderen må vere eit tal mellom 13 og 100.',
+  'calculators.error.agreedMonths': 'Den avtalte oppseiingstida må vere eit heilt tal månader mellom 0 og 12.',
+  'calculators.error.income36': 'Inntekta dei siste 36 månadene kan ikkje vere lågare enn dei siste 12 månadene.',
+  'calculators.step.holidayPay': '{basis} × {rate} % = {amount}',
+  'calculators.step.senior': '{basis} × {rate} % = {amount} ekstra for arbeidstakarar som fyller 60 år innan 1. september {year}',
+  'calculators.step.seniorCapped': '{basis} (avgrensa til 6 G = {cap}) × {rate} % = {amount} ekstra for arbeidstakarar som fyller 60 år innan 1. september {year}',
+  'calculators.step.total': 'Totalt: {amount}',
+  'calculators.step.overtimeHours': 'Timar over {dailyLimit} per dag: {daily}; timar over {weeklyLimit} per veke: {weekly}. Overtid: {hours} timar.',
+  'calculators.step.ordinaryPay': '{hours} ordinære timar × {wage} = {amount}',
+  'calculators.step.overtimePay': '{hours} overtidstimar × {wage} ({baseWage} + {supplement} %) = {amount}',
+  'calculators.step.earned': '{salary} × {months} månader = {basis} opptent i år',
+  'calculators.step.earnedWithOther': '{salary} × {months} månader + {other} = {basis} opptent i år',
+  'calculators.step.unpaidLastYear': '+ {amount} som ikkje er utbetalt frå i fjor',
+  'calculators.step.paidOut': 'Blir utbetalt på siste lønningsdag: {amount}',
+  'calculators.step.grunnbelop': 'G på {date}: {amount} (frå {from})',
+  'calculators.step.perMonth': 'Omtrent {amount} per månad før skatt',
+  'calculators.step.capped': '{amount} blir avgrensa til 6 G = {cap}',
+  'calculators.step.sickPayBelowMinimum': '{income} er under 0,5 G = {minimum}, så du har ikkje rett til sjukepengar.',
+  'calculators.step.sickPayCapped': '{income} blir avgrensa til 6 G = {cap}. Mange arbeidsgivarar betaler resten; sjekk arbeidsavtalen eller tariffavtalen.',
+  'calculators.step.sickPayBasis': 'Sjukepengegrunnlag: {basis}',
+  'calculators.step.sickPayDailyRate': '{basis} / {days} = {rate} per arbeidsdag',
+  'calculators.step.sickPayDailyRateGraded': '{basis} / {days} × {percent} % = {rate} per arbeidsdag',
+  'calculators.step.sickPayPeriods': 'Arbeidsgivaren betaler dag 1 til {employerDays} (til og med {employerPeriodEnds}); NAV betaler frå {navPaysFrom}, i høgst {maxDays} dagar.',
+  'calculators.step.unemploymentBelowMinimum': 'Inntekta er under 1,5 G = {minimum12} dei siste 12 månadene og 3 G = {minimum36} dei siste 36, så du har ikkje rett til dagpengar.',
+  'calculators.step.unemploymentBasis': 'Grunnlag: {income} tent dei siste 12 månadene',
+  'calculators.step.unemploymentBasisAverage': 'Grunnlag: det høgaste av {income} (siste 12 månader) og {average} (snittet av dei siste 36)',
+  'calculators.step.unemploymentDailyRate': '{basis} × {rate} % / {days} = {dailyRate} per arbeidsdag',
+  'calculators.step.unemploymentWeeks': 'Blir utbetalt i opptil {weeks} veker (inntekt på minst 2 G), etter {waitingDays} ventedagar.',
+  'calculators.step.unemploymentWeeksLowIncome': 'Blir utbetalt i opptil {weeks} veker (inntekt under 2 G), etter {waitingDays} ventedagar.',
+  'calculators.step.layoffShortNotice': 'Varselet var kortare enn {days} dagar; permitteringa bør ikkje starte før {date} med mindre ho kjem av noko uføresett.',
+  'calculators.step.layoffNotice': 'Varselet på {days} dagar vart gitt.',
+  'calculators.step.layoffEmployerPeriod': 'Arbeidsgivaren betaler full løn dei første {days} arbeidsdagane av permitteringa, til og med {date}.',
+  'calculators.step.layoffEmployerPay': '{salary} × 12 / {workingDays} = {dailyWage} per dag × {days} dagar = {amount}',
+  'calculators.step.layoffEmployerPayPartial': '{salary} × 12 / {workingDays} = {dailyWage} per dag × {days} dagar × {percent} % permittert = {amount}',
+  'calculators.step.layoffBelowMinimum': 'Ei permittering under {percent} % gir ikkje rett til dagpengar.',
+  'calculators.step.layoffDagpenger': 'Frå {date} betaler NAV dagpengar på omtrent {amount} per månad før skatt, om du har hatt same løn dei siste 12 månadene, etter {waitingDays} ventedagar.',
+  'calculators.step.layoffDagpengerPartial': 'Frå {date} betaler NAV dagpengar på omtrent {amount} per månad før skatt ({percent} % av full sats), om du har hatt same løn dei siste 12 månadene, etter {waitingDays} ventedagar.',
+  'calculators.step.layoffMaxLength': 'Ei permittering kan vare i høgst {weeks} veker i løpet av 18 månader; denne sluttar seinast {date}.',
+
+  'notice.period': 'Oppseiingstid:',
+  'notice.days': { one: '{count} dag', other: '{count} dagar' },
+  'notice.months': { one: '{count} månad', other: '{count} månader' },
+  'notice.fullYears': { one: '{count} heilt år', other: '{count} heile år' },
+  'notice.addToCalendar': 'Legg til i kalenderen (.ics)',
+  'notice.calendarName': 'Fristar etter oppseiing',
+  'notice.movedFrom': 'Flytta frå {date}, som ikkje er ein arbeidsdag.',
+  'notice.noticeStart': 'Oppseiingstida byrjar',
+  'notice.lastWorkingDay': 'Siste dag i jobben',
+  'notice.negotiationDemand': 'Frist for å krevje forhandlingar',
+  'notice.lawsuit': 'Frist for søksmål om at oppseiinga er ugyldig',
+  'notice.lawsuitDamagesOnly': 'Frist for søksmål berre om erstatning',
+  'notice.agreedBasis': 'Arbeidsavtale eller tariffavtale',
+  'notice.description.probation': 'Oppseiingstida i prøvetida er {days} dagar frå dagen oppseiinga vart motteken.',
+  'notice.description.noticeStart': 'Oppseiingstida byrjar den første dagen i månaden etter at oppseiinga vart motteken.',
+  'notice.description.lastWorkingDay': 'Ei oppseiingstid på {period} etter {tenure} i arbeidsforholdet.',
+  'notice.description.lastWorkingDayAtAge': 'Ei oppseiingstid på {period} etter {tenure} i arbeidsforholdet, ved {age} års alder.',
+  'notice.description.negotiationDemand': 'Gi arbeidsgivaren skriftleg beskjed om at du krev forhandlingar om oppseiinga. Arbeidsgivaren må då halde møte innan to veker.',
+  'notice.description.lawsuit': 'Om det blir halde forhandlingar, går dei åtte vekene i staden frå dagen forhandlingane blir avslutta.',
+  'notice.description.lawsuitDamagesOnly': 'Gjeld når du berre krev erstatning, ikkje å få halde på jobben.',
+
+  'document.tooLarge': 'Fila er større enn 10 MB.',
+  'document.unsupportedType': 'Berre .txt-, .pdf- og .docx-filer er støtta.',
+  'document.invalidDocx': 'Fila er ikkje eit gyldig DOCX-dokument.',
+  'document.docxCompression': 'DOCX-dokumentet brukar ein komprimeringsmetode som ikkje er støtta.',
+  'document.invalidPdf': 'Fila er ikkje eit gyldig PDF-dokument.',
+  'document.pdfPassword': 'PDF-fila er verna med passord.',
+  'document.unreadableFont': 'Teksten i denne PDF-fila brukar ein skrift som ikkje kan lesast. Lim inn teksten i staden.',
+  'document.noText': 'Fann ingen tekst i fila. Om det er eit skanna dokument, lim inn teksten i staden.',
+  'document.readFailed': 'Fila kunne ikkje lesast.',
+
+  'contract.title': 'Sjekk arbeidsavtalen din',
+  'contract.intro': 'Last opp avtalen (.txt, .pdf eller .docx) eller lim inn teksten. Fila vert lesen på eininga di; teksten vert berre send til KI-en når du startar sjekken.',
+  'contract.upload': 'Last opp fil',
+  'contract.paste': '...eller lim inn teksten i avtalen her',
+  'contract.text': 'Teksten i avtalen',
+  'contract.check': 'Sjekk avtalen',
+  'contract.checked': 'Sjekka {date}',
+  'contract.truncated': 'Avtalen var for lang til å sjekkast heilt; slutten vart ikkje sjekka.',
+  'contract.disclaimer': 'Sjekken vert gjord av KI og kan oversjå ting. Han er ikkje juridisk rådgiving.',
+  'contract.checkAnother': 'Sjekk ein annan avtale',
+  'contract.discuss': 'Diskuter i samtalen',
+  'contract.status.present': 'med',
+  'contract.status.missing': 'manglar',
+  'contract.status.ambiguous': 'uklart',
+  'contract.status.notApplicable': 'ikkje relevant',
+  'contract.item.parties': 'Partane',
+  'contract.item.workplace': 'Arbeidsstad',
+  'contract.item.jobDescription': 'Arbeidsoppgåver',
+  'contract.item.startDate': 'Tiltreding',
+  'contract.item.temporary': 'Mellombels tilsetjing',
+  'contract.item.probation': 'Prøvetid',
+  'contract.item.holidays': 'Ferie og feriepengar',
+  'contract.item.notice': 'Oppseiingsfristar',
+  'contract.item.pay': 'Løn',
+  'contract.item.workingHours': 'Arbeidstid',
+  'contract.item.breaks': 'Pausar',
+  'contract.item.tariff': 'Tariffavtalar',
+  'contract.item.training': 'Opplæring',
+  'contract.item.pension': 'Pensjon og forsikring',
+  'contract.prompt.complete': 'Eg har fått arbeidsavtalen min sjekka mot arbeidsmiljølova §14-6, og han ser ut til å dekkje alle punkta som krevst. {summary}\n\nEr det noko anna eg bør sjå etter i avtalen?',
+  'contract.prompt.issues': 'Eg har fått arbeidsavtalen min sjekka mot arbeidsmiljølova §14-6. Desse punkta manglar eller er uklare:\n{items}\n\nKva tyder dette for meg, og korleis bør eg be arbeidsgivaren om å rette det?',
+  'contract.prompt.item': '- {item} ({legalBasis}): {status}. {note}',
+  'contract.prompt.quote': 'I avtalen står det: «{quote}»',
+
+  'law.title': 'Lovbibliotek',
+  'law.search': 'Søk i lova...',
+  'law.noMatches': 'Ingen paragrafar passar',
+  'law.matches': 'Paragrafar som passar',
+  'law.textAsOf': 'Tekst per {date}',
+  'law.readOnLovdata': 'Les på Lovdata',
+
+  'letter.title': 'Brev og e-post',
+  'letter.type': 'Type brev',
+  'letter.type.complaint': 'Klage til arbeidsgjevar',
+  'letter.type.consultationRequest': 'Krav om drøftingsmøte',
+  'letter.type.navAppeal': 'Klage til NAV',
+  'letter.type.dismissalObjection': 'Protest mot oppseiing',
+  'letter.type.contractRequest': 'Krav om skriftleg arbeidsavtale',
+  'letter.tone': 'Tone',
+  'letter.tone.formal': 'Formell',
+  'letter.tone.friendly': 'Venleg',
+  'letter.tone.firm': 'Bestemt',
+  'letter.language': 'Språk i brevet',
+  'letter.situation': 'Situasjonen din',
+  'letter.situationPlaceholder': 'Kva har skjedd, og kva vil du oppnå? Namn og datoar kan fyllast inn seinare.',
+  'letter.generate': 'Skriv utkast',
+  'letter.regenerate': 'Skriv nytt utkast',
+  'letter.fields': 'Fyll inn detaljane',
+  'letter.noFields': 'Utkastet har ingen felt å fylle inn.',
+  'letter.recipient': 'E-postadressa til mottakaren',
+  'letter.subject': 'Emne',
+  'letter.template': 'Utkast (felt i [[klammer]] blir fylte inn ovanfrå)',
+  'letter.preview': 'Førehandsvising',
+  'letter.missing': { one: '{count} felt er ikkje fylt inn enno.', other: '{count} felt er ikkje fylte inn enno.' },
+  'letter.disclaimer': 'Les brevet nøye før du sender det. Det er ikkje juridisk rådgiving.',
+  'letter.email': 'Opne i e-postprogram',
+  'letter.print': 'Skriv ut',
+  'letter.saveToChat': 'Lagre i samtalen',
+  'letter.saved': 'Lagra',
+
+  'profile.title': 'Min situasjon',
+  'profile.intro': 'Blir berre lagra i denne nettlesaren. Han blir send med spørsmåla dine berre i samtalar der du slår på «Bruk profilen min», slik at svara passar situasjonen din.',
+  'profile.notSpecified': 'Ikkje oppgitt',
+  'profile.sector': 'Sektor',
+  'profile.sector.private': 'Privat',
+  'profile.sector.municipal': 'Kommune eller fylkeskommune',
+  'profile.sector.state': 'Stat',
+  'profile.employmentType': 'Tilsetjing',
+  'profile.employmentType.permanent': 'Fast',
+  'profile.employmentType.temporary': 'Mellombels',
+  'profile.employmentType.hired': 'Innleigd frå bemanningsbyrå',
+  'profile.employmentType.onCall': 'Tilkallingsvikar',
+  'profile.tenure': 'Tid hos noverande arbeidsgivar',
+  'profile.tenure.under1': 'Under 1 år',
+  'profile.tenure.1to5': '1–5 år',
+  'profile.tenure.5to10': '5–10 år',
+  'profile.tenure.10plus': '10 år eller meir',
+  'profile.ageBand': 'Alder',
+  'profile.ageBand.under18': 'Under 18',
+  'profile.ageBand.18to49': '18–49',
+  'profile.ageBand.50to54': '50–54',
+  'profile.ageBand.55to59': '55–59',
+  'profile.ageBand.60to66': '60–66',
+  'profile.ageBand.67plus': '67 eller eldre',
+  'profile.unionMember': 'Fagorganisert',
+  'profile.tariffAgreement': 'Omfatta av tariffavtale',
+  'profile.workPermit': 'Opphaldsløyve knytt til jobben',
+  'profile.yes': 'Ja',
+  'profile.no': 'Nei',
+  'profile.unknown': 'Veit ikkje',
+  'profile.municipality': 'Kommune',
+  'profile.clear': 'Tøm profilen',
+  'profile.done': 'Ferdig',
+  'profile.use': 'Bruk profilen min',
+  'profile.edit': 'Rediger profil',
+  'profile.setUp': 'Legg inn situasjonen din for meir presise svar',
+
+  'privacy.title': 'Personvern',
+  'privacy.intro': 'Før noko blir sendt til KI-en, blir personopplysningar som fødselsnummer, telefonnummer, e-postadresser, kontonummer og adresser bytte ut med plasshaldarar som [PHONE_1]. Dei ekte opplysningane blir sette inn att i svaret på denne eininga.',
+  'privacy.enabled': 'Skjul personopplysningar før sending',
+  'privacy.detectNames': 'Skjul òg namn (dei blir gjetta, så nokre kan bli oversett)',
+  'privacy.customTerms': 'Skjul alltid desse orda, eitt per linje, t.d. namnet på arbeidsgivaren din',
+  'privacy.preview': 'Dette blir sendt',
+  'privacy.previewEmpty': 'Skriv eit spørsmål for å sjå kva som blir sendt.',
+  'privacy.on': 'Personopplysningar blir skjulte',
+  'privacy.off': 'Personopplysningar blir sende slik dei er skrivne',
+  'privacy.hiddenCount': { one: '{count} opplysning blir skjult', other: '{count} opplysningar blir skjulte' },
+
+  'storage.unsupported': 'Denne nettlesaren støttar ikkje IndexedDB, så samtalane kan ikkje lagrast.',
+  'storage.openFailed': 'Kunne ikkje opne samtaledatabasen.',
+  'storage.blocked': 'Samtaledatabasen blir brukt av ein eldre versjon av appen i ei anna fane. Lukk dei andre fanene og last inn sida på nytt.',
+  'storage.deleteFailed': 'Samtaledatabasen kunne ikkje slettast.',
+  'storage.full': 'Lagringsplassen i nettlesaren er full, så dei siste endringane vart ikkje lagra. Eksporter og slett gamle samtalar for å frigjere plass.',
+  'storage.saveFailed': 'Samtalane kunne ikkje lagrast i nettlesaren.',
+  'storage.locked': 'Samtalane dine er krypterte. Lås dei opp med passordfrasen først.',
+  'storage.damaged': 'Ein lagra samtale kunne ikkje dekrypterast. Han kan vere skadd.',
+  'storage.insecure': 'Kryptering krev ei sikker (https) tilkopling og ein nettlesar med WebCrypto.',
+
+  'security.title': 'Tryggleik',
+  'security.intro': 'Krypter chatloggen på denne eininga med ei passordfrase. Utan ho kan alle som brukar denne nettlesaren, lese samtalane dine.',
+  'security.warning': 'Om du gløymer passordfrasen, kan ikkje samtalane hentast fram att. Ingen kan tilbakestille ho for deg.',
+  'security.passphrase': 'Passordfrase',
+  'security.newPassphrase': 'Ny passordfrase',
+  'security.repeatPassphrase': 'Gjenta passordfrasen',
+  'security.currentPassphrase': 'Noverande passordfrase',
+  'security.passphraseHint': 'Bruk minst {min} teikn. Nokre tilfeldige ord er lette å hugse og vanskelege å gjette.',
+  'security.tooShort': 'Passordfrasen er for kort.',
+  'security.mismatch': 'Passordfrasane er ikkje like.',
+  'security.wrongPassphrase': 'Feil passordfrase.',
+  'security.enable': 'Krypter samtalane mine',
+  'security.enabled': 'Samtalane dine er krypterte på denne eininga.',
+  'security.enabledNotice': 'Samtalane dine er no krypterte.',
+  'security.lockNow': 'Lås no',
+  'security.autoLock': 'Lås automatisk når eg er borte',
+  'security.autoLockNever': 'Aldri',
+  'security.autoLockMinutes': { one: 'Etter {count} minutt', other: 'Etter {count} minutt' },
+  'security.changePassphrase': 'Byt passordfrase',
+  'security.change': 'Byt',
+  'security.changedNotice': 'Passordfrasen er bytt.',
+  'security.disable': 'Slå av kryptering',
+  'security.disableConfirm': 'Samtalane blir lagra ukrypterte på denne eininga. Vil du halde fram?',
+  'security.disabledNotice': 'Kryptering er slått av.',
+  'security.wipeTitle': 'Slett alt',
+  'security.wipeIntro': 'Slettar alle samtalar, profilen og innstillingane dine frå denne nettlesaren på ein gong. Dette kan ikkje angrast.',
+  'security.wipe': 'Slett alt no',
+  'security.wipeConfirm': 'Slette alle samtalar, profilen og innstillingane frå denne nettlesaren? Dette kan ikkje angrast.',
+  'security.lockedTitle': 'Samtalane dine er låste',
+  'security.lockedIntro': 'Skriv inn passordfrasen for å opne samtalane.',
+  'security.unlock': 'Lås opp',
+  'security.forgotten': 'Gløymt passordfrasen? Slett alt og byrj på nytt',
+};
+
+export default nn;
@@ -0,0 +1,424 @@
+import type { MessageCatalog } from '../types';
+
+const pl: MessageCatalog = {
+  'common.close': 'Zamknij',
+  'common.cancel': 'Anuluj',
+  'common.send': 'Wyślij',
+  'common.stop': 'Zatrzymaj',
+  'common.undo': 'Cofnij',
+  'common.dismiss': 'Zamknij',
+  'common.retry': 'Spróbuj ponownie',
+  'common.regenerate': 'Wygeneruj ponownie',
+  'common.previousVersion': 'Poprzednia wersja',
+  'common.nextVersion': 'Następna wersja',
+
+  'errors.network': 'Nie udało się połączyć z usługą AI. Sprawdź połączenie internetowe i spróbuj ponownie.',
+  'errors.rate_limit': 'Usługa AI jest teraz zajęta. Poczekaj chwilę i spróbuj ponownie.',
+  'errors.safety': 'Usługa AI nie mogła odpowiedzieć na to pytanie. Spróbuj je przeformułować.',
+  'errors.invalid_response': 'AI zwróciła odpowiedź w nieoczekiwanym formacie. Spróbuj ponownie.',
+  'errors.missing_api_key': 'Usługa AI nie jest skonfigurowana: brak prawidłowego klucza API.',
+  'errors.too_large': 'Pytanie lub dokument jest za długi. Skróć go i spróbuj ponownie.',
+  'errors.unknown': 'Coś poszło nie tak podczas pobierania odpowiedzi. Spróbuj ponownie.',
+
+  'language.label': 'Język',
+  'language.auto': 'Automatycznie',
+
+  'welcome.title': 'W czym mogę dziś pomóc?',
+  'welcome.subtitle': 'Zapytaj mnie o cokolwiek z norweskiego prawa pracy.',
+  'welcome.topics': 'Polecane tematy prawne',
+
+  'input.placeholder': 'Opisz swoją sytuację...',
+  'input.listening': 'Słucham...',
+  'input.submit': 'Zapytaj prawnika AI',
+  'input.startListening': 'Zacznij słuchać',
+  'input.stopListening': 'Przestań słuchać',
+  'input.stopGenerating': 'Zatrzymaj odpowiedź',
+
+  'speech.network': 'Rozpoznawanie mowy nie powiodło się z powodu błędu sieci. Sprawdź połączenie.',
+  'speech.notAllowed': 'Odmówiono dostępu do mikrofonu. Zezwól na niego w ustawieniach przeglądarki.',
+  'speech.unknown': 'Wystąpił nieznany błąd rozpoznawania mowy.',
+  'speech.unsupported': 'Rozpoznawanie mowy nie jest dostępne w Twojej przeglądarce.',
+  'speech.startFailed': 'Nie udało się rozpocząć słuchania. Spróbuj ponownie.',
+
+  'voice.start': 'Rozpocznij rozmowę głosową',
+  'voice.end': 'Zakończ rozmowę głosową',
+  'voice.title': 'Rozmowa głosowa',
+  'voice.thinking': 'Myślę...',
+  'voice.speaking': 'Czytam odpowiedź. Zacznij mówić, aby przerwać.',
+  'voice.recognitionLanguage': 'Język mówienia',
+  'voice.sameAsInterface': 'Jak w interfejsie',
+  'voice.voice': 'Głos',
+  'voice.defaultVoice': 'Głos domyślny',
+  'voice.rate': 'Szybkość',
+  'voice.interrupt': 'Przerwij czytanie',
+
+  'chat.exportJson': 'Eksportuj JSON',
+  'chat.exportMarkdown': 'Markdown',
+  'chat.caseReport': 'Raport sprawy',
+  'chat.renamed': 'Zmieniono nazwę rozmowy',
+  'chat.deleted': 'Usunięto rozmowę',
+  'chat.importFailed': 'Nie udało się zaimportować {file}: {error}',
+  'chat.imported': 'Zaimportowano {chats} i {messages}.',
+  'chat.importedChats': { one: '{count} nową rozmowę', few: '{count} nowe rozmowy', many: '{count} nowych rozmów', other: '{count} nowej rozmowy' },
+  'chat.importedMessages': { one: '{count} wiadomość', few: '{count} wiadomości', many: '{count} wiadomości', other: '{count} wiadomości' },
+  'chat.importError.invalidJson': 'Plik nie jest prawidłowym plikiem JSON.',
+  'chat.importError.notExport': 'Plik nie jest eksportem rozmów z AI Union Helper.',
+  'chat.importError.newerVersion': 'Plik został wyeksportowany przez nowszą wersję aplikacji.',
+  'chat.importError.invalidChats': 'Plik zawiera rozmowy w nieoczekiwanym formacie.',
+  'chat.importError.unreadable': 'Nie udało się odczytać pliku.',
+
+  'export.question': 'Pytanie',
+  'export.answer': 'Odpowiedź',
+  'export.assumptions': 'Założenia z profilu',
+  'export.relatedTopics': 'Powiązane tematy',
+  'export.openQuestions': 'Otwarte pytania',
+  'export.sources': 'Źródła',
+
+  'footer.nav': 'NAV (świadczenia)',
+  'footer.arbeidstilsynet': 'Inspekcja Pracy (Arbeidstilsynet)',
+  'footer.skatteetaten': 'Urząd Skarbowy (Skatteetaten)',
+  'footer.disclaimer': 'AI może popełniać błędy. Sprawdzaj ważne informacje.',
+
+  'sidebar.newChat': '+ Nowa rozmowa',
+  'sidebar.calculators': 'Kalkulatory',
+  'sidebar.contractChecker': 'Sprawdź umowę',
+  'sidebar.lawLibrary': 'Biblioteka prawa',
+  'sidebar.letters': 'Napisz pismo',
+  'sidebar.profile': 'Moja sytuacja',
+  'sidebar.security': 'Bezpieczeństwo',
+  'sidebar.search': 'Szukaj w rozmowach...',
+  'sidebar.noMatches': 'Brak pasujących rozmów',
+  'sidebar.matches': { one: '{count} pasująca rozmowa', few: '{count} pasujące rozmowy', many: '{count} pasujących rozmów', other: '{count} pasującej rozmowy' },
+  'sidebar.previousChats': 'Twoje poprzednie rozmowy',
+  'sidebar.pinned': 'Przypięte',
+  'sidebar.today': 'Dzisiaj',
+  'sidebar.lastWeek': 'Ostatnie 7 dni',
+  'sidebar.older': 'Starsze',
+  'sidebar.chatTitle': 'Tytuł rozmowy',
+  'sidebar.pin': 'Przypnij rozmowę',
+  'sidebar.unpin': 'Odepnij rozmowę',
+  'sidebar.rename': 'Zmień nazwę rozmowy',
+  'sidebar.delete': 'Usuń rozmowę',
+  'sidebar.allChats': 'Wszystkie rozmowy',
+  'sidebar.exportJson': 'Eksportuj JSON',
+  'sidebar.exportMarkdown': 'Eksportuj Markdown',
+  'sidebar.import': 'Importuj',
+
+  'message.you': 'Ty',
+  'message.editAndResend': 'Edytuj i wyślij ponownie',
+  'message.interrupted': 'Zatrzymano, zanim odpowiedź była kompletna.',
+  'message.cachedFrom': 'Zapisana odpowiedź z {date}',
+  'message.refreshCached': 'Odśwież',
+  'message.simplified': 'Uproszczona odpowiedź',
+  'message.emailTemplate': 'Zapisane pisma',
+  'message.listen': 'Odsłuchaj',
+  'message.copy': 'Kopiuj',
+  'message.copied': 'Skopiowano!',
+  'message.simplify': 'Wyjaśnij prostymi słowami',
+  'message.draftLetter': 'Napisz pismo',
+  'message.relatedTopics': 'Powiązane tematy',
+  'message.assumptions': 'Na podstawie Twojego profilu',
+  'message.citedLaw': 'Przywołane przepisy',
+  'message.sources': 'Źródła',
+  'message.topicQuestion': 'Opowiedz mi więcej o: {topic}.',
+
+  'quickReplies.followUps': 'Zapytaj dalej',
+  'quickReplies.clarifying': 'Aby udzielić pewniejszej odpowiedzi, warto wiedzieć:',
+  'quickReplies.answerHint': 'Odpowiedz na to w polu wiadomości',
+
+  'report.print': 'Drukuj / zapisz jako PDF',
+  'report.title': 'Raport sprawy – AI Union Helper',
+  'report.generated': 'Utworzono {date}',
+  'report.disclaimer': 'Poniższe odpowiedzi zostały wygenerowane przez AI i mogą zawierać błędy. Nie stanowią porady prawnej.',
+  'report.started': 'Rozpoczęto {date}',
+  'report.question': 'Pytanie',
+  'report.answer': 'Odpowiedź',
+  'report.relatedTopics': 'Powiązane tematy:',
+  'report.sources': 'Źródła:',
+
+  'calculators.title': 'Kalkulatory',
+  'calculators.holiday': 'Wynagrodzenie urlopowe',
+  'calculators.overtime': 'Nadgodziny',
+  'calculators.final': 'Odejście z pracy',
+  'calculators.notice': 'Okres wypowiedzenia',
+  'calculators.basis': 'Wynagrodzenie w roku nabywania prawa (feriepengegrunnlag)',
+  'calculators.over60': 'Kończy 60 lat do 1 września roku urlopowego',
+  'calculators.hourlyWage': 'Stawka godzinowa',
+  'calculators.hoursOn': 'Przepracowane godziny: {day}',
+  'calculators.supplement': 'Dodatek za nadgodziny',
+  'calculators.overtimeHint': 'Nadgodziny to praca ponad 9 godzin dziennie lub 40 godzin tygodniowo – liczy się to, co daje więcej godzin.',
+  'calculators.monthlySalary': 'Pensja miesięczna',
+  'calculators.monthsWorked': 'Miesiące przepracowane w tym roku',
+  'calculators.otherEarnings': 'Inne wynagrodzenie w tym roku, np. nadgodziny',
+  'calculators.unpaidLastYear': 'Niewypłacone wynagrodzenie urlopowe z zeszłego roku',
+  'calculators.employmentStart': 'Pierwszy dzień pracy',
+  'calculators.noticeReceived': 'Dzień otrzymania pisemnego wypowiedzenia',
+  'calculators.age': 'Twój wiek w dniu otrzymania wypowiedzenia',
+  'calculators.dismissed': 'Wypowiedzenie od pracodawcy',
+  'calculators.resigned': 'Wypowiedzenie z mojej strony',
+  'calculators.probation': 'W okresie próbnym',
+  'calculators.disclaimer': 'Szacunki na podstawie ferieloven i arbeidsmiljøloven. Twój układ zbiorowy może dawać więcej.',
+  'calculators.calculation': 'Obliczenie',
+  'calculators.deadlines': 'Twoje terminy',
+  'calculators.benefits': 'Świadczenia NAV',
+  'calculators.sickPay': 'Zasiłek chorobowy',
+  'calculators.unemployment': 'Zasiłek dla bezrobotnych',
+  'calculators.layoff': 'Permittering',
+  'calculators.annualIncome': 'Roczny dochód przed zwolnieniem lekarskim',
+  'calculators.firstSickDay': 'Pierwszy dzień zwolnienia lekarskiego',
+  'calculators.sickLeavePercent': 'Stopień zwolnienia lekarskiego',
+  'calculators.incomeLast12Months': 'Dochód w ostatnich 12 miesiącach',
+  'calculators.incomeLast36Months': 'Dochód w ostatnich 36 miesiącach (opcjonalnie)',
+  'calculators.claimDate': 'Dzień, od którego wnioskujesz o dagpenger',
+  'calculators.layoffStart': 'Pierwszy dzień permitteringu',
+  'calculators.layoffPercent': 'Jaka część czasu pracy jest objęta permitteringiem',
+  'calculators.layoffNotice': 'Dzień otrzymania powiadomienia o permitteringu (opcjonalnie)',
+  'calculators.benefitsHint': 'Szacunki przed opodatkowaniem, z G (grunnbeløp) obowiązującym w danym dniu. Faktyczną kwotę ustala NAV.',
+  'calculators.rules': 'Zastosowane przepisy:',
+  'calculators.field.birthDate': 'Data urodzenia',
+  'calculators.field.dailyLimit': 'Godziny dziennie przed nadgodzinami',
+  'calculators.field.weeklyLimit': 'Godziny tygodniowo przed nadgodzinami',
+  'calculators.field.dayHours': 'Godziny w dniu {day}',
+  'calculators.error.amount': '{field}: wpisz liczbę równą zero lub większą.',
+  'calculators.error.percent': '{field}: wpisz wartość procentową od {min} do 100.',
+  'calculators.error.date': '{field}: wpisz datę w formacie RRRR-MM-DD.',
+  'calculators.error.rate': 'Stawka wynagrodzenia urlopowego musi wynosić {low} % lub {high} %.',
+  'calculators.error.earningYear': 'Rok nabywania prawa musi być pełnym rokiem.',
+  'calculators.error.days': 'Wpisz godziny dla od jednego do siedmiu dni.',
+  'calculators.error.dayHours': 'Liczba godzin w dniu {day} nie może przekraczać 24.',
+  'calculators.error.minSupplement': 'Dodatek za nadgodziny musi wynosić co najmniej {min} %.',
+  'calculators.error.monthsWorked': 'Liczba miesięcy pracy w tym roku nie może przekraczać 12.',
+  'calculators.error.noticeBeforeStart': 'Wypowiedzenie nie może zostać otrzymane przed rozpoczęciem zatrudnienia.',
+  'calculators.error.age': 'Wiek musi być liczbą od 13 do 100.',
+  'calculators.error.agreedMonths': 'Uzgodniony okres wypowiedzenia musi być pełną liczbą miesięcy od 0 do 12.',
+  'calculators.error.income36': 'Dochód z ostatnich 36 miesięcy nie może być niższy niż z ostatnich 12 miesięcy.',
+  'calculators.step.holidayPay': '{basis} × {rate} % = {amount}',
+  'calculators.step.senior': '{basis} × {rate} % = {amount} dodatkowo dla pracowników, którzy kończą 60 lat do 1 września {year}',
+  'calculators.step.seniorCapped': '{basis} (ograniczone do 6 G = {cap}) × {rate} % = {amount} dodatkowo dla pracowników, którzy kończą 60 lat do 1 września {year}',
+  'calculators.step.total': 'Razem: {amount}',
+  'calculators.step.overtimeHours': 'Godziny ponad {dailyLimit} dziennie: {daily}; godziny ponad {weeklyLimit} tygodniowo: {weekly}. Nadgodziny: {hours} godz.',
+  'calculators.step.ordinaryPay': '{hours} godz. zwykłych × {wage} = {amount}',
+  'calculators.step.overtimePay': '{hours} nadgodz. × {wage} ({baseWage} + {supplement} %) = {amount}',
+  'calculators.step.earned': '{salary} × {months} mies. = {basis} zarobione w tym roku',
+  'calculators.step.earnedWithOther': '{salary} × {months} mies. + {other} = {basis} zarobione w tym roku',
+  'calculators.step.unpaidLastYear': '+ {amount} jeszcze niewypłacone z zeszłego roku',
+  'calculators.step.paidOut': 'Wypłata w ostatni dzień wypłaty: {amount}',
+  'calculators.step.grunnbelop': 'G w dniu {date}: {amount} (od {from})',
+  'calculators.step.perMonth': 'Około {amount} miesięcznie przed opodatkowaniem',
+  'calculators.step.capped': '{amount} jest ograniczone do 6 G = {cap}',
+  'calculators.step.sickPayBelowMinimum': '{income} to mniej niż 0,5 G = {minimum}, więc nie masz prawa do zasiłku chorobowego.',
+  'calculators.step.sickPayCapped': '{income} jest ograniczone do 6 G = {cap}. Wielu pracodawców dopłaca resztę; sprawdź umowę o pracę lub układ zbiorowy.',
+  'calculators.step.sickPayBasis': 'Podstawa zasiłku (sykepengegrunnlag): {basis}',
+  'calculators.step.sickPayDailyRate': '{basis} / {days} = {rate} za dzień roboczy',
+  'calculators.step.sickPayDailyRateGraded': '{basis} / {days} × {percent} % = {rate} za dzień roboczy',
+  'calculators.step.sickPayPeriods': 'Pracodawca płaci za dni od 1 do {employerDays} (do {employerPeriodEnds}); NAV płaci od {navPaysFrom}, najwyżej przez {maxDays} dni.',
+  'calculators.step.unemploymentBelowMinimum': 'Dochód jest niższy niż 1,5 G = {minimum12} w ostatnich 12 miesiącach i 3 G = {minimum36} w ostatnich 36, więc nie masz prawa do dagpenger.',
+  'calculators.step.unemploymentBasis': 'Podstawa: {income} zarobione w ostatnich 12 miesiącach',
+  'calculators.step.unemploymentBasisAverage': 'Podstawa: wyższa z kwot {income} (ostatnie 12 miesięcy) i {average} (średnia z ostatnich 36)',
+  'calculators.step.unemploymentDailyRate': '{basis} × {rate} % / {days} = {dailyRate} za dzień roboczy',
+  'calculators.step.unemploymentWeeks': 'Wypłacane do {weeks} tygodni (dochód co najmniej 2 G), po {waitingDays} dniach oczekiwania.',
+  'calculators.step.unemploymentWeeksLowIncome': 'Wypłacane do {weeks} tygodni (dochód poniżej 2 G), po {waitingDays} dniach oczekiwania.',
+  'calculators.step.layoffShortNotice': 'Powiadomienie nastąpiło z wyprzedzeniem krótszym niż {days} dni; permittering nie powinien zacząć się przed {date}, chyba że wynika z nieprzewidzianych okoliczności.',
+  'calculators.step.layoffNotice': 'Zachowano {days}-dniowy termin powiadomienia.',
+  'calculators.step.layoffEmployerPeriod': 'Pracodawca płaci pełne wynagrodzenie za pierwsze {days} dni robocze permitteringu, do {date}.',
+  'calculators.step.layoffEmployerPay': '{salary} × 12 / {workingDays} = {dailyWage} za dzień × {days} dni = {amount}',
+  'calculators.step.layoffEmployerPayPartial': '{salary} × 12 / {workingDays} = {dailyWage} za dzień × {days} dni × {percent} % objęte permitteringiem = {amount}',
+  'calculators.step.layoffBelowMinimum': 'Permittering poniżej {percent} % nie daje prawa do dagpenger.',
+  'calculators.step.layoffDagpenger': 'Od {date} NAV wypłaca dagpenger w wysokości około {amount} miesięcznie przed opodatkowaniem, przy takim samym wynagrodzeniu przez ostatnie 12 miesięcy, po {waitingDays} dniach oczekiwania.',
+  'calculators.step.layoffDagpengerPartial': 'Od {date} NAV wypłaca dagpenger w wysokości około {amount} miesięcznie przed opodatkowaniem ({percent} % pełnej stawki), przy takim samym wynagrodzeniu przez ostatnie 12 miesięcy, po {waitingDays} dniach oczekiwania.',
+  'calculators.step.layoffMaxLength': 'Permittering może trwać najwyżej {weeks} tygodni w ciągu 18 miesięcy; ten kończy się najpóźniej {date}.',
+
+  'notice.period': 'Okres wypowiedzenia:',
+  'notice.days': { one: '{count} dzień', few: '{count} dni', many: '{count} dni', other: '{count} dnia' },
+  'notice.months': { one: '{count} miesiąc', few: '{count} miesiące', many: '{count} miesięcy', other: '{count} miesiąca' },
+  'notice.fullYears': { one: '{count} pełnym roku', few: '{count} pełnych latach', many: '{count} pełnych latach', other: '{count} pełnego roku' },
+  'notice.addToCalendar': 'Dodaj do kalendarza (.ics)',
+  'notice.calendarName': 'Terminy po wypowiedzeniu',
+  'notice.movedFrom': 'Przesunięto z {date}, który nie jest dniem roboczym.',
+  'notice.noticeStart': 'Początek okresu wypowiedzenia',
+  'notice.lastWorkingDay': 'Ostatni dzień zatrudnienia',
+  'notice.negotiationDemand': 'Termin na żądanie negocjacji',
+  'notice.lawsuit': 'Termin na pozew o uznanie wypowiedzenia za nieważne',
+  'notice.lawsuitDamagesOnly': 'Termin na pozew wyłącznie o odszkodowanie',
+  'notice.agreedBasis': 'Umowa o pracę lub układ zbiorowy',
+  'notice.description.probation': 'Okres wypowiedzenia w okresie próbnym wynosi {days} dni od dnia otrzymania wypowiedzenia.',
+  'notice.description.noticeStart': 'Okres wypowiedzenia zaczyna się pierwszego dnia miesiąca po otrzymaniu wypowiedzenia.',
+  'notice.description.lastWorkingDay': 'Okres wypowiedzenia {period} po {tenure} zatrudnienia.',
+  'notice.description.lastWorkingDayAtAge': 'Okres wypowiedzenia {period} po {tenure} zatrudnienia, w wieku {age} lat.',
+  'notice.description.negotiationDemand': 'Poinformuj pracodawcę na piśmie, że żądasz negocjacji w sprawie wypowiedzenia. Pracodawca musi wtedy zorganizować spotkanie w ciągu dwóch tygodni.',
+  'notice.description.lawsuit': 'Jeśli odbywają się negocjacje, osiem tygodni liczy się od dnia ich zakończenia.',
+  'notice.description.lawsuitDamagesOnly': 'Dotyczy sytuacji, gdy domagasz się tylko odszkodowania, a nie zachowania pracy.',
+
+  'document.tooLarge': 'Plik jest większy niż 10 MB.',
+  'document.unsupportedType': 'Obsługiwane są tylko pliki .txt, .pdf i .docx.',
+  'document.invalidDocx': 'Plik nie jest prawidłowym dokumentem DOCX.',
+  'document.docxCompression': 'Dokument DOCX używa nieobsługiwanej metody kompresji.',
+  'document.invalidPdf': 'Plik nie jest prawidłowym dokumentem PDF.',
+  'document.pdfPassword': 'Plik PDF jest chroniony hasłem.',
+  'document.unreadableFont': 'Tekst w tym pliku PDF używa czcionki, której nie da się odczytać. Wklej tekst zamiast tego.',
+  'document.noText': 'Nie znaleziono tekstu w pliku. Jeśli to zeskanowany dokument, wklej tekst zamiast tego.',
+  'document.readFailed': 'Nie udało się odczytać pliku.',
+
+  'contract.title': 'Sprawdź swoją umowę o pracę',
+  'contract.intro': 'Prześlij umowę (.txt, .pdf lub .docx) albo wklej jej tekst. Plik jest odczytywany na Twoim urządzeniu; tekst trafia do AI dopiero po rozpoczęciu sprawdzania.',
+  'contract.upload': 'Prześlij plik',
+  'contract.paste': '...albo wklej tutaj tekst umowy',
+  'contract.text': 'Tekst umowy',
+  'contract.check': 'Sprawdź umowę',
+  'contract.checked': 'Sprawdzono {date}',
+  'contract.truncated': 'Umowa była zbyt długa, by sprawdzić ją w całości; jej koniec nie został sprawdzony.',
+  'contract.disclaimer': 'Sprawdzenie wykonuje AI i może coś przeoczyć. Nie jest to porada prawna.',
+  'contract.checkAnother': 'Sprawdź inną umowę',
+  'contract.discuss': 'Omów w rozmowie',
+  'contract.status.present': 'jest',
+  'contract.status.missing': 'brak',
+  'contract.status.ambiguous': 'niejasne',
+  'contract.status.notApplicable': 'nie dotyczy',
+  'contract.item.parties': 'Strony',
+  'contract.item.workplace': 'Miejsce pracy',
+  'contract.item.jobDescription': 'Opis pracy',
+  'contract.item.startDate': 'Data rozpoczęcia',
+  'contract.item.temporary': 'Zatrudnienie tymczasowe',
+  'contract.item.probation': 'Okres próbny',
+  'contract.item.holidays': 'Urlop i wynagrodzenie urlopowe',
+  'contract.item.notice': 'Okresy wypowiedzenia',
+  'contract.item.pay': 'Wynagrodzenie',
+  'contract.item.workingHours': 'Czas pracy',
+  'contract.item.breaks': 'Przerwy',
+  'contract.item.tariff': 'Układy zbiorowe',
+  'contract.item.training': 'Szkolenia',
+  'contract.item.pension': 'Emerytura i ubezpieczenie',
+  'contract.prompt.complete': 'Moja umowa o pracę została sprawdzona pod kątem arbeidsmiljøloven §14-6 i wygląda na to, że zawiera wszystkie wymagane elementy. {summary}\n\nNa co jeszcze warto zwrócić uwagę w mojej umowie?',
+  'contract.prompt.issues': 'Moja umowa o pracę została sprawdzona pod kątem arbeidsmiljøloven §14-6. Tych elementów brakuje lub są niejasne:\n{items}\n\nCo to dla mnie oznacza i jak poprosić pracodawcę o poprawienie umowy?',
+  'contract.prompt.item': '- {item} ({legalBasis}): {status}. {note}',
+  'contract.prompt.quote': 'W umowie jest napisane: „{quote}”',
+
+  'law.title': 'Biblioteka prawa',
+  'law.search': 'Szukaj w przepisach...',
+  'law.noMatches': 'Brak pasujących przepisów',
+  'law.matches': 'Pasujące przepisy',
+  'law.textAsOf': 'Stan prawny na {date}',
+  'law.readOnLovdata': 'Czytaj na Lovdata',
+
+  'letter.title': 'Pisma i e-maile',
+  'letter.type': 'Rodzaj pisma',
+  'letter.type.complaint': 'Skarga do pracodawcy',
+  'letter.type.consultationRequest': 'Wniosek o spotkanie konsultacyjne (drøftelsesmøte)',
+  'letter.type.navAppeal': 'Odwołanie do NAV',
+  'letter.type.dismissalObjection': 'Sprzeciw wobec wypowiedzenia',
+  'letter.type.contractRequest': 'Wniosek o pisemną umowę o pracę',
+  'letter.tone': 'Ton',
+  'letter.tone.formal': 'Formalny',
+  'letter.tone.friendly': 'Uprzejmy',
+  'letter.tone.firm': 'Stanowczy',
+  'letter.language': 'Język pisma',
+  'letter.situation': 'Twoja sytuacja',
+  'letter.situationPlaceholder': 'Co się stało i co chcesz osiągnąć? Imiona, nazwiska i daty można uzupełnić później.',
+  'letter.generate': 'Napisz projekt',
+  'letter.regenerate': 'Napisz nowy projekt',
+  'letter.fields': 'Uzupełnij szczegóły',
+  'letter.noFields': 'Projekt nie ma pól do uzupełnienia.',
+  'letter.recipient': 'Adres e-mail odbiorcy',
+  'letter.subject': 'Temat',
+  'letter.template': 'Treść projektu (pola w [[nawiasach]] są uzupełniane z formularza powyżej)',
+  'letter.preview': 'Podgląd',
+  'letter.missing': { one: '{count} pole nie jest jeszcze uzupełnione.', few: '{count} pola nie są jeszcze uzupełnione.', many: '{count} pól nie jest jeszcze uzupełnionych.', other: '{count} pola nie są jeszcze uzupełnione.' },
+  'letter.disclaimer': 'Przeczytaj pismo uważnie przed wysłaniem. To nie jest porada prawna.',
+  'letter.email': 'Otwórz w programie pocztowym',
+  'letter.print': 'Drukuj',
+  'letter.saveToChat': 'Zapisz w rozmowie',
+  'letter.saved': 'Zapisano',
+
+  'profile.title': 'Moja sytuacja',
+  'profile.intro': 'Zapisywane tylko w tej przeglądarce. Profil jest wysyłany z pytaniami tylko w czatach, w których włączysz „Użyj mojego profilu”, aby odpowiedzi pasowały do Twojej sytuacji.',
+  'profile.notSpecified': 'Nie podano',
+  'profile.sector': 'Sektor',
+  'profile.sector.private': 'Prywatny',
+  'profile.sector.municipal': 'Gmina lub okręg (fylkeskommune)',
+  'profile.sector.state': 'Państwowy',
+  'profile.employmentType': 'Zatrudnienie',
+  'profile.employmentType.permanent': 'Na stałe',
+  'profile.employmentType.temporary': 'Na czas określony',
+  'profile.employmentType.hired': 'Przez agencję pracy',
+  'profile.employmentType.onCall': 'Na wezwanie',
+  'profile.tenure': 'Staż u obecnego pracodawcy',
+  'profile.tenure.under1': 'Mniej niż 1 rok',
+  'profile.tenure.1to5': '1–5 lat',
+  'profile.tenure.5to10': '5–10 lat',
+  'profile.tenure.10plus': '10 lat lub więcej',
+  'profile.ageBand': 'Wiek',
+  'profile.ageBand.under18': 'Poniżej 18',
+  'profile.ageBand.18to49': '18–49',
+  'profile.ageBand.50to54': '50–54',
+  'profile.ageBand.55to59': '55–59',
+  'profile.ageBand.60to66': '60–66',
+  'profile.ageBand.67plus': '67 lub więcej',
+  'profile.unionMember': 'Członek związku zawodowego',
+  'profile.tariffAgreement': 'Objęty układem zbiorowym (tariffavtale)',
+  'profile.workPermit': 'Zezwolenie na pobyt związane z pracą',
+  'profile.yes': 'Tak',
+  'profile.no': 'Nie',
+  'profile.unknown': 'Nie wiem',
+  'profile.municipality': 'Gmina',
+  'profile.clear': 'Wyczyść profil',
+  'profile.done': 'Gotowe',
+  'profile.use': 'Użyj mojego profilu',
+  'profile.edit': 'Edytuj profil',
+  'profile.setUp': 'Opisz swoją sytuację, aby otrzymać dokładniejsze odpowiedzi',
+
+  'privacy.title': 'Prywatność',
+  'privacy.intro': 'Zanim cokolwiek zostanie wysłane do AI, dane osobowe, takie jak numer fødselsnummer, numery telefonów, adresy e-mail, numery kont i adresy, są zastępowane symbolami, np. [PHONE_1]. Prawdziwe dane są przywracane w odpowiedzi na tym urządzeniu.',
+  'privacy.enabled': 'Ukrywaj dane osobowe przed wysłaniem',
+  'privacy.detectNames': 'Ukrywaj też imiona i nazwiska (są zgadywane, więc niektóre mogą zostać pominięte)',
+  'privacy.customTerms': 'Zawsze ukrywaj te słowa, jedno w wierszu, np. nazwę pracodawcy',
+  'privacy.preview': 'Co zostanie wysłane',
+  'privacy.previewEmpty': 'Wpisz pytanie, aby zobaczyć, co zostanie wysłane.',
+  'privacy.on': 'Dane osobowe są ukrywane',
+  'privacy.off': 'Dane osobowe są wysyłane tak, jak zostały wpisane',
+  'privacy.hiddenCount': { one: '{count} informacja zostanie ukryta', few: '{count} informacje zostaną ukryte', many: '{count} informacji zostanie ukrytych', other: '{count} informacji zostanie ukrytych' },
+
+  'storage.unsupported': 'Ta przeglądarka nie obsługuje IndexedDB, więc nie można zapisywać rozmów.',
+  'storage.openFailed': 'Nie udało się otworzyć bazy rozmów.',
+  'storage.blocked': 'Baza rozmów jest używana przez starszą wersję aplikacji w innej karcie. Zamknij inne karty i odśwież stronę.',
+  'storage.deleteFailed': 'Nie udało się usunąć bazy rozmów.',
+  'storage.full': 'Pamięć przeglądarki jest pełna, więc ostatnie zmiany nie zostały zapisane. Wyeksportuj i usuń stare rozmowy, aby zwolnić miejsce.',
+  'storage.saveFailed': 'Nie udało się zapisać rozmów w pamięci przeglądarki.',
+  'storage.locked': 'Twoje rozmowy są zaszyfrowane. Najpierw odblokuj je hasłem.',
+  'storage.damaged': 'Nie udało się odszyfrować zapisanej rozmowy. Może być uszkodzona.',
+  'storage.insecure': 'Szyfrowanie wymaga bezpiecznego połączenia (https) i przeglądarki z WebCrypto.',
+
+  'security.title': 'Bezpieczeństwo',
+  'security.intro': 'Zaszyfruj historię rozmów na tym urządzeniu hasłem. Bez tego każdy, kto korzysta z tej przeglądarki, może przeczytać Twoje rozmowy.',
+  'security.warning': 'Jeśli zapomnisz hasła, rozmów nie da się odzyskać. Nikt nie może go dla Ciebie zresetować.',
+  'security.passphrase': 'Hasło',
+  'security.newPassphrase': 'Nowe hasło',
+  'security.repeatPassphrase': 'Powtórz hasło',
+  'security.currentPassphrase': 'Obecne hasło',
+  'security.passphraseHint': 'Użyj co najmniej {min} znaków. Kilka losowych słów łatwo zapamiętać i trudno odgadnąć.',
+  'security.tooShort': 'Hasło jest za krótkie.',
+  'security.mismatch': 'Hasła nie są takie same.',
+  'security.wrongPassphrase': 'Nieprawidłowe hasło.',
+  'security.enable': 'Zaszyfruj moje rozmowy',
+  'security.enabled': 'Twoje rozmowy są zaszyfrowane na tym urządzeniu.',
+  'security.enabledNotice': 'Twoje rozmowy są teraz zaszyfrowane.',
+  'security.lockNow': 'Zablokuj teraz',
+  'security.autoLock': 'Blokuj automatycznie, gdy mnie nie ma',
+  'security.autoLockNever': 'Nigdy',
+  'security.autoLockMinutes': { one: 'Po {count} minucie', few: 'Po {count} minutach', many: 'Po {count} minutach', other: 'Po {count} minuty' },
+  'security.changePassphrase': 'Zmień hasło',
+  'security.change': 'Zmień',
+  'security.changedNotice': 'Hasło zostało zmienione.',
+  'security.disable': 'Wyłącz szyfrowanie',
+  'security.disableConfirm': 'Rozmowy będą przechowywane na tym urządzeniu bez szyfrowania. Kontynuować?',
+  'security.disabledNotice': 'Szyfrowanie jest wyłączone.',
+  'security.wipeTitle': 'Usuń wszystko',
+  'security.wipeIntro': 'Od razu usuwa z tej przeglądarki wszystkie rozmowy, Twój profil i ustawienia. Tego nie można cofnąć.',
+  'security.wipe': 'Usuń wszystko teraz',
+  'security.wipeConfirm': 'Usunąć z tej przeglądarki wszystkie rozmowy, profil i ustawienia? Tego nie można cofnąć.',
+  'security.lockedTitle': 'Twoje rozmowy są zablokowane',
+  'security.lockedIntro': 'Wpisz hasło, aby otworzyć rozmowy.',
+  'security.unlock': 'Odblokuj',
+  'security.forgotten': 'Nie pamiętasz hasła? Usuń wszystko i zacznij od nowa',
+};
+
+export default pl;
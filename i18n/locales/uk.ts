@@ -0,0 +1,424 @@
+import type { MessageCatalog } from '../types';
+
+const uk: MessageCatalog = {
+  'common.close': 'Закрити',
+  'common.cancel': 'Скасувати',
+  'common.send': 'Надіслати',
+  'common.stop': 'Зупинити',
+  'common.undo': 'Скасувати дію',
+  'common.dismiss': 'Закрити',
+  'common.retry': 'Спробувати ще раз',
+  'common.regenerate': 'Створити знову',
+  'common.previousVersion': 'Попередня версія',
+  'common.nextVersion': 'Наступна версія',
+
+  'errors.network': 'Не вдалося зʼєднатися із сервісом ШІ. Перевірте підключення до інтернету та спробуйте ще раз.',
+  'errors.rate_limit': 'Сервіс ШІ зараз перевантажений. Зачекайте трохи та спробуйте ще раз.',
+  'errors.safety': 'Сервіс ШІ не зміг відповісти на це запитання. Спробуйте сформулювати його інакше.',
+  'errors.invalid_response': 'ШІ повернув відповідь у неочікуваному форматі. Спробуйте ще раз.',
+  'errors.missing_api_key': 'Сервіс ШІ не налаштовано: не знайдено дійсного ключа API.',
+  'errors.too_large': 'Запитання або документ задовгі. Скоротіть їх і спробуйте ще раз.',
+  'errors.unknown': 'Під час отримання відповіді сталася помилка. Спробуйте ще раз.',
+
+  'language.label': 'Мова',
+  'language.auto': 'Автоматично',
+
+  'welcome.title': 'Чим я можу допомогти сьогодні?',
+  'welcome.subtitle': 'Запитайте мене про будь-що з норвезького трудового права.',
+  'welcome.topics': 'Рекомендовані правові теми',
+
+  'input.placeholder': 'Опишіть свою ситуацію...',
+  'input.listening': 'Слухаю...',
+  'input.submit': 'Запитати ШІ-юриста',
+  'input.startListening': 'Почати слухати',
+  'input.stopListening': 'Припинити слухати',
+  'input.stopGenerating': 'Зупинити відповідь',
+
+  'speech.network': 'Розпізнавання мовлення не вдалося через помилку мережі. Перевірте підключення.',
+  'speech.notAllowed': 'Доступ до мікрофона заборонено. Дозвольте його в налаштуваннях браузера.',
+  'speech.unknown': 'Сталася невідома помилка розпізнавання мовлення.',
+  'speech.unsupported': 'Розпізнавання мовлення недоступне у вашому браузері.',
+  'speech.startFailed': 'Не вдалося почати слухати. Спробуйте ще раз.',
+
+  'voice.start': 'Почати голосову розмову',
+  'voice.end': 'Завершити голосову розмову',
+  'voice.title': 'Голосова розмова',
+  'voice.thinking': 'Думаю...',
+  'voice.speaking': 'Читаю відповідь. Почніть говорити, щоб перервати.',
+  'voice.recognitionLanguage': 'Мова мовлення',
+  'voice.sameAsInterface': 'Як в інтерфейсі',
+  'voice.voice': 'Голос',
+  'voice.defaultVoice': 'Голос за замовчуванням',
+  'voice.rate': 'Швидкість',
+  'voice.interrupt': 'Зупинити читання',
+
+  'chat.exportJson': 'Експорт JSON',
+  'chat.exportMarkdown': 'Markdown',
+  'chat.caseReport': 'Звіт у справі',
+  'chat.renamed': 'Розмову перейменовано',
+  'chat.deleted': 'Розмову видалено',
+  'chat.importFailed': 'Не вдалося імпортувати {file}: {error}',
+  'chat.imported': 'Імпортовано {chats} і {messages}.',
+  'chat.importedChats': { one: '{count} нову розмову', few: '{count} нові розмови', many: '{count} нових розмов', other: '{count} нової розмови' },
+  'chat.importedMessages': { one: '{count} повідомлення', few: '{count} повідомлення', many: '{count} повідомлень', other: '{count} повідомлення' },
+  'chat.importError.invalidJson': 'Файл не є коректним JSON.',
+  'chat.importError.notExport': 'Файл не є експортом розмов з AI Union Helper.',
+  'chat.importError.newerVersion': 'Файл експортовано новішою версією застосунку.',
+  'chat.importError.invalidChats': 'Файл містить розмови в неочікуваному форматі.',
+  'chat.importError.unreadable': 'Не вдалося прочитати файл.',
+
+  'export.question': 'Запитання',
+  'export.answer': 'Відповідь',
+  'export.assumptions': 'Припущення з профілю',
+  'export.relatedTopics': 'Пов\'язані теми',
+  'export.openQuestions': 'Відкриті запитання',
+  'export.sources': 'Джерела',
+
+  'footer.nav': 'NAV (виплати)',
+  'footer.arbeidstilsynet': 'Інспекція праці (Arbeidstilsynet)',
+  'footer.skatteetaten': 'Податкова служба (Skatteetaten)',
+  'footer.disclaimer': 'ШІ може помилятися. Перевіряйте важливу інформацію.',
+
+  'sidebar.newChat': '+ Нова розмова',
+  'sidebar.calculators': 'Калькулятори',
+  'sidebar.contractChecker': 'Перевірити договір',
+  'sidebar.lawLibrary': 'Бібліотека законів',
+  'sidebar.letters': 'Написати лист',
+  'sidebar.profile': 'Моя ситуація',
+  'sidebar.security': 'Безпека',
+  'sidebar.search': 'Пошук у розмовах...',
+  'sidebar.noMatches': 'Немає відповідних розмов',
+  'sidebar.matches': { one: '{count} відповідна розмова', few: '{count} відповідні розмови', many: '{count} відповідних розмов', other: '{count} відповідної розмови' },
+  'sidebar.previousChats': 'Ваші попередні розмови',
+  'sidebar.pinned': 'Закріплені',
+  'sidebar.today': 'Сьогодні',
+  'sidebar.lastWeek': 'Останні 7 днів',
+  'sidebar.older': 'Давніші',
+  'sidebar.chatTitle': 'Назва розмови',
+  'sidebar.pin': 'Закріпити розмову',
+  'sidebar.unpin': 'Відкріпити розмову',
+  'sidebar.rename': 'Перейменувати розмову',
+  'sidebar.delete': 'Видалити розмову',
+  'sidebar.allChats': 'Усі розмови',
+  'sidebar.exportJson': 'Експорт JSON',
+  'sidebar.exportMarkdown': 'Експорт Markdown',
+  'sidebar.import': 'Імпорт',
+
+  'message.you': 'Ви',
+  'message.editAndResend': 'Редагувати й надіслати знову',
+  'message.interrupted': 'Зупинено до завершення відповіді.',
+  'message.cachedFrom': 'Збережена відповідь від {date}',
+  'message.refreshCached': 'Оновити',
+  'message.simplified': 'Спрощена відповідь',
+  'message.emailTemplate': 'Збережені листи',
+  'message.listen': 'Прослухати',
+  'message.copy': 'Копіювати',
+  'message.copied': 'Скопійовано!',
+  'message.simplify': 'Пояснити простими словами',
+  'message.draftLetter': 'Написати лист',
+  'message.relatedTopics': 'Повʼязані теми',
+  'message.assumptions': 'На основі вашого профілю',
+  'message.citedLaw': 'Згадані норми права',
+  'message.sources': 'Джерела',
+  'message.topicQuestion': 'Розкажіть більше про: {topic}.',
+
+  'quickReplies.followUps': 'Запитати далі',
+  'quickReplies.clarifying': 'Щоб відповідь була точнішою, варто знати:',
+  'quickReplies.answerHint': 'Дайте відповідь у полі повідомлення',
+
+  'report.print': 'Друк / зберегти як PDF',
+  'report.title': 'Звіт у справі – AI Union Helper',
+  'report.generated': 'Створено {date}',
+  'report.disclaimer': 'Наведені нижче відповіді створено ШІ, вони можуть містити помилки. Це не юридична консультація.',
+  'report.started': 'Розпочато {date}',
+  'report.question': 'Запитання',
+  'report.answer': 'Відповідь',
+  'report.relatedTopics': 'Повʼязані теми:',
+  'report.sources': 'Джерела:',
+
+  'calculators.title': 'Калькулятори',
+  'calculators.holiday': 'Відпускні',
+  'calculators.overtime': 'Понаднормова робота',
+  'calculators.final': 'Звільнення з роботи',
+  'calculators.notice': 'Строк попередження',
+  'calculators.basis': 'Заробіток за рік нарахування (feriepengegrunnlag)',
+  'calculators.over60': 'Виповнюється 60 років до 1 вересня року відпустки',
+  'calculators.hourlyWage': 'Погодинна ставка',
+  'calculators.hoursOn': 'Відпрацьовані години: {day}',
+  'calculators.supplement': 'Надбавка за понаднормову роботу',
+  'calculators.overtimeHint': 'Понаднормова робота – це робота понад 9 годин на день або 40 годин на тиждень, залежно від того, що дає більше годин.',
+  'calculators.monthlySalary': 'Місячна зарплата',
+  'calculators.monthsWorked': 'Відпрацьовані цього року місяці',
+  'calculators.otherEarnings': 'Інший заробіток цього року, напр. понаднормові',
+  'calculators.unpaidLastYear': 'Невиплачені відпускні за минулий рік',
+  'calculators.employmentStart': 'Перший робочий день',
+  'calculators.noticeReceived': 'День отримання письмового попередження',
+  'calculators.age': 'Ваш вік на момент отримання попередження',
+  'calculators.dismissed': 'Звільнення з ініціативи роботодавця',
+  'calculators.resigned': 'Звільнення за власним бажанням',
+  'calculators.probation': 'Під час випробувального строку',
+  'calculators.disclaimer': 'Оцінка на основі ferieloven та arbeidsmiljøloven. Ваш колективний договір може давати більше.',
+  'calculators.calculation': 'Розрахунок',
+  'calculators.deadlines': 'Ваші строки',
+  'calculators.benefits': 'Виплати NAV',
+  'calculators.sickPay': 'Лікарняні',
+  'calculators.unemployment': 'Допомога по безробіттю',
+  'calculators.layoff': 'Пермітеринг',
+  'calculators.annualIncome': 'Річний дохід до лікарняного',
+  'calculators.firstSickDay': 'Перший день лікарняного',
+  'calculators.sickLeavePercent': 'Відсоток лікарняного',
+  'calculators.incomeLast12Months': 'Дохід за останні 12 місяців',
+  'calculators.incomeLast36Months': 'Дохід за останні 36 місяців (необовʼязково)',
+  'calculators.claimDate': 'День, з якого ви подаєте на dagpenger',
+  'calculators.layoffStart': 'Перший день пермітерингу',
+  'calculators.layoffPercent': 'Яка частка робочого часу призупинена',
+  'calculators.layoffNotice': 'День, коли ви отримали повідомлення про пермітеринг (необовʼязково)',
+  'calculators.benefitsHint': 'Оцінки до оподаткування, з G (grunnbeløp), що діє на цю дату. Фактичну суму визначає NAV.',
+  'calculators.rules': 'Використані правила:',
+  'calculators.field.birthDate': 'Дата народження',
+  'calculators.field.dailyLimit': 'Годин на день до понаднормової роботи',
+  'calculators.field.weeklyLimit': 'Годин на тиждень до понаднормової роботи',
+  'calculators.field.dayHours': 'Години в день {day}',
+  'calculators.error.amount': '{field}: введіть число, не менше нуля.',
+  'calculators.error.percent': '{field}: введіть відсоток від {min} до 100.',
+  'calculators.error.date': '{field}: введіть дату у форматі РРРР-ММ-ДД.',
+  'calculators.error.rate': 'Ставка відпускних має бути {low} % або {high} %.',
+  'calculators.error.earningYear': 'Рік нарахування має бути цілим роком.',
+  'calculators.error.days': 'Введіть години для від одного до семи днів.',
+  'calculators.error.dayHours': 'Кількість годин у день {day} не може перевищувати 24.',
+  'calculators.error.minSupplement': 'Надбавка за понаднормову роботу має бути не менше {min} %.',
+  'calculators.error.monthsWorked': 'Кількість відпрацьованих цього року місяців не може перевищувати 12.',
+  'calculators.error.noticeBeforeStart': 'Повідомлення про звільнення не може бути отримане до початку роботи.',
+  'calculators.error.age': 'Вік має бути числом від 13 до 100.',
+  'calculators.error.agreedMonths': 'Погоджений строк попередження має бути цілою кількістю місяців від 0 до 12.',
+  'calculators.error.income36': 'Дохід за останні 36 місяців не може бути меншим, ніж за останні 12 місяців.',
+  'calculators.step.holidayPay': '{basis} × {rate} % = {amount}',
+  'calculators.step.senior': '{basis} × {rate} % = {amount} додатково для працівників, яким до 1 вересня {year} виповнюється 60 років',
+  'calculators.step.seniorCapped': '{basis} (обмежено до 6 G = {cap}) × {rate} % = {amount} додатково для працівників, яким до 1 вересня {year} виповнюється 60 років',
+  'calculators.step.total': 'Разом: {amount}',
+  'calculators.step.overtimeHours': 'Години понад {dailyLimit} на день: {daily}; години понад {weeklyLimit} на тиждень: {weekly}. Понаднормово: {hours} год.',
+  'calculators.step.ordinaryPay': '{hours} год. звичайної роботи × {wage} = {amount}',
+  'calculators.step.overtimePay': '{hours} год. понаднормово × {wage} ({baseWage} + {supplement} %) = {amount}',
+  'calculators.step.earned': '{salary} × {months} міс. = {basis} зароблено цього року',
+  'calculators.step.earnedWithOther': '{salary} × {months} міс. + {other} = {basis} зароблено цього року',
+  'calculators.step.unpaidLastYear': '+ {amount} ще не виплачено за минулий рік',
+  'calculators.step.paidOut': 'Виплачується в останній день виплати зарплати: {amount}',
+  'calculators.step.grunnbelop': 'G на {date}: {amount} (з {from})',
+  'calculators.step.perMonth': 'Близько {amount} на місяць до оподаткування',
+  'calculators.step.capped': '{amount} обмежено до 6 G = {cap}',
+  'calculators.step.sickPayBelowMinimum': '{income} менше ніж 0,5 G = {minimum}, тому права на лікарняні немає.',
+  'calculators.step.sickPayCapped': '{income} обмежено до 6 G = {cap}. Багато роботодавців доплачують решту; перевірте трудовий або колективний договір.',
+  'calculators.step.sickPayBasis': 'Основа лікарняних (sykepengegrunnlag): {basis}',
+  'calculators.step.sickPayDailyRate': '{basis} / {days} = {rate} за робочий день',
+  'calculators.step.sickPayDailyRateGraded': '{basis} / {days} × {percent} % = {rate} за робочий день',
+  'calculators.step.sickPayPeriods': 'Роботодавець оплачує дні з 1 по {employerDays} (до {employerPeriodEnds}); NAV платить з {navPaysFrom}, не більше {maxDays} днів.',
+  'calculators.step.unemploymentBelowMinimum': 'Дохід за останні 12 місяців менший ніж 1,5 G = {minimum12}, а за останні 36 – менший ніж 3 G = {minimum36}, тому права на dagpenger немає.',
+  'calculators.step.unemploymentBasis': 'Основа: {income} зароблено за останні 12 місяців',
+  'calculators.step.unemploymentBasisAverage': 'Основа: більша з сум {income} (останні 12 місяців) і {average} (середнє за останні 36)',
+  'calculators.step.unemploymentDailyRate': '{basis} × {rate} % / {days} = {dailyRate} за робочий день',
+  'calculators.step.unemploymentWeeks': 'Виплачується до {weeks} тижнів (дохід не менше 2 G), після {waitingDays} днів очікування.',
+  'calculators.step.unemploymentWeeksLowIncome': 'Виплачується до {weeks} тижнів (дохід менше 2 G), після {waitingDays} днів очікування.',
+  'calculators.step.layoffShortNotice': 'Попередження було коротшим за {days} днів; призупинення не повинно починатися раніше {date}, якщо його не спричинили непередбачені обставини.',
+  'calculators.step.layoffNotice': 'Попередження за {days} днів було надано.',
+  'calculators.step.layoffEmployerPeriod': 'Роботодавець виплачує повну зарплату за перші {days} робочих днів призупинення, до {date}.',
+  'calculators.step.layoffEmployerPay': '{salary} × 12 / {workingDays} = {dailyWage} на день × {days} дн. = {amount}',
+  'calculators.step.layoffEmployerPayPartial': '{salary} × 12 / {workingDays} = {dailyWage} на день × {days} дн. × {percent} % призупинено = {amount}',
+  'calculators.step.layoffBelowMinimum': 'Призупинення менше ніж на {percent} % не дає права на dagpenger.',
+  'calculators.step.layoffDagpenger': 'З {date} NAV виплачує dagpenger приблизно {amount} на місяць до оподаткування, якщо зарплата за останні 12 місяців була такою самою, після {waitingDays} днів очікування.',
+  'calculators.step.layoffDagpengerPartial': 'З {date} NAV виплачує dagpenger приблизно {amount} на місяць до оподаткування ({percent} % повної ставки), якщо зарплата за останні 12 місяців була такою самою, після {waitingDays} днів очікування.',
+  'calculators.step.layoffMaxLength': 'Призупинення може тривати не більше {weeks} тижнів протягом 18 місяців; це закінчується не пізніше {date}.',
+
+  'notice.period': 'Строк попередження:',
+  'notice.days': { one: '{count} день', few: '{count} дні', many: '{count} днів', other: '{count} дня' },
+  'notice.months': { one: '{count} місяць', few: '{count} місяці', many: '{count} місяців', other: '{count} місяця' },
+  'notice.fullYears': { one: '{count} повного року', few: '{count} повних років', many: '{count} повних років', other: '{count} повного року' },
+  'notice.addToCalendar': 'Додати до календаря (.ics)',
+  'notice.calendarName': 'Строки після звільнення',
+  'notice.movedFrom': 'Перенесено з {date}, бо це неробочий день.',
+  'notice.noticeStart': 'Початок строку попередження',
+  'notice.lastWorkingDay': 'Останній день роботи',
+  'notice.negotiationDemand': 'Строк, щоб вимагати переговорів',
+  'notice.lawsuit': 'Строк подання позову про визнання звільнення недійсним',
+  'notice.lawsuitDamagesOnly': 'Строк подання позову лише про компенсацію',
+  'notice.agreedBasis': 'Трудовий договір або колективний договір',
+  'notice.description.probation': 'Строк попередження під час випробувального терміну становить {days} днів від дня отримання повідомлення.',
+  'notice.description.noticeStart': 'Строк попередження починається з першого дня місяця після отримання повідомлення.',
+  'notice.description.lastWorkingDay': 'Строк попередження {period} після {tenure} роботи.',
+  'notice.description.lastWorkingDayAtAge': 'Строк попередження {period} після {tenure} роботи у віці {age} років.',
+  'notice.description.negotiationDemand': 'Письмово повідомте роботодавця, що вимагаєте переговорів щодо звільнення. Тоді роботодавець має провести зустріч протягом двох тижнів.',
+  'notice.description.lawsuit': 'Якщо відбуваються переговори, вісім тижнів відліковуються від дня їх завершення.',
+  'notice.description.lawsuitDamagesOnly': 'Застосовується, коли ви вимагаєте лише компенсації, а не збереження роботи.',
+
+  'document.tooLarge': 'Файл більший за 10 МБ.',
+  'document.unsupportedType': 'Підтримуються лише файли .txt, .pdf і .docx.',
+  'document.invalidDocx': 'Файл не є коректним документом DOCX.',
+  'document.docxCompression': 'Документ DOCX використовує непідтримуваний метод стиснення.',
+  'document.invalidPdf': 'Файл не є коректним документом PDF.',
+  'document.pdfPassword': 'PDF захищено паролем.',
+  'document.unreadableFont': 'Текст у цьому PDF використовує шрифт, який неможливо прочитати. Натомість вставте текст.',
+  'document.noText': 'У файлі не знайдено тексту. Якщо це відсканований документ, натомість вставте текст.',
+  'document.readFailed': 'Не вдалося прочитати файл.',
+
+  'contract.title': 'Перевірте свій трудовий договір',
+  'contract.intro': 'Завантажте договір (.txt, .pdf або .docx) або вставте його текст. Файл читається на вашому пристрої; текст надсилається ШІ лише після початку перевірки.',
+  'contract.upload': 'Завантажити файл',
+  'contract.paste': '...або вставте текст договору сюди',
+  'contract.text': 'Текст договору',
+  'contract.check': 'Перевірити договір',
+  'contract.checked': 'Перевірено {date}',
+  'contract.truncated': 'Договір задовгий для повної перевірки; його кінець не перевірено.',
+  'contract.disclaimer': 'Перевірку виконує ШІ, і він може щось пропустити. Це не юридична консультація.',
+  'contract.checkAnother': 'Перевірити інший договір',
+  'contract.discuss': 'Обговорити в розмові',
+  'contract.status.present': 'є',
+  'contract.status.missing': 'немає',
+  'contract.status.ambiguous': 'неясно',
+  'contract.status.notApplicable': 'не стосується',
+  'contract.item.parties': 'Сторони',
+  'contract.item.workplace': 'Місце роботи',
+  'contract.item.jobDescription': 'Опис роботи',
+  'contract.item.startDate': 'Дата початку',
+  'contract.item.temporary': 'Тимчасове працевлаштування',
+  'contract.item.probation': 'Випробувальний строк',
+  'contract.item.holidays': 'Відпустка і відпускні',
+  'contract.item.notice': 'Строки попередження',
+  'contract.item.pay': 'Оплата праці',
+  'contract.item.workingHours': 'Робочий час',
+  'contract.item.breaks': 'Перерви',
+  'contract.item.tariff': 'Колективні договори',
+  'contract.item.training': 'Навчання',
+  'contract.item.pension': 'Пенсія і страхування',
+  'contract.prompt.complete': 'Мій трудовий договір перевірили на відповідність arbeidsmiljøloven §14-6, і, схоже, він містить усі обов’язкові пункти. {summary}\n\nНа що ще варто звернути увагу в моєму договорі?',
+  'contract.prompt.issues': 'Мій трудовий договір перевірили на відповідність arbeidsmiljøloven §14-6. Ці пункти відсутні або неясні:\n{items}\n\nЩо це означає для мене і як попросити роботодавця це виправити?',
+  'contract.prompt.item': '- {item} ({legalBasis}): {status}. {note}',
+  'contract.prompt.quote': 'У договорі написано: «{quote}»',
+
+  'law.title': 'Бібліотека законів',
+  'law.search': 'Пошук у законах...',
+  'law.noMatches': 'Немає відповідних статей',
+  'law.matches': 'Відповідні статті',
+  'law.textAsOf': 'Текст станом на {date}',
+  'law.readOnLovdata': 'Читати на Lovdata',
+
+  'letter.title': 'Листи та електронні листи',
+  'letter.type': 'Тип листа',
+  'letter.type.complaint': 'Скарга роботодавцю',
+  'letter.type.consultationRequest': 'Запит на консультаційну зустріч (drøftelsesmøte)',
+  'letter.type.navAppeal': 'Оскарження рішення NAV',
+  'letter.type.dismissalObjection': 'Заперечення проти звільнення',
+  'letter.type.contractRequest': 'Запит на письмовий трудовий договір',
+  'letter.tone': 'Тон',
+  'letter.tone.formal': 'Офіційний',
+  'letter.tone.friendly': 'Доброзичливий',
+  'letter.tone.firm': 'Рішучий',
+  'letter.language': 'Мова листа',
+  'letter.situation': 'Ваша ситуація',
+  'letter.situationPlaceholder': 'Що сталося і чого ви хочете досягти? Імена та дати можна заповнити пізніше.',
+  'letter.generate': 'Написати чернетку',
+  'letter.regenerate': 'Написати нову чернетку',
+  'letter.fields': 'Заповніть дані',
+  'letter.noFields': 'У чернетці немає полів для заповнення.',
+  'letter.recipient': 'Електронна адреса одержувача',
+  'letter.subject': 'Тема',
+  'letter.template': 'Текст чернетки (поля в [[дужках]] заповнюються з форми вище)',
+  'letter.preview': 'Попередній перегляд',
+  'letter.missing': { one: '{count} поле ще не заповнене.', few: '{count} поля ще не заповнені.', many: '{count} полів ще не заповнені.', other: '{count} поля ще не заповнені.' },
+  'letter.disclaimer': 'Уважно прочитайте лист перед надсиланням. Це не юридична консультація.',
+  'letter.email': 'Відкрити в поштовій програмі',
+  'letter.print': 'Друкувати',
+  'letter.saveToChat': 'Зберегти в розмові',
+  'letter.saved': 'Збережено',
+
+  'profile.title': 'Моя ситуація',
+  'profile.intro': 'Зберігається лише в цьому браузері. Профіль надсилається з вашими запитаннями лише в чатах, де ви ввімкнете «Використовувати мій профіль», щоб відповіді відповідали вашій ситуації.',
+  'profile.notSpecified': 'Не вказано',
+  'profile.sector': 'Сектор',
+  'profile.sector.private': 'Приватний',
+  'profile.sector.municipal': 'Муніципалітет або фюльке',
+  'profile.sector.state': 'Державний',
+  'profile.employmentType': 'Зайнятість',
+  'profile.employmentType.permanent': 'Постійна',
+  'profile.employmentType.temporary': 'Тимчасова',
+  'profile.employmentType.hired': 'Через кадрове агентство',
+  'profile.employmentType.onCall': 'За викликом',
+  'profile.tenure': 'Стаж у теперішнього роботодавця',
+  'profile.tenure.under1': 'Менше 1 року',
+  'profile.tenure.1to5': '1–5 років',
+  'profile.tenure.5to10': '5–10 років',
+  'profile.tenure.10plus': '10 років або більше',
+  'profile.ageBand': 'Вік',
+  'profile.ageBand.under18': 'До 18',
+  'profile.ageBand.18to49': '18–49',
+  'profile.ageBand.50to54': '50–54',
+  'profile.ageBand.55to59': '55–59',
+  'profile.ageBand.60to66': '60–66',
+  'profile.ageBand.67plus': '67 або більше',
+  'profile.unionMember': 'Член профспілки',
+  'profile.tariffAgreement': 'Охоплений колективним договором (tariffavtale)',
+  'profile.workPermit': 'Дозвіл на проживання привʼязаний до роботи',
+  'profile.yes': 'Так',
+  'profile.no': 'Ні',
+  'profile.unknown': 'Не знаю',
+  'profile.municipality': 'Муніципалітет',
+  'profile.clear': 'Очистити профіль',
+  'profile.done': 'Готово',
+  'profile.use': 'Використовувати мій профіль',
+  'profile.edit': 'Редагувати профіль',
+  'profile.setUp': 'Опишіть свою ситуацію для точніших відповідей',
+
+  'privacy.title': 'Конфіденційність',
+  'privacy.intro': 'Перш ніж щось буде надіслано ШІ, персональні дані, як-от fødselsnummer, номери телефонів, адреси електронної пошти, номери рахунків і адреси, замінюються позначками на кшталт [PHONE_1]. Справжні дані повертаються у відповідь на цьому пристрої.',
+  'privacy.enabled': 'Приховувати персональні дані перед надсиланням',
+  'privacy.detectNames': 'Також приховувати імена (їх вгадують, тому деякі можуть бути пропущені)',
+  'privacy.customTerms': 'Завжди приховувати ці слова, по одному в рядку, напр. назву роботодавця',
+  'privacy.preview': 'Що буде надіслано',
+  'privacy.previewEmpty': 'Введіть запитання, щоб побачити, що буде надіслано.',
+  'privacy.on': 'Персональні дані приховуються',
+  'privacy.off': 'Персональні дані надсилаються як написано',
+  'privacy.hiddenCount': { one: 'Буде приховано {count} відомість', few: 'Буде приховано {count} відомості', many: 'Буде приховано {count} відомостей', other: 'Буде приховано {count} відомостей' },
+
+  'storage.unsupported': 'Цей браузер не підтримує IndexedDB, тому розмови не можна зберегти.',
+  'storage.openFailed': 'Не вдалося відкрити базу даних розмов.',
+  'storage.blocked': 'Базу даних розмов використовує старіша версія застосунку в іншій вкладці. Закрийте інші вкладки й перезавантажте сторінку.',
+  'storage.deleteFailed': 'Не вдалося видалити базу даних розмов.',
+  'storage.full': 'Сховище браузера заповнене, тому останні зміни не збережено. Експортуйте й видаліть старі розмови, щоб звільнити місце.',
+  'storage.saveFailed': 'Не вдалося зберегти розмови у сховищі браузера.',
+  'storage.locked': 'Ваші розмови зашифровано. Спершу розблокуйте їх парольною фразою.',
+  'storage.damaged': 'Не вдалося розшифрувати збережену розмову. Можливо, вона пошкоджена.',
+  'storage.insecure': 'Для шифрування потрібне захищене (https) з’єднання і браузер із WebCrypto.',
+
+  'security.title': 'Безпека',
+  'security.intro': 'Зашифруйте історію розмов на цьому пристрої парольною фразою. Без цього кожен, хто користується цим браузером, може прочитати ваші розмови.',
+  'security.warning': 'Якщо ви забудете парольну фразу, розмови не вдасться відновити. Ніхто не зможе скинути її за вас.',
+  'security.passphrase': 'Парольна фраза',
+  'security.newPassphrase': 'Нова парольна фраза',
+  'security.repeatPassphrase': 'Повторіть парольну фразу',
+  'security.currentPassphrase': 'Поточна парольна фраза',
+  'security.passphraseHint': 'Використайте щонайменше {min} символів. Кілька випадкових слів легко запам’ятати й важко вгадати.',
+  'security.tooShort': 'Парольна фраза закоротка.',
+  'security.mismatch': 'Парольні фрази не збігаються.',
+  'security.wrongPassphrase': 'Неправильна парольна фраза.',
+  'security.enable': 'Зашифрувати мої розмови',
+  'security.enabled': 'Ваші розмови зашифровані на цьому пристрої.',
+  'security.enabledNotice': 'Ваші розмови тепер зашифровані.',
+  'security.lockNow': 'Заблокувати зараз',
+  'security.autoLock': 'Блокувати автоматично, коли мене немає',
+  'security.autoLockNever': 'Ніколи',
+  'security.autoLockMinutes': { one: 'Через {count} хвилину', few: 'Через {count} хвилини', many: 'Через {count} хвилин', other: 'Через {count} хвилини' },
+  'security.changePassphrase': 'Змінити парольну фразу',
+  'security.change': 'Змінити',
+  'security.changedNotice': 'Парольну фразу змінено.',
+  'security.disable': 'Вимкнути шифрування',
+  'security.disableConfirm': 'Розмови зберігатимуться на цьому пристрої без шифрування. Продовжити?',
+  'security.disabledNotice': 'Шифрування вимкнено.',
+  'security.wipeTitle': 'Видалити все',
+  'security.wipeIntro': 'Одразу видаляє з цього браузера всі розмови, ваш профіль і налаштування. Це не можна скасувати.',
+  'security.wipe': 'Видалити все зараз',
+  'security.wipeConfirm': 'Видалити з цього браузера всі розмови, профіль і налаштування? Це не можна скасувати.',
+  'security.lockedTitle': 'Ваші розмови заблоковано',
+  'security.lockedIntro': 'Введіть парольну фразу, щоб відкрити розмови.',
+  'security.unlock': 'Розблокувати',
+  'security.forgotten': 'Забули парольну фразу? Видаліть усе й почніть спочатку',
+};
+
+export default uk;
@@ -0,0 +1,26 @@
+import type en from './locales/en';
+
+/** A message that depends on a count. Picked with Intl.PluralRules; `other` is the fallback. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+/** Every catalog has every key, so a missing translation is a type error. */
+export type MessageCatalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number | LocalizedMessage>;
+
+/**
+ * A message made outside React, e.g. a calculation step or an error, that is
+ * translated where it is shown. Params that are messages themselves are
+ * translated too.
+ */
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+/** Text that is shown as is, such as a law name, or a message to translate. */
+export type LocalizedText = string | LocalizedMessage;
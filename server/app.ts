@@ -0,0 +1,78 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { getProviderConfig } from '../services/providers';
+import { PROMPT_VERSION } from '../services/geminiService';
+import { API_ROUTES } from '../services/apiContract';
+import type { HealthResponseBody } from '../services/apiContract';
+import type { ServerConfig } from './config';
+import { HttpError, readJsonBody, sendError, sendJson, toHttpError } from './http';
+import { log, pseudonymize } from './logger';
+import type { LogFields } from './logger';
+import { createRateLimiter } from './rateLimit';
+import { createRoutes } from './routes';
+
+const clientAddress = (request: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = request.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || request.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Handles the API routes: rate limit per client, body size limit, one log
+ * line per request. The browser is expected on the same origin, through the
+ * Vite dev server or a reverse proxy, so there are no CORS headers.
+ */
+export const createRequestHandler = (config: ServerConfig) => {
+  const limiter = createRateLimiter({ perMinute: config.rateLimitPerMinute });
+  const routes = createRoutes(config);
+
+  return async (request: IncomingMessage, response: ServerResponse) => {
+    const startedAt = Date.now();
+    const abortController = new AbortController();
+    const client = clientAddress(request, config.trustProxy);
+    const route = (request.url ?? '').split('?')[0];
+    const requestId = randomUUID();
+    const logFields: LogFields = { requestId, method: request.method, route, client: pseudonymize(client) };
+
+    response.setHeader('X-Request-Id', requestId);
+    response.on('close', () => {
+      const aborted = !response.writableFinished;
+      if (aborted) abortController.abort();
+      const level = response.statusCode >= 500 ? 'error' : response.statusCode >= 400 || logFields.errorKind ? 'warn' : 'info';
+      log(level, 'request', { ...logFields, status: response.statusCode, durationMs: Date.now() - startedAt, aborted: aborted || undefined });
+    });
+
+    try {
+      if (route === API_ROUTES.health && request.method === 'GET') {
+        const { provider, model } = getProviderConfig();
+        const health: HealthResponseBody = { status: 'ok', provider, model, promptVersion: PROMPT_VERSION, cacheTtlMs: config.answerCacheTtlMs };
+        sendJson(response, 200, health);
+        return;
+      }
+
+      const handler = Object.hasOwn(routes, route) ? routes[route] : undefined;
+      if (!handler) throw new HttpError(404, 'unknown', 'Not found.');
+      if (request.method !== 'POST') {
+        response.setHeader('Allow', 'POST');
+        throw new HttpError(405, 'unknown', 'Use POST.');
+      }
+
+      const { allowed, retryAfterMs } = limiter.take(client);
+      if (!allowed) throw new HttpError(429, 'rate_limit', 'Too many requests. Please wait a moment and try again.', retryAfterMs);
+
+      logFields.requestBytes = Number(request.headers['content-length']) || undefined;
+      const body = await readJsonBody(request, config.maxBodyBytes);
+      await handler({ body, response, signal: abortController.signal, logFields });
+    } catch (error) {
+      const { status, kind, message, retryAfterMs } = toHttpError(error);
+      logFields.errorKind = kind;
+      if (response.headersSent) {
+        response.end();
+        return;
+      }
+      // Stop reading an oversized body; the client has to open a new connection.
+      if (status === 413) response.setHeader('Connection', 'close');
+      sendError(response, status, { kind, message, retryAfterMs });
+    }
+  };
+};
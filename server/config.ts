@@ -0,0 +1,29 @@
+export interface ServerConfig {
+  port: number;
+  host: string;
+  /** Requests per minute and client, on average. */
+  rateLimitPerMinute: number;
+  maxBodyBytes: number;
+  /** Take the client address from X-Forwarded-For; only behind a reverse proxy that sets it. */
+  trustProxy: boolean;
+  /** How long answers may be reused, in the browser and, if enabled, here. 0 turns caching off. */
+  answerCacheTtlMs: number;
+  /** Also keep answers in the memory of this process, shared by all clients. */
+  serverAnswerCache: boolean;
+}
+
+const numberFrom = (value: string | undefined, fallback: number, { allowZero = false } = {}): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && (parsed > 0 || (allowZero && parsed === 0)) ? parsed : fallback;
+};
+
+/** Reads the server settings from the environment; the model is chosen as in services/providers. */
+export const readServerConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => ({
+  port: numberFrom(env.API_PORT, 8787),
+  host: env.API_HOST || '127.0.0.1',
+  rateLimitPerMinute: numberFrom(env.RATE_LIMIT_PER_MINUTE, 20),
+  maxBodyBytes: numberFrom(env.MAX_BODY_KB, 512) * 1024,
+  trustProxy: env.TRUST_PROXY === 'true',
+  answerCacheTtlMs: numberFrom(env.ANSWER_CACHE_TTL_HOURS, 24 * 7, { allowZero: true }) * 3_600_000,
+  serverAnswerCache: env.SERVER_ANSWER_CACHE === 'true',
+});
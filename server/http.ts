@@ -0,0 +1,72 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { classifyError } from '../services/errors';
+import type { AiErrorKind } from '../services/errors';
+import type { ApiError, ApiErrorBody } from '../services/apiContract';
+
+/** A failure with the HTTP status to answer with. */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly kind: AiErrorKind;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, kind: AiErrorKind, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The quota of the model API running out is the server's problem, not the
+// client's: it gets 503, while 429 is kept for our own rate limit.
+const STATUS_BY_KIND: Record<AiErrorKind, number> = {
+  network: 502,
+  rate_limit: 503,
+  safety: 422,
+  invalid_response: 502,
+  missing_api_key: 500,
+  too_large: 413,
+  unknown: 500,
+};
+
+/** Errors from the services keep their kind and user-facing message; the details are only for logs. */
+export const toHttpError = (error: unknown): HttpError => {
+  if (error instanceof HttpError) return error;
+  const { kind, message, retryAfterMs } = classifyError(error);
+  return new HttpError(STATUS_BY_KIND[kind], kind, message, retryAfterMs);
+};
+
+/** Reads and parses a JSON body, refusing it as soon as it grows past `maxBytes`. */
+export const readJsonBody = async (request: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const declared = Number(request.headers['content-length']);
+  if (declared > maxBytes) throw new HttpError(413, 'too_large', `The request body is larger than ${maxBytes} bytes.`);
+  if (!/^application\/json\b/i.test(request.headers['content-type'] ?? '')) {
+    throw new HttpError(415, 'unknown', 'The request body must be JSON.');
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'too_large', `The request body is larger than ${maxBytes} bytes.`);
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'unknown', 'The request body is not valid JSON.');
+  }
+};
+
+export const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  response.end(JSON.stringify(body));
+};
+
+export const sendError = (response: ServerResponse, status: number, error: ApiError) => {
+  if (error.retryAfterMs !== undefined) response.setHeader('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+  const body: ApiErrorBody = { error };
+  sendJson(response, status, body);
+};
@@ -0,0 +1,29 @@
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { getProviderConfig } from '../services/providers';
+import { createRequestHandler } from './app';
+import { readServerConfig } from './config';
+import { captureConsole, log } from './logger';
+
+// The model settings and API key stay in .env.local, which is now only read here.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+captureConsole();
+
+const config = readServerConfig();
+const { provider, model, apiKey } = getProviderConfig();
+if (provider === 'gemini' && !apiKey) {
+  log('warn', 'missing_api_key', { message: 'GEMINI_API_KEY is not set; advice requests will fail. Use LLM_PROVIDER=mock to run without a model.' });
+}
+
+const server = createServer(createRequestHandler(config));
+server.listen(config.port, config.host, () => {
+  log('info', 'listening', { host: config.host, port: config.port, provider, model, rateLimitPerMinute: config.rateLimitPerMinute });
+});
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    log('info', 'stopping', { signal });
+    server.close(() => process.exit(0));
+    server.closeIdleConnections();
+  });
+}
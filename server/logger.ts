@@ -0,0 +1,36 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+/**
+ * Fields of a log line. Only routes, statuses, sizes, durations and error
+ * kinds belong here: never request or response text, which can hold
+ * personal data even after redaction.
+ */
+export type LogFields = Record<string, string | number | boolean | undefined>;
+
+export const log = (level: LogLevel, event: string, fields: LogFields = {}) => {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, event, ...fields });
+  (level === 'info' ? process.stdout : process.stderr).write(`${line}\n`);
+};
+
+// A new salt on every start: requests from one client can be told apart in the
+// logs of a run, but the address cannot be recovered or followed across runs.
+const CLIENT_SALT = randomBytes(16);
+
+/** A short pseudonym for a client address. */
+export const pseudonymize = (clientId: string): string =>
+  createHash('sha256').update(CLIENT_SALT).update(clientId).digest('hex').substring(0, 12);
+
+/**
+ * The shared services log with console and pass along errors and model output.
+ * On the server only their first argument, a fixed description, is kept.
+ */
+export const captureConsole = () => {
+  const forward = (level: LogLevel) => (message?: unknown) =>
+    log(level, 'service', { message: typeof message === 'string' ? message.replace(/:\s*$/, '') : undefined });
+  console.log = forward('info');
+  console.info = forward('info');
+  console.warn = forward('warn');
+  console.error = forward('error');
+};
@@ -0,0 +1,50 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  /** How long until the next request would be allowed. 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (clientId: string, now?: number) => RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** Buckets that have refilled completely are forgotten once there are this many. */
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * Token bucket per client: `perMinute` requests a minute on average, with
+ * bursts of up to `burst` requests. State is kept in memory, so the limit is
+ * per server process.
+ */
+export const createRateLimiter = ({ perMinute, burst = perMinute }: { perMinute: number; burst?: number }): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60_000;
+
+  const refill = (bucket: Bucket, now: number) =>
+    Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+
+  const prune = (now: number) => {
+    for (const [clientId, bucket] of buckets) {
+      if (refill(bucket, now) >= burst) buckets.delete(clientId);
+    }
+  };
+
+  return {
+    take(clientId, now = Date.now()) {
+      if (buckets.size >= PRUNE_THRESHOLD) prune(now);
+      const bucket = buckets.get(clientId);
+      const tokens = bucket ? refill(bucket, now) : burst;
+      if (tokens < 1) {
+        buckets.set(clientId, { tokens, updatedAt: now });
+        return { allowed: false, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+      }
+      buckets.set(clientId, { tokens: tokens - 1, updatedAt: now });
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,193 @@
+import type { ServerResponse } from 'node:http';
+import type { ChatMessage, UserProfile } from '../types';
+import { getLegalAdvice, simplifyAnswer, streamLegalAdvice, PROMPT_VERSION } from '../services/geminiService';
+import type { StreamedAdvice } from '../services/geminiService';
+import { draftLetter } from '../services/letterDrafts';
+import { LETTER_TONES, LETTER_TYPES } from '../utils/letterTypes';
+import type { LetterTone, LetterType } from '../utils/letterTypes';
+import { checkContract } from '../services/contractChecker';
+import { API_ROUTES } from '../services/apiContract';
+import type { AdviceStreamEvent, SimplifyResponseBody } from '../services/apiContract';
+import { getProviderConfig } from '../services/providers';
+import {
+  adviceCacheKey, createMemoryStore, createResponseCache, isReusableAdvice, simplifyCacheKey, withCachedAt,
+} from '../services/responseCache';
+import type { Generate } from '../services/responseCache';
+import type { Redactor } from '../utils/redaction';
+import type { ServerConfig } from './config';
+import { HttpError, sendJson, toHttpError } from './http';
+import type { LogFields } from './logger';
+
+export interface RouteContext {
+  body: unknown;
+  response: ServerResponse;
+  /** Aborted when the client goes away. */
+  signal: AbortSignal;
+  /** Added to the request's log line. */
+  logFields: LogFields;
+}
+
+export type RouteHandler = (context: RouteContext) => Promise<void>;
+
+const MAX_HISTORY_MESSAGES = 200;
+const MAX_CACHED_ANSWERS = 500;
+
+// The browser already replaced personal data with tokens. Passing this to the
+// services only makes them tell the model about the tokens.
+const ALREADY_REDACTED: Redactor = { redact: text => text, restore: text => text, replacements: {} };
+
+const redactorFor = (body: Record<string, unknown>) => body.redacted === true ? ALREADY_REDACTED : undefined;
+
+const invalid = (message: string) => new HttpError(400, 'unknown', message);
+
+const requireObject = (value: unknown): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw invalid('The request body must be a JSON object.');
+  return value as Record<string, unknown>;
+};
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  if (typeof body[field] !== 'string') throw invalid(`"${field}" must be a string.`);
+  return body[field] as string;
+};
+
+const optionalString = (body: Record<string, unknown>, field: string): string | undefined =>
+  body[field] === undefined ? undefined : requireString(body, field);
+
+const requireHistory = (body: Record<string, unknown>): ChatMessage[] => {
+  const history = body.history;
+  if (!Array.isArray(history) || history.length === 0 || history.length > MAX_HISTORY_MESSAGES) {
+    throw invalid(`"history" must be a list of 1 to ${MAX_HISTORY_MESSAGES} messages.`);
+  }
+  const messages = history.map((item): ChatMessage => {
+    const message = requireObject(item);
+    if (message.role !== 'user' && message.role !== 'model') throw invalid('Every message needs a role of "user" or "model".');
+    return { id: requireString(message, 'id'), role: message.role, text: requireString(message, 'text') };
+  });
+  if (messages[messages.length - 1].role !== 'user') throw invalid('The last message must be a question.');
+  return messages;
+};
+
+/** Profile fields are short labels; anything that is not a string is dropped. */
+const optionalProfile = (body: Record<string, unknown>): UserProfile | undefined => {
+  if (body.profile === undefined) return undefined;
+  const profile = requireObject(body.profile);
+  return Object.fromEntries(Object.entries(profile).filter(([, value]) => typeof value === 'string')) as UserProfile;
+};
+
+/**
+ * The API routes. Identical requests that overlap are always answered once;
+ * with SERVER_ANSWER_CACHE, first questions are also reused across clients.
+ */
+export const createRoutes = ({ answerCacheTtlMs, serverAnswerCache }: ServerConfig): Record<string, RouteHandler> => {
+  const ttlMs = serverAnswerCache ? answerCacheTtlMs : 0;
+  // Progress is the answer text so far, so requests that join a running answer can stream it too.
+  const adviceCache = createResponseCache<StreamedAdvice, string>({ ttlMs, store: createMemoryStore(MAX_CACHED_ANSWERS) });
+  const simplifyCache = createResponseCache<string>({ ttlMs, store: createMemoryStore(MAX_CACHED_ANSWERS) });
+
+  /**
+   * Runs `generate` through the cache when the request can share its answer.
+   * A shared answer is only stopped when every request waiting for it is gone.
+   */
+  const cachedAdvice = async (
+    body: Record<string, unknown>,
+    history: ChatMessage[],
+    profile: UserProfile | undefined,
+    generate: Generate<StreamedAdvice, string>,
+    { signal, onAnswer = () => {} }: { signal?: AbortSignal; onAnswer?: (answer: string) => void } = {},
+  ) => {
+    const key = adviceCacheKey({
+      history,
+      profile,
+      language: optionalString(body, 'fallbackLanguage') ?? '',
+      redacted: body.redacted === true,
+      promptVersion: PROMPT_VERSION,
+      model: getProviderConfig().model,
+    });
+    if (!key) return generate(signal ?? new AbortController().signal, onAnswer);
+    return withCachedAt(await adviceCache.get(key, generate, {
+      refresh: body.refresh === true,
+      shouldStore: isReusableAdvice,
+      signal,
+      onProgress: onAnswer,
+    }));
+  };
+
+  return {
+    [API_ROUTES.advice]: async ({ body: rawBody, response }) => {
+      const body = requireObject(rawBody);
+      const history = requireHistory(body);
+      const profile = optionalProfile(body);
+      const { data } = await cachedAdvice(body, history, profile, async () => ({
+        data: await getLegalAdvice(history, profile, redactorFor(body)),
+        interrupted: false,
+      }));
+      sendJson(response, 200, data);
+    },
+
+    /** Newline-delimited JSON: answer text as it grows, then the complete answer or an error. */
+    [API_ROUTES.adviceStream]: async ({ body: rawBody, response, signal, logFields }) => {
+      const body = requireObject(rawBody);
+      const history = requireHistory(body);
+      const profile = optionalProfile(body);
+      const fallbackLanguage = optionalString(body, 'fallbackLanguage');
+
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store', 'X-Accel-Buffering': 'no' });
+      const send = (event: AdviceStreamEvent) => response.write(`${JSON.stringify(event)}\n`);
+      let sent = '';
+      try {
+        const generate: Generate<StreamedAdvice, string> = (sharedSignal, onAnswer) => streamLegalAdvice(history, {
+          onAnswer,
+          signal: sharedSignal,
+          fallbackLanguage,
+          profile,
+          redactor: redactorFor(body),
+        });
+        const { data, interrupted } = await cachedAdvice(body, history, profile, generate, {
+          signal,
+          onAnswer: (answer) => {
+            if (!answer.startsWith(sent)) return;
+            send({ type: 'answer', text: answer.substring(sent.length) });
+            sent = answer;
+          },
+        });
+        // A reused answer has not been streamed yet.
+        if (!sent && data.answer) send({ type: 'answer', text: data.answer });
+        logFields.cached = data.cachedAt !== undefined || undefined;
+        send({ type: 'done', data, interrupted });
+      } catch (error) {
+        // The status is already sent, so the error travels as the last event. Nobody is listening after a disconnect.
+        if (!signal.aborted) {
+          const { kind, message, retryAfterMs } = toHttpError(error);
+          logFields.errorKind = kind;
+          send({ type: 'error', error: { kind, message, retryAfterMs } });
+        }
+      }
+      response.end();
+    },
+
+    [API_ROUTES.simplify]: async ({ body: rawBody, response }) => {
+      const body = requireObject(rawBody);
+      const text = requireString(body, 'text');
+      const question = requireString(body, 'question');
+      const key = simplifyCacheKey({ text, question, redacted: body.redacted === true, promptVersion: PROMPT_VERSION, model: getProviderConfig().model });
+      const { value } = await simplifyCache.get(key, () => simplifyAnswer(text, question, redactorFor(body)), { refresh: body.refresh === true });
+      const result: SimplifyResponseBody = { text: value };
+      sendJson(response, 200, result);
+    },
+
+    [API_ROUTES.letter]: async ({ body: rawBody, response, signal }) => {
+      const body = requireObject(rawBody);
+      const type = requireString(body, 'type') as LetterType;
+      const tone = requireString(body, 'tone') as LetterTone;
+      if (!Object.hasOwn(LETTER_TYPES, type)) throw invalid('Unknown letter type.');
+      if (!LETTER_TONES.includes(tone)) throw invalid('Unknown letter tone.');
+      const request = { type, tone, situation: requireString(body, 'situation'), language: requireString(body, 'language') };
+      sendJson(response, 200, await draftLetter(request, signal, redactorFor(body)));
+    },
+
+    [API_ROUTES.contract]: async ({ body: rawBody, response, signal }) => {
+      const body = requireObject(rawBody);
+      sendJson(response, 200, await checkContract(requireString(body, 'text'), requireString(body, 'language'), signal, redactorFor(body)));
+    },
+  };
+};
@@ -0,0 +1,243 @@
+import type { ChatMessage } from '../types';
+import { AiServiceError, classifyError, isAbortError } from './errors';
+import { API_ROUTES } from './apiContract';
+import type {
+  AdviceRequestBody, AdviceStreamEvent, ApiErrorBody, ApiMessage, ContractRequestBody, HealthResponseBody, LetterRequestBody,
+  SimplifyRequestBody, SimplifyResponseBody,
+} from './apiContract';
+import type { StreamedAdvice, StreamLegalAdviceOptions } from './geminiService';
+import type { LetterDraft, LetterRequest } from '../utils/letterTypes';
+import type { ContractReport } from '../utils/contractChecklist';
+import {
+  adviceCacheKey, createLocalStorageStore, createMemoryStore, createResponseCache, isReusableAdvice, simplifyCacheKey, withCachedAt,
+} from './responseCache';
+import type { ResponseCache } from './responseCache';
+import { restoreAdvice } from '../utils/redaction';
+import type { Redactor } from '../utils/redaction';
+
+// The browser side of the backend in server/. Each function has the signature
+// of the service it stands in for, so components do not care where the model
+// runs. Personal data is redacted here, before anything leaves the browser.
+
+const readError = async (response: Response): Promise<AiServiceError> => {
+  try {
+    const { error } = await response.json() as ApiErrorBody;
+    if (error?.kind) return new AiServiceError(error.kind, error.message, [], { retryAfterMs: error.retryAfterMs });
+  } catch {
+    // Not one of our error bodies, e.g. a proxy page when the backend is down.
+  }
+  return classifyError(new Error(`The server answered ${response.status} ${response.statusText}`));
+};
+
+const post = async (route: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(route, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw classifyError(error);
+  }
+  if (!response.ok) throw await readError(response);
+  return response;
+};
+
+const postJson = async <T,>(route: string, body: unknown, signal?: AbortSignal): Promise<T> =>
+  (await post(route, body, signal)).json() as Promise<T>;
+
+/** Parses a newline-delimited JSON response as it arrives. */
+async function* readEvents(response: Response): AsyncGenerator<AdviceStreamEvent> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as AdviceStreamEvent;
+    }
+    if (done) return;
+  }
+}
+
+let backendInfo: Promise<HealthResponseBody | null> | null = null;
+
+/** The backend's model and cache settings, fetched once. Null while the backend cannot be reached. */
+const getBackendInfo = (): Promise<HealthResponseBody | null> => {
+  backendInfo ??= fetch(API_ROUTES.health)
+    .then(response => response.ok ? response.json() as Promise<HealthResponseBody> : null)
+    .catch(() => null)
+    .then(info => {
+      if (!info) backendInfo = null;
+      return info;
+    });
+  return backendInfo;
+};
+
+const ADVICE_CACHE_STORAGE_KEY = 'ai-union-helper-answer-cache';
+const SIMPLIFY_CACHE_STORAGE_KEY = 'ai-union-helper-simplify-cache';
+
+let persistAnswers = false;
+let answerCaches: { ttlMs: number; persist: boolean; advice: ResponseCache<StreamedAdvice, string>; simplify: ResponseCache<string> } | null = null;
+
+const getAnswerCaches = (ttlMs: number) => {
+  if (answerCaches?.ttlMs !== ttlMs || answerCaches.persist !== persistAnswers) {
+    answerCaches = {
+      ttlMs,
+      persist: persistAnswers,
+      advice: createResponseCache({ ttlMs, store: persistAnswers ? createLocalStorageStore(ADVICE_CACHE_STORAGE_KEY) : createMemoryStore() }),
+      simplify: createResponseCache({ ttlMs, store: persistAnswers ? createLocalStorageStore(SIMPLIFY_CACHE_STORAGE_KEY) : createMemoryStore() }),
+    };
+  }
+  return answerCaches;
+};
+
+/**
+ * Whether reused answers are kept in localStorage between visits. They hold
+ * the question in plain text, so this is off while the history is encrypted
+ * and turning it off removes what was kept.
+ */
+export const configureAnswerCache = ({ persist }: { persist: boolean }) => {
+  persistAnswers = persist;
+  if (!persist) {
+    createLocalStorageStore(ADVICE_CACHE_STORAGE_KEY).clear();
+    createLocalStorageStore(SIMPLIFY_CACHE_STORAGE_KEY).clear();
+  }
+};
+
+const redactWith = (redactor?: Redactor) => (text: string) => redactor ? redactor.redact(text) : text;
+const restoreWith = (redactor?: Redactor) => (text: string) => redactor ? redactor.restore(text) : text;
+
+/** Model turns are sent as their answer text, which is all the model sees of them. */
+const toApiMessage = (message: ChatMessage, redact: (text: string) => string): ApiMessage => ({
+  id: message.id,
+  role: message.role,
+  text: redact(message.role === 'model' ? (message.aiResponseData?.answer || message.text) : message.text),
+});
+
+export interface AdviceClientOptions extends StreamLegalAdviceOptions {
+  /** Ask the model again instead of reusing a cached answer. */
+  refresh?: boolean;
+}
+
+/** Streams the redacted answer for `body`, calling `onAnswer` with the redacted text so far. */
+const fetchAdvice = async (body: AdviceRequestBody, onAnswer: (answer: string) => void, signal?: AbortSignal): Promise<StreamedAdvice> => {
+  let answer = '';
+  try {
+    const response = await post(API_ROUTES.adviceStream, body, signal);
+    for await (const event of readEvents(response)) {
+      if (event.type === 'answer') {
+        answer += event.text;
+        onAnswer(answer);
+      } else if (event.type === 'done') {
+        return { data: event.data, interrupted: event.interrupted };
+      } else {
+        throw new AiServiceError(event.error.kind, event.error.message, [], { retryAfterMs: event.error.retryAfterMs });
+      }
+    }
+    throw new AiServiceError('network', 'The connection to the server closed before the answer was complete.');
+  } catch (error) {
+    if (signal?.aborted || isAbortError(error)) {
+      return {
+        data: { answer, relatedTopics: [], sourceLinks: [], language: body.fallbackLanguage ?? 'en-US' },
+        interrupted: true,
+      };
+    }
+    console.error("Error streaming legal advice:", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Streams an answer from the backend. Like the service it stands in for,
+ * aborting through `signal` resolves with the partial answer instead of rejecting.
+ * A chat's first question may be answered from the cache, in one piece,
+ * with `data.cachedAt` set.
+ */
+export const streamLegalAdvice = async (
+  history: ChatMessage[],
+  { onAnswer, signal, fallbackLanguage = 'en-US', profile, redactor, refresh = false }: AdviceClientOptions,
+): Promise<StreamedAdvice> => {
+  const restore = restoreWith(redactor);
+  const body: AdviceRequestBody = {
+    history: history.map(message => toApiMessage(message, redactWith(redactor))),
+    profile,
+    redacted: !!redactor,
+    fallbackLanguage,
+    refresh: refresh || undefined,
+  };
+  let answer = '';
+  const onRedactedAnswer = (text: string) => {
+    answer = text;
+    onAnswer(restore(text));
+  };
+
+  // The cache holds the redacted form, so it never stores known personal data.
+  const info = await getBackendInfo();
+  const key = info && adviceCacheKey({ ...body, language: fallbackLanguage, redacted: !!redactor, promptVersion: info.promptVersion, model: info.model });
+  let result: StreamedAdvice;
+  if (!key) {
+    result = await fetchAdvice(body, onRedactedAnswer, signal);
+  } else {
+    try {
+      result = withCachedAt(await getAnswerCaches(info.cacheTtlMs).advice.get(
+        key,
+        (sharedSignal, report) => fetchAdvice(body, report, sharedSignal),
+        { refresh, shouldStore: isReusableAdvice, signal, onProgress: onRedactedAnswer },
+      ));
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+      // Stopping only stops waiting; an identical request may still want the answer.
+      result = { data: { answer, relatedTopics: [], sourceLinks: [], language: fallbackLanguage }, interrupted: true };
+    }
+  }
+  const { data, interrupted } = result;
+
+  const restored = restoreAdvice(data, redactor);
+  if (data.cachedAt) onAnswer(restored.answer);
+  return { data: restored, interrupted };
+};
+
+export const simplifyAnswer = async (
+  textToSimplify: string,
+  originalQuestion: string,
+  redactor?: Redactor,
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<string> => {
+  const redact = redactWith(redactor);
+  const body: SimplifyRequestBody = { text: redact(textToSimplify), question: redact(originalQuestion), redacted: !!redactor, refresh: refresh || undefined };
+  const generate = async () => (await postJson<SimplifyResponseBody>(API_ROUTES.simplify, body)).text;
+
+  const info = await getBackendInfo();
+  const text = info
+    ? (await getAnswerCaches(info.cacheTtlMs).simplify.get(
+      simplifyCacheKey({ ...body, redacted: !!redactor, promptVersion: info.promptVersion, model: info.model }), generate, { refresh },
+    )).value
+    : await generate();
+  return restoreWith(redactor)(text);
+};
+
+export const draftLetter = async (request: LetterRequest, signal?: AbortSignal, redactor?: Redactor): Promise<LetterDraft> => {
+  const body: LetterRequestBody = { ...request, situation: redactWith(redactor)(request.situation), redacted: !!redactor };
+  const draft = await postJson<LetterDraft>(API_ROUTES.letter, body, signal);
+  const restore = restoreWith(redactor);
+  return { subject: restore(draft.subject), body: restore(draft.body) };
+};
+
+export const checkContract = async (contractText: string, language = 'en-US', signal?: AbortSignal, redactor?: Redactor): Promise<ContractReport> => {
+  const body: ContractRequestBody = { text: redactWith(redactor)(contractText), language, redacted: !!redactor };
+  const report = await postJson<ContractReport>(API_ROUTES.contract, body, signal);
+  const restore = restoreWith(redactor);
+  return {
+    ...report,
+    summary: restore(report.summary),
+    items: report.items.map(item => ({ ...item, note: restore(item.note), quote: item.quote && restore(item.quote) })),
+  };
+};
@@ -0,0 +1,79 @@
+import type { AiResponseData, ChatMessage, UserProfile } from '../types';
+import type { AiErrorKind } from './errors';
+import type { LetterRequest } from '../utils/letterTypes';
+
+// Routes and bodies of the backend in server/. The browser never talks to a
+// model itself: it hides personal data, calls these routes and puts the
+// personal data back into what comes back.
+
+export const API_ROUTES = {
+  advice: '/api/advice',
+  adviceStream: '/api/advice/stream',
+  simplify: '/api/simplify',
+  letter: '/api/letter',
+  contract: '/api/contract',
+  health: '/api/health',
+} as const;
+
+/** The parts of a chat message the backend needs. Model turns carry the answer text. */
+export type ApiMessage = Pick<ChatMessage, 'id' | 'role' | 'text'>;
+
+/** Set on every body whose text had personal data replaced with tokens in the browser. */
+interface RedactableBody {
+  redacted?: boolean;
+}
+
+export interface AdviceRequestBody extends RedactableBody {
+  history: ApiMessage[];
+  /** Only sent for chats where the user opted in to sharing it. */
+  profile?: UserProfile;
+  /** Language used for a stopped answer when the model has not reported one yet. */
+  fallbackLanguage?: string;
+  /** Skip the backend's answer cache. */
+  refresh?: boolean;
+}
+
+/** One line of the NDJSON stream from API_ROUTES.adviceStream. */
+export type AdviceStreamEvent =
+  | { type: 'answer'; text: string } // Answer text added since the previous event.
+  | { type: 'done'; data: AiResponseData; interrupted: boolean }
+  | { type: 'error'; error: ApiError };
+
+export interface SimplifyRequestBody extends RedactableBody {
+  text: string;
+  question: string;
+  refresh?: boolean;
+}
+
+export interface SimplifyResponseBody {
+  text: string;
+}
+
+export interface LetterRequestBody extends LetterRequest, RedactableBody {}
+
+export interface ContractRequestBody extends RedactableBody {
+  text: string;
+  /** BCP-47 code of the language to write the notes in. */
+  language: string;
+}
+
+/** What the browser needs to key its own answer cache the way the backend does. */
+export interface HealthResponseBody {
+  status: 'ok';
+  provider: string;
+  model: string;
+  promptVersion: number;
+  /** How long answers may be reused; 0 turns caching off. */
+  cacheTtlMs: number;
+}
+
+export interface ApiError {
+  kind: AiErrorKind;
+  message: string;
+  retryAfterMs?: number;
+}
+
+/** Body of every response with a 4xx or 5xx status. */
+export interface ApiErrorBody {
+  error: ApiError;
+}
@@ -0,0 +1,68 @@
+import type { ChatMessage } from '../types';
+
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Rough budget for the history we send with each request. We estimate tokens
+// as ~4 characters each, which is close enough for Norwegian and English text.
+const MAX_HISTORY_TOKENS = 6000;
+const CHARS_PER_TOKEN = 4;
+const MAX_SUMMARY_QUESTION_LENGTH = 160;
+const MAX_SUMMARY_QUESTIONS = 10;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const messageToTurn = (message: ChatMessage): ConversationTurn => ({
+  role: message.role,
+  // For model turns we only send the answer itself, not the JSON envelope.
+  text: message.role === 'model' ? (message.aiResponseData?.answer || message.text) : message.text,
+});
+
+const summarizeDroppedTurns = (dropped: ConversationTurn[]): ConversationTurn | null => {
+  const questions = dropped
+    .filter(turn => turn.role === 'user')
+    .map(turn => turn.text.length > MAX_SUMMARY_QUESTION_LENGTH
+      ? `${turn.text.substring(0, MAX_SUMMARY_QUESTION_LENGTH)}...`
+      : turn.text)
+    .slice(-MAX_SUMMARY_QUESTIONS);
+  if (questions.length === 0) return null;
+  return {
+    role: 'user',
+    text: `(Context: earlier in this conversation I asked about the following. Those answers are no longer included.)\n${questions.map(q => `- ${q}`).join('\n')}`,
+  };
+};
+
+/**
+ * Turns the stored chat messages into the multi-turn history sent to the model.
+ * The newest turns are kept until the token budget is spent; older questions are
+ * collapsed into a short summary so follow-ups still have their context.
+ */
+export const buildConversation = (messages: ChatMessage[], maxTokens: number = MAX_HISTORY_TOKENS): ConversationTurn[] => {
+  const turns = messages.map(messageToTurn).filter(turn => turn.text.trim() !== '');
+  if (turns.length === 0) return [];
+
+  const kept: ConversationTurn[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].text);
+    // Always keep the latest question, even if it alone exceeds the budget.
+    if (kept.length > 0 && used + cost > maxTokens) break;
+    kept.unshift(turns[i]);
+    used += cost;
+  }
+
+  // The conversation must start with a user turn.
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift();
+  }
+
+  const dropped = turns.slice(0, turns.length - kept.length);
+  const summary = summarizeDroppedTurns(dropped);
+  if (!summary) return kept;
+
+  // Keep roles alternating: fold the summary into the first kept user turn.
+  const [first, ...rest] = kept;
+  return [{ role: 'user', text: `${summary.text}\n\n${first.text}` }, ...rest];
+};
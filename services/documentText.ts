@@ -0,0 +1,168 @@
+// Extracts plain text from uploaded documents entirely in the browser, so a
+// contract never leaves the device before the user decides what to send.
+// Supports plain text, DOCX (a zip of XML files) and PDFs with text layers.
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+/** Below this many letters we assume a scanned PDF. */
+const MIN_LETTERS = 40;
+
+export type DocumentErrorKind =
+  | 'tooLarge'
+  | 'unsupportedType'
+  | 'invalidDocx'
+  | 'docxCompression'
+  | 'invalidPdf'
+  | 'pdfPassword'
+  | 'unreadableFont'
+  | 'noText'
+  | 'readFailed';
+
+/** A document could not be read. The UI shows a message for `kind`. */
+export class DocumentError extends Error {
+  readonly kind: DocumentErrorKind;
+
+  constructor(kind: DocumentErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'DocumentError';
+    this.kind = kind;
+  }
+}
+
+const inflate = async (data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// --- DOCX -----------------------------------------------------------------
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+/** Reads one file from a zip archive, or returns null if it is not there. */
+const readZipEntry = async (buffer: ArrayBuffer, fileName: string): Promise<Uint8Array | null> => {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== ZIP_END_OF_CENTRAL_DIRECTORY) end--;
+  if (end < 0) throw new DocumentError('invalidDocx', 'The file is not a valid DOCX document.');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === fileName) {
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      throw new DocumentError('docxCompression', 'The DOCX document uses an unsupported compression method.');
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const extractDocxText = async (buffer: ArrayBuffer): Promise<string> => {
+  const xml = await readZipEntry(buffer, 'word/document.xml');
+  if (!xml) throw new DocumentError('invalidDocx', 'The file is not a valid DOCX document.');
+
+  const document = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+  const paragraphs = Array.from(document.getElementsByTagName('w:p')).map(paragraph => {
+    let text = '';
+    paragraph.querySelectorAll('*').forEach(node => {
+      if (node.nodeName === 'w:t') text += node.textContent ?? '';
+      else if (node.nodeName === 'w:tab') text += '\t';
+      else if (node.nodeName === 'w:br') text += '\n';
+    });
+    return text;
+  });
+  return paragraphs.join('\n');
+};
+
+// --- PDF ------------------------------------------------------------------
+
+// pdf.js reads the font encodings and ToUnicode maps that Word, Chrome and
+// Google Docs use. It is large, so it is only loaded when a PDF is picked.
+const loadPdfJs = async () => {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjs;
+};
+
+/** Share of unreadable characters above which a font without a Unicode mapping is assumed. */
+const MAX_UNREADABLE_SHARE = 0.1;
+
+/** Control, private use and replacement characters are what glyph ids without a Unicode mapping come out as. */
+const isMostlyUnreadable = (text: string): boolean => {
+  const characters = text.replace(/\s/g, '').length;
+  const unreadable = text.match(/[\p{Cc}\p{Co}\uFFFD]/gu)?.length ?? 0;
+  return characters > 0 && unreadable / characters > MAX_UNREADABLE_SHARE;
+};
+
+const extractPdfText = async (buffer: ArrayBuffer): Promise<string> => {
+  const pdfjs = await loadPdfJs();
+  const task = pdfjs.getDocument({ data: new Uint8Array(buffer) });
+  try {
+    const pdf = await task.promise.catch(error => {
+      if (error?.name === 'PasswordException') throw new DocumentError('pdfPassword', 'The PDF is protected with a password.', { cause: error });
+      if (error?.name === 'InvalidPDFException') throw new DocumentError('invalidPdf', 'The file is not a valid PDF document.', { cause: error });
+      throw error;
+    });
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const { items } = await (await pdf.getPage(number)).getTextContent();
+      pages.push(items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join(''));
+    }
+    const text = pages.join('\n\n');
+    if (isMostlyUnreadable(text)) {
+      throw new DocumentError('unreadableFont', 'The text in this PDF uses a font that cannot be read. Paste the text instead.');
+    }
+    return text;
+  } finally {
+    await task.destroy();
+  }
+};
+
+// --------------------------------------------------------------------------
+
+const normalizeText = (text: string) =>
+  text.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+/** Reads the text of a .txt, .pdf or .docx file. Throws DocumentError. */
+export const extractDocumentText = async (file: File): Promise<string> => {
+  if (file.size > MAX_FILE_BYTES) throw new DocumentError('tooLarge', 'The file is larger than 10 MB.');
+  const name = file.name.toLowerCase();
+
+  let text: string;
+  try {
+    if (name.endsWith('.pdf') || file.type === 'application/pdf') {
+      text = await extractPdfText(await file.arrayBuffer());
+    } else if (name.endsWith('.docx')) {
+      text = await extractDocxText(await file.arrayBuffer());
+    } else if (name.endsWith('.txt') || file.type.startsWith('text/')) {
+      text = await file.text();
+    } else {
+      throw new DocumentError('unsupportedType', 'Only .txt, .pdf and .docx files are supported.');
+    }
+  } catch (error) {
+    if (error instanceof DocumentError) throw error;
+    throw new DocumentError('readFailed', 'The file could not be read.', { cause: error });
+  }
+
+  text = normalizeText(text);
+  if ((text.match(/\p{L}/gu)?.length ?? 0) < MIN_LETTERS) {
+    throw new DocumentError('noText', 'No text could be found in the file. If it is a scanned document, paste the text instead.');
+  }
+  return text;
+};
@@ -0,0 +1,77 @@
+export type AiErrorKind =
+  | 'network'
+  | 'rate_limit'
+  | 'safety'
+  | 'invalid_response'
+  | 'missing_api_key'
+  | 'too_large'
+  | 'unknown';
+
+const RETRYABLE_KINDS: AiErrorKind[] = ['network', 'rate_limit'];
+
+/**
+ * Error thrown by the AI services. `kind` tells the UI what went wrong so it can
+ * show a meaningful message instead of a generic failure.
+ */
+export class AiServiceError extends Error {
+  readonly kind: AiErrorKind;
+  readonly details: string[];
+  /** Delay the service asked us to wait before retrying, if it said so. */
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AiErrorKind, message: string, details: string[] = [], options: { cause?: unknown; retryAfterMs?: number } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AiServiceError';
+    this.kind = kind;
+    this.details = details;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /** Transient failures that are worth trying again automatically. */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const isAiServiceError = (error: unknown): error is AiServiceError => error instanceof AiServiceError;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError'
+  || (error instanceof Error && error.name === 'AbortError');
+
+const statusOf = (error: unknown): number | undefined => {
+  if (typeof error !== 'object' || error === null) return undefined;
+  const status = (error as { status?: unknown }).status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const retryAfterOf = (message: string): number | undefined => {
+  // Gemini puts e.g. "retryDelay": "17s" in the error body.
+  const match = /retry(?:Delay|[- ]after)"?\s*[:=]?\s*"?(\d+(?:\.\d+)?)s/i.exec(message);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/** Sorts any error thrown by a provider into one of the AiErrorKind categories. */
+export const classifyError = (error: unknown): AiServiceError => {
+  if (isAiServiceError(error)) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error) ?? Number(/\b([45]\d\d)\b/.exec(message)?.[1] ?? NaN);
+
+  if (status === 413) {
+    return new AiServiceError('too_large', 'The request is too large.', [message], { cause: error });
+  }
+  if (status === 429 || /quota|rate.?limit|resource.?exhausted/i.test(message)) {
+    return new AiServiceError('rate_limit', 'The AI service is busy or the usage quota is used up.', [message], { cause: error, retryAfterMs: retryAfterOf(message) });
+  }
+  if (/api.?key/i.test(message) && (status === 400 || status === 401 || status === 403 || Number.isNaN(status))) {
+    return new AiServiceError('missing_api_key', 'The AI service API key is missing or invalid.', [message], { cause: error });
+  }
+  if (/safety|blocked|prohibited content/i.test(message)) {
+    return new AiServiceError('safety', 'The AI service declined to answer this question.', [message], { cause: error });
+  }
+  if (status >= 500 || error instanceof TypeError || /network|fetch|timed? ?out|ECONN|socket/i.test(message)) {
+    return new AiServiceError('network', 'Could not reach the AI service.', [message], { cause: error });
+  }
+  return new AiServiceError('unknown', 'Failed to get a response from the AI.', [message], { cause: error });
+};
@@ -1,10 +1,23 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import type { AiResponseData } from '../types';
+import type { AiResponseData, ChatMessage, ToolResult, UserProfile } from '../types';
+import { buildConversation } from './conversation';
+import { extractPartialStringField } from './partialJson';
+import { getProvider } from './providers';
+import type { GenerateRequest, JsonSchema } from './providers';
+import { normalizeLanguageCode, parseAndValidateAiResponse } from './responseValidator';
+import { AiServiceError, classifyError, isAbortError } from './errors';
+import { withRetry } from './retry';
+import { TOOL_DECLARATIONS, describeToolResults, runToolCall } from './tools';
+import { formatPassagesForPrompt, searchLaw } from './lawRetrieval';
+import { describeProfile } from '../utils/profile';
+import { REDACTION_INSTRUCTION, restoreAdvice } from '../utils/redaction';
+import type { Redactor } from '../utils/redaction';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-
-const model = 'gemini-2.5-flash';
+/**
+ * Part of every cache key for answers. Bump it when the prompts or the
+ * response schema change, so answers written for the old ones are not reused.
+ */
+export const PROMPT_VERSION = 1;
 
 const systemInstruction = `You are an expert AI assistant specializing in Norwegian labor law (arbeidsrett), the NAV system, Skatt (tax), and trade unions (fagforeninger). Your purpose is to provide clear, concise, and helpful information to people working in Norway.
 - First, you MUST detect the language of the user's question.
@@ -13,79 +26,286 @@ const systemInstruction = `You are an expert AI assistant specializing in Norweg
 - Always base your answers on current Norwegian laws and regulations.
 - Provide practical, real-world examples to illustrate your points.
 - Keep your main answer concise and easy to understand.
+- The conversation may contain earlier questions and answers. Treat the latest user message as a follow-up and use the earlier turns as context.
 - For every answer, you MUST provide a list of related topics and a list of official source links.
+- Suggest 2-3 follow-up questions the user could ask next, written from the user's point of view and tailored to their situation.
+- If the answer depends on facts the user has not given (such as length of employment, contract type or whether there is a collective agreement), ask for them as clarifying questions instead of assuming.
 - The source links must be real, valid URLs from official Norwegian government or union websites like nav.no, arbeidstilplacet.no, skatteetaten.no, or major union sites.
 - Your response must be in JSON format, adhering to the provided schema.`;
 
-const responseSchema = {
-  type: Type.OBJECT,
+const responseSchema: JsonSchema = {
+  type: 'object',
   properties: {
     answer: {
-      type: Type.STRING,
+      type: 'string',
       description: "The main answer to the user's question, formatted in Markdown, in the same language as the user's query.",
     },
     relatedTopics: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
+      type: 'array',
+      items: { type: 'string' },
       description: "A list of 3-5 related topics the user might be interested in, in the same language as the user's query.",
     },
+    followUpQuestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: "2-3 short follow-up questions the user could ask next, phrased as the user would ask them, in the same language as the user's query.",
+    },
+    clarifyingQuestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: "Questions the user should answer so the advice can be more precise, in the same language as the user's query. Empty if nothing is unclear.",
+    },
+    assumptions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: "The details from the user's profile this answer relies on, in the same language as the user's query. Empty if no profile was given or the answer does not depend on it.",
+    },
     sourceLinks: {
-      type: Type.ARRAY,
+      type: 'array',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-          title: { type: Type.STRING },
-          url: { type: Type.STRING }
+          title: { type: 'string' },
+          url: { type: 'string' }
         },
         required: ["title", "url"]
       },
       description: "A list of relevant, official source links. The title should be in the same language as the user's query.",
     },
     language: {
-        type: Type.STRING,
+        type: 'string',
         description: "The BCP-47 language code of the user's question and this response (e.g., 'en-US', 'nb-NO', 'lt-LT')."
     }
   },
-  required: ["answer", "relatedTopics", "sourceLinks", "language"]
+  required: ["answer", "relatedTopics", "followUpQuestions", "sourceLinks", "language"],
+  // The answer comes first so it can be rendered while the rest is streaming.
+  propertyOrdering: ["answer", "relatedTopics", "followUpQuestions", "clarifyingQuestions", "assumptions", "sourceLinks", "language"]
+};
+
+const lawInstruction = (passages: string) => `Relevant sections from the app's law library are listed below between <law> tags. Base your answer on them where they apply.
+- When you rely on a section, cite it inline as a Markdown link whose target is the id in square brackets, e.g. [Arbeidsmiljøloven § 15-3](law:aml/15-3).
+- Only cite sections listed here with law: links. Other sources go in sourceLinks.
+<law>
+${passages}
+</law>`;
+
+const profileInstruction = (profile: string[]) => `The user has shared the profile below between <profile> tags. Use it to tailor the answer; where the conversation says otherwise, the conversation wins.
+- List each profile detail the answer relies on in "assumptions", addressed to the user (e.g. "You are covered by a collective agreement"), so they can tell if the answer does not fit them.
+<profile>
+${profile.join('\n')}
+</profile>`;
+
+/** The latest question, plus the one before it so short follow-ups keep their topic. */
+const retrievalQuery = (history: ChatMessage[]): string =>
+  history.filter(message => message.role === 'user').slice(-2).map(message => message.text).join('\n');
+
+/**
+ * The law library is searched with the history as the server gets it. When the
+ * browser redacts, that is the redacted text: placeholders replace names and
+ * numbers, while the words the search matches on are left as they were.
+ */
+const adviceRequest = (history: ChatMessage[], signal?: AbortSignal, profile?: UserProfile, redactor?: Redactor): GenerateRequest => {
+  const passages = searchLaw(retrievalQuery(history));
+  const profileLines = profile ? describeProfile(profile) : [];
+  const turns = buildConversation(history);
+  return {
+    turns: redactor ? turns.map(turn => ({ ...turn, text: redactor.redact(turn.text) })) : turns,
+    systemInstruction: [
+      systemInstruction,
+      ...(redactor ? [REDACTION_INSTRUCTION] : []),
+      ...(profileLines.length > 0 ? [profileInstruction(profileLines)] : []),
+      ...(passages.length > 0 ? [lawInstruction(formatPassagesForPrompt(passages))] : []),
+    ].join('\n\n'),
+    responseSchema,
+    temperature: 0.5,
+    signal,
+  };
 };
 
-export const getLegalAdvice = async (userQuestion: string): Promise<AiResponseData> => {
+const toolInstruction = () => `You help answer questions about Norwegian labor law by deciding whether the latest question needs an exact calculation.
+- Today is ${new Date().toISOString().substring(0, 10)}. Resolve relative dates such as "yesterday" against it.
+- Call a calculator only with values stated or clearly implied in the conversation; never guess amounts or dates.
+- If no calculation is needed, or required values are missing, call no tools.`;
+
+// Conversations about dismissal get the deadline calculator even when the
+// latest message has no numbers in it, e.g. "when is my last day?".
+const TERMINATION_PATTERN = /oppsig|oppsagt|sagt opp|avskjed|dismiss|fired|terminat|notice period|wypowiedzen|atleid|звільн/i;
+// Benefit questions such as "when does NAV start paying?" can be answered from dates said earlier.
+const BENEFIT_PATTERN = /sykepeng|sjukepeng|sick pay|dagpeng|unemployment|permitter|laid off|layoff|chorobow|bezroboc|nedarb|лікарнян|безробіт/i;
+
+const mightNeedTools = (turns: GenerateRequest['turns']): boolean => {
+  const question = turns[turns.length - 1]?.text ?? '';
+  return /\d/.test(question) || BENEFIT_PATTERN.test(question)
+    || turns.some(turn => turn.role === 'user' && TERMINATION_PATTERN.test(turn.text));
+};
+
+/**
+ * Offers the calculator tools for the latest question and runs the ones the
+ * model picks. Their results are added to the system instruction, so the
+ * answer quotes computed numbers instead of doing the arithmetic itself.
+ * Calculations need numbers or dates, so other questions skip this round trip.
+ */
+const withToolResults = async (request: GenerateRequest): Promise<{ request: GenerateRequest; toolResults: ToolResult[] }> => {
+  const provider = getProvider();
+  if (!provider.selectToolCalls || !mightNeedTools(request.turns)) return { request, toolResults: [] };
+
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: userQuestion,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema,
-        temperature: 0.5,
-      }
-    });
-    
-    const text = response.text.trim();
-    // Sometimes the model wraps the JSON in ```json ... ```, so we need to clean it.
-    const cleanedText = text.replace(/^```json\s*|```$/g, '');
-    return JSON.parse(cleanedText) as AiResponseData;
+    const calls = await provider.selectToolCalls(
+      { turns: request.turns, systemInstruction: toolInstruction(), temperature: 0, signal: request.signal },
+      TOOL_DECLARATIONS,
+    );
+    if (calls.length === 0) return { request, toolResults: [] };
+    const toolResults = calls.map(runToolCall);
+    return {
+      request: { ...request, systemInstruction: `${request.systemInstruction}\n\n${describeToolResults(toolResults)}` },
+      toolResults,
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn("Calculator tools failed, answering without them:", error);
+    return { request, toolResults: [] };
+  }
+};
+
+const withToolResultData = (data: AiResponseData, toolResults: ToolResult[]): AiResponseData =>
+  toolResults.length > 0 ? { ...data, toolResults } : data;
+
+const logRetry = (attempt: number, delayMs: number, error: unknown) =>
+  console.warn(`AI request failed, retry ${attempt} in ${delayMs} ms:`, error);
+
+const repairInstruction = (errors: string[]) =>
+  `Your previous response did not match the required JSON schema:\n${errors.map(e => `- ${e}`).join('\n')}\nRespond again with the complete, corrected JSON object only.`;
+
+/**
+ * Validates the raw model output. If it does not satisfy the AiResponseData
+ * contract, the model is asked once more with the validation errors; if that
+ * also fails an AiServiceError of kind 'invalid_response' is thrown.
+ */
+const resolveAdviceResponse = async (request: GenerateRequest, rawText: string): Promise<AiResponseData> => {
+  const first = parseAndValidateAiResponse(rawText);
+  if (first.ok) {
+    if (first.warnings.length > 0) console.warn("Repaired AI response:", first.warnings);
+    return first.data;
+  }
+
+  console.warn("Invalid AI response, asking the model to repair it:", first.errors);
+  const repairedText = await withRetry(() => getProvider().generate({
+    ...request,
+    turns: [
+      ...request.turns,
+      { role: 'model', text: rawText },
+      { role: 'user', text: repairInstruction(first.errors) },
+    ],
+  }), { signal: request.signal, onRetry: logRetry });
+  const second = parseAndValidateAiResponse(repairedText);
+  if (second.ok) return second.data;
+
+  throw new AiServiceError(
+    'invalid_response',
+    "The AI returned an answer in an unexpected format. Please try asking again.",
+    second.errors,
+  );
+};
+
+/**
+ * `profile` is only passed for chats where the user opted in to sharing it;
+ * `redactor` hides personal data in the conversation and restores it in the answer.
+ */
+export const getLegalAdvice = async (history: ChatMessage[], profile?: UserProfile, redactor?: Redactor): Promise<AiResponseData> => {
+  try {
+    const { request, toolResults } = await withToolResults(adviceRequest(history, undefined, profile, redactor));
+    const text = await withRetry(() => getProvider().generate(request), { onRetry: logRetry });
+    return withToolResultData(restoreAdvice(await resolveAdviceResponse(request, text), redactor), toolResults);
   } catch (error) {
     console.error("Error getting legal advice:", error);
-    throw new Error("Failed to get a response from the AI. Please try again.");
+    throw classifyError(error);
   }
 };
 
-export const simplifyAnswer = async (textToSimplify: string, originalQuestion: string): Promise<string> => {
-    const prompt = `The user's original question was: "${originalQuestion}". Please rewrite the following text in very simple, easy-to-understand language, in the same language as the original question. Avoid legal jargon. The original text is: "${textToSimplify}"`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: prompt,
+export interface StreamLegalAdviceOptions {
+  /** Called with the full answer text received so far, each time it grows. */
+  onAnswer: (partialAnswer: string) => void;
+  signal?: AbortSignal;
+  /** Language used for a stopped answer when the model has not reported one yet. */
+  fallbackLanguage?: string;
+  /** Only passed for chats where the user opted in to sharing it. */
+  profile?: UserProfile;
+  /** Hides personal data in the conversation; the answer is reported with it restored. */
+  redactor?: Redactor;
+}
+
+export interface StreamedAdvice {
+  data: AiResponseData;
+  /** True when the stream was stopped before the structured tail arrived. */
+  interrupted: boolean;
+}
+
+/**
+ * Streaming variant of getLegalAdvice. The answer is reported as it arrives;
+ * related topics, sources and language are only available once the whole JSON
+ * document has been received. Aborting through `signal` resolves with the
+ * partial answer instead of rejecting.
+ */
+export const streamLegalAdvice = async (
+  history: ChatMessage[],
+  { onAnswer, signal, fallbackLanguage = 'en-US', profile, redactor }: StreamLegalAdviceOptions,
+): Promise<StreamedAdvice> => {
+  let buffer = '';
+  let answer = '';
+
+  const restore = (text: string) => redactor ? redactor.restore(text) : text;
+
+  const partialResult = (): StreamedAdvice => ({
+    data: {
+      answer: restore(answer),
+      relatedTopics: [],
+      sourceLinks: [],
+      language: normalizeLanguageCode(extractPartialStringField(buffer, 'language')) || fallbackLanguage,
+    },
+    interrupted: true,
+  });
+
+  try {
+    const { request, toolResults } = await withToolResults(adviceRequest(history, signal, profile, redactor));
+    await withRetry(async () => {
+      buffer = '';
+      for await (const chunk of getProvider().generateStream(request)) {
+        if (signal?.aborted) return;
+        buffer += chunk;
+        const partialAnswer = extractPartialStringField(buffer, 'answer');
+        if (partialAnswer !== null && partialAnswer !== answer) {
+          answer = partialAnswer;
+          onAnswer(restore(answer));
+        }
+      }
+    }, {
+      signal,
+      // Once part of the answer is on screen, restarting would make it jump back.
+      shouldRetry: () => answer === '',
+      onRetry: logRetry,
     });
-    return response.text;
+    if (signal?.aborted) return partialResult();
+
+    return { data: withToolResultData(restoreAdvice(await resolveAdviceResponse(request, buffer), redactor), toolResults), interrupted: false };
+  } catch (error) {
+    if (signal?.aborted || isAbortError(error)) return partialResult();
+    console.error("Error streaming legal advice:", error);
+    throw classifyError(error);
+  }
 };
 
-export const generateEmailTemplate = async (context: string, originalQuestion: string): Promise<string> => {
-    const prompt = `The user's original question was "${originalQuestion}". Based on the following situation, write a polite and professional email template in the same language as the original question. The user can then fill in the specific details. The situation is: "${context}"`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: prompt,
-    });
-    return response.text;
+/** Plain-text generation with retries, used by the answer transformations below. */
+const generateText = async (prompt: string): Promise<string> => {
+  try {
+    return await withRetry(() => getProvider().generate({ turns: [{ role: 'user', text: prompt }] }), { onRetry: logRetry });
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
+
+export const simplifyAnswer = async (textToSimplify: string, originalQuestion: string, redactor?: Redactor): Promise<string> => {
+    const redact = (text: string) => redactor ? redactor.redact(text) : text;
+    const prompt = `The user's original question was: "${redact(originalQuestion)}". Please rewrite the following text in very simple, easy-to-understand language, in the same language as the original question. Avoid legal jargon. The original text is: "${redact(textToSimplify)}"${redactor ? `\n\n${REDACTION_INSTRUCTION}` : ''}`;
+    const simplified = await generateText(prompt);
+    return redactor ? redactor.restore(simplified) : simplified;
 };
@@ -0,0 +1,115 @@
+import { LAWS, formatSectionRef } from '../data/law';
+import type { LawDocument, LawSection } from '../data/law';
+
+export interface LawPassage {
+  law: LawDocument;
+  section: LawSection;
+  score: number;
+}
+
+// Okapi BM25 over the sections of the local law corpus. The corpus is small
+// (a few hundred kilobytes), so the index is built in memory on first use.
+const K1 = 1.2;
+const B = 0.75;
+/** Sections scoring below this share of the best match are not worth the prompt space. */
+const RELATIVE_SCORE_CUTOFF = 0.35;
+const MIN_SCORE = 1.5;
+
+const STOP_WORDS = new Set([
+  // Norwegian
+  'og', 'i', 'på', 'til', 'av', 'for', 'med', 'som', 'er', 'det', 'den', 'de', 'en', 'et', 'ei', 'jeg', 'meg', 'min', 'mitt',
+  'har', 'kan', 'skal', 'vil', 'at', 'om', 'ikke', 'eller', 'hva', 'hvor', 'hvis', 'når', 'fra', 'ved', 'etter', 'så', 'vi',
+  'du', 'deg', 'seg', 'sin', 'sitt', 'sine', 'blir', 'bli', 'være', 'var', 'hvordan', 'dersom', 'mer', 'enn',
+  // English
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'was', 'be', 'my', 'me', 'do', 'does', 'what',
+  'how', 'can', 'if', 'it', 'at', 'by', 'with', 'from', 'have', 'has', 'this', 'that', 'when', 'will', 'not', 'about',
+]);
+
+const SUFFIXES = ['ene', 'ane', 'ende', 'ing', 'ert', 'er', 'en', 'et', 'es', 'e', 'a', 's'];
+
+/** Light stemming that strips common Norwegian and English endings. */
+const stem = (token: string): string => {
+  for (const suffix of SUFFIXES) {
+    if (token.length - suffix.length >= 4 && token.endsWith(suffix)) return token.slice(0, -suffix.length);
+  }
+  return token;
+};
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+
+interface IndexedSection {
+  law: LawDocument;
+  section: LawSection;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+interface LawIndex {
+  sections: IndexedSection[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+let index: LawIndex | null = null;
+
+const getIndex = (): LawIndex => {
+  if (index) return index;
+  const sections: IndexedSection[] = [];
+  const documentFrequencies = new Map<string, number>();
+
+  for (const law of LAWS) {
+    for (const section of law.sections) {
+      // The title and keywords say what a section is about, so they count twice.
+      const heading = [section.title, ...(section.keywords ?? [])].join(' ');
+      const tokens = tokenize(`${heading} ${heading} ${section.text}`);
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1));
+      termFrequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1));
+      sections.push({ law, section, termFrequencies, length: tokens.length });
+    }
+  }
+
+  const averageLength = sections.reduce((sum, s) => sum + s.length, 0) / Math.max(1, sections.length);
+  index = { sections, documentFrequencies, averageLength };
+  return index;
+};
+
+/** Sections referred to directly, e.g. "§ 15-3" or "paragraf 14-6". */
+const findDirectReferences = (query: string): Set<string> =>
+  new Set(Array.from(query.matchAll(/(?:§|paragraf|section)\s*(\d+(?:-\d+)?)/gi), match => match[1]));
+
+/** The most relevant sections for a question, best first. */
+export const searchLaw = (query: string, limit = 5): LawPassage[] => {
+  const { sections, documentFrequencies, averageLength } = getIndex();
+  const terms = Array.from(new Set(tokenize(query)));
+  const references = findDirectReferences(query);
+
+  const scored = sections.map(({ law, section, termFrequencies, length }) => {
+    let score = references.has(section.id) ? 10 : 0;
+    for (const term of terms) {
+      const frequency = termFrequencies.get(term);
+      if (!frequency) continue;
+      const documentFrequency = documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (sections.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+    }
+    return { law, section, score };
+  });
+
+  const ranked = scored.filter(passage => passage.score >= MIN_SCORE).sort((a, b) => b.score - a.score);
+  const cutoff = (ranked[0]?.score ?? 0) * RELATIVE_SCORE_CUTOFF;
+  return ranked.filter(passage => passage.score >= cutoff).slice(0, limit);
+};
+
+/** The citation target the model is asked to use, e.g. "law:aml/15-3". */
+export const toLawHref = (law: LawDocument, section: LawSection) => `law:${law.id}/${section.id}`;
+
+/** Retrieved passages as a block for the system instruction. */
+export const formatPassagesForPrompt = (passages: LawPassage[]): string =>
+  passages.map(({ law, section }) =>
+    `[${toLawHref(law, section)}] ${formatSectionRef(law, section)} ${section.title} (text as of ${law.version})\n${section.text}`,
+  ).join('\n\n');
@@ -0,0 +1,46 @@
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Reads the value of a top-level string field from a JSON document that may
+ * still be arriving. Returns whatever part of the string has been received so
+ * far, or null if the field has not started yet. An escape sequence cut off at
+ * the end of the buffer is left out until the rest of it arrives.
+ */
+export const extractPartialStringField = (jsonText: string, field: string): string | null => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(jsonText);
+  if (!match) return null;
+
+  let result = '';
+  let i = match.index + match[0].length;
+  while (i < jsonText.length) {
+    const char = jsonText[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      result += char;
+      i++;
+      continue;
+    }
+
+    const next = jsonText[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = jsonText.substring(i + 2, i + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+    result += ESCAPES[next] ?? next;
+    i += 2;
+  }
+  return result;
+};
@@ -0,0 +1,88 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { GenerateContentResponse, Schema } from "@google/genai";
+import { AiServiceError } from '../errors';
+import type { GenerateRequest, JsonSchema, LlmProvider, ProviderConfig, ToolDeclaration } from './types';
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  propertyOrdering: schema.propertyOrdering,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+const toFunctionDeclaration = (tool: ToolDeclaration) => ({
+  name: tool.name,
+  description: tool.description,
+  parameters: toGeminiSchema(tool.parameters),
+});
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+/** Gemini reports blocked prompts and answers in the response instead of failing. */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    throw new AiServiceError('safety', 'The AI service declined to answer this question.', [String(blockReason ?? finishReason)]);
+  }
+};
+
+export const createGeminiProvider = (config: ProviderConfig): LlmProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!config.apiKey) {
+      throw new AiServiceError('missing_api_key', 'No Gemini API key is configured. Set GEMINI_API_KEY in .env.local.');
+    }
+    client ??= new GoogleGenAI({ apiKey: config.apiKey });
+    return client;
+  };
+
+  const toParams = (request: GenerateRequest) => ({
+    model: config.model,
+    contents: request.turns.map(turn => ({
+      role: turn.role,
+      parts: [{ text: turn.text }],
+    })),
+    config: {
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      abortSignal: request.signal,
+      ...(request.responseSchema
+        ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(request.responseSchema) }
+        : {}),
+    },
+  });
+
+  return {
+    name: 'gemini',
+    model: config.model,
+    async generate(request) {
+      const response = await getClient().models.generateContent(toParams(request));
+      assertNotBlocked(response);
+      return response.text ?? '';
+    },
+    async *generateStream(request) {
+      const stream = await getClient().models.generateContentStream(toParams(request));
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        if (chunk.text) yield chunk.text;
+      }
+    },
+    async selectToolCalls(request, tools) {
+      const params = toParams(request);
+      const response = await getClient().models.generateContent({
+        ...params,
+        config: { ...params.config, tools: [{ functionDeclarations: tools.map(toFunctionDeclaration) }] },
+      });
+      assertNotBlocked(response);
+      return (response.functionCalls ?? [])
+        .filter(call => call.name)
+        .map(call => ({ name: call.name!, args: call.args ?? {} }));
+    },
+  };
+};
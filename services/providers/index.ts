@@ -0,0 +1,52 @@
+import type { LlmProvider, ProviderConfig, ProviderName } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { GenerateRequest, JsonSchema, LlmProvider, ProviderConfig, ProviderName, ToolCall, ToolDeclaration } from './types';
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1',
+  mock: 'fixture',
+};
+
+const isProviderName = (value: string | undefined): value is ProviderName =>
+  value === 'gemini' || value === 'openai-compatible' || value === 'mock';
+
+/** Reads the provider selection from the environment of the backend (see server/index.ts). */
+export const getProviderConfig = (): ProviderConfig => {
+  const provider = isProviderName(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'gemini';
+  return {
+    provider,
+    model: process.env.LLM_MODEL || DEFAULT_MODELS[provider],
+    apiKey: provider === 'gemini' ? process.env.GEMINI_API_KEY || process.env.API_KEY : process.env.LLM_API_KEY,
+    baseUrl: process.env.LLM_BASE_URL,
+  };
+};
+
+export const createProvider = (config: ProviderConfig): LlmProvider => {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(config);
+    case 'mock':
+      return createMockProvider(config);
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+let activeProvider: LlmProvider | null = null;
+
+export const getProvider = (): LlmProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(getProviderConfig());
+  }
+  return activeProvider;
+};
+
+/** Replaces the provider used by the services, e.g. with the mock provider in tests. */
+export const setProvider = (provider: LlmProvider | null) => {
+  activeProvider = provider;
+};
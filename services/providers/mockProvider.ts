@@ -0,0 +1,79 @@
+import type { GenerateRequest, JsonSchema, LlmProvider, ProviderConfig } from './types';
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 30;
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const handleAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  // Streams wait once per chunk on the same signal, so listeners must not pile up.
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+const lastUserText = (request: GenerateRequest) =>
+  [...request.turns].reverse().find(turn => turn.role === 'user')?.text ?? '';
+
+/** Placeholder JSON for any other schema: the first enum value, empty-ish scalars, one array item. */
+const fixtureFromSchema = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, fixtureFromSchema(value)]));
+    case 'array':
+      return schema.items ? [fixtureFromSchema(schema.items)] : [];
+    case 'string':
+      return schema.enum?.[0] ?? 'mock';
+    case 'boolean':
+      return false;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Deterministic fixture responses: the same request always produces the same
+ * output, so the UI can be developed and tested without a model or network.
+ */
+const fixtureResponse = (request: GenerateRequest): string => {
+  const question = lastUserText(request);
+  if (!request.responseSchema) {
+    return `[mock response]\n\n${question}`;
+  }
+  if (!request.responseSchema.properties?.answer) {
+    return JSON.stringify(fixtureFromSchema(request.responseSchema));
+  }
+
+  return JSON.stringify({
+    answer: `**Mock answer** (turn ${request.turns.filter(t => t.role === 'user').length})\n\nYou asked: ${question}\n\nThis response comes from the fixture provider and contains no legal advice.`,
+    relatedTopics: ['Arbeidsmiljøloven', 'Oppsigelse', 'Feriepenger'],
+    followUpQuestions: ['How long is my notice period?', 'Can my employer change my shifts?'],
+    clarifyingQuestions: ['How long have you worked for this employer?'],
+    ...(request.systemInstruction?.includes('<profile>') ? { assumptions: ['You work in the private sector.'] } : {}),
+    sourceLinks: [
+      { title: 'Arbeidstilsynet', url: 'https://www.arbeidstilsynet.no' },
+      { title: 'NAV', url: 'https://www.nav.no' },
+    ],
+    language: 'en-US',
+  });
+};
+
+export const createMockProvider = (config: ProviderConfig): LlmProvider => ({
+  name: 'mock',
+  model: config.model,
+  async generate(request) {
+    await delay(CHUNK_DELAY_MS, request.signal);
+    return fixtureResponse(request);
+  },
+  async *generateStream(request) {
+    const text = fixtureResponse(request);
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      await delay(CHUNK_DELAY_MS, request.signal);
+      yield text.substring(i, i + CHUNK_SIZE);
+    }
+  },
+});
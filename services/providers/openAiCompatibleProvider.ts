@@ -0,0 +1,99 @@
+import type { GenerateRequest, JsonSchema, LlmProvider, ProviderConfig, ToolCall } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// OpenAI's structured output mode rejects unknown keywords such as propertyOrdering.
+const toOpenAiSchema = (schema: JsonSchema): Record<string, unknown> => {
+  const { propertyOrdering, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(items ? { items: toOpenAiSchema(items) } : {}),
+    ...(properties
+      ? {
+          properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toOpenAiSchema(value)])),
+          additionalProperties: false,
+        }
+      : {}),
+  };
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as a
+ * local Ollama, LM Studio or llama.cpp server.
+ */
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): LlmProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+
+  const request = (body: GenerateRequest, stream: boolean, extra: Record<string, unknown> = {}) => fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    },
+    signal: body.signal,
+    body: JSON.stringify({
+      model: config.model,
+      stream,
+      temperature: body.temperature,
+      messages: [
+        ...(body.systemInstruction ? [{ role: 'system', content: body.systemInstruction }] : []),
+        ...body.turns.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+      ],
+      ...(body.responseSchema
+        ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toOpenAiSchema(body.responseSchema) } } }
+        : {}),
+      ...extra,
+    }),
+  }).then(async response => {
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  });
+
+  return {
+    name: 'openai-compatible',
+    model: config.model,
+    async generate(body) {
+      const response = await request(body, false);
+      const json = await response.json();
+      return json.choices?.[0]?.message?.content ?? '';
+    },
+    async *generateStream(body) {
+      const response = await request(body, true);
+      if (!response.body) throw new Error('OpenAI-compatible endpoint returned an empty stream.');
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+
+        // Server-sent events: one `data: {...}` payload per line.
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const content = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (content) yield content;
+        }
+      }
+    },
+    async selectToolCalls(body, tools) {
+      const response = await request(body, false, {
+        tools: tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: toOpenAiSchema(tool.parameters) },
+        })),
+      });
+      const json = await response.json();
+      const calls: { function?: { name?: string; arguments?: string } }[] = json.choices?.[0]?.message?.tool_calls ?? [];
+      return calls
+        .filter(call => call.function?.name)
+        .map((call): ToolCall => ({ name: call.function!.name!, args: JSON.parse(call.function!.arguments || '{}') }));
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import type { ConversationTurn } from '../conversation';
+
+/**
+ * Provider-neutral subset of JSON Schema used for structured responses.
+ * `propertyOrdering` is a hint for providers that stream fields in order.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  propertyOrdering?: string[];
+}
+
+/** A function the model may ask the app to run, such as a pay calculator. */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface GenerateRequest {
+  turns: ConversationTurn[];
+  systemInstruction?: string;
+  /** When set, the provider must answer with JSON matching this schema. */
+  responseSchema?: JsonSchema;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  /** Returns the complete response text. */
+  generate(request: GenerateRequest): Promise<string>;
+  /** Yields the response text in chunks as it arrives. */
+  generateStream(request: GenerateRequest): AsyncIterable<string>;
+  /**
+   * Asks the model which of `tools` to run for the request. Returns an empty
+   * list when it wants none. Providers without function calling leave this out.
+   */
+  selectToolCalls?(request: GenerateRequest, tools: ToolDeclaration[]): Promise<ToolCall[]>;
+}
+
+export type ProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  model: string;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl?: string;
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from 'vitest';
+import { adviceCacheKey, createMemoryStore, createResponseCache } from './responseCache';
+import type { Generate } from './responseCache';
+
+/** A generation that reports progress and finishes when told to. */
+const controllable = () => {
+  let finish: (value: string) => void = () => {};
+  let report: (progress: string) => void = () => {};
+  let signal: AbortSignal | undefined;
+  const generate = vi.fn<Generate<string, string>>((sharedSignal, onProgress) => {
+    signal = sharedSignal;
+    report = onProgress;
+    return new Promise<string>((resolve, reject) => {
+      finish = resolve;
+      sharedSignal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+  });
+  return { generate, finish: (value: string) => finish(value), report: (progress: string) => report(progress), signal: () => signal };
+};
+
+describe('createResponseCache', () => {
+  it('reuses a stored value until the TTL runs out', async () => {
+    const cache = createResponseCache<string>({ ttlMs: 1_000 });
+    const generate = vi.fn(async () => 'answer');
+    expect(await cache.get('key', generate)).toEqual({ value: 'answer' });
+    const reused = await cache.get('key', generate);
+    expect(reused.value).toBe('answer');
+    expect(reused.cachedAt).toBeTypeOf('number');
+    expect(generate).toHaveBeenCalledTimes(1);
+
+    await cache.get('key', generate, { refresh: true });
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('stores nothing with a TTL of 0 or when shouldStore says no', async () => {
+    const generate = vi.fn(async () => 'answer');
+    const off = createResponseCache<string>({ ttlMs: 0 });
+    await off.get('key', generate);
+    await off.get('key', generate);
+    const picky = createResponseCache<string>({ ttlMs: 1_000, store: createMemoryStore() });
+    await picky.get('key', generate, { shouldStore: () => false });
+    await picky.get('key', generate);
+    expect(generate).toHaveBeenCalledTimes(4);
+  });
+
+  it('runs overlapping identical requests once and reports progress to each', async () => {
+    const cache = createResponseCache<string, string>({ ttlMs: 0 });
+    const { generate, finish, report } = controllable();
+    const first: string[] = [];
+    const second: string[] = [];
+
+    const a = cache.get('key', generate, { onProgress: progress => first.push(progress) });
+    report('Hel');
+    const b = cache.get('key', generate, { onProgress: progress => second.push(progress) });
+    report('Hello');
+    finish('Hello!');
+
+    expect(await a).toEqual({ value: 'Hello!' });
+    expect(await b).toEqual({ value: 'Hello!' });
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(['Hel', 'Hello']);
+    // Joined after the first report, so it starts with it.
+    expect(second).toEqual(['Hel', 'Hello']);
+  });
+
+  it('keeps generating while another request still waits', async () => {
+    const cache = createResponseCache<string, string>({ ttlMs: 0 });
+    const { generate, finish, signal } = controllable();
+    const leaving = new AbortController();
+
+    const a = cache.get('key', generate, { signal: leaving.signal });
+    const b = cache.get('key', generate);
+    leaving.abort();
+
+    await expect(a).rejects.toThrow('Aborted');
+    expect(signal()?.aborted).toBe(false);
+    finish('answer');
+    expect(await b).toEqual({ value: 'answer' });
+  });
+
+  it('aborts the generation when every request has gone', async () => {
+    const cache = createResponseCache<string, string>({ ttlMs: 0 });
+    const { generate, signal } = controllable();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = cache.get('key', generate, { signal: first.signal });
+    const b = cache.get('key', generate, { signal: second.signal });
+    first.abort();
+    second.abort();
+
+    await expect(a).rejects.toThrow('Aborted');
+    await expect(b).rejects.toThrow('Aborted');
+    expect(signal()?.aborted).toBe(true);
+
+    // The next request starts a new generation.
+    const next = controllable();
+    const c = cache.get('key', next.generate);
+    next.finish('again');
+    expect(await c).toEqual({ value: 'again' });
+  });
+
+  it('does not join a running generation on refresh', async () => {
+    const cache = createResponseCache<string, string>({ ttlMs: 0 });
+    const stale = controllable();
+    const fresh = controllable();
+
+    const a = cache.get('key', stale.generate);
+    const b = cache.get('key', fresh.generate, { refresh: true });
+    const c = cache.get('key', stale.generate);
+    stale.finish('old');
+    fresh.finish('new');
+
+    expect(await a).toEqual({ value: 'old' });
+    expect(await b).toEqual({ value: 'new' });
+    // Calls after the refresh get its answer.
+    expect(await c).toEqual({ value: 'new' });
+    expect(stale.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not join a generation that every request has left', async () => {
+    const cache = createResponseCache<string, string>({ ttlMs: 0 });
+    const left = controllable();
+    const leaving = new AbortController();
+    const a = cache.get('key', left.generate, { signal: leaving.signal });
+    leaving.abort();
+
+    const next = controllable();
+    const b = cache.get('key', next.generate);
+    next.finish('complete');
+
+    await expect(a).rejects.toThrow('Aborted');
+    expect(await b).toEqual({ value: 'complete' });
+    expect(next.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes errors to every waiting request', async () => {
+    const cache = createResponseCache<string>({ ttlMs: 1_000 });
+    const generate = vi.fn(async () => { throw new Error('model down'); });
+    await expect(Promise.all([cache.get('key', generate), cache.get('key', generate)])).rejects.toThrow('model down');
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('adviceCacheKey', () => {
+  const input = { language: 'en-US', redacted: true, promptVersion: 1, model: 'model' };
+
+  it('gives questions that differ in case, spacing or closing punctuation the same key', () => {
+    expect(adviceCacheKey({ ...input, history: [{ id: '1', role: 'user', text: 'Can I be  fired?' }] }))
+      .toBe(adviceCacheKey({ ...input, history: [{ id: '2', role: 'user', text: 'can i be fired' }] }));
+  });
+
+  it('only caches first questions without a profile', () => {
+    const history = [
+      { id: '1', role: 'user' as const, text: 'Can I be fired?' },
+      { id: '2', role: 'model' as const, text: 'It depends.' },
+      { id: '3', role: 'user' as const, text: 'On what?' },
+    ];
+    expect(adviceCacheKey({ ...input, history })).toBeNull();
+    expect(adviceCacheKey({ ...input, history: history.slice(0, 1), profile: { sector: 'private' } })).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+import type { ApiMessage } from './apiContract';
+import type { StreamedAdvice } from './geminiService';
+import type { UserProfile } from '../types';
+
+// Answers to the same first question are reused for a while, and identical
+// requests that are still running are joined instead of sent twice. Used by
+// the browser (services/apiClient.ts) and, when enabled, by the backend.
+
+export interface CacheEntry<T> {
+  value: T;
+  /** Epoch milliseconds when the value was generated. */
+  createdAt: number;
+}
+
+export interface CacheStore<T> {
+  get(key: string): CacheEntry<T> | undefined;
+  set(key: string, entry: CacheEntry<T>): void;
+  clear(): void;
+}
+
+/** Keeps the newest `maxEntries` entries in memory. */
+export const createMemoryStore = <T,>(maxEntries = 200): CacheStore<T> => {
+  const entries = new Map<string, CacheEntry<T>>();
+  return {
+    get: key => entries.get(key),
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      // Maps iterate in insertion order, so the first key is the oldest.
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+    clear: () => entries.clear(),
+  };
+};
+
+/**
+ * Keeps the newest `maxEntries` entries in localStorage under one key. A full
+ * or unavailable storage only means answers are not reused.
+ */
+export const createLocalStorageStore = <T,>(storageKey: string, maxEntries = 100): CacheStore<T> => {
+  const read = (): Record<string, CacheEntry<T>> => {
+    try {
+      return JSON.parse(window.localStorage.getItem(storageKey) ?? '{}');
+    } catch {
+      return {};
+    }
+  };
+  const write = (entries: Record<string, CacheEntry<T>>) => {
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(entries));
+    } catch (error) {
+      console.warn('Could not save the response cache:', error);
+    }
+  };
+
+  return {
+    get: key => read()[key],
+    set(key, entry) {
+      const entries = Object.entries({ ...read(), [key]: entry })
+        .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+        .slice(0, maxEntries);
+      write(Object.fromEntries(entries));
+    },
+    clear: () => window.localStorage.removeItem(storageKey),
+  };
+};
+
+export interface CachedValue<T> {
+  value: T;
+  /** Set when the value was generated earlier and reused: when it was generated. */
+  cachedAt?: number;
+}
+
+export interface CacheRequestOptions<T, P> {
+  /** Skip the stored value and generate a new one, e.g. because the law changed. */
+  refresh?: boolean;
+  /** Whether a generated value may be stored. Defaults to storing everything. */
+  shouldStore?: (value: T) => boolean;
+  /**
+   * Aborting stops waiting and rejects with an AbortError. The generation
+   * itself is only aborted once every caller sharing it has aborted.
+   */
+  signal?: AbortSignal;
+  /** Called with each progress report of the generation, starting with the latest one made before joining. */
+  onProgress?: (progress: P) => void;
+}
+
+/** Generates a value, aborting on `signal` and reporting progress, e.g. the answer text so far. */
+export type Generate<T, P> = (signal: AbortSignal, report: (progress: P) => void) => Promise<T>;
+
+export interface ResponseCache<T, P = never> {
+  /**
+   * Returns the stored value for `key` while it is younger than the TTL.
+   * Otherwise runs `generate`, only once for calls with the same key that
+   * overlap, and stores the result. A refresh always starts a new generation,
+   * which later calls then join.
+   */
+  get(key: string, generate: Generate<T, P>, options?: CacheRequestOptions<T, P>): Promise<CachedValue<T>>;
+  clear(): void;
+}
+
+/** One running generation and the callers waiting for it. */
+interface Flight<T, P> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+  listeners: Set<(progress: P) => void>;
+  latest?: { progress: P };
+}
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+export const createResponseCache = <T, P = never>({ ttlMs, store = createMemoryStore<T>() }: { ttlMs: number; store?: CacheStore<T> }): ResponseCache<T, P> => {
+  const inFlight = new Map<string, Flight<T, P>>();
+
+  const start = (key: string, generate: Generate<T, P>, shouldStore: (value: T) => boolean): Flight<T, P> => {
+    const flight: Flight<T, P> = { promise: Promise.resolve() as Promise<T>, controller: new AbortController(), waiters: 0, listeners: new Set() };
+    const report = (progress: P) => {
+      flight.latest = { progress };
+      flight.listeners.forEach(listener => listener(progress));
+    };
+    flight.promise = generate(flight.controller.signal, report)
+      .then(value => {
+        if (ttlMs > 0 && shouldStore(value)) store.set(key, { value, createdAt: Date.now() });
+        return value;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === flight) inFlight.delete(key);
+      });
+    // Nobody is left to handle the error when every caller has aborted.
+    flight.promise.catch(() => undefined);
+    inFlight.set(key, flight);
+    return flight;
+  };
+
+  return {
+    async get(key, generate, { refresh = false, shouldStore = () => true, signal, onProgress } = {}) {
+      const stored = refresh || ttlMs <= 0 ? undefined : store.get(key);
+      if (stored && Date.now() - stored.createdAt < ttlMs) return { value: stored.value, cachedAt: stored.createdAt };
+      if (signal?.aborted) throw abortError();
+
+      // A refresh must not get the answer that is already on its way, and an
+      // aborted generation only has an interrupted answer left to give.
+      const running = refresh ? undefined : inFlight.get(key);
+      const flight = running && !running.controller.signal.aborted ? running : start(key, generate, shouldStore);
+      if (onProgress) {
+        if (flight.latest) onProgress(flight.latest.progress);
+        flight.listeners.add(onProgress);
+      }
+      flight.waiters++;
+
+      let handleAbort = () => {};
+      const aborted = new Promise<never>((_, reject) => {
+        handleAbort = () => {
+          if (--flight.waiters === 0) flight.controller.abort();
+          reject(abortError());
+        };
+      });
+      signal?.addEventListener('abort', handleAbort, { once: true });
+      try {
+        return { value: await Promise.race([flight.promise, aborted]) };
+      } finally {
+        signal?.removeEventListener('abort', handleAbort);
+        if (onProgress) flight.listeners.delete(onProgress);
+        if (!signal?.aborted) flight.waiters--;
+      }
+    },
+    clear: () => store.clear(),
+  };
+};
+
+/** Questions that only differ in case, spacing or closing punctuation share a key. */
+export const normalizeQuestion = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').replace(/[\s?!.…]+$/u, '').trim();
+
+export interface AdviceCacheKeyInput {
+  history: ApiMessage[];
+  profile?: UserProfile;
+  language: string;
+  redacted: boolean;
+  promptVersion: number;
+  model: string;
+}
+
+/**
+ * Only a chat's first question, asked without a profile, gets the same answer
+ * for everyone; follow-ups depend on the conversation. Returns null for requests
+ * that must not be cached.
+ */
+export const adviceCacheKey = ({ history, profile, language, redacted, promptVersion, model }: AdviceCacheKeyInput): string | null => {
+  if (history.length !== 1 || history[0].role !== 'user' || profile) return null;
+  return JSON.stringify(['advice', promptVersion, model, language, redacted, normalizeQuestion(history[0].text)]);
+};
+
+export const simplifyCacheKey = ({ text, question, redacted, promptVersion, model }: {
+  text: string;
+  question: string;
+  redacted: boolean;
+  promptVersion: number;
+  model: string;
+}): string => JSON.stringify(['simplify', promptVersion, model, redacted, normalizeQuestion(question), text.trim()]);
+
+// Calculator results depend on today's date, so those answers are not reused.
+export const isReusableAdvice = ({ data, interrupted }: StreamedAdvice): boolean => !interrupted && !data.toolResults;
+
+/** Marks a reused answer with when it was generated. */
+export const withCachedAt = ({ value: { data, interrupted }, cachedAt }: CachedValue<StreamedAdvice>): StreamedAdvice =>
+  ({ data: cachedAt ? { ...data, cachedAt } : data, interrupted });
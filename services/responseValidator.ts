@@ -0,0 +1,141 @@
+import type { AiResponseData, SourceLink } from '../types';
+
+export interface ValidationResult<T> {
+  ok: boolean;
+  /** Present when `ok` is true: the validated, coerced value. */
+  data?: T;
+  /** Why the value was rejected. Empty when `ok` is true. */
+  errors: string[];
+  /** What was coerced or dropped to make the value valid. */
+  warnings: string[];
+}
+
+const invalid = <T,>(...errors: string[]): ValidationResult<T> => ({ ok: false, errors, warnings: [] });
+const valid = <T,>(data: T, warnings: string[] = []): ValidationResult<T> => ({ ok: true, data, errors: [], warnings });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Bare or legacy codes the model tends to return, mapped to the regional code we expect.
+const LANGUAGE_DEFAULTS: Record<string, string> = {
+  no: 'nb-NO',
+  nb: 'nb-NO',
+  nob: 'nb-NO',
+  nn: 'nn-NO',
+  nno: 'nn-NO',
+  en: 'en-US',
+  pl: 'pl-PL',
+  lt: 'lt-LT',
+  uk: 'uk-UA',
+  ru: 'ru-RU',
+  sv: 'sv-SE',
+  da: 'da-DK',
+  de: 'de-DE',
+  lv: 'lv-LV',
+  ro: 'ro-RO',
+  es: 'es-ES',
+};
+
+/** Normalizes a BCP-47 language code, e.g. "NB_no" -> "nb-NO" and "no" -> "nb-NO". Returns null if unusable. */
+export const normalizeLanguageCode = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = /^([a-zA-Z]{2,3})(?:[-_]([a-zA-Z]{2}|\d{3}))?$/.exec(value.trim());
+  if (!match) return null;
+
+  const language = match[1].toLowerCase();
+  if (!match[2]) return LANGUAGE_DEFAULTS[language] ?? language;
+  // "no-NO" is not what speech synthesis voices use; Bokmål is the sensible default.
+  return `${language === 'no' ? 'nb' : language}-${match[2].toUpperCase()}`;
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+export const validateSourceLink = (value: unknown): ValidationResult<SourceLink> => {
+  if (!isRecord(value)) return invalid('source link is not an object');
+
+  const url = typeof value.url === 'string' ? value.url.trim() : '';
+  if (!isHttpUrl(url)) return invalid(`source link url "${String(value.url)}" is not a valid http(s) URL`);
+
+  const title = typeof value.title === 'string' ? value.title.trim() : '';
+  if (title) return valid({ title, url });
+  return valid({ title: new URL(url).hostname, url }, [`source link ${url} had no title`]);
+};
+
+const coerceStringList = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+    .map(item => String(item).trim())
+    .filter(Boolean);
+};
+
+const MAX_SUGGESTED_QUESTIONS = 3;
+
+/** An optional list of sentences: deduplicated and capped, with a warning if it had to be coerced. */
+const coerceSentences = (value: unknown, field: string, warnings: string[], max = Infinity): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) warnings.push(`"${field}" was not an array`);
+  // Sentences contain commas, so a single string is only split into lines.
+  const list = typeof value === 'string' ? value.split('\n').map(item => item.trim()).filter(Boolean) : coerceStringList(value);
+  const sentences = Array.from(new Set(list));
+  if (sentences.length > max) warnings.push(`"${field}" had ${sentences.length} items, kept ${max}`);
+  return sentences.slice(0, max);
+};
+
+/**
+ * Checks a parsed model response against the AiResponseData contract. Fields that
+ * can be repaired are coerced (with a warning); only a missing answer or an
+ * unusable language code make the response invalid.
+ */
+export const validateAiResponse = (value: unknown): ValidationResult<AiResponseData> => {
+  if (!isRecord(value)) return invalid('response is not a JSON object');
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const answer = typeof value.answer === 'string' ? value.answer.trim() : '';
+  if (!answer) errors.push('"answer" must be a non-empty string');
+
+  const language = normalizeLanguageCode(value.language);
+  if (!language) errors.push(`"language" must be a BCP-47 code such as "nb-NO", got ${JSON.stringify(value.language)}`);
+
+  if (!Array.isArray(value.relatedTopics)) warnings.push('"relatedTopics" was not an array');
+  const relatedTopics = Array.from(new Set(coerceStringList(value.relatedTopics)));
+  const followUpQuestions = coerceSentences(value.followUpQuestions, 'followUpQuestions', warnings, MAX_SUGGESTED_QUESTIONS);
+  const clarifyingQuestions = coerceSentences(value.clarifyingQuestions, 'clarifyingQuestions', warnings, MAX_SUGGESTED_QUESTIONS);
+  const assumptions = coerceSentences(value.assumptions, 'assumptions', warnings);
+
+  if (!Array.isArray(value.sourceLinks)) warnings.push('"sourceLinks" was not an array');
+  const sourceLinks: SourceLink[] = [];
+  for (const link of Array.isArray(value.sourceLinks) ? value.sourceLinks : []) {
+    const result = validateSourceLink(link);
+    if (!result.ok) {
+      warnings.push(...result.errors.map(error => `dropped ${error}`));
+      continue;
+    }
+    if (!sourceLinks.some(existing => existing.url === result.data.url)) sourceLinks.push(result.data);
+    warnings.push(...result.warnings);
+  }
+
+  if (errors.length > 0) return invalid(...errors);
+  return valid({ answer, relatedTopics, followUpQuestions, clarifyingQuestions, assumptions, sourceLinks, language: language as string }, warnings);
+};
+
+/** Parses raw model output (optionally wrapped in a ```json fence) and validates it. */
+export const parseAndValidateAiResponse = (rawText: string): ValidationResult<AiResponseData> => {
+  // Sometimes the model wraps the JSON in ```json ... ```, so we need to clean it.
+  const cleanedText = rawText.trim().replace(/^```(?:json)?\s*|```$/g, '').trim();
+  try {
+    return validateAiResponse(JSON.parse(cleanedText));
+  } catch (error) {
+    return invalid(`response is not valid JSON: ${(error as Error).message}`);
+  }
+};
@@ -0,0 +1,68 @@
+import { classifyError, isAbortError } from './errors';
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /** Extra condition for retrying a transient error, e.g. "nothing was streamed yet". */
+  shouldRetry?: (error: unknown) => boolean;
+  /** Called before each retry, e.g. for logging. */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const handleAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  // The same signal may outlive many retries, so listeners must not pile up.
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+/** Exponential backoff with full jitter: a random delay up to base * 2^attempt. */
+export const backoffDelay = (attempt: number, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS): number =>
+  Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+/**
+ * Runs `operation`, retrying transient failures (network errors, rate limits)
+ * with exponential backoff. Other errors, and aborts, are thrown immediately.
+ * Errors are thrown as classified AiServiceErrors.
+ */
+export const withRetry = async <T,>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const {
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    signal,
+    shouldRetry = () => true,
+    onRetry,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt >= retries || !shouldRetry(classified)) throw classified;
+
+      const delayMs = Math.min(maxDelayMs, Math.max(classified.retryAfterMs ?? 0, backoffDelay(attempt, baseDelayMs, maxDelayMs)));
+      onRetry?.(attempt + 1, delayMs, classified);
+      await sleep(delayMs, signal);
+    }
+  }
+};
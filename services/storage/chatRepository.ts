@@ -0,0 +1,233 @@
+import type { ChatMessage, ChatSession } from '../../types';
+import { openDatabase, requestToPromise, toStorageError, transactionDone, StorageError, STORES } from './db';
+import { createEncryptionConfig, seal, unseal, ENCRYPTION_META_KEY } from './encryption';
+import type { EncryptionConfig, SealedData } from './encryption';
+import { ensureMessageTree } from '../../utils/conversationTree';
+
+const LEGACY_STORAGE_KEY = 'chatHistory';
+const LEGACY_IMPORTED_KEY = 'legacyLocalStorageImported';
+
+/** A session as stored: messages live in their own store. */
+export type SessionRecord = Omit<ChatSession, 'messages'>;
+
+/** A message as stored, with its session and position in that session. */
+export type MessageRecord = ChatMessage & { sessionId: string; position: number };
+
+const toSessionRecord = ({ messages, ...session }: ChatSession): SessionRecord => session;
+
+const toMessageRecord = (sessionId: string, message: ChatMessage, position: number): MessageRecord =>
+  ({ ...message, sessionId, position });
+
+const fromMessageRecord = ({ sessionId, position, ...message }: MessageRecord): ChatMessage => message;
+
+/**
+ * An encrypted session or message as stored. Only the keys stay readable, so
+ * the stores and the sessionId index work the same with and without encryption.
+ */
+interface SealedRecord {
+  id: string;
+  sessionId?: string;
+  sealed: SealedData;
+}
+
+const isSealed = (record: object): record is SealedRecord => 'sealed' in record;
+
+const sealSession = async (key: CryptoKey, session: SessionRecord): Promise<SealedRecord> =>
+  ({ id: session.id, sealed: await seal(key, session) });
+
+const sealMessage = async (key: CryptoKey, message: MessageRecord): Promise<SealedRecord> =>
+  ({ id: message.id, sessionId: message.sessionId, sealed: await seal(key, message) });
+
+/** Records written before encryption was turned on are read as they are. */
+const openRecord = async <T extends object,>(key: CryptoKey | null, record: T | SealedRecord): Promise<T> => {
+  if (!isSealed(record)) return record;
+  if (!key) throw new StorageError('locked', 'Your chats are encrypted. Unlock them with your passphrase first.');
+  try {
+    return await unseal<T>(key, record.sealed);
+  } catch (error) {
+    throw new StorageError('damaged', 'A saved chat could not be decrypted. It may be damaged.', error);
+  }
+};
+
+const withStorageErrors = async <T,>(operation: () => Promise<T>): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error) {
+    throw toStorageError(error);
+  }
+};
+
+/** Loads every chat. `key` is needed when the chats are encrypted. */
+export const loadChats = (key: CryptoKey | null = null): Promise<ChatSession[]> => withStorageErrors(async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.sessions, STORES.messages], 'readonly');
+  const [storedSessions, storedMessages] = await Promise.all([
+    requestToPromise(transaction.objectStore(STORES.sessions).getAll() as IDBRequest<(SessionRecord | SealedRecord)[]>),
+    requestToPromise(transaction.objectStore(STORES.messages).getAll() as IDBRequest<(MessageRecord | SealedRecord)[]>),
+  ]);
+  const sessions = await Promise.all(storedSessions.map(record => openRecord<SessionRecord>(key, record)));
+  const messages = await Promise.all(storedMessages.map(record => openRecord<MessageRecord>(key, record)));
+
+  const messagesBySession = new Map<string, MessageRecord[]>();
+  for (const message of messages) {
+    const list = messagesBySession.get(message.sessionId) ?? [];
+    list.push(message);
+    messagesBySession.set(message.sessionId, list);
+  }
+
+  return sessions.map(session => ({
+    ...session,
+    messages: (messagesBySession.get(session.id) ?? [])
+      .sort((a, b) => a.position - b.position)
+      .map(fromMessageRecord),
+  }));
+});
+
+/** Describes what changed between two snapshots of the chat list. */
+export interface ChatChanges {
+  upsertSessions: SessionRecord[];
+  deleteSessionIds: string[];
+  upsertMessages: MessageRecord[];
+  deleteMessageIds: string[];
+}
+
+/**
+ * Compares two snapshots of the chat list. State updates are immutable, so an
+ * unchanged session or message keeps its identity and is skipped.
+ */
+export const diffChats = (previous: ChatSession[], next: ChatSession[]): ChatChanges => {
+  const changes: ChatChanges = { upsertSessions: [], deleteSessionIds: [], upsertMessages: [], deleteMessageIds: [] };
+  const previousById = new Map(previous.map(session => [session.id, session]));
+  const nextIds = new Set(next.map(session => session.id));
+
+  for (const session of previous) {
+    if (!nextIds.has(session.id)) {
+      changes.deleteSessionIds.push(session.id);
+      changes.deleteMessageIds.push(...session.messages.map(m => m.id));
+    }
+  }
+
+  for (const session of next) {
+    const before = previousById.get(session.id);
+    if (before === session) continue;
+
+    const record = toSessionRecord(session);
+    if (!before || JSON.stringify(toSessionRecord(before)) !== JSON.stringify(record)) {
+      changes.upsertSessions.push(record);
+    }
+
+    const beforeMessages = before?.messages ?? [];
+    session.messages.forEach((message, position) => {
+      if (beforeMessages[position] !== message) {
+        changes.upsertMessages.push(toMessageRecord(session.id, message, position));
+      }
+    });
+    const nextMessageIds = new Set(session.messages.map(m => m.id));
+    changes.deleteMessageIds.push(...beforeMessages.filter(m => !nextMessageIds.has(m.id)).map(m => m.id));
+  }
+
+  return changes;
+};
+
+export const hasChanges = (changes: ChatChanges) =>
+  changes.upsertSessions.length + changes.deleteSessionIds.length + changes.upsertMessages.length + changes.deleteMessageIds.length > 0;
+
+/**
+ * Writes a set of changes in one transaction, so a failure leaves storage
+ * unchanged. With a key the records are encrypted first: a transaction
+ * commits as soon as it is left idle, so nothing may be awaited inside it.
+ */
+export const applyChanges = (changes: ChatChanges, key: CryptoKey | null = null): Promise<void> => withStorageErrors(async () => {
+  const upsertSessions = key ? await Promise.all(changes.upsertSessions.map(session => sealSession(key, session))) : changes.upsertSessions;
+  const upsertMessages = key ? await Promise.all(changes.upsertMessages.map(message => sealMessage(key, message))) : changes.upsertMessages;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.sessions, STORES.messages], 'readwrite');
+  const sessions = transaction.objectStore(STORES.sessions);
+  const messages = transaction.objectStore(STORES.messages);
+
+  changes.deleteMessageIds.forEach(id => messages.delete(id));
+  changes.deleteSessionIds.forEach(id => sessions.delete(id));
+  upsertSessions.forEach(session => sessions.put(session));
+  upsertMessages.forEach(message => messages.put(message));
+  await transactionDone(transaction);
+});
+
+/** The stored encryption settings, or null when the chats are not encrypted. */
+export const getEncryptionConfig = (): Promise<EncryptionConfig | null> => withStorageErrors(async () => {
+  const db = await openDatabase();
+  const config = await requestToPromise(db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(ENCRYPTION_META_KEY));
+  return (config as EncryptionConfig | undefined) ?? null;
+});
+
+/**
+ * Replaces every stored chat with `chats`, encrypted with `key` or in plain
+ * form, together with the matching config, in one transaction.
+ */
+const rewriteChats = async (chats: ChatSession[], key: CryptoKey | null, config: EncryptionConfig | null): Promise<void> => {
+  const sessionRecords = chats.map(toSessionRecord);
+  const messageRecords = chats.flatMap(chat => chat.messages.map((message, position) => toMessageRecord(chat.id, message, position)));
+  const sessionValues = key ? await Promise.all(sessionRecords.map(session => sealSession(key, session))) : sessionRecords;
+  const messageValues = key ? await Promise.all(messageRecords.map(message => sealMessage(key, message))) : messageRecords;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.sessions, STORES.messages, STORES.meta], 'readwrite');
+  const sessions = transaction.objectStore(STORES.sessions);
+  const messages = transaction.objectStore(STORES.messages);
+  sessions.clear();
+  messages.clear();
+  sessionValues.forEach(session => sessions.put(session));
+  messageValues.forEach(message => messages.put(message));
+  if (config) transaction.objectStore(STORES.meta).put(config, ENCRYPTION_META_KEY);
+  else transaction.objectStore(STORES.meta).delete(ENCRYPTION_META_KEY);
+  await transactionDone(transaction);
+};
+
+/**
+ * Encrypts all stored chats with a new passphrase. Pass the current key to
+ * change the passphrase of chats that are already encrypted. Returns the new key.
+ */
+export const encryptChats = (passphrase: string, currentKey: CryptoKey | null = null): Promise<CryptoKey> => withStorageErrors(async () => {
+  const chats = await loadChats(currentKey);
+  const { key, config } = await createEncryptionConfig(passphrase);
+  await rewriteChats(chats, key, config);
+  return key;
+});
+
+/** Decrypts all stored chats and turns encryption off. */
+export const decryptChats = (currentKey: CryptoKey): Promise<void> => withStorageErrors(async () => {
+  await rewriteChats(await loadChats(currentKey), null, null);
+});
+
+/**
+ * One-time import of the chat history that older versions kept in
+ * localStorage. The localStorage copy is removed once it is safely stored.
+ */
+export const importLegacyLocalStorage = (): Promise<number> => withStorageErrors(async () => {
+  const db = await openDatabase();
+  const imported = await requestToPromise(db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(LEGACY_IMPORTED_KEY));
+  const raw = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (imported || !raw) return 0;
+
+  let legacyChats: ChatSession[];
+  try {
+    legacyChats = JSON.parse(raw);
+    if (!Array.isArray(legacyChats)) throw new Error('chatHistory is not an array');
+  } catch (error) {
+    console.error('Could not read the old chat history from localStorage:', error);
+    return 0;
+  }
+
+  const transaction = db.transaction([STORES.sessions, STORES.messages, STORES.meta], 'readwrite');
+  for (const chat of legacyChats.map(ensureMessageTree)) {
+    transaction.objectStore(STORES.sessions).put(toSessionRecord(chat));
+    chat.messages.forEach((message, position) => {
+      transaction.objectStore(STORES.messages).put(toMessageRecord(chat.id, message, position));
+    });
+  }
+  transaction.objectStore(STORES.meta).put(Date.now(), LEGACY_IMPORTED_KEY);
+  await transactionDone(transaction);
+
+  window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacyChats.length;
+});
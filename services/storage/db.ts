@@ -0,0 +1,113 @@
+import { MIGRATIONS, SCHEMA_VERSION } from './migrations';
+
+export const DB_NAME = 'ai-union-helper';
+
+export const STORES = {
+  sessions: 'sessions',
+  messages: 'messages',
+  meta: 'meta',
+} as const;
+
+export type StorageErrorKind =
+  | 'unsupported'
+  | 'openFailed'
+  | 'blocked'
+  | 'deleteFailed'
+  | 'full'
+  | 'saveFailed'
+  | 'locked'
+  | 'damaged'
+  | 'insecure';
+
+/** A storage failure. The UI shows a message for `kind`; `message` is for the logs. */
+export class StorageError extends Error {
+  readonly kind: StorageErrorKind;
+
+  constructor(kind: StorageErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'StorageError';
+    this.kind = kind;
+  }
+}
+
+/** Wraps an IDBRequest in a promise. */
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Resolves when the transaction commits, rejects if it fails or is aborted. */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and if needed creates or upgrades) the database. Every migration
+ * between the stored version and SCHEMA_VERSION runs inside the upgrade
+ * transaction, so a failed migration leaves the previous version intact.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('unsupported', 'This browser does not support IndexedDB, so chats cannot be saved.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction as IDBTransaction;
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion && migration.version <= SCHEMA_VERSION) {
+          migration.migrate(db, transaction);
+        }
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: close so it is not blocked.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(new StorageError('openFailed', 'Could not open the chat database.', request.error));
+    request.onblocked = () => reject(new StorageError('blocked', 'The chat database is in use by an older version of the app in another tab. Close other tabs and reload.'));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+/** Closes the connection and deletes the whole database. */
+export const deleteDatabase = async (): Promise<void> => {
+  if (dbPromise) {
+    const db = await dbPromise.catch(() => null);
+    db?.close();
+    dbPromise = null;
+  }
+  if (typeof indexedDB === 'undefined') return;
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(new StorageError('deleteFailed', 'The chat database could not be deleted.', request.error));
+    // Other tabs close their connection on versionchange, which unblocks the delete.
+  });
+};
+
+/** Sorts low-level IndexedDB failures into the kinds the UI has messages for. */
+export const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return new StorageError('full', 'Your browser storage is full, so the latest changes were not saved. Export and delete old chats to free space.', error);
+  }
+  return new StorageError('saveFailed', 'Your chats could not be saved to browser storage.', error);
+};
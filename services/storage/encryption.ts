@@ -0,0 +1,81 @@
+import { StorageError } from './db';
+
+// Chat history can be encrypted at rest with a key derived from a passphrase.
+// Each record is sealed on its own with AES-GCM and a fresh IV, so the diff-based
+// writes keep working. The key only lives in memory while the app is unlocked.
+
+/** Encryption settings stored in the meta store under ENCRYPTION_META_KEY. */
+export interface EncryptionConfig {
+  salt: Uint8Array;
+  iterations: number;
+  /** A known value sealed with the key, used to tell whether a passphrase is right. */
+  check: SealedData;
+  createdAt: number;
+}
+
+/** Ciphertext plus the IV it was sealed with. */
+export interface SealedData {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export const ENCRYPTION_META_KEY = 'encryption';
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256. WebCrypto has no Argon2.
+const PBKDF2_ITERATIONS = 600_000;
+const CHECK_VALUE = 'ai-union-helper';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const requireCrypto = (): SubtleCrypto => {
+  if (!globalThis.crypto?.subtle) {
+    throw new StorageError('insecure', 'Encryption needs a secure (https) connection and a browser with WebCrypto.');
+  }
+  return globalThis.crypto.subtle;
+};
+
+/** Derives a non-extractable AES-GCM key from the passphrase. */
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const subtle = requireCrypto();
+  const material = await subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+export const seal = async (key: CryptoKey, value: unknown): Promise<SealedData> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await requireCrypto().encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(value)));
+  return { iv, data };
+};
+
+/** Rejects when the key is wrong or the data was tampered with. */
+export const unseal = async <T,>(key: CryptoKey, sealed: SealedData): Promise<T> => {
+  const plain = await requireCrypto().decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+  return JSON.parse(decoder.decode(plain)) as T;
+};
+
+/** Creates a new salt and key for a passphrase, with the config to store next to the data. */
+export const createEncryptionConfig = async (passphrase: string): Promise<{ key: CryptoKey; config: EncryptionConfig }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const check = await seal(key, CHECK_VALUE);
+  return { key, config: { salt, iterations: PBKDF2_ITERATIONS, check, createdAt: Date.now() } };
+};
+
+/** The key for a passphrase, or null when the passphrase is wrong. */
+export const unlockKey = async (passphrase: string, config: EncryptionConfig): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  try {
+    return (await unseal<string>(key, config.check)) === CHECK_VALUE ? key : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,54 @@
+export interface Migration {
+  version: number;
+  description: string;
+  /** Runs inside the versionchange transaction; must only use `transaction`. */
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Schema history of the chat database. Append a migration and bump
+ * SCHEMA_VERSION whenever the stored shape of sessions or messages changes;
+ * never edit a migration that has been released. Encrypted records only
+ * expose `id` and `sessionId`, so a migration cannot rely on other fields.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Sessions and messages in separate stores',
+    migrate: (db) => {
+      db.createObjectStore('sessions', { keyPath: 'id' });
+      const messages = db.createObjectStore('messages', { keyPath: 'id' });
+      messages.createIndex('sessionId', 'sessionId');
+      db.createObjectStore('meta');
+    },
+  },
+  {
+    version: 2,
+    description: 'Messages form a tree: link each message to the one before it',
+    migrate: (_db, transaction) => {
+      const sessions = transaction.objectStore('sessions');
+      const messages = transaction.objectStore('messages');
+      messages.getAll().onsuccess = (event) => {
+        const records = (event.target as IDBRequest).result as { id: string; sessionId: string; position: number; parentId?: string | null }[];
+        const bySession = new Map<string, typeof records>();
+        for (const record of records) {
+          bySession.set(record.sessionId, [...(bySession.get(record.sessionId) ?? []), record]);
+        }
+
+        for (const [sessionId, sessionMessages] of bySession) {
+          sessionMessages.sort((a, b) => a.position - b.position);
+          sessionMessages.forEach((record, index) => {
+            messages.put({ ...record, parentId: index === 0 ? null : sessionMessages[index - 1].id });
+          });
+          const leafId = sessionMessages[sessionMessages.length - 1].id;
+          sessions.get(sessionId).onsuccess = (getEvent) => {
+            const session = (getEvent.target as IDBRequest).result;
+            if (session) sessions.put({ ...session, activeLeafId: leafId });
+          };
+        }
+      };
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { describeToolResults, runToolCall } from './tools';
+
+describe('describeToolResults', () => {
+  it('gives the model the calculation steps in English', () => {
+    const result = runToolCall({ name: 'calculate_holiday_pay', args: { basis: 500_000, rate: 10.2 } });
+    const description = describeToolResults([result]);
+    expect(description).toContain('"steps":["');
+    expect(description).not.toContain('calculators.step');
+  });
+
+  it('gives the model the benefit estimates in English', () => {
+    const result = runToolCall({ name: 'estimate_sick_pay', args: { annualIncome: 520_000, firstSickDay: '2025-06-02' } });
+    expect(describeToolResults([result])).toContain('NAV pays from 2025-06-18, for at most 248 days.');
+  });
+
+  it('translates messages inside messages', () => {
+    const result = runToolCall({ name: 'calculate_notice_deadlines', args: { employmentStart: '2020-01-01', noticeReceived: '2025-06-02', age: 40 } });
+    expect(describeToolResults([result])).toContain('A notice period of 2 months after 5 full years of employment.');
+  });
+
+  it('passes errors on in English', () => {
+    const result = runToolCall({ name: 'calculate_final_holiday_pay', args: { monthlySalary: 50_000, monthsWorked: 13, rate: 10.2 } });
+    expect(describeToolResults([result])).toContain('error: The months worked this year cannot exceed 12.');
+  });
+});
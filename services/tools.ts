@@ -0,0 +1,269 @@
+import type { ToolResult } from '../types';
+import type { ToolCall, ToolDeclaration } from './providers';
+import { createTranslator, isLocalizedMessage } from '../i18n';
+import { calculateFinalHolidayPay, calculateHolidayPay, calculateOvertimePay } from '../utils/payCalculators';
+import type { HolidayPayRate } from '../utils/payCalculators';
+import { calculateNoticeDeadlines } from '../utils/noticePeriod';
+import type { NoticeGivenBy } from '../utils/noticePeriod';
+import { calculateLayoffPay, calculateSickPay, calculateUnemploymentBenefit } from '../utils/navBenefits';
+
+/** A tool the model can call while answering. `run` throws on invalid arguments. */
+interface AdviceTool {
+  declaration: ToolDeclaration;
+  run: (args: ToolArgs) => unknown;
+}
+
+type ToolArgs = Record<string, unknown>;
+
+// These only check the type of each argument the model sent; the calculators
+// check ranges, dates and the holiday pay rate. Missing optional arguments,
+// sent as null by some models, are left to the calculators' defaults.
+
+const numberArg = (args: ToolArgs, name: string): number | undefined => {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number') throw new RangeError(`${name} must be a number.`);
+  return value;
+};
+
+const stringArg = (args: ToolArgs, name: string): string | undefined => {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new RangeError(`${name} must be a string.`);
+  return value;
+};
+
+const booleanArg = (args: ToolArgs, name: string): boolean | undefined => {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') throw new RangeError(`${name} must be true or false.`);
+  return value;
+};
+
+const required = <T,>(value: T | undefined, name: string): T => {
+  if (value === undefined) throw new RangeError(`${name} is required.`);
+  return value;
+};
+
+const numberArrayArg = (args: ToolArgs, name: string): number[] => {
+  const value = required(args[name] ?? undefined, name);
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'number')) throw new RangeError(`${name} must be a list of numbers.`);
+  return value;
+};
+
+const oneOfArg = <T extends string>(args: ToolArgs, name: string, options: readonly T[]): T | undefined => {
+  const value = stringArg(args, name);
+  if (value !== undefined && !options.includes(value as T)) throw new RangeError(`${name} must be one of ${options.join(', ')}.`);
+  return value as T | undefined;
+};
+
+const rateArg = (args: ToolArgs) => required(numberArg(args, 'rate'), 'rate') as HolidayPayRate;
+
+const NOTICE_GIVEN_BY: NoticeGivenBy[] = ['employer', 'employee'];
+
+const rateParameter = {
+  type: 'number' as const,
+  description: 'Holiday pay rate in percent: 10.2 for the statutory holiday, 12 when a collective agreement gives five weeks.',
+};
+
+const over60Parameter = {
+  type: 'boolean' as const,
+  description: 'True if the worker turns 60 by 1 September of the holiday year, which is the year after the earning year. Ignored when birthDate is given.',
+};
+
+const birthDateParameter = {
+  type: 'string' as const,
+  description: "The worker's date of birth, YYYY-MM-DD, if known. Decides the extra rate for workers over 60.",
+};
+
+const ADVICE_TOOLS: AdviceTool[] = [
+  {
+    declaration: {
+      name: 'calculate_holiday_pay',
+      description: 'Calculates feriepenger (holiday pay) from the pay earned in the earning year, including the extra rate for workers over 60.',
+      parameters: {
+        type: 'object',
+        properties: {
+          basis: { type: 'number', description: 'Feriepengegrunnlag: pay earned in the earning year, in NOK.' },
+          rate: rateParameter,
+          over60: over60Parameter,
+          birthDate: birthDateParameter,
+          earningYear: { type: 'integer', description: 'The year the pay was earned in. Defaults to last year.' },
+        },
+        required: ['basis', 'rate'],
+      },
+    },
+    run: args => calculateHolidayPay({
+      basis: required(numberArg(args, 'basis'), 'basis'),
+      rate: rateArg(args),
+      over60: booleanArg(args, 'over60'),
+      birthDate: stringArg(args, 'birthDate'),
+      earningYear: numberArg(args, 'earningYear'),
+    }),
+  },
+  {
+    declaration: {
+      name: 'calculate_overtime_pay',
+      description: 'Calculates pay for one week including overtime (overtidsbetaling), using the daily and weekly limits in arbeidsmiljøloven.',
+      parameters: {
+        type: 'object',
+        properties: {
+          hourlyWage: { type: 'number', description: 'Ordinary hourly wage in NOK.' },
+          dailyHours: { type: 'array', items: { type: 'number' }, description: 'Hours worked on each day of the week, one to seven entries.' },
+          supplementPercent: { type: 'number', description: 'Overtime supplement in percent. At least 40; use 40 unless an agreement says more.' },
+          dailyLimit: { type: 'number', description: 'Daily hours before overtime. Defaults to 9.' },
+          weeklyLimit: { type: 'number', description: 'Weekly hours before overtime. Defaults to 40.' },
+        },
+        required: ['hourlyWage', 'dailyHours'],
+      },
+    },
+    run: args => calculateOvertimePay({
+      hourlyWage: required(numberArg(args, 'hourlyWage'), 'hourlyWage'),
+      dailyHours: numberArrayArg(args, 'dailyHours'),
+      supplementPercent: numberArg(args, 'supplementPercent'),
+      dailyLimit: numberArg(args, 'dailyLimit'),
+      weeklyLimit: numberArg(args, 'weeklyLimit'),
+    }),
+  },
+  {
+    declaration: {
+      name: 'calculate_final_holiday_pay',
+      description: 'Calculates the holiday pay paid out when employment ends: holiday pay on this year\'s earnings so far plus unpaid holiday pay from last year.',
+      parameters: {
+        type: 'object',
+        properties: {
+          monthlySalary: { type: 'number', description: 'Monthly salary in NOK.' },
+          monthsWorked: { type: 'number', description: 'Months worked this calendar year up to the last working day.' },
+          otherEarnings: { type: 'number', description: 'Other pay this year that counts towards holiday pay, e.g. overtime, in NOK.' },
+          unpaidFromLastYear: { type: 'number', description: 'Holiday pay earned last year that has not been paid out, in NOK.' },
+          rate: rateParameter,
+          over60: over60Parameter,
+          birthDate: birthDateParameter,
+        },
+        required: ['monthlySalary', 'monthsWorked', 'rate'],
+      },
+    },
+    run: args => calculateFinalHolidayPay({
+      monthlySalary: required(numberArg(args, 'monthlySalary'), 'monthlySalary'),
+      monthsWorked: required(numberArg(args, 'monthsWorked'), 'monthsWorked'),
+      otherEarnings: numberArg(args, 'otherEarnings'),
+      unpaidFromLastYear: numberArg(args, 'unpaidFromLastYear'),
+      rate: rateArg(args),
+      over60: booleanArg(args, 'over60'),
+      birthDate: stringArg(args, 'birthDate'),
+    }),
+  },
+  {
+    declaration: {
+      name: 'calculate_notice_deadlines',
+      description: 'Calculates the notice period after oppsigelse (arbeidsmiljøloven §15-3) and the dates that follow from it: when the notice period starts, the last day of employment, the deadline to demand negotiations and the deadlines to sue.',
+      parameters: {
+        type: 'object',
+        properties: {
+          employmentStart: { type: 'string', description: 'First day of employment, YYYY-MM-DD.' },
+          age: { type: 'number', description: "The worker's age when the notice was received." },
+          noticeReceived: { type: 'string', description: 'Day the written notice was received, YYYY-MM-DD.' },
+          givenBy: { type: 'string', enum: ['employer', 'employee'], description: 'Who gave notice. Defaults to employer.' },
+          probation: { type: 'boolean', description: 'True if the notice was given during probation (prøvetid).' },
+          agreedMonths: { type: 'integer', description: 'Notice period in months from the contract or collective agreement, if stated.' },
+        },
+        required: ['employmentStart', 'age', 'noticeReceived'],
+      },
+    },
+    run: args => calculateNoticeDeadlines({
+      employmentStart: required(stringArg(args, 'employmentStart'), 'employmentStart'),
+      age: required(numberArg(args, 'age'), 'age'),
+      noticeReceived: required(stringArg(args, 'noticeReceived'), 'noticeReceived'),
+      givenBy: oneOfArg(args, 'givenBy', NOTICE_GIVEN_BY),
+      probation: booleanArg(args, 'probation'),
+      agreedMonths: numberArg(args, 'agreedMonths'),
+    }),
+  },
+  {
+    declaration: {
+      name: 'estimate_sick_pay',
+      description: 'Estimates sykepenger (sick pay) from NAV: the daily rate with the 6 G cap, the 16 days the employer pays, and when NAV starts paying.',
+      parameters: {
+        type: 'object',
+        properties: {
+          annualIncome: { type: 'number', description: 'Yearly income from work before the sick leave, in NOK.' },
+          firstSickDay: { type: 'string', description: 'First day of sick leave, YYYY-MM-DD. Defaults to today.' },
+          sickLeavePercent: { type: 'number', description: 'Graded sick leave in percent, 20 to 100. Defaults to 100.' },
+        },
+        required: ['annualIncome'],
+      },
+    },
+    run: args => calculateSickPay({
+      annualIncome: required(numberArg(args, 'annualIncome'), 'annualIncome'),
+      firstSickDay: stringArg(args, 'firstSickDay'),
+      sickLeavePercent: numberArg(args, 'sickLeavePercent'),
+    }),
+  },
+  {
+    declaration: {
+      name: 'estimate_unemployment_benefit',
+      description: 'Estimates dagpenger (unemployment benefit) from NAV: whether the income is high enough, the daily rate and for how many weeks it is paid.',
+      parameters: {
+        type: 'object',
+        properties: {
+          incomeLast12Months: { type: 'number', description: 'Income from work in the last 12 months, in NOK.' },
+          incomeLast36Months: { type: 'number', description: 'Income from work in the last 36 months including the last 12, in NOK, if known.' },
+          claimDate: { type: 'string', description: 'Day dagpenger are claimed from, YYYY-MM-DD. Defaults to today.' },
+        },
+        required: ['incomeLast12Months'],
+      },
+    },
+    run: args => calculateUnemploymentBenefit({
+      incomeLast12Months: required(numberArg(args, 'incomeLast12Months'), 'incomeLast12Months'),
+      incomeLast36Months: numberArg(args, 'incomeLast36Months'),
+      claimDate: stringArg(args, 'claimDate'),
+    }),
+  },
+  {
+    declaration: {
+      name: 'estimate_layoff_pay',
+      description: 'Calculates what the employer must pay during permittering (temporary layoff), when NAV takes over with dagpenger, and the latest end of the layoff.',
+      parameters: {
+        type: 'object',
+        properties: {
+          monthlySalary: { type: 'number', description: 'Monthly salary in NOK.' },
+          layoffStart: { type: 'string', description: 'First day of the layoff, YYYY-MM-DD.' },
+          layoffPercent: { type: 'number', description: 'Share of the working time laid off, in percent. Defaults to 100.' },
+          noticeReceived: { type: 'string', description: 'Day the written notice of layoff was received, YYYY-MM-DD, if known.' },
+        },
+        required: ['monthlySalary', 'layoffStart'],
+      },
+    },
+    run: args => calculateLayoffPay({
+      monthlySalary: required(numberArg(args, 'monthlySalary'), 'monthlySalary'),
+      layoffStart: required(stringArg(args, 'layoffStart'), 'layoffStart'),
+      layoffPercent: numberArg(args, 'layoffPercent'),
+      noticeReceived: stringArg(args, 'noticeReceived'),
+    }),
+  },
+];
+
+export const TOOL_DECLARATIONS: ToolDeclaration[] = ADVICE_TOOLS.map(tool => tool.declaration);
+
+/** Runs a tool the model asked for. Errors are returned, not thrown, so the model can explain them. */
+export const runToolCall = ({ name, args }: ToolCall): ToolResult => {
+  const tool = ADVICE_TOOLS.find(t => t.declaration.name === name);
+  if (!tool) return { name, args, error: `Unknown tool "${name}".` };
+  try {
+    return { name, args, result: tool.run(args) };
+  } catch (error) {
+    return { name, args, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const english = createTranslator('en');
+
+/** Tool results hold messages to show in the UI language; the model reads them in English. */
+const resultToJson = (result: unknown): string =>
+  JSON.stringify(result, (_, value) => isLocalizedMessage(value) ? english(value.key, value.params) : value);
+
+/** Instruction appended to the system prompt so the answer uses the computed numbers. */
+export const describeToolResults = (results: ToolResult[]): string =>
+  `The following calculations were made with exact calculators for the latest question. Use these numbers exactly; do not redo the arithmetic. If a calculation failed, explain which input is missing or invalid.\n${
+    results.map(r => `- ${r.name}(${JSON.stringify(r.args)}) → ${r.error ? `error: ${r.error}` : resultToJson(r.result)}`).join('\n')
+  }`;
@@ -7,8 +7,34 @@ export interface SourceLink {
 export interface AiResponseData {
   answer: string;
   relatedTopics: string[];
+  followUpQuestions?: string[]; // 2-3 questions the user could ask next. Missing on answers saved before they were introduced.
+  clarifyingQuestions?: string[]; // Facts the model needs from the user to give firmer advice.
+  assumptions?: string[]; // Details from the user's profile the answer relies on. See utils/profile.ts.
   sourceLinks: SourceLink[];
   language: string; // BCP-47 language code, e.g., 'en-US', 'nb-NO'
+  toolResults?: ToolResult[]; // Calculators the model ran for this answer. See services/tools.ts.
+  cachedAt?: number; // Epoch milliseconds when a reused answer was generated. See services/responseCache.ts.
+}
+
+/** The outcome of a calculator tool the model called. */
+export interface ToolResult {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+export type ArtifactKind = 'simplification' | 'emailDraft';
+
+/**
+ * Content derived from a model answer, e.g. a simplified explanation or an
+ * email draft. Regenerating adds a new version; earlier versions are kept.
+ */
+export interface MessageArtifact {
+  id: string;
+  kind: ArtifactKind;
+  content: string;
+  createdAt: number; // Epoch milliseconds.
 }
 
 export interface ChatMessage {
@@ -16,10 +42,55 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   aiResponseData?: AiResponseData;
+  interrupted?: boolean; // The answer was stopped before it finished streaming.
+  createdAt?: number; // Epoch milliseconds. Missing on messages saved before it was introduced.
+  artifacts?: MessageArtifact[]; // Oldest first.
+  parentId?: string | null; // The message this one follows; null for the first question. See utils/conversationTree.ts.
 }
 
 export interface ChatSession {
   id: string;
   title: string;
   messages: ChatMessage[];
-}
\ No newline at end of file
+  createdAt?: number; // Epoch milliseconds. Missing on chats saved before it was introduced.
+  updatedAt?: number; // Epoch milliseconds of the last new message or rename.
+  pinned?: boolean;
+  activeLeafId?: string; // Last message of the branch currently shown.
+  useProfile?: boolean; // The user opted in to sending their profile with questions in this chat.
+  redactions?: Record<string, string>; // Token → original value for personal data hidden from the model, see utils/redaction.ts.
+}
+/** Preferences for reading answers aloud and for voice conversations. Kept in localStorage. */
+export interface VoiceSettings {
+  recognitionLanguage: string; // BCP-47 code the user speaks, or 'auto' for the interface language.
+  voices: Record<string, string>; // Chosen voiceURI per language, keyed by getVoiceLanguage in utils/speech.ts.
+  rate: number; // Speaking rate; 1 is the voice's normal speed.
+}
+
+/** What personal data is hidden before text is sent to the model. Kept in localStorage. */
+export interface RedactionSettings {
+  enabled: boolean;
+  detectNames: boolean; // Names are guessed, so this is off unless the user turns it on.
+  customTerms: string[]; // Words that are always hidden, such as the employer's name.
+}
+
+export type Sector = 'private' | 'municipal' | 'state';
+export type EmploymentType = 'permanent' | 'temporary' | 'hired' | 'onCall';
+export type TenureBand = 'under1' | '1to5' | '5to10' | '10plus';
+export type AgeBand = 'under18' | '18to49' | '50to54' | '55to59' | '60to66' | '67plus';
+export type YesNoUnknown = 'yes' | 'no' | 'unknown';
+
+/**
+ * What the user has told us about their job, stored only in localStorage. Every
+ * field is optional; bands are used instead of exact values where they are
+ * enough to apply the rules (e.g. longer notice periods from age 50).
+ */
+export interface UserProfile {
+  sector?: Sector;
+  employmentType?: EmploymentType;
+  tenure?: TenureBand;
+  ageBand?: AgeBand;
+  unionMember?: YesNoUnknown;
+  tariffAgreement?: YesNoUnknown;
+  workPermit?: YesNoUnknown; // Whether the user's right to work depends on a residence permit for work.
+  municipality?: string;
+}
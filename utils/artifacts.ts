@@ -0,0 +1,17 @@
+import type { ArtifactKind, ChatMessage, MessageArtifact } from '../types';
+
+export const createArtifact = (kind: ArtifactKind, content: string): MessageArtifact => ({
+  id: `${kind}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+  kind,
+  content,
+  createdAt: Date.now(),
+});
+
+/** All versions of one kind of artifact on a message, oldest first. */
+export const getArtifactVersions = (message: ChatMessage, kind: ArtifactKind): MessageArtifact[] =>
+  (message.artifacts ?? []).filter(artifact => artifact.kind === kind);
+
+export const addArtifact = (message: ChatMessage, artifact: MessageArtifact): ChatMessage => ({
+  ...message,
+  artifacts: [...(message.artifacts ?? []), artifact],
+});
@@ -0,0 +1,16 @@
+import { translate } from '../i18n';
+import type { LocalizedMessage, MessageKey, MessageParams } from '../i18n';
+
+/**
+ * Invalid input to one of the calculators. The message is in English, for the
+ * model and the logs; the calculator panel shows `detail` in the UI language.
+ */
+export class CalculationError extends RangeError {
+  readonly detail: LocalizedMessage;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(translate('en', key, params));
+    this.name = 'CalculationError';
+    this.detail = { key, params };
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ChatImportError, EXPORT_FORMAT, EXPORT_VERSION, exportChatsToMarkdown, parseChatExport } from './chatExport';
+import { createTranslator } from '../i18n';
+
+const en = createTranslator('en');
+
+const exportFile = (messages: unknown[]) => JSON.stringify({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: '2025-06-01T12:00:00.000Z',
+  chats: [{ id: 'c1', title: 'Overtime', messages }],
+});
+
+describe('parseChatExport', () => {
+  it('fills in missing lists in imported answers', () => {
+    const [chat] = parseChatExport(exportFile([
+      { id: '1', role: 'user', text: 'Do I get overtime pay?' },
+      { id: '2', role: 'model', text: 'Yes.', aiResponseData: { answer: 'Yes, at least 40 %.', language: 'en-US' } },
+    ]));
+    expect(chat.messages[1].aiResponseData).toMatchObject({ answer: 'Yes, at least 40 %.', relatedTopics: [], sourceLinks: [] });
+    expect(() => exportChatsToMarkdown([chat], en)).not.toThrow();
+  });
+
+  it('keeps calculator results and drops answer data that cannot be repaired', () => {
+    const toolResults = [{ name: 'calculate_overtime_pay', args: {}, result: { total: 100 } }];
+    const [chat] = parseChatExport(exportFile([
+      { id: '1', role: 'user', text: 'Question' },
+      { id: '2', role: 'model', text: 'Answer', aiResponseData: { answer: 'Answer', language: 'en-US', relatedTopics: [], sourceLinks: [], toolResults } },
+      { id: '3', role: 'model', text: 'Broken', aiResponseData: { relatedTopics: 'none' } },
+    ]));
+    expect(chat.messages[1].aiResponseData?.toolResults).toEqual(toolResults);
+    expect(chat.messages[2].aiResponseData).toBeUndefined();
+    expect(exportChatsToMarkdown([chat], en)).toContain('Broken');
+  });
+
+  it('rejects files that are not chat exports', () => {
+    expect(() => parseChatExport('{"chats": []}')).toThrow('not an AI Union Helper chat export');
+    expect(() => parseChatExport('{"chats": []}')).toThrow(expect.objectContaining({ kind: 'notExport' }));
+    expect(() => parseChatExport('not json')).toThrow(ChatImportError);
+  });
+});
+
+describe('exportChatsToMarkdown', () => {
+  it('writes the headings in the UI language', () => {
+    const [chat] = parseChatExport(exportFile([
+      { id: '1', role: 'user', text: 'Får jeg overtidsbetaling?' },
+      { id: '2', role: 'model', text: 'Ja.', aiResponseData: { answer: 'Ja.', language: 'nb-NO', sourceLinks: [{ title: 'Lovdata', url: 'https://lovdata.no' }] } },
+    ]));
+    const markdown = exportChatsToMarkdown([chat], createTranslator('nb'));
+    expect(markdown).toContain('## Spørsmål');
+    expect(markdown).toContain('## Svar');
+    expect(markdown).toContain('### Kilder');
+  });
+});
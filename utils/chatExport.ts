@@ -0,0 +1,192 @@
+import type { ChatMessage, ChatSession } from '../types';
+import { getChatUpdatedAt } from './chatHistory';
+import { ensureMessageTree, getActivePath } from './conversationTree';
+import { resolveLawLinks } from './lawCitations';
+import { validateAiResponse } from '../services/responseValidator';
+import type { Translate } from '../i18n';
+
+export type ExportFormat = 'json' | 'markdown' | 'report';
+
+export const EXPORT_FORMAT = 'ai-union-helper/chats';
+export const EXPORT_VERSION = 1;
+
+export interface ChatExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  chats: ChatSession[];
+}
+
+/** Messages saved before timestamps were stored use their Date.now() based id. */
+export const getMessageTimestamp = (message: ChatMessage): number | null =>
+  message.createdAt ?? (Number(message.id) || null);
+
+export const formatTimestamp = (timestamp: number | null | undefined): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : '';
+
+export const exportChatsToJson = (chats: ChatSession[]): string => {
+  const file: ChatExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chats,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value)
+  && typeof value.id === 'string'
+  && (value.role === 'user' || value.role === 'model')
+  && typeof value.text === 'string';
+
+/**
+ * Answer data from a file goes through the same validation as a fresh model
+ * response, keeping the calculator results and cache date it does not know about.
+ * Data that cannot be repaired is dropped; the message text still shows the answer.
+ */
+const sanitizeMessage = (message: ChatMessage): ChatMessage => {
+  if (message.aiResponseData === undefined) return message;
+  const { data } = validateAiResponse(message.aiResponseData);
+  if (!data) return { ...message, aiResponseData: undefined };
+  const { toolResults, cachedAt } = message.aiResponseData;
+  return {
+    ...message,
+    aiResponseData: {
+      ...data,
+      ...(Array.isArray(toolResults) ? { toolResults } : {}),
+      ...(typeof cachedAt === 'number' ? { cachedAt } : {}),
+    },
+  };
+};
+
+const isChatSession = (value: unknown): value is ChatSession =>
+  isRecord(value)
+  && typeof value.id === 'string'
+  && typeof value.title === 'string'
+  && Array.isArray(value.messages)
+  && value.messages.every(isChatMessage);
+
+/** `unreadable` is for files that could not be read at all, before parsing. */
+export type ChatImportErrorKind = 'invalidJson' | 'notExport' | 'newerVersion' | 'invalidChats' | 'unreadable';
+
+/** A file could not be imported. The UI shows a message for `kind`. */
+export class ChatImportError extends Error {
+  readonly kind: ChatImportErrorKind;
+
+  constructor(kind: ChatImportErrorKind, message: string) {
+    super(message);
+    this.name = 'ChatImportError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Reads an exported JSON file. Throws a ChatImportError if the file is not a
+ * chat export or was written by a newer version of the app.
+ */
+export const parseChatExport = (text: string): ChatSession[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ChatImportError('invalidJson', 'The file is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT) {
+    throw new ChatImportError('notExport', 'The file is not an AI Union Helper chat export.');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new ChatImportError('newerVersion', 'The file was exported by a newer version of the app.');
+  }
+  if (!Array.isArray(data.chats) || !data.chats.every(isChatSession)) {
+    throw new ChatImportError('invalidChats', 'The file contains chats in an unexpected format.');
+  }
+  return data.chats.map(chat => ensureMessageTree({ ...chat, messages: chat.messages.map(sanitizeMessage) }));
+};
+
+export interface MergeResult {
+  chats: ChatSession[];
+  addedChats: number;
+  addedMessages: number;
+}
+
+/**
+ * Merges imported chats into the existing history. Chats are matched by id;
+ * for chats that already exist only messages with unknown ids are added.
+ */
+export const mergeChats = (existing: ChatSession[], imported: ChatSession[]): MergeResult => {
+  const merged = [...existing];
+  let addedChats = 0;
+  let addedMessages = 0;
+
+  for (const chat of imported) {
+    const index = merged.findIndex(c => c.id === chat.id);
+    if (index === -1) {
+      merged.push(chat);
+      addedChats++;
+      addedMessages += chat.messages.length;
+      continue;
+    }
+
+    const current = merged[index];
+    const knownIds = new Set(current.messages.map(m => m.id));
+    const newMessages = chat.messages.filter(m => !knownIds.has(m.id));
+    if (newMessages.length === 0) continue;
+
+    const messages = [...current.messages, ...newMessages]
+      .sort((a, b) => (getMessageTimestamp(a) ?? 0) - (getMessageTimestamp(b) ?? 0));
+    merged[index] = { ...current, messages, updatedAt: Math.max(getChatUpdatedAt(current), getChatUpdatedAt(chat)) };
+    addedMessages += newMessages.length;
+  }
+
+  return { chats: merged, addedChats, addedMessages };
+};
+
+const chatToMarkdown = (chat: ChatSession, t: Translate): string => {
+  const lines: string[] = [`# ${chat.title}`, ''];
+  // Only the branch currently shown is exported; the JSON export keeps them all.
+  for (const message of getActivePath(chat)) {
+    const timestamp = formatTimestamp(getMessageTimestamp(message));
+    if (message.role === 'user') {
+      lines.push(`## ${t('export.question')}${timestamp ? ` (${timestamp})` : ''}`, '', message.text, '');
+      continue;
+    }
+
+    const data = message.aiResponseData;
+    lines.push(`## ${t('export.answer')}${timestamp ? ` (${timestamp})` : ''}`, '', resolveLawLinks(data?.answer ?? message.text), '');
+    if (data?.assumptions?.length) {
+      lines.push(`### ${t('export.assumptions')}`, '', ...data.assumptions.map(assumption => `- ${assumption}`), '');
+    }
+    if (data?.relatedTopics?.length) {
+      lines.push(`### ${t('export.relatedTopics')}`, '', ...data.relatedTopics.map(topic => `- ${topic}`), '');
+    }
+    if (data?.clarifyingQuestions?.length) {
+      lines.push(`### ${t('export.openQuestions')}`, '', ...data.clarifyingQuestions.map(question => `- ${question}`), '');
+    }
+    if (data?.sourceLinks?.length) {
+      lines.push(`### ${t('export.sources')}`, '', ...data.sourceLinks.map(link => `- [${link.title}](${link.url})`), '');
+    }
+  }
+  return lines.join('\n');
+};
+
+/** Writes the chats as Markdown with headings in the UI language. */
+export const exportChatsToMarkdown = (chats: ChatSession[], t: Translate): string =>
+  chats.map(chat => chatToMarkdown(chat, t)).join('\n---\n\n');
+
+/** Makes a title safe to use as part of a file name. */
+export const toFileName = (title: string): string =>
+  title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').replace(/\.+$/, '').substring(0, 60) || 'chat';
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
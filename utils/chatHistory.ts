@@ -0,0 +1,115 @@
+import type { ChatSession } from '../types';
+
+const MAX_TITLE_LENGTH = 40;
+const SNIPPET_RADIUS = 40;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Builds a default chat title from the first question, cut at a word boundary. */
+export const makeChatTitle = (text: string): string => {
+  const clean = text.trim().replace(/\s+/g, ' ');
+  if (clean.length <= MAX_TITLE_LENGTH) return clean;
+  const cut = clean.substring(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.substring(0, lastSpace) : cut}...`;
+};
+
+/** Chats created before timestamps were stored use their Date.now() based id. */
+export const getChatUpdatedAt = (chat: ChatSession): number =>
+  chat.updatedAt ?? chat.createdAt ?? (Number(chat.id) || 0);
+
+export type ChatGroupKey = 'pinned' | 'today' | 'lastWeek' | 'older';
+
+export interface ChatGroup {
+  key: ChatGroupKey;
+  chats: ChatSession[];
+}
+
+/** Groups chats for the sidebar: pinned first, then by last activity, newest first. */
+export const groupChatsByDate = (chats: ChatSession[], now: Date = new Date()): ChatGroup[] => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const startOfLastWeek = startOfToday - 7 * DAY_MS;
+
+  const groups: Record<ChatGroupKey, ChatSession[]> = { pinned: [], today: [], lastWeek: [], older: [] };
+  const sorted = [...chats].sort((a, b) => getChatUpdatedAt(b) - getChatUpdatedAt(a));
+  for (const chat of sorted) {
+    const updatedAt = getChatUpdatedAt(chat);
+    if (chat.pinned) groups.pinned.push(chat);
+    else if (updatedAt >= startOfToday) groups.today.push(chat);
+    else if (updatedAt >= startOfLastWeek) groups.lastWeek.push(chat);
+    else groups.older.push(chat);
+  }
+
+  return (['pinned', 'today', 'lastWeek', 'older'] as ChatGroupKey[])
+    .map(key => ({ key, chats: groups[key] }))
+    .filter(group => group.chats.length > 0);
+};
+
+export interface ChatSearchResult {
+  chat: ChatSession;
+  matchCount: number;
+  /** Text around the first match, for display under the title. */
+  snippet: string;
+}
+
+const countOccurrences = (haystack: string, needle: string): number => {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+};
+
+const makeSnippet = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.substring(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Case-insensitive full-text search over chat titles, questions and answers.
+ * Results are ordered by number of matches, then by last activity.
+ */
+export const searchChats = (chats: ChatSession[], query: string): ChatSearchResult[] => {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return [];
+
+  const results: ChatSearchResult[] = [];
+  for (const chat of chats) {
+    const texts = [
+      chat.title,
+      ...chat.messages.map(message => message.role === 'model' ? (message.aiResponseData?.answer ?? message.text) : message.text),
+    ];
+    let matchCount = 0;
+    let snippet = '';
+    for (const text of texts) {
+      const lower = text.toLocaleLowerCase();
+      const count = countOccurrences(lower, needle);
+      if (count > 0 && !snippet) snippet = makeSnippet(text, lower.indexOf(needle), needle.length);
+      matchCount += count;
+    }
+    if (matchCount > 0) results.push({ chat, matchCount, snippet });
+  }
+
+  return results.sort((a, b) => b.matchCount - a.matchCount || getChatUpdatedAt(b.chat) - getChatUpdatedAt(a.chat));
+};
+
+/** Splits text into alternating non-matching and matching parts for highlighting. */
+export const splitByQuery = (text: string, query: string): { text: string; match: boolean }[] => {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const parts: { text: string; match: boolean }[] = [];
+  const lower = text.toLocaleLowerCase();
+  let position = 0;
+  let index = lower.indexOf(needle);
+  while (index !== -1) {
+    if (index > position) parts.push({ text: text.substring(position, index), match: false });
+    parts.push({ text: text.substring(index, index + needle.length), match: true });
+    position = index + needle.length;
+    index = lower.indexOf(needle, position);
+  }
+  if (position < text.length) parts.push({ text: text.substring(position), match: false });
+  return parts;
+};
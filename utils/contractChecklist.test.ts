@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { CONTRACT_CHECKLIST, contractReportToPrompt } from './contractChecklist';
+import type { ContractReport } from './contractChecklist';
+import { createTranslator } from '../i18n';
+
+const report = (statuses: Record<string, 'missing' | 'ambiguous'>): ContractReport => ({
+  items: CONTRACT_CHECKLIST.map(item => ({
+    ...item,
+    status: statuses[item.id] ?? 'present',
+    note: statuses[item.id] ? 'Ikke nevnt.' : '',
+  })),
+  summary: 'Avtalen er stort sett fullstendig.',
+  checkedAt: 0,
+  truncated: false,
+});
+
+describe('contractReportToPrompt', () => {
+  it('asks in the UI language about items that are missing or unclear', () => {
+    const withQuote = report({ probation: 'missing', pay: 'ambiguous' });
+    withQuote.items.find(item => item.id === 'pay')!.quote = 'Lønn etter avtale';
+    expect(contractReportToPrompt(withQuote, createTranslator('nb'))).toBe(
+      'Jeg har fått arbeidsavtalen min sjekket mot arbeidsmiljøloven §14-6. Disse punktene mangler eller er uklare:\n'
+      + '- Prøvetid (§14-6 (1) f): mangler. Ikke nevnt.\n'
+      + '- Lønn (§14-6 (1) i): uklart. Ikke nevnt. I avtalen står det: «Lønn etter avtale»\n\n'
+      + 'Hva betyr dette for meg, og hvordan bør jeg be arbeidsgiveren om å rette det?',
+    );
+  });
+
+  it('passes the summary on when nothing is missing', () => {
+    const prompt = contractReportToPrompt(report({}), createTranslator('pl'));
+    expect(prompt).toContain('zawiera wszystkie wymagane elementy. Avtalen er stort sett fullstendig.');
+  });
+});
@@ -0,0 +1,72 @@
+// The §14-6 checklist and the report the contract checker fills in. Kept apart
+// from services/contractChecker.ts so the browser does not bundle the model code.
+
+import type { MessageKey, Translate } from '../i18n';
+
+export type ContractItemStatus = 'present' | 'missing' | 'ambiguous' | 'notApplicable';
+
+export const CONTRACT_STATUSES: ContractItemStatus[] = ['present', 'missing', 'ambiguous', 'notApplicable'];
+
+export interface ContractChecklistItem {
+  id: string;
+  label: string;
+  /** What the contract has to say, used in the prompt and shown in the report. */
+  requirement: string;
+  legalBasis: string;
+}
+
+/** Minimum content of a written employment contract, arbeidsmiljøloven §14-6 (1). */
+export const CONTRACT_CHECKLIST: ContractChecklistItem[] = [
+  { id: 'parties', label: 'Parties', requirement: 'The identity of the employer and the employee.', legalBasis: '§14-6 (1) a' },
+  { id: 'workplace', label: 'Workplace', requirement: 'The workplace, or that the employee works at several places, and the employer\'s address.', legalBasis: '§14-6 (1) b' },
+  { id: 'jobDescription', label: 'Job description', requirement: 'A description of the work, or the job title, position or category.', legalBasis: '§14-6 (1) c' },
+  { id: 'startDate', label: 'Start date', requirement: 'The date the employment starts.', legalBasis: '§14-6 (1) d' },
+  { id: 'temporary', label: 'Temporary employment', requirement: 'For temporary employment: the expected duration and the legal basis for hiring temporarily.', legalBasis: '§14-6 (1) e' },
+  { id: 'probation', label: 'Probation period', requirement: 'Any probation period and its length.', legalBasis: '§14-6 (1) f' },
+  { id: 'holidays', label: 'Holidays and holiday pay', requirement: 'The right to holidays and holiday pay, and how the holidays are set.', legalBasis: '§14-6 (1) g' },
+  { id: 'notice', label: 'Notice periods', requirement: 'The notice periods for the employer and the employee, and the procedure for ending the employment.', legalBasis: '§14-6 (1) h' },
+  { id: 'pay', label: 'Pay', requirement: 'The starting pay, supplements and other benefits, and how and when pay is paid out.', legalBasis: '§14-6 (1) i' },
+  { id: 'workingHours', label: 'Working hours', requirement: 'The length and arrangement of daily and weekly working hours, and arrangements for overtime.', legalBasis: '§14-6 (1) j' },
+  { id: 'breaks', label: 'Breaks', requirement: 'The length of breaks.', legalBasis: '§14-6 (1) k' },
+  { id: 'tariff', label: 'Collective agreements', requirement: 'Any collective agreements (tariffavtaler) that regulate the employment, or that none apply.', legalBasis: '§14-6 (1) m' },
+  { id: 'training', label: 'Training', requirement: 'Any right to training the employer offers.', legalBasis: '§14-6 (1) n' },
+  { id: 'pension', label: 'Pension and insurance', requirement: 'Pension schemes and insurance the employer pays into.', legalBasis: '§14-6 (1) o' },
+];
+
+export interface ContractCheckItem extends ContractChecklistItem {
+  status: ContractItemStatus;
+  /** Verbatim passage from the contract. Only kept when it was found in the text. */
+  quote?: string;
+  note: string;
+}
+
+export interface ContractReport {
+  items: ContractCheckItem[];
+  summary: string;
+  checkedAt: number;
+  /** The contract was longer than we send to the model; the end was not checked. */
+  truncated: boolean;
+}
+
+export const CONTRACT_STATUS_LABELS: Record<ContractItemStatus, MessageKey> = {
+  present: 'contract.status.present',
+  missing: 'contract.status.missing',
+  ambiguous: 'contract.status.ambiguous',
+  notApplicable: 'contract.status.notApplicable',
+};
+
+/** A chat question in the UI language that hands the report over to the advice chat. */
+export const contractReportToPrompt = (report: ContractReport, t: Translate): string => {
+  const lines = report.items
+    .filter(item => item.status === 'missing' || item.status === 'ambiguous')
+    .map(item => t('contract.prompt.item', {
+      item: t(`contract.item.${item.id}` as MessageKey),
+      legalBasis: item.legalBasis,
+      status: t(CONTRACT_STATUS_LABELS[item.status]),
+      note: item.note,
+    }) + (item.quote ? ` ${t('contract.prompt.quote', { quote: item.quote })}` : ''));
+
+  return lines.length === 0
+    ? t('contract.prompt.complete', { summary: report.summary })
+    : t('contract.prompt.issues', { items: lines.join('\n') });
+};
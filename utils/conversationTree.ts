@@ -0,0 +1,65 @@
+import type { ChatMessage, ChatSession } from '../types';
+
+// A chat is a tree of messages: every message points at the message it
+// follows through `parentId`. Regenerating an answer or editing a question adds
+// a sibling instead of overwriting, and `activeLeafId` selects the branch shown.
+
+const byId = (chat: ChatSession) => new Map(chat.messages.map(message => [message.id, message]));
+
+/**
+ * Chats saved before branching existed have no parent links. Treat their
+ * messages as one linear branch, in array order.
+ */
+export const ensureMessageTree = (chat: ChatSession): ChatSession => {
+  if (chat.messages.every(message => message.parentId !== undefined)) return chat;
+  const messages = chat.messages.map((message, index) => ({
+    ...message,
+    parentId: index === 0 ? null : chat.messages[index - 1].id,
+  }));
+  return { ...chat, messages, activeLeafId: chat.activeLeafId ?? messages[messages.length - 1]?.id };
+};
+
+const getChildren = (chat: ChatSession, parentId: string | null): ChatMessage[] =>
+  chat.messages.filter(message => (message.parentId ?? null) === parentId);
+
+/** Follows the newest child at every step, starting from `messageId`. */
+export const getLatestLeafId = (chat: ChatSession, messageId: string): string => {
+  let currentId = messageId;
+  let children = getChildren(chat, currentId);
+  while (children.length > 0) {
+    currentId = children[children.length - 1].id;
+    children = getChildren(chat, currentId);
+  }
+  return currentId;
+};
+
+/** The messages from the root to `messageId`, inclusive. */
+export const getPathTo = (chat: ChatSession, messageId: string): ChatMessage[] => {
+  const messages = byId(chat);
+  const path: ChatMessage[] = [];
+  let current = messages.get(messageId);
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? messages.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/** The branch currently shown: root to the active leaf. */
+export const getActivePath = (chat: ChatSession): ChatMessage[] => {
+  if (chat.messages.length === 0) return [];
+  const leafId = chat.activeLeafId && chat.messages.some(m => m.id === chat.activeLeafId)
+    ? chat.activeLeafId
+    : getLatestLeafId(chat, chat.messages[0].id);
+  return getPathTo(chat, leafId);
+};
+
+/** The message and its alternatives (same parent, same role), oldest first. */
+export const getSiblings = (chat: ChatSession, message: ChatMessage): ChatMessage[] =>
+  getChildren(chat, message.parentId ?? null).filter(sibling => sibling.role === message.role);
+
+/** Shows the branch through `messageId`, continuing along its newest replies. */
+export const selectBranch = (chat: ChatSession, messageId: string): ChatSession => ({
+  ...chat,
+  activeLeafId: getLatestLeafId(chat, messageId),
+});
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getGrunnbelop } from './grunnbelop';
+
+describe('getGrunnbelop', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('changes on 1 May', () => {
+    expect(getGrunnbelop('2025-04-30')).toEqual({ from: '2024-05-01', amount: 124_028 });
+    expect(getGrunnbelop('2025-05-01')).toEqual({ from: '2025-05-01', amount: 130_160 });
+  });
+
+  it('keeps the latest known amount after its date', () => {
+    expect(getGrunnbelop('2030-01-01').from).toBe('2025-05-01');
+  });
+
+  it('uses today by default', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+    expect(getGrunnbelop().amount).toBe(124_028);
+  });
+
+  it('rejects dates before the earliest known amount', () => {
+    expect(() => getGrunnbelop('2022-04-30')).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,27 @@
+// Grunnbeløpet (G), the base amount in folketrygden that caps and thresholds are
+// expressed in. It is adjusted every 1 May; add the new value when it is published.
+
+export interface Grunnbelop {
+  /** First day the amount applies, YYYY-MM-DD. */
+  from: string;
+  amount: number;
+}
+
+/** Oldest first. */
+export const GRUNNBELOP_HISTORY: Grunnbelop[] = [
+  { from: '2022-05-01', amount: 111_477 },
+  { from: '2023-05-01', amount: 118_620 },
+  { from: '2024-05-01', amount: 124_028 },
+  { from: '2025-05-01', amount: 130_160 },
+];
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+/** The G that applies on `date` (YYYY-MM-DD), by default today. */
+export const getGrunnbelop = (date: string = today()): Grunnbelop => {
+  const found = GRUNNBELOP_HISTORY.filter(g => g.from <= date).pop();
+  if (!found) {
+    throw new RangeError(`No grunnbeløp is known for ${date}. The earliest is from ${GRUNNBELOP_HISTORY[0].from}.`);
+  }
+  return found;
+};
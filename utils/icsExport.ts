@@ -0,0 +1,50 @@
+/** An all-day calendar entry. */
+export interface CalendarEvent {
+  /** YYYY-MM-DD */
+  date: string;
+  title: string;
+  description?: string;
+}
+
+// RFC 5545 text values escape backslashes, separators and newlines.
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Lines longer than 75 characters are folded onto continuation lines starting with a space. */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) parts.push(line.substring(i, i + 74));
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (isoDate: string) => isoDate.replace(/-/g, '');
+
+const nextDay = (isoDate: string) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().substring(0, 10);
+};
+
+/** Builds an iCalendar file that calendar apps can import. */
+export const buildIcsCalendar = (events: CalendarEvent[], calendarName: string): string => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Union Helper//Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap((event, index) => [
+      'BEGIN:VEVENT',
+      `UID:${toIcsDate(event.date)}-${index}-${stamp}@ai-union-helper`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
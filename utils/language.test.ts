@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { guessLanguage } from './language';
+
+describe('guessLanguage', () => {
+  it('tells Lithuanian from Polish when both use ą or ę', () => {
+    expect(guessLanguage('Ką daryti, jei darbdavys nemoka atlyginimo?', 'en-US')).toBe('lt-LT');
+    expect(guessLanguage('Ar galiu gauti išeitinę išmoką?', 'en-US')).toBe('lt-LT');
+    expect(guessLanguage('Czy pracodawca może zmienić moją umowę?', 'en-US')).toBe('pl-PL');
+    expect(guessLanguage('Dostałem wypowiedzenie, co mam robić?', 'en-US')).toBe('pl-PL');
+  });
+
+  it('tells Nynorsk from Bokmål', () => {
+    expect(guessLanguage('Kva skjer om eg blir sjukmeld?', 'en-US')).toBe('nn-NO');
+    expect(guessLanguage('Hva skjer hvis jeg blir sykmeldt?', 'en-US')).toBe('nb-NO');
+  });
+
+  it('falls back when nothing matches', () => {
+    expect(guessLanguage('Can my employer change my shifts?', 'en-US')).toBe('en-US');
+  });
+});
@@ -0,0 +1,25 @@
+// Cheap, local language guess for a question, used before the model has told us
+// which language the user writes in (e.g. to word an error message).
+
+interface LanguageHint {
+  code: string;
+  pattern: RegExp;
+}
+
+const HINTS: LanguageHint[] = [
+  { code: 'uk-UA', pattern: /[іїєґ]/i },
+  { code: 'ru-RU', pattern: /[ыэъё]/i },
+  { code: 'uk-UA', pattern: /[а-яё]/i },
+  // Polish and Lithuanian share ą and ę, so those only count when no letter or
+  // word specific to one of them is found.
+  { code: 'lt-LT', pattern: /[čėįšųūž]/i },
+  { code: 'pl-PL', pattern: /[ćłńśźż]|\b(jest|nie|czy|jak|mój|moja|pracodawca|umowa)\b/i },
+  { code: 'lt-LT', pattern: /\b(ar|kaip|darbdavys|sutartis|mano|yra)\b/i },
+  { code: 'pl-PL', pattern: /[ąę]/i },
+  { code: 'nn-NO', pattern: /\b(eg|ikkje|kva|korleis|kvifor|sjukmeld\w*|arbeidsgjevar\w*)\b/i },
+  { code: 'nb-NO', pattern: /[æøå]|\b(jeg|ikke|hva|hvordan|hvorfor|arbeidsgiver\w*|sykmeld\w*|oppsigelse|permittering|ferie\w*)\b/i },
+];
+
+/** Returns a BCP-47 code for `text`, or `fallback` when nothing matches. */
+export const guessLanguage = (text: string, fallback: string): string =>
+  HINTS.find(hint => hint.pattern.test(text))?.code ?? fallback;
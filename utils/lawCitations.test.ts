@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { extractLawCitations, parseLawHref, parseViewerHash, toViewerHash } from './lawCitations';
+
+describe('parseViewerHash', () => {
+  it('reads a law and an optional section', () => {
+    expect(parseViewerHash('#law/aml/15-3')).toEqual({ lawId: 'aml', sectionId: '15-3' });
+    expect(parseViewerHash('#law/aml')).toEqual({ lawId: 'aml', sectionId: undefined });
+  });
+
+  it('reads what toViewerHash writes', () => {
+    expect(parseViewerHash(toViewerHash({ lawId: 'aml', sectionId: '15-3' }))).toEqual({ lawId: 'aml', sectionId: '15-3' });
+  });
+
+  it('returns null for other hashes', () => {
+    expect(parseViewerHash('')).toBeNull();
+    expect(parseViewerHash('#settings')).toBeNull();
+  });
+
+  it('returns null instead of throwing for malformed escapes', () => {
+    expect(parseViewerHash('#%zz')).toBeNull();
+    expect(parseViewerHash('#law/aml/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('law links', () => {
+  it('only accepts sections in the corpus', () => {
+    expect(parseLawHref('law:aml/15-3')).toEqual({ lawId: 'aml', sectionId: '15-3' });
+    expect(parseLawHref('law:aml/99-99')).toBeNull();
+  });
+
+  it('lists cited sections once, in order of first mention', () => {
+    const markdown = 'See [§ 15-3](law:aml/15-3), [§ 14-9](law:aml/14-9) and [§ 15-3](law:aml/15-3) again.';
+    expect(extractLawCitations(markdown)).toEqual([
+      { lawId: 'aml', sectionId: '15-3' },
+      { lawId: 'aml', sectionId: '14-9' },
+    ]);
+  });
+});
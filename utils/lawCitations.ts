@@ -0,0 +1,63 @@
+import { getLawSection, getSectionSourceUrl, formatSectionRef } from '../data/law';
+
+// Answers cite the law corpus with Markdown links such as
+// [Arbeidsmiljøloven § 15-3](law:aml/15-3). In the app these open the law
+// viewer, which is addressed through the URL hash (#law/aml/15-3).
+
+export interface LawRef {
+  lawId: string;
+  sectionId?: string;
+}
+
+const LAW_HREF_PATTERN = /^law:([a-z0-9-]+)\/([\w-]+)$/i;
+const LAW_LINK_PATTERN = /\]\((law:[a-z0-9-]+\/[\w-]+)\)/gi;
+const VIEWER_HASH_PATTERN = /^#law\/([a-z0-9-]+)(?:\/([\w-]+))?$/i;
+
+/** Reads a `law:` link. Returns null unless it points at a section in the corpus. */
+export const parseLawHref = (href: string): Required<LawRef> | null => {
+  const match = LAW_HREF_PATTERN.exec(href.trim());
+  if (!match || !getLawSection(match[1], match[2])) return null;
+  return { lawId: match[1], sectionId: match[2] };
+};
+
+export const toViewerHash = ({ lawId, sectionId }: LawRef): string =>
+  `#law/${lawId}${sectionId ? `/${sectionId}` : ''}`;
+
+/** Reads the law viewer address from a URL hash. Returns null for any other hash, malformed ones included. */
+export const parseViewerHash = (hash: string): LawRef | null => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(hash);
+  } catch {
+    return null;
+  }
+  const match = VIEWER_HASH_PATTERN.exec(decoded);
+  return match ? { lawId: match[1], sectionId: match[2] } : null;
+};
+
+/** The corpus sections an answer cites, in order of first mention. */
+export const extractLawCitations = (markdown: string): Required<LawRef>[] => {
+  const seen = new Set<string>();
+  const refs: Required<LawRef>[] = [];
+  for (const match of markdown.matchAll(LAW_LINK_PATTERN)) {
+    const ref = parseLawHref(match[1]);
+    if (!ref || seen.has(match[1])) continue;
+    seen.add(match[1]);
+    refs.push(ref);
+  }
+  return refs;
+};
+
+export const describeLawRef = ({ lawId, sectionId }: Required<LawRef>): string => {
+  const found = getLawSection(lawId, sectionId);
+  return found ? formatSectionRef(found.law, found.section) : `${lawId} ${sectionId}`;
+};
+
+/** Replaces `law:` links with links to the official text, for exports read outside the app. */
+export const resolveLawLinks = (markdown: string): string =>
+  markdown.replace(LAW_LINK_PATTERN, (whole, href: string) => {
+    const ref = parseLawHref(href);
+    const found = ref && getLawSection(ref.lawId, ref.sectionId);
+    const url = found && getSectionSourceUrl(found.law, found.section);
+    return url ? `](${url})` : whole;
+  });
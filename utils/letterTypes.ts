@@ -0,0 +1,57 @@
+// Letter types and tones offered in the letter workspace. Kept apart from
+// services/letterDrafts.ts so the browser does not bundle the model code.
+
+export type LetterType = 'complaint' | 'consultationRequest' | 'navAppeal' | 'dismissalObjection' | 'contractRequest';
+
+export type LetterTone = 'formal' | 'friendly' | 'firm';
+
+export const LETTER_TONES: LetterTone[] = ['formal', 'friendly', 'firm'];
+
+export interface LetterTypeInfo {
+  recipient: string;
+  /** What the letter has to achieve, used in the prompt. */
+  purpose: string;
+  legalBasis: string;
+}
+
+export const LETTER_TYPES: Record<LetterType, LetterTypeInfo> = {
+  complaint: {
+    recipient: 'the employer',
+    purpose: 'A written complaint about a breach of the employee\'s rights, describing what happened and asking the employer to put it right by a given date.',
+    legalBasis: 'arbeidsmiljøloven',
+  },
+  consultationRequest: {
+    recipient: 'the employer',
+    purpose: 'A request that the employer holds the consultation meeting (drøftelsesmøte) it must hold before deciding on a dismissal, with the right to bring a union representative (tillitsvalgt).',
+    legalBasis: 'arbeidsmiljøloven § 15-1',
+  },
+  navAppeal: {
+    recipient: 'NAV',
+    purpose: 'An appeal (klage) against a NAV decision, identifying the decision, stating which parts are appealed and why, and asking for it to be changed. Appeals must be sent within six weeks.',
+    legalBasis: 'folketrygdloven § 21-12 and forvaltningsloven § 29',
+  },
+  dismissalObjection: {
+    recipient: 'the employer',
+    purpose: 'An objection to a notice of dismissal that disputes its lawfulness and demands negotiations (forhandlingsmøte). Negotiations must be demanded within two weeks of receiving the notice.',
+    legalBasis: 'arbeidsmiljøloven §§ 15-7 and 17-3',
+  },
+  contractRequest: {
+    recipient: 'the employer',
+    purpose: 'A request for a written employment contract covering the minimum content the law requires.',
+    legalBasis: 'arbeidsmiljøloven §§ 14-5 and 14-6',
+  },
+};
+
+export interface LetterDraft {
+  subject: string;
+  /** Plain text with [[Label]] placeholders for details the user has to fill in. */
+  body: string;
+}
+
+export interface LetterRequest {
+  type: LetterType;
+  tone: LetterTone;
+  situation: string;
+  /** BCP-47 code of the language to write the letter in. */
+  language: string;
+}
@@ -0,0 +1,98 @@
+// Placeholders in letter drafts, and the formats a finished letter is exported in.
+
+// [[Label]] is what we ask the model for; {{Label}} and [Label] are what it writes
+// anyway. "[text](" is a Markdown link, not a placeholder.
+const PLACEHOLDER = /\[\[([^[\]\n]{1,60})\]\]|\{\{([^{}\n]{1,60})\}\}|\[([^[\]\n]{1,60})\](?!\()/g;
+
+export interface LetterSegment {
+  text: string;
+  /** Set on placeholders: the label, whether or not a value has been given. */
+  placeholder?: string;
+  filled?: boolean;
+}
+
+const labelOf = (match: RegExpExecArray) => (match[1] ?? match[2] ?? match[3]).trim();
+
+/** The distinct placeholder labels in `text`, in order of first appearance. */
+export const findPlaceholders = (text: string): string[] => {
+  const labels = Array.from(text.matchAll(PLACEHOLDER), labelOf).filter(Boolean);
+  return Array.from(new Set(labels));
+};
+
+/** Splits `text` into plain text and placeholders, with the given values filled in. */
+export const segmentLetter = (text: string, values: Record<string, string>): LetterSegment[] => {
+  const segments: LetterSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    const label = labelOf(match);
+    if (!label) continue;
+    if (match.index > last) segments.push({ text: text.substring(last, match.index) });
+    const value = values[label]?.trim();
+    segments.push({ text: value || match[0], placeholder: label, filled: !!value });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.substring(last) });
+  return segments;
+};
+
+/** `text` with every placeholder that has a value replaced by it; the others are left as they are. */
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  segmentLetter(text, values).map(segment => segment.text).join('');
+
+export interface Letter {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/** A mailto: link that opens the letter in the user's email program. */
+export const toMailtoUrl = ({ to, subject, body }: Letter): string => {
+  const query = [`subject=${encodeURIComponent(subject)}`, `body=${encodeURIComponent(body.replace(/\r?\n/g, '\r\n'))}`];
+  return `mailto:${encodeURIComponent(to.trim()).replace(/%40/g, '@')}?${query.join('&')}`;
+};
+
+// RFC 2047 encoded word, so non-ASCII subjects survive mail headers.
+const encodeHeader = (value: string): string => {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const bytes = new TextEncoder().encode(value);
+  return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+};
+
+/** An unsent email message (.eml) that mail programs open as a draft. */
+export const buildEml = ({ to, subject, body }: Letter): string => [
+  ...(to.trim() ? [`To: ${to.trim()}`] : []),
+  `Subject: ${encodeHeader(subject)}`,
+  'X-Unsent: 1',
+  'MIME-Version: 1.0',
+  'Content-Type: text/plain; charset=UTF-8',
+  'Content-Transfer-Encoding: 8bit',
+  '',
+  body.replace(/\r?\n/g, '\r\n'),
+].join('\r\n');
+
+/** Prints a letter from a hidden frame, so the rest of the page stays as it is. */
+export const printLetter = ({ subject, body }: Letter, languageTag: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument as Document;
+  doc.documentElement.lang = languageTag;
+  doc.title = subject;
+  const style = doc.createElement('style');
+  style.textContent = 'body { font: 12pt/1.5 Georgia, serif; margin: 2.5cm; } h1 { font-size: 13pt; margin-bottom: 1.5em; } p { white-space: pre-wrap; }';
+  doc.head.appendChild(style);
+  const heading = doc.createElement('h1');
+  heading.textContent = subject;
+  const text = doc.createElement('p');
+  text.textContent = body;
+  doc.body.append(heading, text);
+
+  frame.contentWindow?.focus();
+  frame.contentWindow?.print();
+  // print() blocks until the dialog closes in most browsers; wait a little for the others.
+  setTimeout(() => frame.remove(), 1000);
+};
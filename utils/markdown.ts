@@ -0,0 +1,247 @@
+// A small Markdown parser producing a plain syntax tree. It covers what the model
+// writes in practice (headings, lists, tables, quotes, code, links, emphasis) and
+// never produces raw HTML: rendering is left to components/Markdown.tsx.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  children: InlineNode[];
+  sublist?: ListBlock;
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  items: ListItem[];
+}
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | ListBlock
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'hr' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/** Returns the URL if it uses a safe protocol, otherwise null (e.g. for javascript: links). */
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// --- Inline parsing ---
+
+interface InlineRule {
+  pattern: RegExp;
+  build: (match: RegExpExecArray) => InlineNode;
+}
+
+const INLINE_RULES: InlineRule[] = [
+  { pattern: /`([^`]+)`/, build: m => ({ type: 'code', text: m[1] }) },
+  { pattern: /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/, build: m => ({ type: 'link', href: m[2], children: parseInline(m[1]) }) },
+  { pattern: /(?:https?:\/\/)[^\s<>()]+[^\s<>().,;:!?'"]/, build: m => ({ type: 'link', href: m[0], children: [{ type: 'text', text: m[0] }] }) },
+  { pattern: /\*\*(.+?)\*\*|__(.+?)__/, build: m => ({ type: 'strong', children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: /~~(.+?)~~/, build: m => ({ type: 'del', children: parseInline(m[1]) }) },
+  { pattern: /\*([^*\s](?:[^*]*[^*\s])?)\*|\b_([^_\s](?:[^_]*[^_\s])?)_\b/, build: m => ({ type: 'em', children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: / {2,}\n|\\\n/, build: () => ({ type: 'break' }) },
+];
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    let earliest: { match: RegExpExecArray; rule: InlineRule } | null = null;
+    for (const rule of INLINE_RULES) {
+      const match = rule.pattern.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) {
+        earliest = { match, rule };
+      }
+    }
+    if (!earliest) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (earliest.match.index > 0) {
+      nodes.push({ type: 'text', text: rest.substring(0, earliest.match.index) });
+    }
+    nodes.push(earliest.rule.build(earliest.match));
+    rest = rest.substring(earliest.match.index + earliest.match[0].length);
+  }
+  return nodes;
+};
+
+// --- Block parsing ---
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w-]*)\s*$/;
+const HR = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+•]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const isBlockStart = (line: string, next: string | undefined) =>
+  HEADING.test(line) || FENCE.test(line) || HR.test(line) || LIST_ITEM.test(line) || QUOTE.test(line)
+  || (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next));
+
+const parseList = (lines: string[], start: number): { block: ListBlock; next: number } => {
+  const first = LIST_ITEM.exec(lines[start]) as RegExpExecArray;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const block: ListBlock = { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items: [] };
+
+  let i = start;
+  let currentText: string[] = [];
+  const flush = () => {
+    if (currentText.length > 0) {
+      block.items.push({ children: parseInline(currentText.join('\n')) });
+      currentText = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      // A blank line ends the list unless another item of the same list follows.
+      const following = lines[i + 1] !== undefined ? LIST_ITEM.exec(lines[i + 1]) : null;
+      if (following && following[1].length >= baseIndent) {
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1].length > baseIndent && (currentText.length > 0 || block.items.length > 0)) {
+      flush();
+      const nested = parseList(lines, i);
+      block.items[block.items.length - 1].sublist = nested.block;
+      i = nested.next;
+      continue;
+    }
+    if (item && item[1].length < baseIndent) break;
+    if (item) {
+      if (/\d/.test(item[2]) !== ordered) break;
+      flush();
+      currentText.push(item[3]);
+    } else if (currentText.length > 0 && !isBlockStart(line, lines[i + 1])) {
+      currentText.push(line.trim());
+    } else {
+      break;
+    }
+    i++;
+  }
+  flush();
+  return { block, next: i };
+};
+
+export const parseMarkdown = (markdown: string): BlockNode[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', language: fence[2], text: body.join('\n') });
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push((QUOTE.exec(lines[i]) as RegExpExecArray)[1]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(body.join('\n')) });
+      continue;
+    }
+
+    if (line.includes('|') && lines[i + 1] !== undefined && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i], lines[i + 1])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    // Model output uses single newlines as line breaks, so keep them.
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('  \n')) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { calculateLayoffPay, calculateSickPay, calculateUnemploymentBenefit } from './navBenefits';
+import { formatKroner } from './payCalculators';
+import { createTranslator, localize } from '../i18n';
+
+// G is 124 028 until 30 April 2025 and 130 160 from 1 May 2025.
+
+describe('calculateSickPay', () => {
+  it('pays the income per working day with the employer paying the first 16 days', () => {
+    const result = calculateSickPay({ annualIncome: 520_000, firstSickDay: '2025-06-02' });
+    expect(result.eligible).toBe(true);
+    expect(result.basis).toBe(520_000);
+    expect(result.dailyRate).toBe(2_000);
+    expect(result.total).toBe(43_333.33);
+    expect(result.employerPeriodEnds).toBe('2025-06-17');
+    expect(result.navPaysFrom).toBe('2025-06-18');
+  });
+
+  it('returns steps to translate', () => {
+    const { steps } = calculateSickPay({ annualIncome: 520_000, firstSickDay: '2025-06-02', sickLeavePercent: 50 });
+    expect(steps.map(step => localize(createTranslator('nb'), step))).toEqual([
+      `G på 2025-06-02: ${formatKroner(130_160)} (fra 2025-05-01)`,
+      `Sykepengegrunnlag: ${formatKroner(520_000)}`,
+      `${formatKroner(520_000)} / 260 × 50 % = ${formatKroner(1_000)} per arbeidsdag`,
+      'Arbeidsgiveren betaler dag 1 til 16 (til og med 2025-06-17); NAV betaler fra 2025-06-18, i høyst 248 dager.',
+      `Omtrent ${formatKroner(21_666.67)} per måned før skatt`,
+    ]);
+  });
+
+  it('caps the basis at 6 G', () => {
+    const result = calculateSickPay({ annualIncome: 1_000_000, firstSickDay: '2025-06-02' });
+    expect(result.basis).toBe(780_960);
+    expect(result.dailyRate).toBe(3_004);
+  });
+
+  it('uses the G of the first sick day', () => {
+    expect(calculateSickPay({ annualIncome: 1_000_000, firstSickDay: '2025-04-30' }).basis).toBe(744_168);
+    expect(calculateSickPay({ annualIncome: 1_000_000, firstSickDay: '2025-05-01' }).basis).toBe(780_960);
+  });
+
+  it('scales the daily rate for graded sick leave', () => {
+    expect(calculateSickPay({ annualIncome: 520_000, firstSickDay: '2025-06-02', sickLeavePercent: 50 }).dailyRate).toBe(1_000);
+  });
+
+  it('gives nothing below 0.5 G', () => {
+    const result = calculateSickPay({ annualIncome: 65_079, firstSickDay: '2025-06-02' });
+    expect(result.eligible).toBe(false);
+    expect(result.total).toBe(0);
+    expect(calculateSickPay({ annualIncome: 65_080, firstSickDay: '2025-06-02' }).eligible).toBe(true);
+  });
+
+  it('rejects sick leave below 20 %', () => {
+    expect(() => calculateSickPay({ annualIncome: 520_000, firstSickDay: '2025-06-02', sickLeavePercent: 10 })).toThrow(RangeError);
+  });
+});
+
+describe('calculateUnemploymentBenefit', () => {
+  it('requires 1.5 G in the last 12 months', () => {
+    expect(calculateUnemploymentBenefit({ incomeLast12Months: 195_239, claimDate: '2025-06-02' }).eligible).toBe(false);
+    expect(calculateUnemploymentBenefit({ incomeLast12Months: 195_240, claimDate: '2025-06-02' }).eligible).toBe(true);
+  });
+
+  it('also accepts 3 G in the last 36 months', () => {
+    const result = calculateUnemploymentBenefit({ incomeLast12Months: 100_000, incomeLast36Months: 390_480, claimDate: '2025-06-02' });
+    expect(result.eligible).toBe(true);
+    expect(result.basis).toBe(130_160);
+    expect(result.weeks).toBe(52);
+  });
+
+  it('uses the G of the claim date for the threshold', () => {
+    // 1.5 G is 186 042 before 1 May 2025 and 195 240 after.
+    expect(calculateUnemploymentBenefit({ incomeLast12Months: 190_000, claimDate: '2025-04-30' }).eligible).toBe(true);
+    expect(calculateUnemploymentBenefit({ incomeLast12Months: 190_000, claimDate: '2025-05-01' }).eligible).toBe(false);
+  });
+
+  it('caps the basis at 6 G and pays 104 weeks from 2 G', () => {
+    const result = calculateUnemploymentBenefit({ incomeLast12Months: 1_000_000, claimDate: '2025-06-02' });
+    expect(result.basis).toBe(780_960);
+    expect(result.dailyRate).toBe(1_874);
+    expect(result.weeks).toBe(104);
+  });
+
+  it('rejects a 36-month income below the 12-month income', () => {
+    expect(() => calculateUnemploymentBenefit({ incomeLast12Months: 300_000, incomeLast36Months: 200_000, claimDate: '2025-06-02' })).toThrow(RangeError);
+  });
+});
+
+describe('calculateLayoffPay', () => {
+  it('counts the employer\'s 15 working days past weekends and public holidays', () => {
+    // 9 June 2025 is Whit Monday.
+    const result = calculateLayoffPay({ monthlySalary: 52_000, layoffStart: '2025-06-02' });
+    expect(result.employerPeriodEnds).toBe('2025-06-23');
+    expect(result.navPaysFrom).toBe('2025-06-24');
+    expect(result.employerPay).toBe(36_000);
+    expect(result.latestEnd).toBe('2025-11-30');
+    expect(result.unemploymentBenefit?.eligible).toBe(true);
+  });
+
+  it('gives no dagpenger below 40 % layoff', () => {
+    const result = calculateLayoffPay({ monthlySalary: 52_000, layoffStart: '2025-06-02', layoffPercent: 30 });
+    expect(result.employerPay).toBe(10_800);
+    expect(result.unemploymentBenefit).toBeUndefined();
+  });
+
+  it('flags notice shorter than 14 days', () => {
+    expect(calculateLayoffPay({ monthlySalary: 52_000, layoffStart: '2025-06-02', noticeReceived: '2025-05-25' }).shortNotice).toBe(true);
+    expect(calculateLayoffPay({ monthlySalary: 52_000, layoffStart: '2025-06-02', noticeReceived: '2025-05-19' }).shortNotice).toBe(false);
+  });
+});
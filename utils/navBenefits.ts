@@ -0,0 +1,291 @@
+// Estimates of NAV benefits: sykepenger (sick pay), dagpenger (unemployment
+// benefit) and the days the employer pays during permittering (temporary
+// layoff). Like the pay calculators, they back both the calculator panel and
+// tools the model can call. Amounts are in NOK before tax.
+
+import { getGrunnbelop } from './grunnbelop';
+import { formatKroner, requireAmount, roundKroner } from './payCalculators';
+import { addDays, isNonWorkingDay, parseDate, toIsoDate } from './noticePeriod';
+import { CalculationError } from './calculationError';
+import type { LawRef } from './lawCitations';
+import type { LocalizedMessage, MessageKey } from '../i18n';
+
+/** NAV's daily rates are yearly amounts divided by 260 working days. */
+const WORKING_DAYS_PER_YEAR = 260;
+
+/** Folketrygdloven §8-10: sick pay covers income up to 6 G. */
+export const SICK_PAY_CAP_G = 6;
+/** Folketrygdloven §8-3: no sick pay on an income below 0.5 G. */
+export const SICK_PAY_MIN_INCOME_G = 0.5;
+/** Folketrygdloven §8-19: the employer pays the first 16 calendar days (arbeidsgiverperioden). */
+export const SICK_PAY_EMPLOYER_DAYS = 16;
+/** Folketrygdloven §8-12: at most 248 days, about 52 weeks. */
+export const SICK_PAY_MAX_DAYS = 248;
+
+/** Folketrygdloven §4-12: dagpenger are 62.4 % of the basis. */
+export const UNEMPLOYMENT_RATE = 62.4;
+/** Folketrygdloven §4-11: the basis is capped at 6 G. */
+export const UNEMPLOYMENT_CAP_G = 6;
+/** Folketrygdloven §4-14: three waiting days (ventedager) before payment starts. */
+export const UNEMPLOYMENT_WAITING_DAYS = 3;
+
+/** Permitteringslønnsloven §3: the employer pays wages for the first 15 working days of a layoff. */
+export const LAYOFF_EMPLOYER_DAYS = 15;
+/** Hovedavtalen §7-3: a layoff must be announced in writing at least 14 days ahead. */
+export const LAYOFF_NOTICE_DAYS = 14;
+/** Folketrygdloven §4-7: laid-off workers get dagpenger when working time is cut by at least 40 %. */
+export const MIN_LAYOFF_PERCENT = 40;
+/** Permitteringslønnsloven §3a: at most 26 weeks of layoff within 18 months. */
+export const MAX_LAYOFF_WEEKS = 26;
+
+/** A rule an estimate relies on. Sections in the law library open in the viewer; others link to Lovdata. */
+export interface BenefitRule {
+  label: string;
+  url?: string;
+  lawRef?: Required<LawRef>;
+}
+
+const ftrl = (sectionId: string): BenefitRule => ({
+  label: `Folketrygdloven § ${sectionId}`,
+  url: `https://lovdata.no/lov/1997-02-28-19/§${sectionId}`,
+  // Chapter 8 is in the law library.
+  ...(sectionId.startsWith('8-') ? { lawRef: { lawId: 'ftrl8', sectionId } } : {}),
+});
+
+const PERMITTERINGSLONNSLOVEN_3: BenefitRule = { label: 'Permitteringslønnsloven § 3', url: 'https://lovdata.no/lov/1988-04-29-22/§3' };
+const PERMITTERINGSLONNSLOVEN_3A: BenefitRule = { label: 'Permitteringslønnsloven § 3a', url: 'https://lovdata.no/lov/1988-04-29-22/§3a' };
+const HOVEDAVTALEN_7: BenefitRule = { label: 'Hovedavtalen kapittel 7', lawRef: { lawId: 'ha', sectionId: 'kap-7' } };
+
+export interface BenefitEstimate {
+  /** About how much is paid per month before tax; for a layoff, what the employer pays. */
+  total: number;
+  /** The estimate, step by step, to show in the UI language. */
+  steps: LocalizedMessage[];
+  rules: BenefitRule[];
+}
+
+const describeGrunnbelop = (date: string) => {
+  const g = getGrunnbelop(date);
+  const step: LocalizedMessage = { key: 'calculators.step.grunnbelop', params: { date, amount: formatKroner(g.amount), from: g.from } };
+  return { g, step };
+};
+
+const perMonth = (dailyRate: number) => roundKroner(dailyRate * WORKING_DAYS_PER_YEAR / 12);
+
+const requirePercent = (value: number, min: number, field: MessageKey): number => {
+  if (requireAmount(value, field) < min || value > 100) {
+    throw new CalculationError('calculators.error.percent', { field: { key: field }, min });
+  }
+  return value;
+};
+
+export interface SickPayInput {
+  /** Yearly income from work before the sick leave. */
+  annualIncome: number;
+  /** First day of sick leave, YYYY-MM-DD. Defaults to today and decides which G applies. */
+  firstSickDay?: string;
+  /** Graded sick leave (gradert sykmelding), 20 to 100 %. */
+  sickLeavePercent?: number;
+}
+
+export interface SickPayResult extends BenefitEstimate {
+  grunnbelop: number;
+  eligible: boolean;
+  /** Sykepengegrunnlaget: the income, capped at 6 G. */
+  basis: number;
+  dailyRate: number;
+  /** Last day of the employer period, YYYY-MM-DD. */
+  employerPeriodEnds: string;
+  navPaysFrom: string;
+}
+
+export const calculateSickPay = ({ annualIncome, firstSickDay = toIsoDate(new Date()), sickLeavePercent = 100 }: SickPayInput): SickPayResult => {
+  annualIncome = requireAmount(annualIncome, 'calculators.annualIncome');
+  requirePercent(sickLeavePercent, 20, 'calculators.sickLeavePercent');
+  const firstDay = parseDate(firstSickDay, 'calculators.firstSickDay');
+  const { g, step } = describeGrunnbelop(firstSickDay);
+  const steps = [step];
+  const rules = [ftrl('8-2'), ftrl('8-3'), ftrl('8-10'), ftrl('8-19'), ftrl('8-12')];
+  const employerPeriodEnds = toIsoDate(addDays(firstDay, SICK_PAY_EMPLOYER_DAYS - 1));
+  const navPaysFrom = toIsoDate(addDays(firstDay, SICK_PAY_EMPLOYER_DAYS));
+
+  const minimum = SICK_PAY_MIN_INCOME_G * g.amount;
+  if (annualIncome < minimum) {
+    steps.push({ key: 'calculators.step.sickPayBelowMinimum', params: { income: formatKroner(annualIncome), minimum: formatKroner(minimum) } });
+    return { total: 0, steps, rules, grunnbelop: g.amount, eligible: false, basis: 0, dailyRate: 0, employerPeriodEnds, navPaysFrom };
+  }
+
+  const cap = SICK_PAY_CAP_G * g.amount;
+  const basis = Math.min(annualIncome, cap);
+  const dailyRate = Math.round(basis / WORKING_DAYS_PER_YEAR * sickLeavePercent / 100);
+  const total = perMonth(dailyRate);
+  steps.push(
+    annualIncome > cap
+      ? { key: 'calculators.step.sickPayCapped', params: { income: formatKroner(annualIncome), cap: formatKroner(cap) } }
+      : { key: 'calculators.step.sickPayBasis', params: { basis: formatKroner(basis) } },
+    {
+      key: sickLeavePercent < 100 ? 'calculators.step.sickPayDailyRateGraded' : 'calculators.step.sickPayDailyRate',
+      params: { basis: formatKroner(basis), days: WORKING_DAYS_PER_YEAR, percent: sickLeavePercent, rate: formatKroner(dailyRate) },
+    },
+    {
+      key: 'calculators.step.sickPayPeriods',
+      params: { employerDays: SICK_PAY_EMPLOYER_DAYS, employerPeriodEnds, navPaysFrom, maxDays: SICK_PAY_MAX_DAYS },
+    },
+    { key: 'calculators.step.perMonth', params: { amount: formatKroner(total) } },
+  );
+  return { total, steps, rules, grunnbelop: g.amount, eligible: true, basis, dailyRate, employerPeriodEnds, navPaysFrom };
+};
+
+export interface UnemploymentBenefitInput {
+  /** Income from work in the last 12 months. */
+  incomeLast12Months: number;
+  /** Income from work in the last 36 months, including the last 12. */
+  incomeLast36Months?: number;
+  /** Day the benefit is claimed from, YYYY-MM-DD. Defaults to today and decides which G applies. */
+  claimDate?: string;
+}
+
+export interface UnemploymentBenefitResult extends BenefitEstimate {
+  grunnbelop: number;
+  eligible: boolean;
+  /** Dagpengegrunnlaget: the better of the last 12 months and the 36-month average, capped at 6 G. */
+  basis: number;
+  dailyRate: number;
+  /** 104 weeks when the income was at least 2 G, otherwise 52. */
+  weeks: number;
+}
+
+export const calculateUnemploymentBenefit = ({ incomeLast12Months, incomeLast36Months, claimDate = toIsoDate(new Date()) }: UnemploymentBenefitInput): UnemploymentBenefitResult => {
+  requireAmount(incomeLast12Months, 'calculators.incomeLast12Months');
+  if (incomeLast36Months !== undefined && requireAmount(incomeLast36Months, 'calculators.incomeLast36Months') < incomeLast12Months) {
+    throw new CalculationError('calculators.error.income36');
+  }
+  parseDate(claimDate, 'calculators.claimDate');
+  const { g, step } = describeGrunnbelop(claimDate);
+  const steps = [step];
+  const rules = [ftrl('4-4'), ftrl('4-11'), ftrl('4-12'), ftrl('4-14'), ftrl('4-15')];
+  const income36 = incomeLast36Months ?? incomeLast12Months;
+
+  // §4-4: 1.5 G in the last 12 months, or 3 G in the last 36.
+  if (incomeLast12Months < 1.5 * g.amount && income36 < 3 * g.amount) {
+    steps.push({
+      key: 'calculators.step.unemploymentBelowMinimum',
+      params: { minimum12: formatKroner(1.5 * g.amount), minimum36: formatKroner(3 * g.amount) },
+    });
+    return { total: 0, steps, rules, grunnbelop: g.amount, eligible: false, basis: 0, dailyRate: 0, weeks: 0 };
+  }
+
+  const average = roundKroner(income36 / 3);
+  const best = Math.max(incomeLast12Months, average);
+  const cap = UNEMPLOYMENT_CAP_G * g.amount;
+  const basis = Math.min(best, cap);
+  const dailyRate = Math.round(basis * UNEMPLOYMENT_RATE / 100 / WORKING_DAYS_PER_YEAR);
+  const weeks = best >= 2 * g.amount ? 104 : 52;
+  const total = perMonth(dailyRate);
+  steps.push(
+    incomeLast36Months === undefined
+      ? { key: 'calculators.step.unemploymentBasis', params: { income: formatKroner(incomeLast12Months) } }
+      : { key: 'calculators.step.unemploymentBasisAverage', params: { income: formatKroner(incomeLast12Months), average: formatKroner(average) } },
+    ...(best > cap ? [{ key: 'calculators.step.capped', params: { amount: formatKroner(best), cap: formatKroner(cap) } } as const] : []),
+    {
+      key: 'calculators.step.unemploymentDailyRate',
+      params: { basis: formatKroner(basis), rate: UNEMPLOYMENT_RATE, days: WORKING_DAYS_PER_YEAR, dailyRate: formatKroner(dailyRate) },
+    },
+    {
+      key: weeks === 104 ? 'calculators.step.unemploymentWeeks' : 'calculators.step.unemploymentWeeksLowIncome',
+      params: { weeks, waitingDays: UNEMPLOYMENT_WAITING_DAYS },
+    },
+    { key: 'calculators.step.perMonth', params: { amount: formatKroner(total) } },
+  );
+  return { total, steps, rules, grunnbelop: g.amount, eligible: true, basis, dailyRate, weeks };
+};
+
+export interface LayoffInput {
+  monthlySalary: number;
+  /** First day of the layoff, YYYY-MM-DD. */
+  layoffStart: string;
+  /** Share of the working time that is laid off, 1 to 100 %. */
+  layoffPercent?: number;
+  /** Day the written notice of layoff was received, YYYY-MM-DD. */
+  noticeReceived?: string;
+}
+
+export interface LayoffResult extends BenefitEstimate {
+  /** Wages the employer owes for its 15 working days. */
+  employerPay: number;
+  /** Last of the employer's working days, YYYY-MM-DD. */
+  employerPeriodEnds: string;
+  /** First working day NAV can pay dagpenger for, before waiting days. */
+  navPaysFrom: string;
+  /** Latest end of the layoff under the 26-week limit. */
+  latestEnd: string;
+  /** The notice was shorter than 14 days. */
+  shortNotice: boolean;
+  /** Estimated dagpenger afterwards, or undefined when the layoff is below 40 %. */
+  unemploymentBenefit?: UnemploymentBenefitResult;
+}
+
+/** The first working day on or after `date`. */
+const nextWorkingDay = (date: Date): Date => {
+  let day = date;
+  while (isNonWorkingDay(day)) day = addDays(day, 1);
+  return day;
+};
+
+export const calculateLayoffPay = ({ monthlySalary, layoffStart, layoffPercent = 100, noticeReceived }: LayoffInput): LayoffResult => {
+  monthlySalary = requireAmount(monthlySalary, 'calculators.monthlySalary');
+  requirePercent(layoffPercent, 1, 'calculators.layoffPercent');
+  const start = parseDate(layoffStart, 'calculators.layoffStart');
+  const rules = [HOVEDAVTALEN_7, PERMITTERINGSLONNSLOVEN_3, PERMITTERINGSLONNSLOVEN_3A, ftrl('4-7')];
+  const steps: LocalizedMessage[] = [];
+
+  let shortNotice = false;
+  if (noticeReceived) {
+    const earliest = addDays(parseDate(noticeReceived, 'calculators.layoffNotice'), LAYOFF_NOTICE_DAYS);
+    shortNotice = earliest > start;
+    steps.push(shortNotice
+      ? { key: 'calculators.step.layoffShortNotice', params: { days: LAYOFF_NOTICE_DAYS, date: toIsoDate(earliest) } }
+      : { key: 'calculators.step.layoffNotice', params: { days: LAYOFF_NOTICE_DAYS } });
+  }
+
+  // Working days are Monday to Friday except public holidays.
+  let day = nextWorkingDay(start);
+  for (let counted = 1; counted < LAYOFF_EMPLOYER_DAYS; counted++) day = nextWorkingDay(addDays(day, 1));
+  const employerPeriodEnds = toIsoDate(day);
+  const navPaysFrom = toIsoDate(nextWorkingDay(addDays(day, 1)));
+  const latestEnd = toIsoDate(addDays(start, MAX_LAYOFF_WEEKS * 7 - 1));
+
+  const dailyWage = monthlySalary * 12 / WORKING_DAYS_PER_YEAR;
+  const employerPay = roundKroner(dailyWage * LAYOFF_EMPLOYER_DAYS * layoffPercent / 100);
+  steps.push(
+    { key: 'calculators.step.layoffEmployerPeriod', params: { days: LAYOFF_EMPLOYER_DAYS, date: employerPeriodEnds } },
+    {
+      key: layoffPercent < 100 ? 'calculators.step.layoffEmployerPayPartial' : 'calculators.step.layoffEmployerPay',
+      params: {
+        salary: formatKroner(monthlySalary),
+        workingDays: WORKING_DAYS_PER_YEAR,
+        dailyWage: formatKroner(roundKroner(dailyWage)),
+        days: LAYOFF_EMPLOYER_DAYS,
+        percent: layoffPercent,
+        amount: formatKroner(employerPay),
+      },
+    },
+  );
+
+  let unemploymentBenefit: UnemploymentBenefitResult | undefined;
+  if (layoffPercent < MIN_LAYOFF_PERCENT) {
+    steps.push({ key: 'calculators.step.layoffBelowMinimum', params: { percent: MIN_LAYOFF_PERCENT } });
+  } else {
+    unemploymentBenefit = calculateUnemploymentBenefit({ incomeLast12Months: monthlySalary * 12, claimDate: layoffStart });
+    if (unemploymentBenefit.eligible) {
+      const monthly = roundKroner(unemploymentBenefit.total * layoffPercent / 100);
+      steps.push({
+        key: layoffPercent < 100 ? 'calculators.step.layoffDagpengerPartial' : 'calculators.step.layoffDagpenger',
+        params: { date: navPaysFrom, amount: formatKroner(monthly), percent: layoffPercent, waitingDays: UNEMPLOYMENT_WAITING_DAYS },
+      });
+    }
+  }
+  steps.push({ key: 'calculators.step.layoffMaxLength', params: { weeks: MAX_LAYOFF_WEEKS, date: latestEnd } });
+
+  return { total: employerPay, steps, rules, employerPay, employerPeriodEnds, navPaysFrom, latestEnd, shortNotice, unemploymentBenefit };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { calculateNoticeDeadlines, isNonWorkingDay, parseDate } from './noticePeriod';
+import type { DeadlineKind, NoticeInput } from './noticePeriod';
+
+const deadline = (input: NoticeInput, kind: DeadlineKind) =>
+  calculateNoticeDeadlines(input).deadlines.find(d => d.kind === kind);
+
+describe('calculateNoticeDeadlines', () => {
+  it('runs the notice period from the first day of the next month', () => {
+    const input: NoticeInput = { employmentStart: '2020-01-15', age: 40, noticeReceived: '2025-03-10' };
+    const result = calculateNoticeDeadlines(input);
+    expect(result.tenureYears).toBe(5);
+    expect(result.noticePeriod.months).toBe(2);
+    expect(deadline(input, 'noticeStart')?.date).toBe('2025-04-01');
+    expect(deadline(input, 'lastWorkingDay')?.date).toBe('2025-05-31');
+  });
+
+  it('gives older workers longer notice from the employer only', () => {
+    expect(calculateNoticeDeadlines({ employmentStart: '2010-01-01', age: 56, noticeReceived: '2025-03-10' }).noticePeriod.months).toBe(5);
+    expect(calculateNoticeDeadlines({ employmentStart: '2010-01-01', age: 56, noticeReceived: '2025-03-10', givenBy: 'employee' }).noticePeriod.months).toBe(3);
+  });
+
+  it('moves a deadline on a weekend to the next working day', () => {
+    // 14 days after 2025-03-01 is Saturday 15 March.
+    expect(deadline({ employmentStart: '2020-01-01', age: 40, noticeReceived: '2025-03-01' }, 'negotiationDemand'))
+      .toMatchObject({ date: '2025-03-17', movedFrom: '2025-03-15' });
+  });
+
+  it('moves a deadline on julaften past the Christmas holidays', () => {
+    // 24 December 2025 is a Wednesday, followed by two public holidays and a weekend.
+    expect(deadline({ employmentStart: '2020-01-01', age: 40, noticeReceived: '2025-12-10' }, 'negotiationDemand'))
+      .toMatchObject({ date: '2025-12-29', movedFrom: '2025-12-24' });
+    expect(deadline({ employmentStart: '2020-01-01', age: 40, noticeReceived: '2025-06-24' }, 'lawsuitDamagesOnly'))
+      .toMatchObject({ date: '2025-12-29', movedFrom: '2025-12-24' });
+  });
+
+  it('moves a deadline on nyttårsaften past New Year\'s Day', () => {
+    expect(deadline({ employmentStart: '2020-01-01', age: 40, noticeReceived: '2025-12-17' }, 'negotiationDemand'))
+      .toMatchObject({ date: '2026-01-02', movedFrom: '2025-12-31' });
+    // Eight weeks after 5 November 2025.
+    expect(deadline({ employmentStart: '2020-01-01', age: 40, noticeReceived: '2025-11-05' }, 'lawsuit'))
+      .toMatchObject({ date: '2026-01-02', movedFrom: '2025-12-31' });
+  });
+
+  it('leaves deadlines on working days alone', () => {
+    expect(deadline({ employmentStart: '2020-01-01', age: 40, noticeReceived: '2025-03-03' }, 'negotiationDemand'))
+      .toEqual(expect.not.objectContaining({ movedFrom: expect.anything() }));
+  });
+
+  it('rejects a notice before the employment started', () => {
+    expect(() => calculateNoticeDeadlines({ employmentStart: '2025-01-01', age: 40, noticeReceived: '2024-12-01' })).toThrow(RangeError);
+  });
+});
+
+describe('isNonWorkingDay', () => {
+  it('counts public holidays but not julaften, which is a working day', () => {
+    expect(isNonWorkingDay(parseDate('2025-04-18', 'calculators.noticeReceived'))).toBe(true); // Good Friday
+    expect(isNonWorkingDay(parseDate('2025-12-24', 'calculators.noticeReceived'))).toBe(false);
+    expect(isNonWorkingDay(parseDate('2025-12-31', 'calculators.noticeReceived'))).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+// Notice periods and deadlines after oppsigelse, following arbeidsmiljøloven
+// §§15-3, 17-3 and 17-4. Dates are ISO calendar dates (YYYY-MM-DD) and all
+// arithmetic is done in UTC so the result does not depend on the time zone.
+
+import { CalculationError } from './calculationError';
+import type { LocalizedMessage, LocalizedText, MessageKey } from '../i18n';
+
+export type NoticeGivenBy = 'employer' | 'employee';
+
+export interface NoticeInput {
+  /** First day of employment, YYYY-MM-DD. */
+  employmentStart: string;
+  /** The worker's age on the day the notice was received. */
+  age: number;
+  /** Day the written notice was received, YYYY-MM-DD. */
+  noticeReceived: string;
+  givenBy?: NoticeGivenBy;
+  /** Notice given during an agreed probation period (prøvetid). */
+  probation?: boolean;
+  /** Notice period in months from the contract or collective agreement. Used when longer than the statutory one. */
+  agreedMonths?: number;
+}
+
+export type DeadlineKind = 'noticeStart' | 'lastWorkingDay' | 'negotiationDemand' | 'lawsuit' | 'lawsuitDamagesOnly';
+
+export interface Deadline {
+  kind: DeadlineKind;
+  date: string;
+  title: LocalizedMessage;
+  description: LocalizedMessage;
+  /** A law reference, or a message when the period comes from an agreement. */
+  legalBasis: LocalizedText;
+  /** Original date when the deadline was moved past a weekend or public holiday. */
+  movedFrom?: string;
+}
+
+export interface NoticeResult {
+  tenureYears: number;
+  noticePeriod: { months?: number; days?: number; legalBasis: LocalizedText };
+  /** Every relevant date, earliest first. */
+  deadlines: Deadline[];
+}
+
+const PROBATION_NOTICE_DAYS = 14;
+const NEGOTIATION_DEMAND_DAYS = 14;
+const LAWSUIT_WEEKS = 8;
+const LAWSUIT_DAMAGES_ONLY_MONTHS = 6;
+
+/** `field` names the input in errors, usually by its label in the calculator panel. */
+export const parseDate = (value: string, field: MessageKey): Date => {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+  if (!date || date.getUTCDate() !== Number(match![3])) {
+    throw new CalculationError('calculators.error.date', { field: { key: field } });
+  }
+  return date;
+};
+
+export const toIsoDate = (date: Date): string => date.toISOString().substring(0, 10);
+
+export const addDays = (date: Date, days: number) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+
+/** Adds calendar months, clamping to the end of shorter months (31 Jan + 1 month = 28/29 Feb). */
+const addMonths = (date: Date, months: number) => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), Math.min(date.getUTCDate(), lastDay)));
+};
+
+const fullYearsBetween = (from: Date, to: Date) => {
+  const years = to.getUTCFullYear() - from.getUTCFullYear();
+  const beforeAnniversary = to.getUTCMonth() < from.getUTCMonth()
+    || (to.getUTCMonth() === from.getUTCMonth() && to.getUTCDate() < from.getUTCDate());
+  return beforeAnniversary ? years - 1 : years;
+};
+
+/** Easter Sunday (anonymous Gregorian algorithm). */
+const easterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+/** Norwegian public holidays (helligdager) that can fall on a weekday. */
+const publicHolidays = (year: number): Set<string> => {
+  const easter = easterSunday(year);
+  return new Set([
+    `${year}-01-01`,
+    `${year}-05-01`,
+    `${year}-05-17`,
+    `${year}-12-25`,
+    `${year}-12-26`,
+    ...[-3, -2, 1, 39, 50].map(offset => toIsoDate(addDays(easter, offset))),
+  ]);
+};
+
+export const isNonWorkingDay = (date: Date) =>
+  date.getUTCDay() === 0 || date.getUTCDay() === 6 || publicHolidays(date.getUTCFullYear()).has(toIsoDate(date));
+
+/** Julaften and nyttårsaften are working days, but deadlines do not end on them. */
+const isClosedForDeadlines = (date: Date) => isNonWorkingDay(date) || /-12-(24|31)$/.test(toIsoDate(date));
+
+/**
+ * Domstolloven §148: a deadline ending on a weekend, public holiday, julaften
+ * or nyttårsaften runs to the next working day.
+ */
+const legalDeadline = (date: Date): { date: string; movedFrom?: string } => {
+  let moved = date;
+  while (isClosedForDeadlines(moved)) moved = addDays(moved, 1);
+  return moved === date ? { date: toIsoDate(date) } : { date: toIsoDate(moved), movedFrom: toIsoDate(date) };
+};
+
+/** Statutory notice period in months under §15-3 (1) to (3). */
+const statutoryNoticeMonths = (tenureYears: number, age: number, givenBy: NoticeGivenBy): number => {
+  if (tenureYears < 5) return 1;
+  if (tenureYears < 10) return 2;
+  // The longer periods for older workers only bind the employer.
+  if (givenBy === 'employee') return 3;
+  if (age >= 60) return 6;
+  if (age >= 55) return 5;
+  if (age >= 50) return 4;
+  return 3;
+};
+
+export const calculateNoticeDeadlines = ({
+  employmentStart,
+  age,
+  noticeReceived,
+  givenBy = 'employer',
+  probation = false,
+  agreedMonths,
+}: NoticeInput): NoticeResult => {
+  const start = parseDate(employmentStart, 'calculators.employmentStart');
+  const received = parseDate(noticeReceived, 'calculators.noticeReceived');
+  if (received < start) throw new CalculationError('calculators.error.noticeBeforeStart');
+  if (typeof age !== 'number' || !Number.isFinite(age) || age < 13 || age > 100) {
+    throw new CalculationError('calculators.error.age');
+  }
+  if (agreedMonths !== undefined && (typeof agreedMonths !== 'number' || !Number.isInteger(agreedMonths) || agreedMonths < 0 || agreedMonths > 12)) {
+    throw new CalculationError('calculators.error.agreedMonths');
+  }
+
+  const tenureYears = fullYearsBetween(start, received);
+  const deadlines: Deadline[] = [];
+  let noticePeriod: NoticeResult['noticePeriod'];
+
+  if (probation) {
+    // §15-3 (7): 14 days during probation, counted from the day notice is given.
+    noticePeriod = { days: PROBATION_NOTICE_DAYS, legalBasis: 'Arbeidsmiljøloven §15-3 (7)' };
+    deadlines.push({
+      kind: 'lastWorkingDay',
+      date: toIsoDate(addDays(received, PROBATION_NOTICE_DAYS)),
+      title: { key: 'notice.lastWorkingDay' },
+      description: { key: 'notice.description.probation', params: { days: PROBATION_NOTICE_DAYS } },
+      legalBasis: noticePeriod.legalBasis,
+    });
+  } else {
+    const statutoryMonths = statutoryNoticeMonths(tenureYears, age, givenBy);
+    const months = Math.max(statutoryMonths, agreedMonths ?? 0);
+    noticePeriod = {
+      months,
+      legalBasis: months > statutoryMonths ? { key: 'notice.agreedBasis' } : 'Arbeidsmiljøloven §15-3',
+    };
+    // §15-3 (4): the period runs from the first day of the month after the notice.
+    const periodStart = new Date(Date.UTC(received.getUTCFullYear(), received.getUTCMonth() + 1, 1));
+    deadlines.push(
+      {
+        kind: 'noticeStart',
+        date: toIsoDate(periodStart),
+        title: { key: 'notice.noticeStart' },
+        description: { key: 'notice.description.noticeStart' },
+        legalBasis: 'Arbeidsmiljøloven §15-3 (4)',
+      },
+      {
+        kind: 'lastWorkingDay',
+        date: toIsoDate(addDays(addMonths(periodStart, months), -1)),
+        title: { key: 'notice.lastWorkingDay' },
+        description: {
+          key: givenBy === 'employer' && tenureYears >= 10 ? 'notice.description.lastWorkingDayAtAge' : 'notice.description.lastWorkingDay',
+          params: { period: { key: 'notice.months', params: { count: months } }, tenure: { key: 'notice.fullYears', params: { count: tenureYears } }, age },
+        },
+        legalBasis: noticePeriod.legalBasis,
+      },
+    );
+  }
+
+  if (givenBy === 'employer') {
+    const lawsuitBasis = 'Arbeidsmiljøloven §17-4';
+    deadlines.push(
+      {
+        kind: 'negotiationDemand',
+        ...legalDeadline(addDays(received, NEGOTIATION_DEMAND_DAYS)),
+        title: { key: 'notice.negotiationDemand' },
+        description: { key: 'notice.description.negotiationDemand' },
+        legalBasis: 'Arbeidsmiljøloven §17-3',
+      },
+      {
+        kind: 'lawsuit',
+        ...legalDeadline(addDays(received, LAWSUIT_WEEKS * 7)),
+        title: { key: 'notice.lawsuit' },
+        description: { key: 'notice.description.lawsuit' },
+        legalBasis: lawsuitBasis,
+      },
+      {
+        kind: 'lawsuitDamagesOnly',
+        ...legalDeadline(addMonths(received, LAWSUIT_DAMAGES_ONLY_MONTHS)),
+        title: { key: 'notice.lawsuitDamagesOnly' },
+        description: { key: 'notice.description.lawsuitDamagesOnly' },
+        legalBasis: lawsuitBasis,
+      },
+    );
+  }
+
+  deadlines.sort((a, b) => a.date.localeCompare(b.date));
+  return { tenureYears, noticePeriod, deadlines };
+};
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  calculateFinalHolidayPay, calculateHolidayPay, calculateOvertimePay, formatKroner, qualifiesForSeniorSupplement,
+} from './payCalculators';
+import { CalculationError } from './calculationError';
+import { createTranslator, localize } from '../i18n';
+
+// G is 130 160 from 1 May 2025, so 6 G is 780 960.
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-06-15T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('calculateHolidayPay', () => {
+  it('uses the statutory 10.2 % rate', () => {
+    const result = calculateHolidayPay({ basis: 500_000, rate: 10.2 });
+    expect(result.holidayPay).toBe(51_000);
+    expect(result.seniorSupplement).toBe(0);
+    expect(result.total).toBe(51_000);
+  });
+
+  it('uses the 12 % rate for five weeks of holiday', () => {
+    expect(calculateHolidayPay({ basis: 500_000, rate: 12 }).total).toBe(60_000);
+  });
+
+  it('rounds to whole øre', () => {
+    expect(calculateHolidayPay({ basis: 123_456.78, rate: 10.2 }).holidayPay).toBe(12_592.59);
+  });
+
+  it('adds 2.3 % for workers over 60', () => {
+    const result = calculateHolidayPay({ basis: 500_000, rate: 10.2, over60: true });
+    expect(result.seniorSupplement).toBe(11_500);
+    expect(result.total).toBe(62_500);
+  });
+
+  it('caps the senior supplement basis at 6 G', () => {
+    const result = calculateHolidayPay({ basis: 1_000_000, rate: 10.2, over60: true });
+    expect(result.holidayPay).toBe(102_000);
+    expect(result.seniorSupplement).toBe(17_962.08);
+    expect(result.total).toBe(119_962.08);
+  });
+
+  it('decides the senior supplement from the date of birth', () => {
+    expect(calculateHolidayPay({ basis: 500_000, rate: 10.2, birthDate: '1965-09-01', earningYear: 2024 }).seniorSupplement).toBe(11_500);
+    expect(calculateHolidayPay({ basis: 500_000, rate: 10.2, birthDate: '1965-09-02', earningYear: 2024, over60: true }).seniorSupplement).toBe(0);
+  });
+
+  it('rejects other rates', () => {
+    expect(() => calculateHolidayPay({ basis: 500_000, rate: 11 as 12 })).toThrow(RangeError);
+  });
+});
+
+describe('qualifiesForSeniorSupplement', () => {
+  it('counts turning 60 by 1 September of the year after the earning year', () => {
+    expect(qualifiesForSeniorSupplement('1965-09-01', 2024)).toBe(true);
+    expect(qualifiesForSeniorSupplement('1965-09-02', 2024)).toBe(false);
+    expect(qualifiesForSeniorSupplement('1964-12-31', 2024)).toBe(true);
+  });
+
+  it('does not count turning 60 during the earning year as too late', () => {
+    // Turns 60 in 2024, the earning year, so also by 1 September 2025.
+    expect(qualifiesForSeniorSupplement('1964-10-01', 2024)).toBe(true);
+  });
+
+  it('rejects invalid dates', () => {
+    expect(() => qualifiesForSeniorSupplement('1965-02-30', 2024)).toThrow(RangeError);
+  });
+});
+
+describe('calculateOvertimePay', () => {
+  it('counts hours above the daily limit', () => {
+    const result = calculateOvertimePay({ hourlyWage: 200, dailyHours: [10, 10, 8, 8] });
+    expect(result.dailyOvertimeHours).toBe(2);
+    expect(result.weeklyOvertimeHours).toBe(0);
+    expect(result.overtimeHours).toBe(2);
+    expect(result.ordinaryPay).toBe(6_800);
+    expect(result.overtimePay).toBe(560);
+    expect(result.total).toBe(7_360);
+  });
+
+  it('counts hours above the weekly limit', () => {
+    const result = calculateOvertimePay({ hourlyWage: 200, dailyHours: [8, 8, 8, 8, 8, 5] });
+    expect(result.dailyOvertimeHours).toBe(0);
+    expect(result.weeklyOvertimeHours).toBe(5);
+    expect(result.overtimeHours).toBe(5);
+  });
+
+  it('does not count hours twice when both limits are passed', () => {
+    const result = calculateOvertimePay({ hourlyWage: 200, dailyHours: [10, 10, 10, 10, 10] });
+    expect(result.dailyOvertimeHours).toBe(5);
+    expect(result.weeklyOvertimeHours).toBe(10);
+    expect(result.overtimeHours).toBe(10);
+    expect(result.ordinaryHours).toBe(40);
+  });
+
+  it('uses an agreed supplement and rejects one below 40 %', () => {
+    expect(calculateOvertimePay({ hourlyWage: 200, dailyHours: [10], supplementPercent: 50 }).overtimePay).toBe(300);
+    expect(() => calculateOvertimePay({ hourlyWage: 200, dailyHours: [10], supplementPercent: 30 })).toThrow(RangeError);
+  });
+
+  it('rejects more than seven days or more than 24 hours a day', () => {
+    expect(() => calculateOvertimePay({ hourlyWage: 200, dailyHours: [8, 8, 8, 8, 8, 8, 8, 8] })).toThrow(RangeError);
+    expect(() => calculateOvertimePay({ hourlyWage: 200, dailyHours: [25] })).toThrow(RangeError);
+  });
+});
+
+describe('calculateFinalHolidayPay', () => {
+  it('pays holiday pay on this year\'s earnings so far plus what is left from last year', () => {
+    const result = calculateFinalHolidayPay({
+      monthlySalary: 50_000,
+      monthsWorked: 6,
+      otherEarnings: 10_000,
+      unpaidFromLastYear: 20_000,
+      rate: 10.2,
+    });
+    expect(result.basis).toBe(310_000);
+    expect(result.currentYear.holidayPay).toBe(31_620);
+    expect(result.total).toBe(51_620);
+  });
+
+  it('is pro rata for part of a month', () => {
+    expect(calculateFinalHolidayPay({ monthlySalary: 40_000, monthsWorked: 2.5, rate: 12 }).total).toBe(12_000);
+  });
+
+  it('treats this year as the earning year for the senior supplement', () => {
+    // Ending employment in 2025: the holiday year is 2026.
+    expect(calculateFinalHolidayPay({ monthlySalary: 50_000, monthsWorked: 6, rate: 10.2, birthDate: '1966-09-01' }).currentYear.seniorSupplement).toBe(6_900);
+    expect(calculateFinalHolidayPay({ monthlySalary: 50_000, monthsWorked: 6, rate: 10.2, birthDate: '1966-09-02' }).currentYear.seniorSupplement).toBe(0);
+  });
+
+  it('rejects more than 12 months', () => {
+    expect(() => calculateFinalHolidayPay({ monthlySalary: 50_000, monthsWorked: 13, rate: 10.2 })).toThrow(RangeError);
+  });
+});
+
+describe('messages', () => {
+  const nb = createTranslator('nb');
+
+  it('names the invalid field in English and, for the UI, in any language', () => {
+    let error: unknown;
+    try {
+      calculateOvertimePay({ hourlyWage: 200, dailyHours: [8, -1] });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(CalculationError);
+    expect((error as CalculationError).message).toBe('Hours on day 2: enter a number of zero or more.');
+    expect(localize(nb, (error as CalculationError).detail)).toBe('Timer på dag 2: skriv inn et tall som er null eller mer.');
+  });
+
+  it('returns steps to translate', () => {
+    const { steps } = calculateFinalHolidayPay({ monthlySalary: 50_000, monthsWorked: 6, unpaidFromLastYear: 20_000, rate: 10.2 });
+    expect(steps.map(step => localize(nb, step))).toContain(`${formatKroner(50_000)} × 6 måneder = ${formatKroner(300_000)} opptjent i år`);
+    expect(localize(nb, steps[steps.length - 1])).toBe(`Utbetales på siste lønningsdag: ${formatKroner(50_600)}`);
+  });
+});
@@ -0,0 +1,263 @@
+// Deterministic pay calculations. The model is bad at arithmetic, so these are
+// used both by the calculator panel and as tools the model can call (see
+// services/tools.ts). All amounts are in NOK and rounded to whole øre.
+
+import { getGrunnbelop } from './grunnbelop';
+import { parseDate, toIsoDate } from './noticePeriod';
+import { CalculationError } from './calculationError';
+import type { LocalizedMessage, MessageKey } from '../i18n';
+
+/** Ferieloven §10: 10.2 % for the statutory holiday, 12 % when an agreement gives five weeks. */
+export type HolidayPayRate = 10.2 | 12;
+export const HOLIDAY_PAY_RATES: HolidayPayRate[] = [10.2, 12];
+
+/**
+ * Ferieloven §10 (3): extra percentage points for workers who turn 60 by
+ * 1 September of the holiday year, the year after the earning year.
+ */
+export const SENIOR_EXTRA_RATE = 2.3;
+const SENIOR_AGE = 60;
+
+/** The senior supplement is only paid on earnings up to 6 G. */
+const SENIOR_BASIS_CAP_G = 6;
+
+/** Arbeidsmiljøloven §10-6 (11): overtime pay is at least 40 % above the ordinary wage. */
+export const MIN_OVERTIME_SUPPLEMENT = 40;
+/** Arbeidsmiljøloven §10-4: normal working hours are at most 9 per day and 40 per week. */
+export const DAILY_HOURS_LIMIT = 9;
+export const WEEKLY_HOURS_LIMIT = 40;
+
+export const roundKroner = (amount: number): number => Math.round(amount * 100) / 100;
+
+const formatter = new Intl.NumberFormat('nb-NO', { style: 'currency', currency: 'NOK' });
+export const formatKroner = (amount: number): string => formatter.format(amount);
+
+/** `field` names the input in errors, usually by its label in the calculator panel. */
+export const requireAmount = (value: unknown, field: MessageKey | LocalizedMessage): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new CalculationError('calculators.error.amount', { field: typeof field === 'string' ? { key: field } : field });
+  }
+  return value;
+};
+
+const requireRate = (rate: unknown): HolidayPayRate => {
+  if (!HOLIDAY_PAY_RATES.includes(rate as HolidayPayRate)) {
+    throw new CalculationError('calculators.error.rate', { low: HOLIDAY_PAY_RATES[0], high: HOLIDAY_PAY_RATES[1] });
+  }
+  return rate as HolidayPayRate;
+};
+
+/** Whether a worker born on `birthDate` (YYYY-MM-DD) gets the senior supplement on holiday pay earned in `earningYear`. */
+export const qualifiesForSeniorSupplement = (birthDate: string, earningYear: number): boolean => {
+  const born = parseDate(birthDate, 'calculators.field.birthDate');
+  if (!Number.isInteger(earningYear)) throw new CalculationError('calculators.error.earningYear');
+  // Turning 60 on or before 1 September of the holiday year.
+  return toIsoDate(born) <= `${earningYear + 1 - SENIOR_AGE}-09-01`;
+};
+
+export interface HolidayPayInput {
+  /** Feriepengegrunnlaget: pay earned in the earning year (opptjeningsåret). */
+  basis: number;
+  rate: HolidayPayRate;
+  /** The worker turns 60 by 1 September of the holiday year, the year after the earning year. */
+  over60?: boolean;
+  /** Date of birth, YYYY-MM-DD. When given, decides the senior supplement instead of `over60`. */
+  birthDate?: string;
+  /** The year the basis was earned in. Defaults to last year, when holiday pay is usually paid for. */
+  earningYear?: number;
+}
+
+export interface HolidayPayResult {
+  basis: number;
+  rate: HolidayPayRate;
+  holidayPay: number;
+  seniorSupplement: number;
+  total: number;
+  /** The calculation, step by step, to show in the UI language. */
+  steps: LocalizedMessage[];
+}
+
+export const calculateHolidayPay = ({
+  basis,
+  rate,
+  over60 = false,
+  birthDate,
+  earningYear = new Date().getFullYear() - 1,
+}: HolidayPayInput): HolidayPayResult => {
+  basis = requireAmount(basis, 'calculators.basis');
+  rate = requireRate(rate);
+  if (birthDate !== undefined) over60 = qualifiesForSeniorSupplement(birthDate, earningYear);
+
+  const holidayPay = roundKroner(basis * rate / 100);
+  const steps: LocalizedMessage[] = [
+    { key: 'calculators.step.holidayPay', params: { basis: formatKroner(basis), rate, amount: formatKroner(holidayPay) } },
+  ];
+
+  let seniorSupplement = 0;
+  if (over60) {
+    const cap = SENIOR_BASIS_CAP_G * getGrunnbelop().amount;
+    const seniorBasis = Math.min(basis, cap);
+    seniorSupplement = roundKroner(seniorBasis * SENIOR_EXTRA_RATE / 100);
+    steps.push({
+      key: basis > cap ? 'calculators.step.seniorCapped' : 'calculators.step.senior',
+      params: { basis: formatKroner(seniorBasis), cap: formatKroner(cap), rate: SENIOR_EXTRA_RATE, amount: formatKroner(seniorSupplement), year: earningYear + 1 },
+    });
+  }
+
+  const total = roundKroner(holidayPay + seniorSupplement);
+  if (over60) steps.push({ key: 'calculators.step.total', params: { amount: formatKroner(total) } });
+  return { basis, rate, holidayPay, seniorSupplement, total, steps };
+};
+
+export interface OvertimeInput {
+  hourlyWage: number;
+  /** Hours worked on each day of one week, at most seven entries. */
+  dailyHours: number[];
+  /** Overtime supplement in percent, at least 40. */
+  supplementPercent?: number;
+  dailyLimit?: number;
+  weeklyLimit?: number;
+}
+
+export interface OvertimeResult {
+  totalHours: number;
+  ordinaryHours: number;
+  overtimeHours: number;
+  /** Hours above the daily limit, summed over the week. */
+  dailyOvertimeHours: number;
+  /** Hours above the weekly limit. */
+  weeklyOvertimeHours: number;
+  supplementPercent: number;
+  ordinaryPay: number;
+  overtimePay: number;
+  total: number;
+  steps: LocalizedMessage[];
+}
+
+/**
+ * Counts the hours above the daily and weekly limits and uses whichever is
+ * larger, so hours are never counted as overtime twice.
+ */
+export const calculateOvertimePay = ({
+  hourlyWage,
+  dailyHours,
+  supplementPercent = MIN_OVERTIME_SUPPLEMENT,
+  dailyLimit = DAILY_HOURS_LIMIT,
+  weeklyLimit = WEEKLY_HOURS_LIMIT,
+}: OvertimeInput): OvertimeResult => {
+  hourlyWage = requireAmount(hourlyWage, 'calculators.hourlyWage');
+  requireAmount(dailyLimit, 'calculators.field.dailyLimit');
+  requireAmount(weeklyLimit, 'calculators.field.weeklyLimit');
+  if (!Array.isArray(dailyHours) || dailyHours.length === 0 || dailyHours.length > 7) {
+    throw new CalculationError('calculators.error.days');
+  }
+  dailyHours.forEach((hours, index) => {
+    if (requireAmount(hours, { key: 'calculators.field.dayHours', params: { day: index + 1 } }) > 24) {
+      throw new CalculationError('calculators.error.dayHours', { day: index + 1 });
+    }
+  });
+  if (requireAmount(supplementPercent, 'calculators.supplement') < MIN_OVERTIME_SUPPLEMENT) {
+    throw new CalculationError('calculators.error.minSupplement', { min: MIN_OVERTIME_SUPPLEMENT });
+  }
+
+  const totalHours = dailyHours.reduce((sum, hours) => sum + hours, 0);
+  const dailyOvertimeHours = dailyHours.reduce((sum, hours) => sum + Math.max(0, hours - dailyLimit), 0);
+  const weeklyOvertimeHours = Math.max(0, totalHours - weeklyLimit);
+  const overtimeHours = Math.max(dailyOvertimeHours, weeklyOvertimeHours);
+  const ordinaryHours = totalHours - overtimeHours;
+
+  const overtimeWage = hourlyWage * (1 + supplementPercent / 100);
+  const ordinaryPay = roundKroner(ordinaryHours * hourlyWage);
+  const overtimePay = roundKroner(overtimeHours * overtimeWage);
+  const total = roundKroner(ordinaryPay + overtimePay);
+
+  return {
+    totalHours,
+    ordinaryHours,
+    overtimeHours,
+    dailyOvertimeHours,
+    weeklyOvertimeHours,
+    supplementPercent,
+    ordinaryPay,
+    overtimePay,
+    total,
+    steps: [
+      {
+        key: 'calculators.step.overtimeHours',
+        params: { dailyLimit, daily: dailyOvertimeHours, weeklyLimit, weekly: weeklyOvertimeHours, hours: overtimeHours },
+      },
+      { key: 'calculators.step.ordinaryPay', params: { hours: ordinaryHours, wage: formatKroner(hourlyWage), amount: formatKroner(ordinaryPay) } },
+      {
+        key: 'calculators.step.overtimePay',
+        params: { hours: overtimeHours, wage: formatKroner(overtimeWage), baseWage: formatKroner(hourlyWage), supplement: supplementPercent, amount: formatKroner(overtimePay) },
+      },
+      { key: 'calculators.step.total', params: { amount: formatKroner(total) } },
+    ],
+  };
+};
+
+export interface FinalHolidayPayInput {
+  monthlySalary: number;
+  /** Months worked in the current calendar year, up to the last working day. */
+  monthsWorked: number;
+  /** Other pay this year that counts towards holiday pay, e.g. overtime. */
+  otherEarnings?: number;
+  /** Holiday pay earned last year that has not been paid out yet. */
+  unpaidFromLastYear?: number;
+  rate: HolidayPayRate;
+  /** The worker turns 60 by 1 September next year. */
+  over60?: boolean;
+  /** Date of birth, YYYY-MM-DD. When given, decides the senior supplement instead of `over60`. */
+  birthDate?: string;
+}
+
+export interface FinalHolidayPayResult {
+  basis: number;
+  currentYear: HolidayPayResult;
+  unpaidFromLastYear: number;
+  total: number;
+  steps: LocalizedMessage[];
+}
+
+/**
+ * Ferieloven §11 (3): when employment ends, all earned holiday pay is paid out
+ * on the last ordinary pay day. This covers this year's earnings so far plus
+ * whatever is left from last year.
+ */
+export const calculateFinalHolidayPay = ({
+  monthlySalary,
+  monthsWorked,
+  otherEarnings = 0,
+  unpaidFromLastYear = 0,
+  rate,
+  over60,
+  birthDate,
+}: FinalHolidayPayInput): FinalHolidayPayResult => {
+  requireAmount(monthlySalary, 'calculators.monthlySalary');
+  if (requireAmount(monthsWorked, 'calculators.monthsWorked') > 12) {
+    throw new CalculationError('calculators.error.monthsWorked');
+  }
+  requireAmount(otherEarnings, 'calculators.otherEarnings');
+  requireAmount(unpaidFromLastYear, 'calculators.unpaidLastYear');
+
+  const basis = roundKroner(monthlySalary * monthsWorked + otherEarnings);
+  // This year's earnings are the basis for next year's holiday.
+  const currentYear = calculateHolidayPay({ basis, rate, over60, birthDate, earningYear: new Date().getFullYear() });
+  const total = roundKroner(currentYear.total + unpaidFromLastYear);
+
+  return {
+    basis,
+    currentYear,
+    unpaidFromLastYear,
+    total,
+    steps: [
+      {
+        key: otherEarnings ? 'calculators.step.earnedWithOther' : 'calculators.step.earned',
+        params: { salary: formatKroner(monthlySalary), months: monthsWorked, other: formatKroner(otherEarnings), basis: formatKroner(basis) },
+      },
+      ...currentYear.steps,
+      ...(unpaidFromLastYear ? [{ key: 'calculators.step.unpaidLastYear', params: { amount: formatKroner(unpaidFromLastYear) } } as const] : []),
+      { key: 'calculators.step.paidOut', params: { amount: formatKroner(total) } },
+    ],
+  };
+};
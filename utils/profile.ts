@@ -0,0 +1,52 @@
+import type { AgeBand, EmploymentType, Sector, TenureBand, UserProfile, YesNoUnknown } from '../types';
+
+// The profile is described to the model in English, like the rest of the instructions.
+const SECTORS: Record<Sector, string> = {
+  private: 'private sector',
+  municipal: 'municipal or county sector (kommune/fylkeskommune)',
+  state: 'state sector, where statsansatteloven applies',
+};
+
+const EMPLOYMENT_TYPES: Record<EmploymentType, string> = {
+  permanent: 'permanent employee (fast ansatt)',
+  temporary: 'temporary employee (midlertidig ansatt)',
+  hired: 'hired out through a staffing agency (innleid)',
+  onCall: 'on-call or casual worker (tilkallingsvikar)',
+};
+
+const TENURES: Record<TenureBand, string> = {
+  under1: 'less than 1 year',
+  '1to5': '1 to 5 years',
+  '5to10': '5 to 10 years',
+  '10plus': '10 years or more',
+};
+
+const AGE_BANDS: Record<AgeBand, string> = {
+  under18: 'under 18',
+  '18to49': '18 to 49',
+  '50to54': '50 to 54',
+  '55to59': '55 to 59',
+  '60to66': '60 to 66',
+  '67plus': '67 or older',
+};
+
+const YES_NO: Record<Exclude<YesNoUnknown, 'unknown'>, string> = { yes: 'yes', no: 'no' };
+
+const known = (value: YesNoUnknown | undefined) => value && value !== 'unknown' ? YES_NO[value] : undefined;
+
+/** The profile as "Label: value" lines, leaving out everything the user has not filled in. */
+export const describeProfile = (profile: UserProfile): string[] => {
+  const entries: [string, string | undefined][] = [
+    ['Sector', profile.sector && SECTORS[profile.sector]],
+    ['Employment', profile.employmentType && EMPLOYMENT_TYPES[profile.employmentType]],
+    ['Time with current employer', profile.tenure && TENURES[profile.tenure]],
+    ['Age', profile.ageBand && AGE_BANDS[profile.ageBand]],
+    ['Union member', known(profile.unionMember)],
+    ['Covered by a collective agreement (tariffavtale)', known(profile.tariffAgreement)],
+    ['Works on a residence permit tied to the job', known(profile.workPermit)],
+    ['Municipality', profile.municipality?.trim()],
+  ];
+  return entries.filter(([, value]) => !!value).map(([label, value]) => `${label}: ${value}`);
+};
+
+export const isProfileEmpty = (profile: UserProfile): boolean => describeProfile(profile).length === 0;
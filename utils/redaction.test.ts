@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createRedactor, DEFAULT_REDACTION_SETTINGS, findPersonalData, isValidNationalId } from './redaction';
+import type { RedactionSettings } from '../types';
+
+const WITH_NAMES: RedactionSettings = { ...DEFAULT_REDACTION_SETTINGS, detectNames: true };
+
+const redact = (text: string, settings: RedactionSettings = DEFAULT_REDACTION_SETTINGS) => createRedactor(settings).redact(text);
+const kinds = (text: string, settings: RedactionSettings = DEFAULT_REDACTION_SETTINGS) =>
+  findPersonalData(text, settings).map(match => `${match.kind}:${match.value}`);
+
+describe('name cues', () => {
+  it('only takes the capitalized words after a cue', () => {
+    expect(redact('My name is John and I work as a nurse. My manager said I was fired.', WITH_NAMES))
+      .toBe('My name is [PERSON_1] and I work as a nurse. My manager said I was fired.');
+  });
+
+  it('takes up to three capitalized words', () => {
+    expect(kinds('Sjefen min Kari Anne Nordmann sa opp meg.', WITH_NAMES)).toEqual(['name:Kari Anne Nordmann']);
+    expect(kinds('Jeg heter Ola Nordmann og jobber i butikk.', WITH_NAMES)).toEqual(['name:Ola Nordmann']);
+  });
+
+  it('matches the cue in any case', () => {
+    expect(kinds('MY BOSS Hilde says no.', WITH_NAMES)).toEqual(['name:Hilde']);
+  });
+
+  it('ignores cues inside other words and cues followed by lowercase words', () => {
+    expect(kinds('He recalled Monday and called back later.', WITH_NAMES)).toEqual([]);
+    expect(kinds('Mitt navn er ikke viktig.', WITH_NAMES)).toEqual([]);
+  });
+
+  it('finds a common first name followed by a capitalized word', () => {
+    expect(kinds('I spoke to Marit Hansen yesterday.', WITH_NAMES)).toEqual(['name:Marit Hansen']);
+    expect(kinds('I work at Oslo Kommune.', WITH_NAMES)).toEqual([]);
+  });
+
+  it('guesses no names unless turned on', () => {
+    expect(kinds('My name is John.')).toEqual([]);
+  });
+});
+
+describe('fødselsnummer', () => {
+  it('checks both control digits', () => {
+    expect(isValidNationalId('01019010046')).toBe(true);
+    expect(isValidNationalId('01019010047')).toBe(false);
+    expect(isValidNationalId('01019010056')).toBe(false);
+  });
+
+  it('leaves other eleven-digit numbers alone', () => {
+    expect(kinds('My fødselsnummer is 010190 10046.')).toEqual(['nationalId:010190 10046']);
+    expect(kinds('Order number 12345678901 was sent.')).toEqual([]);
+    expect(kinds('The case is 01019010047.')).toEqual([]);
+  });
+
+  it('tells account numbers from fødselsnummer', () => {
+    expect(kinds('Pay to 15034200006.')).toEqual(['account:15034200006']);
+    expect(kinds('Pay to 1503.42.00006.')).toEqual(['account:1503.42.00006']);
+  });
+});
+
+describe('phone numbers', () => {
+  it('finds Norwegian and foreign numbers', () => {
+    expect(kinds('Call me on 912 34 567 or +47 91234567.')).toEqual(['phone:912 34 567', 'phone:+47 91234567']);
+    expect(kinds('My Polish number is +48 600 123 456.')).toEqual(['phone:+48 600 123 456']);
+  });
+
+  it('does not mistake amounts, dates or short numbers for phone numbers', () => {
+    expect(kinds('The company owes 45 000 000 kr in wages.')).toEqual([]);
+    expect(kinds('I earn 45000000,- a year, or 550 000 NOK.')).toEqual([]);
+    expect(kinds('The bonus was 12 345,50 and overtime 1 234 567.')).toEqual([]);
+    expect(kinds('Employed from 01.02.2019 to 31.12.2024.')).toEqual([]);
+    expect(kinds('My employee number is 1234567.')).toEqual([]);
+  });
+
+  it('does not start with 0 or 1', () => {
+    expect(kinds('Reference 12345678.')).toEqual([]);
+  });
+});
+
+describe('createRedactor', () => {
+  it('reuses tokens and restores them', () => {
+    const redactor = createRedactor(DEFAULT_REDACTION_SETTINGS);
+    const redacted = redactor.redact('Call 912 34 567. Again: 91234567. Mail ola@example.no.');
+    expect(redacted).toBe('Call [PHONE_1]. Again: [PHONE_1]. Mail [EMAIL_1].');
+    expect(redactor.restore('Ring [PHONE_1] or write to [[EMAIL_1]].')).toBe('Ring 912 34 567 or write to ola@example.no.');
+  });
+});
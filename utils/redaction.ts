@@ -0,0 +1,196 @@
+import type { AiResponseData, RedactionSettings } from '../types';
+
+// Finds personal data in text before it is sent to a model and replaces it with
+// tokens such as [PHONE_1]. The same value always gets the same token, so the
+// model can still tell that two mentions are the same person or number, and the
+// tokens in its answer are put back locally.
+
+export type PiiKind = 'nationalId' | 'account' | 'phone' | 'email' | 'address' | 'name' | 'custom';
+
+export interface PiiMatch {
+  kind: PiiKind;
+  start: number;
+  end: number;
+  value: string;
+}
+
+const TOKEN_PREFIXES: Record<PiiKind, string> = {
+  nationalId: 'ID',
+  account: 'ACCOUNT',
+  phone: 'PHONE',
+  email: 'EMAIL',
+  address: 'ADDRESS',
+  name: 'PERSON',
+  custom: 'PRIVATE',
+};
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = { enabled: true, detectNames: false, customTerms: [] };
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+/** Modulus 11 control digit, or null when the weights give 10 and no digit is valid. */
+const mod11 = (digits: string, weights: number[]): number | null => {
+  const sum = weights.reduce((total, weight, index) => total + weight * Number(digits[index]), 0);
+  const control = (11 - (sum % 11)) % 11;
+  return control === 10 ? null : control;
+};
+
+/** Fødselsnummer and D-number: two modulus 11 control digits. */
+export const isValidNationalId = (value: string): boolean => {
+  const digits = digitsOf(value);
+  return digits.length === 11
+    && mod11(digits, [3, 7, 6, 1, 8, 9, 4, 5, 2]) === Number(digits[9])
+    && mod11(digits, [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]) === Number(digits[10]);
+};
+
+/** Norwegian bank account number: one modulus 11 control digit. */
+export const isValidAccountNumber = (value: string): boolean => {
+  const digits = digitsOf(value);
+  return digits.length === 11 && mod11(digits, [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]) === Number(digits[10]);
+};
+
+const ELEVEN_DIGITS = /(?<!\d|\d\.)\d{6} ?\d{5}(?!\d|\.\d)/g;
+// Accounts are usually written 1234.56.78901 or 1234 56 78901.
+const FORMATTED_ACCOUNT = /(?<!\d)\d{4}([. ])\d{2}\1\d{5}(?!\d)/g;
+// Norwegian numbers have eight digits starting with 2 to 9, grouped by spaces;
+// foreign numbers need their country code. Amounts such as "45 000 000 kr" are skipped.
+const PHONE = /(?<![\d+.-])(?:(?:\+|00)47 ?)?[2-9]\d(?: ?\d){6}(?![\d.,-]?\d)(?! ?(?:kr|nok|,-))|(?<![\d+])\+(?!47)\d{1,3}(?:[ -]?\d){6,11}(?!\d)/gi;
+const EMAIL = /[\p{L}\d._%+-]+@[\p{L}\d-]+(?:\.[\p{L}\d-]+)+/gu;
+
+const CAPITALIZED = '\\p{Lu}[\\p{Ll}\'’-]+';
+const STREET_SUFFIX = '(?:gata|gaten|gate|gt\\.|veien|vegen|vei|veg|vn\\.|allé|alle|plassen|plass|stien|sti|bakken|torget|brygge|terrasse|ringen)';
+// "Storgata 12B", "Karl Johans gate 22, 0162 Oslo".
+const ADDRESS = new RegExp(
+  `(?<!\\p{L})(?:(?:${CAPITALIZED} ){1,2}${STREET_SUFFIX}|\\p{Lu}\\p{Ll}+${STREET_SUFFIX}) \\d{1,4} ?[A-Za-z]?(?!\\p{L})(?:,? \\d{4} ${CAPITALIZED}(?: ${CAPITALIZED})?)?`,
+  'gu',
+);
+
+// Names are only guessed from phrases that introduce someone, or from a common
+// first name followed by a capitalized word, to keep false positives down.
+// The cue is matched in any case, the name after it only when capitalized: with
+// the i flag, \p{Lu} would match lowercase words too.
+const NAME_CUE = /(?<!\p{L})(?:jeg heter|eg heiter|mitt navn er|mitt namn er|my name is|i am called|i'm called|named|called|sjefen min|lederen min|leiaren min|kollegaen min|my (?:boss|manager|supervisor|colleague)|nazywam się|mój szef|mano vardas|mano vadovas|мене звати|мій керівник) /giu;
+const CUED_NAME = new RegExp(`${CAPITALIZED}(?: ${CAPITALIZED}){0,2}`, 'uy');
+
+const FIRST_NAMES = new Set([
+  'ola', 'kari', 'per', 'pål', 'espen', 'jan', 'lars', 'hans', 'ole', 'knut', 'arne', 'bjørn', 'thomas', 'martin', 'anders',
+  'erik', 'kristian', 'morten', 'geir', 'terje', 'rune', 'trond', 'jon', 'tor', 'odd', 'john', 'jonas', 'magnus', 'henrik',
+  'emil', 'filip', 'jakob', 'william', 'oskar', 'mathias', 'sander', 'andreas', 'daniel', 'stian', 'marius', 'eirik', 'even',
+  'anne', 'inger', 'marit', 'liv', 'ingrid', 'eva', 'berit', 'astrid', 'bjørg', 'hilde', 'anna', 'solveig', 'randi', 'marianne',
+  'nina', 'silje', 'ida', 'hanne', 'camilla', 'tone', 'elin', 'heidi', 'kristin', 'maria', 'nora', 'emma', 'sara', 'ingeborg',
+  'sofie', 'thea', 'emilie', 'julie', 'ingvild', 'linn', 'mona', 'guro', 'siri', 'tonje', 'karin', 'lise', 'wenche', 'gunn',
+  'piotr', 'krzysztof', 'tomasz', 'paweł', 'michał', 'marcin', 'grzegorz', 'katarzyna', 'małgorzata', 'agnieszka', 'joanna',
+  'magdalena', 'ewa', 'barbara', 'tomas', 'mantas', 'darius', 'vytautas', 'rasa', 'ieva', 'jurgita', 'lina', 'inga',
+  'олександр', 'андрій', 'сергій', 'іван', 'олена', 'наталія', 'ірина', 'тетяна', 'оксана', 'юлія',
+  'mohammed', 'muhammad', 'ali', 'ahmed', 'fatima', 'aisha', 'omar', 'hassan', 'abdi',
+]);
+
+const FULL_NAME = new RegExp(`(?<!\\p{L})(${CAPITALIZED})((?: ${CAPITALIZED}){1,2})(?!\\p{L})`, 'gu');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const collect = (text: string, pattern: RegExp, kind: PiiKind, accept: (value: string) => boolean = () => true): PiiMatch[] =>
+  Array.from(text.matchAll(pattern))
+    .filter(match => accept(match[0]))
+    .map(match => ({ kind, start: match.index, end: match.index + match[0].length, value: match[0] }));
+
+const findNames = (text: string): PiiMatch[] => [
+  ...Array.from(text.matchAll(NAME_CUE)).flatMap(cue => {
+    CUED_NAME.lastIndex = cue.index + cue[0].length;
+    const name = CUED_NAME.exec(text);
+    return name ? [{ kind: 'name' as const, start: name.index, end: name.index + name[0].length, value: name[0] }] : [];
+  }),
+  ...collect(text, FULL_NAME, 'name', value => FIRST_NAMES.has(value.split(' ')[0].toLowerCase())),
+];
+
+/** Personal data in `text`, in order. Where matches overlap, the earlier and then the longer one wins. */
+export const findPersonalData = (text: string, { detectNames, customTerms }: RedactionSettings): PiiMatch[] => {
+  const terms = customTerms.map(term => term.trim()).filter(Boolean);
+  const candidates = [
+    ...terms.length > 0
+      ? collect(text, new RegExp(`(?<![\\p{L}\\d])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\d])`, 'giu'), 'custom')
+      : [],
+    ...collect(text, ELEVEN_DIGITS, 'nationalId', isValidNationalId),
+    ...collect(text, ELEVEN_DIGITS, 'account', value => !isValidNationalId(value) && isValidAccountNumber(value)),
+    ...collect(text, FORMATTED_ACCOUNT, 'account'),
+    ...collect(text, EMAIL, 'email'),
+    ...collect(text, PHONE, 'phone'),
+    ...collect(text, ADDRESS, 'address'),
+    ...detectNames ? findNames(text) : [],
+  ];
+  candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const matches: PiiMatch[] = [];
+  for (const candidate of candidates) {
+    const previous = matches[matches.length - 1];
+    if (!previous || candidate.start >= previous.end) matches.push(candidate);
+  }
+  return matches;
+};
+
+const kindOfToken = (token: string): PiiKind | undefined =>
+  (Object.keys(TOKEN_PREFIXES) as PiiKind[]).find(kind => token.startsWith(`[${TOKEN_PREFIXES[kind]}_`));
+
+/** Values that only differ in spacing or case get the same token. */
+const normalize = (kind: PiiKind, value: string): string => {
+  if (kind === 'phone') return digitsOf(value).slice(-8);
+  if (kind === 'nationalId' || kind === 'account') return digitsOf(value);
+  return value.toLowerCase().replace(/\s+/g, ' ');
+};
+
+// The model sometimes doubles the brackets, as in the [[Label]] placeholders of letter drafts.
+const TOKEN = /\[\[?([A-Z]+_\d+)\]\]?/g;
+
+export interface Redactor {
+  /** Replaces personal data with tokens, reusing the tokens of values seen before. */
+  redact: (text: string) => string;
+  /** Puts the original values back in place of known tokens. */
+  restore: (text: string) => string;
+  /** Token → original value, for everything redacted so far. Stored with the chat. */
+  readonly replacements: Record<string, string>;
+}
+
+export const createRedactor = (settings: RedactionSettings, initial: Record<string, string> = {}): Redactor => {
+  const replacements = { ...initial };
+
+  const tokenFor = ({ kind, value }: PiiMatch): string => {
+    const key = normalize(kind, value);
+    const existing = Object.keys(replacements).find(token => kindOfToken(token) === kind && normalize(kind, replacements[token]) === key);
+    if (existing) return existing;
+    const count = Object.keys(replacements).filter(token => kindOfToken(token) === kind).length;
+    const token = `[${TOKEN_PREFIXES[kind]}_${count + 1}]`;
+    replacements[token] = value;
+    return token;
+  };
+
+  return {
+    redact: text => {
+      let result = '';
+      let last = 0;
+      for (const match of findPersonalData(text, settings)) {
+        result += text.substring(last, match.start) + tokenFor(match);
+        last = match.end;
+      }
+      return result + text.substring(last);
+    },
+    restore: text => text.replace(TOKEN, (whole, name: string) => replacements[`[${name}]`] ?? whole),
+    replacements,
+  };
+};
+
+/** Puts the redacted personal data back into everything the model wrote in an answer. */
+export const restoreAdvice = (data: AiResponseData, redactor?: Redactor): AiResponseData => {
+  if (!redactor) return data;
+  const restoreAll = (texts?: string[]) => texts?.map(redactor.restore);
+  return {
+    ...data,
+    answer: redactor.restore(data.answer),
+    relatedTopics: restoreAll(data.relatedTopics),
+    followUpQuestions: restoreAll(data.followUpQuestions),
+    clarifyingQuestions: restoreAll(data.clarifyingQuestions),
+    assumptions: restoreAll(data.assumptions),
+  };
+};
+
+/** System instruction for requests whose text has been redacted. */
+export const REDACTION_INSTRUCTION = 'Personal details in the user\'s text have been replaced with tokens such as [PERSON_1] or [PHONE_1]. Write the tokens exactly as they are when you refer to those details, and never guess what they stand for.';
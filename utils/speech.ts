@@ -0,0 +1,105 @@
+// Turns model answers into text that reads well aloud, and picks voices for it.
+import { parseMarkdown } from './markdown';
+import type { BlockNode, InlineNode, ListBlock } from './markdown';
+
+const inlineToText = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'break':
+        return ' ';
+      default:
+        return inlineToText(node.children);
+    }
+  }).join('');
+
+/** Ends a line with a full stop unless it already ends a sentence, so list items and headings get a pause. */
+const asSentence = (text: string): string => {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return !trimmed || /[.!?:;…]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+};
+
+const listToText = (list: ListBlock): string[] =>
+  list.items.flatMap(item => [asSentence(inlineToText(item.children)), ...(item.sublist ? listToText(item.sublist) : [])]);
+
+const blockToText = (block: BlockNode): string[] => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return [asSentence(inlineToText(block.children))];
+    case 'list':
+      return listToText(block);
+    case 'blockquote':
+      return block.children.flatMap(blockToText);
+    case 'table':
+      // Read each row as "header: value" pairs; a bare grid of cells is meaningless aloud.
+      return block.rows.map(row => asSentence(row
+        .map((cell, column) => `${inlineToText(block.header[column])}: ${inlineToText(cell)}`)
+        .join(', ')));
+    case 'code':
+    case 'hr':
+      return [];
+  }
+};
+
+/** The answer as plain sentences, without Markdown syntax, link targets or code blocks. */
+export const markdownToSpeech = (markdown: string): string =>
+  parseMarkdown(markdown).flatMap(blockToText).filter(Boolean).join(' ');
+
+/**
+ * Splits text into sentences. Each one is spoken as its own utterance, which
+ * lets the UI highlight it and avoids browsers cutting off long utterances.
+ */
+export const splitSentences = (text: string, languageTag: string): string[] => {
+  const segmenter = new Intl.Segmenter(languageTag, { granularity: 'sentence' });
+  const sentences: string[] = [];
+  for (const { segment } of segmenter.segment(text)) {
+    const sentence = segment.trim();
+    if (!sentence) continue;
+    // Abbreviations such as "jf. aml. § 15-4" end in a full stop without ending the sentence.
+    if (sentences.length > 0 && /^[\p{Ll}§]/u.test(sentence)) {
+      sentences[sentences.length - 1] += ` ${sentence}`;
+    } else {
+      sentences.push(sentence);
+    }
+  }
+  return sentences;
+};
+
+/** The language part of a tag, with all Norwegian variants grouped since voices use nb, nn and no interchangeably. */
+export const getVoiceLanguage = (languageTag: string): string => {
+  const primary = languageTag.toLowerCase().split(/[-_]/)[0];
+  return primary === 'nb' || primary === 'nn' || primary === 'no' ? 'no' : primary;
+};
+
+/** Voices that can read `languageTag`, local voices first. */
+export const getVoicesFor = (voices: SpeechSynthesisVoice[], languageTag: string): SpeechSynthesisVoice[] => {
+  const language = getVoiceLanguage(languageTag);
+  return voices
+    .filter(voice => getVoiceLanguage(voice.lang) === language)
+    .sort((a, b) => Number(b.localService) - Number(a.localService));
+};
+
+/** The chosen voice if it can read `languageTag`, otherwise the best match, or null to leave it to the browser. */
+export const pickVoice = (voices: SpeechSynthesisVoice[], languageTag: string, voiceURI?: string): SpeechSynthesisVoice | null => {
+  const candidates = getVoicesFor(voices, languageTag);
+  return candidates.find(voice => voice.voiceURI === voiceURI)
+    ?? candidates.find(voice => voice.lang.toLowerCase() === languageTag.toLowerCase())
+    ?? candidates[0]
+    ?? null;
+};
+
+const normalizeWords = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Whether speech heard during playback is the user interrupting rather than the
+ * microphone picking up the answer being read. Speech that repeats a stretch
+ * of the answer word for word is treated as echo.
+ */
+export const isBargeIn = (transcript: string, spokenText: string): boolean => {
+  const heard = normalizeWords(transcript);
+  if (heard.split(' ').length < 2) return false;
+  return !normalizeWords(spokenText).includes(heard);
+};